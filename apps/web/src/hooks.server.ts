@@ -3,6 +3,8 @@ import { W3CTraceContextPropagator } from "@opentelemetry/core";
 import { getLogger, instrumentFetch } from "@packages/otel-server";
 import type { Handle } from "@sveltejs/kit";
 import { startScheduler } from "$lib/server/scheduler";
+import { loadPluginRunners, migrateToContentStore } from "$lib/server/runner";
+import { getRunnerConfig } from "$lib/server/config";
 
 const tracer = trace.getTracer("sveltekit");
 const propagator = new W3CTraceContextPropagator();
@@ -11,7 +13,7 @@ const logger = getLogger();
 // Instrument global fetch for HTTP client logging
 instrumentFetch();
 
-// Start scheduler once on server startup (prevent multiple starts during hot reload)
+// Load runner plugins and start scheduler once on server startup (prevent multiple starts during hot reload)
 declare global {
   // eslint-disable-next-line no-var
   var __schedulerInitialized: boolean | undefined;
@@ -19,9 +21,20 @@ declare global {
 
 if (!globalThis.__schedulerInitialized) {
   globalThis.__schedulerInitialized = true;
-  startScheduler().catch((err) => {
-    logger.error({ err }, "Failed to start scheduler");
-  });
+  const runnerConfig = getRunnerConfig();
+  // Plugins are registered first so runs of plugin sources find their runner,
+  // and libraries from before the content store are converted before new images arrive.
+  // A failed conversion is retried on the next start and must not keep the scheduler down.
+  loadPluginRunners(runnerConfig.pluginsDir)
+    .then(() =>
+      migrateToContentStore(runnerConfig.imageDir, runnerConfig.linkFallback).catch((err) => {
+        logger.error({ err }, "Failed to convert image library to the content store");
+      })
+    )
+    .then(() => startScheduler())
+    .catch((err) => {
+      logger.error({ err }, "Failed to start scheduler");
+    });
 }
 
 /**
@@ -26,6 +26,10 @@ export interface ImageModalData {
   author?: string;
   /** Author profile URL */
   authorUrl?: string;
+  /** Copyright or credit line */
+  copyright?: string;
+  /** License name */
+  license?: string;
   /** Source name (e.g., subreddit name) */
   sourceName?: string;
   /** URL to the original source page */
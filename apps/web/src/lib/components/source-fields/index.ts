@@ -0,0 +1,38 @@
+import type { Component } from 'svelte';
+import type { SuperForm } from 'sveltekit-superforms';
+import { Puzzle } from 'lucide-svelte';
+import { SOURCE_KIND_DEFINITIONS, type SourceFormData, type SourceKind } from '$lib/schemas/source';
+import PluginParamsFields from './plugin-params-fields.svelte';
+
+/**
+ * Form UI for one source kind
+ */
+export interface SourceFieldsEntry<K extends SourceKind = SourceKind> {
+	/** Kind-specific fields, rendered inside the source form */
+	fields: Component<{ superform: SuperForm<Extract<SourceFormData, { kind: K }>> }>;
+	/** Icon shown when choosing the kind of a new source */
+	icon: Component<{ class?: string }>;
+}
+
+// A <kind>-source-fields.svelte module: the fields as default export, and its icon
+interface SourceFieldsModule {
+	default: Component<any>;
+	icon: Component<{ class?: string }>;
+}
+
+const fieldModules = import.meta.glob<SourceFieldsModule>('./*-source-fields.svelte', { eager: true });
+
+// Form UI of every source kind in SOURCE_KIND_DEFINITIONS, from the fields component named after
+// the kind (underscores become dashes, e.g. local_folder -> local-folder-source-fields.svelte)
+export const SOURCE_FIELDS = Object.fromEntries(
+	SOURCE_KIND_DEFINITIONS.map(({ kind }) => {
+		const module = fieldModules[`./${kind.replaceAll('_', '-')}-source-fields.svelte`];
+		if (!module) {
+			throw new Error(`No form fields for source kind: ${kind}`);
+		}
+		return [kind, { fields: module.default, icon: module.icon }];
+	})
+) as { [K in SourceKind]: SourceFieldsEntry<K> };
+
+// Form UI of kinds added by runner plugins: their params as JSON
+export const PLUGIN_SOURCE_FIELDS = { fields: PluginParamsFields, icon: Puzzle };
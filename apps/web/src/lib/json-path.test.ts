@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { parseJsonPath, getJsonPath, isValidJsonPath } from "./json-path";
+
+describe("parseJsonPath", () => {
+  it("should parse dot paths", () => {
+    expect(parseJsonPath("data.items")).toEqual(["data", "items"]);
+  });
+
+  it("should parse JSONPath root and brackets", () => {
+    expect(parseJsonPath("$.data.items")).toEqual(["data", "items"]);
+    expect(parseJsonPath("$['data'][\"items\"]")).toEqual(["data", "items"]);
+    expect(parseJsonPath("images[0].url")).toEqual(["images", 0, "url"]);
+  });
+
+  it("should return no segments for the root", () => {
+    expect(parseJsonPath("")).toEqual([]);
+    expect(parseJsonPath("$")).toEqual([]);
+  });
+
+  it("should reject wildcards and malformed paths", () => {
+    expect(() => parseJsonPath("items[*].url")).toThrow("wildcards");
+    expect(() => parseJsonPath("data..items")).toThrow("empty property name");
+    expect(() => parseJsonPath("items[abc]")).toThrow();
+    expect(() => parseJsonPath("items[0")).toThrow("missing ]");
+  });
+});
+
+describe("isValidJsonPath", () => {
+  it("should report whether a path parses", () => {
+    expect(isValidJsonPath("urls.full")).toBe(true);
+    expect(isValidJsonPath("urls.*")).toBe(false);
+  });
+});
+
+describe("getJsonPath", () => {
+  const body = { data: { items: [{ id: 1, urls: { full: "https://example.com/1.jpg" } }] } };
+
+  it("should read nested values", () => {
+    expect(getJsonPath(body, "data.items[0].urls.full")).toBe("https://example.com/1.jpg");
+    expect(getJsonPath(body, "$")).toBe(body);
+  });
+
+  it("should return undefined for missing segments", () => {
+    expect(getJsonPath(body, "data.items[1].urls.full")).toBeUndefined();
+    expect(getJsonPath(body, "data.items[0].id.value")).toBeUndefined();
+  });
+});
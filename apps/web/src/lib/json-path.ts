@@ -0,0 +1,83 @@
+/**
+ * Minimal JSONPath / dot-path support for field mappings.
+ *
+ * Supported syntax:
+ * - dot paths: `data.items`, `urls.full`
+ * - JSONPath root and brackets: `$.data.items`, `$['data']['items']`, `images[0].url`
+ * - empty path or `$`: the value itself
+ *
+ * Wildcards, filters and recursive descent are not supported.
+ */
+
+/**
+ * Split a path into property names and array indexes
+ * @throws Error if the path contains unsupported syntax
+ */
+export function parseJsonPath(path: string): Array<string | number> {
+  let rest = path.trim();
+  if (rest.startsWith("$")) rest = rest.slice(1);
+
+  const invalid = (reason: string) => new Error(`Invalid path "${path}": ${reason}`);
+  const segments: Array<string | number> = [];
+  let pos = 0;
+
+  while (pos < rest.length) {
+    if (rest[pos] === "[") {
+      const close = rest.indexOf("]", pos);
+      if (close === -1) throw invalid("missing ]");
+
+      const inner = rest.slice(pos + 1, close).trim();
+      if (/^\d+$/.test(inner)) {
+        segments.push(Number(inner));
+      } else if (/^(["']).*\1$/.test(inner)) {
+        segments.push(inner.slice(1, -1));
+      } else if (inner === "*" || inner.startsWith("?")) {
+        throw invalid("wildcards and filters are not supported");
+      } else {
+        throw invalid(`unexpected [${inner}]`);
+      }
+      pos = close + 1;
+      continue;
+    }
+
+    // Property name, preceded by a dot except at the very start
+    if (rest[pos] === ".") {
+      pos++;
+    } else if (segments.length > 0) {
+      throw invalid(`expected . or [ at position ${pos}`);
+    }
+
+    const match = /^[^.[\]]+/.exec(rest.slice(pos));
+    if (!match) throw invalid("empty property name");
+    const key = match[0].trim();
+    if (key === "*") throw invalid("wildcards and filters are not supported");
+    segments.push(key);
+    pos += match[0].length;
+  }
+
+  return segments;
+}
+
+/**
+ * Check whether a path can be parsed
+ */
+export function isValidJsonPath(path: string): boolean {
+  try {
+    parseJsonPath(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the value at a path, or undefined if any segment is missing
+ */
+export function getJsonPath(value: unknown, path: string): unknown {
+  let current: unknown = value;
+  for (const segment of parseJsonPath(path)) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+/** How device folders get a stored image when the filesystem can't hardlink it */
+export const LINK_FALLBACKS = ["copy", "symlink"] as const;
+
+export type LinkFallback = (typeof LINK_FALLBACKS)[number];
+
+export const LINK_FALLBACK_OPTIONS: { value: LinkFallback; label: string }[] = [
+  { value: "copy", label: "Copy the file" },
+  { value: "symlink", label: "Symlink to the store" },
+];
+
+export const linkFallbackSchema = z.enum(LINK_FALLBACKS).default("copy");
@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+/** What to do with a new download that looks like an image we already have */
+export const NEAR_DUPLICATE_ACTIONS = ["skip", "keep-larger", "off"] as const;
+
+export type NearDuplicateAction = (typeof NEAR_DUPLICATE_ACTIONS)[number];
+
+export const NEAR_DUPLICATE_ACTION_OPTIONS: { value: NearDuplicateAction; label: string }[] = [
+  { value: "skip", label: "Skip the new download" },
+  { value: "keep-larger", label: "Keep the higher-resolution copy" },
+  { value: "off", label: "Keep both (resolve by hand)" },
+];
+
+export const nearDuplicateActionSchema = z.enum(NEAR_DUPLICATE_ACTIONS).default("skip");
@@ -0,0 +1,482 @@
+import { describe, it, expect } from "vitest";
+import {
+  redditSourceSchema,
+  wallhavenSourceSchema,
+  localFolderSourceSchema,
+  feedSourceSchema,
+  booruSourceSchema,
+  customJsonSourceSchema,
+  bingSourceSchema,
+  apodSourceSchema,
+  customJsonSourceKind,
+  formDataToDbSource,
+  dbSourceToFormData,
+  pluginSourceSchema,
+  pluginFormDataToDbSource,
+  dbSourceToPluginFormData,
+  getDefaultPluginSourceFormData,
+  getDefaultSourceFormData,
+  getSourceKindDefinition,
+  getParamsError,
+  describeSourceTarget,
+  isSourceKind,
+  feedParamsSchema,
+  mastodonParamsSchema,
+  wallhavenParamsSchema,
+  SOURCE_KIND_DEFINITIONS,
+  SOURCE_KINDS,
+  type CustomJsonSourceFormData,
+} from "./source";
+
+// Form values (besides the defaults) of a valid source of each kind
+const VALID_FORM_VALUES: Record<string, Record<string, unknown>> = {
+  reddit: { subreddit: "/r/wallpapers" },
+  local_folder: { path: "/srv/wallpapers" },
+  feed: { url: "https://example.com/feed.xml" },
+  custom_json: {
+    url: "https://example.com/api",
+    fields: { ...customJsonSourceKind.defaults().fields, downloadUrl: "urls.full" },
+  },
+  mastodon: { instanceUrl: "https://mastodon.social", hashtag: "wallpaper" },
+  lemmy: { community: "wallpapers@lemmy.world" },
+};
+
+describe("isSourceKind", () => {
+  it("should accept known kinds", () => {
+    expect(isSourceKind("reddit")).toBe(true);
+    expect(isSourceKind("wallhaven")).toBe(true);
+  });
+
+  it("should reject unknown kinds", () => {
+    expect(isSourceKind("flickr")).toBe(false);
+    expect(isSourceKind(null)).toBe(false);
+  });
+});
+
+describe("source kind registry", () => {
+  it("should register each kind once", () => {
+    const kinds = SOURCE_KIND_DEFINITIONS.map((definition) => definition.kind);
+    expect(new Set(kinds).size).toBe(kinds.length);
+    expect(SOURCE_KINDS.map((k) => k.value)).toEqual(kinds);
+  });
+
+  it.each(SOURCE_KIND_DEFINITIONS.map((definition) => [definition.kind]))(
+    "should round-trip the default %s form through the database format",
+    (kind) => {
+      const data = { ...getDefaultSourceFormData(kind), name: "Defaults" };
+      expect(dbSourceToFormData(formDataToDbSource(data), [], [])).toEqual(data);
+    }
+  );
+
+  it.each(SOURCE_KIND_DEFINITIONS.map((definition) => [definition.kind]))(
+    "should build %s params its runner accepts",
+    (kind) => {
+      const definition = getSourceKindDefinition(kind)!;
+      const data = definition.schema.parse({
+        ...getDefaultSourceFormData(kind),
+        name: "Valid",
+        ...VALID_FORM_VALUES[kind],
+      });
+      expect(getParamsError(definition.paramsSchema, formDataToDbSource(data).params)).toBeNull();
+    }
+  );
+});
+
+describe("params schemas", () => {
+  it("should name the invalid param", () => {
+    expect(getParamsError(wallhavenParamsSchema, { sorting: "oldest" })).toBe(
+      "Invalid sorting: must be one of latest, toplist, random"
+    );
+    expect(getParamsError(wallhavenParamsSchema, { purity: ["nsfw"] })).toBe(
+      "Invalid apiKey: NSFW purity requires an API key"
+    );
+    expect(getParamsError(feedParamsSchema, { url: "ftp://example.com/feed.xml" })).toBe(
+      "Invalid url: must be an http(s) URL"
+    );
+  });
+
+  it("should reject params that are not an object", () => {
+    expect(getParamsError(feedParamsSchema, null)).toBe("Params must be an object");
+    expect(getParamsError(mastodonParamsSchema, null)).toBe("Params must be an object");
+  });
+
+  it("should check the fields of the chosen Mastodon target", () => {
+    const instanceUrl = "https://mastodon.social";
+    expect(getParamsError(mastodonParamsSchema, { instanceUrl, target: "hashtag", hashtag: "art" })).toBeNull();
+    expect(getParamsError(mastodonParamsSchema, { instanceUrl, target: "account", hashtag: "art" })).toBe(
+      "Invalid account: must be user or user@domain"
+    );
+    expect(getParamsError(mastodonParamsSchema, { instanceUrl, target: "list" })).toBe(
+      "Invalid target: must be one of hashtag, account"
+    );
+  });
+});
+
+describe("redditSourceSchema", () => {
+  it("should parse default form data", () => {
+    const data = { ...getDefaultSourceFormData("reddit"), name: "Wallpapers", subreddit: "/r/wallpapers" };
+    expect(redditSourceSchema.safeParse(data).success).toBe(true);
+  });
+
+  it("should reject invalid subreddit format", () => {
+    const data = { ...getDefaultSourceFormData("reddit"), name: "Wallpapers", subreddit: "wallpapers" };
+    expect(redditSourceSchema.safeParse(data).success).toBe(false);
+  });
+
+  it("should validate the field of the chosen listing", () => {
+    const valid = { ...getDefaultSourceFormData("reddit"), name: "Wallpapers" };
+
+    expect(redditSourceSchema.safeParse({ ...valid, listing: "multireddit", multireddit: "/r/a+b+c" }).success).toBe(true);
+    expect(redditSourceSchema.safeParse({ ...valid, listing: "multireddit", multireddit: "/u/x/m/walls" }).success).toBe(true);
+    expect(redditSourceSchema.safeParse({ ...valid, listing: "multireddit", multireddit: "/r/a" }).success).toBe(false);
+    expect(redditSourceSchema.safeParse({ ...valid, listing: "domain", domain: "i.redd.it" }).success).toBe(true);
+    expect(redditSourceSchema.safeParse({ ...valid, listing: "domain", domain: "reddit" }).success).toBe(false);
+  });
+
+  it("should require a subreddit and query for search, without rising sort", () => {
+    const valid = { ...getDefaultSourceFormData("reddit"), name: "4K", listing: "search", subreddit: "/r/wallpapers" };
+
+    expect(redditSourceSchema.safeParse({ ...valid, searchQuery: "4k landscape" }).success).toBe(true);
+    expect(redditSourceSchema.safeParse({ ...valid, searchQuery: " " }).success).toBe(false);
+    expect(redditSourceSchema.safeParse({ ...valid, searchQuery: "4k", subreddit: "/u/x" }).success).toBe(false);
+    expect(redditSourceSchema.safeParse({ ...valid, searchQuery: "4k", sort: "rising" }).success).toBe(false);
+  });
+});
+
+describe("wallhavenSourceSchema", () => {
+  const valid = { ...getDefaultSourceFormData("wallhaven"), name: "Wallhaven" };
+
+  it("should parse default form data", () => {
+    expect(wallhavenSourceSchema.safeParse(valid).success).toBe(true);
+  });
+
+  it("should reject invalid minimum resolution", () => {
+    const result = wallhavenSourceSchema.safeParse({ ...valid, minResolution: "1080p" });
+    expect(result.success).toBe(false);
+  });
+
+  it("should require an API key for NSFW purity", () => {
+    const result = wallhavenSourceSchema.safeParse({ ...valid, purity: ["sfw", "nsfw"] });
+    expect(result.success).toBe(false);
+
+    const withKey = wallhavenSourceSchema.safeParse({ ...valid, purity: ["sfw", "nsfw"], apiKey: "secret" });
+    expect(withKey.success).toBe(true);
+  });
+
+  it("should require at least one category", () => {
+    const result = wallhavenSourceSchema.safeParse({ ...valid, categories: [] });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("localFolderSourceSchema", () => {
+  const valid = { ...getDefaultSourceFormData("local_folder"), name: "NAS", path: "/mnt/nas/wallpapers" };
+
+  it("should accept absolute paths", () => {
+    expect(localFolderSourceSchema.safeParse(valid).success).toBe(true);
+    expect(localFolderSourceSchema.safeParse({ ...valid, path: "D:\\Wallpapers" }).success).toBe(true);
+  });
+
+  it("should reject relative paths", () => {
+    expect(localFolderSourceSchema.safeParse({ ...valid, path: "wallpapers" }).success).toBe(false);
+    expect(localFolderSourceSchema.safeParse({ ...valid, path: "" }).success).toBe(false);
+  });
+});
+
+describe("feedSourceSchema", () => {
+  const valid = { ...getDefaultSourceFormData("feed"), name: "Blog", url: "https://example.com/feed.xml" };
+
+  it("should accept http(s) URLs", () => {
+    expect(feedSourceSchema.safeParse(valid).success).toBe(true);
+  });
+
+  it("should reject other URLs", () => {
+    expect(feedSourceSchema.safeParse({ ...valid, url: "ftp://example.com/feed.xml" }).success).toBe(false);
+    expect(feedSourceSchema.safeParse({ ...valid, url: "example.com/feed.xml" }).success).toBe(false);
+  });
+});
+
+describe("booruSourceSchema", () => {
+  const valid = { ...getDefaultSourceFormData("booru"), name: "Scenery", tags: "scenery" };
+
+  it("should parse default form data", () => {
+    expect(booruSourceSchema.safeParse(valid).success).toBe(true);
+  });
+
+  it("should accept an empty or http(s) instance URL", () => {
+    expect(booruSourceSchema.safeParse({ ...valid, baseUrl: "https://konachan.com" }).success).toBe(true);
+    expect(booruSourceSchema.safeParse({ ...valid, baseUrl: "konachan.com" }).success).toBe(false);
+  });
+
+  it("should require at least one rating", () => {
+    expect(booruSourceSchema.safeParse({ ...valid, ratings: [] }).success).toBe(false);
+  });
+
+  it("should reject fractional minimum score", () => {
+    expect(booruSourceSchema.safeParse({ ...valid, minScore: 10 }).success).toBe(true);
+    expect(booruSourceSchema.safeParse({ ...valid, minScore: 1.5 }).success).toBe(false);
+  });
+});
+
+describe("customJsonSourceSchema", () => {
+  const defaults = getDefaultSourceFormData("custom_json") as CustomJsonSourceFormData;
+  const valid = {
+    ...defaults,
+    name: "API",
+    url: "https://api.example.com/photos",
+    fields: { ...defaults.fields, downloadUrl: "urls.full" },
+  };
+
+  it("should require an image URL path", () => {
+    expect(customJsonSourceSchema.safeParse(valid).success).toBe(true);
+    expect(
+      customJsonSourceSchema.safeParse({ ...valid, fields: { ...valid.fields, downloadUrl: "" } }).success
+    ).toBe(false);
+  });
+
+  it("should reject invalid paths", () => {
+    expect(customJsonSourceSchema.safeParse({ ...valid, itemsPath: "$.data.items" }).success).toBe(true);
+    expect(customJsonSourceSchema.safeParse({ ...valid, itemsPath: "data[*]" }).success).toBe(false);
+  });
+
+  it("should require a cursor path for cursor pagination", () => {
+    expect(customJsonSourceSchema.safeParse({ ...valid, paginationType: "cursor" }).success).toBe(false);
+    expect(
+      customJsonSourceSchema.safeParse({ ...valid, paginationType: "cursor", cursorPath: "meta.next" }).success
+    ).toBe(true);
+  });
+});
+
+describe("picture of the day schemas", () => {
+  it("should limit Bing backfill to the archive length", () => {
+    const valid = { ...getDefaultSourceFormData("bing"), name: "Bing" };
+    expect(bingSourceSchema.safeParse({ ...valid, backfillDays: 14 }).success).toBe(true);
+    expect(bingSourceSchema.safeParse({ ...valid, backfillDays: 15 }).success).toBe(false);
+  });
+
+  it("should reject unknown Bing markets", () => {
+    const valid = { ...getDefaultSourceFormData("bing"), name: "Bing" };
+    expect(bingSourceSchema.safeParse({ ...valid, market: "xx-XX" }).success).toBe(false);
+  });
+});
+
+describe("formDataToDbSource / dbSourceToFormData", () => {
+  it("should store a source's proxy in its params", () => {
+    const data = redditSourceSchema.parse({
+      ...getDefaultSourceFormData("reddit"),
+      name: "Wallpapers",
+      subreddit: "/r/wallpapers",
+      proxyUrl: "socks5://exit.internal:1080",
+    });
+
+    const db = formDataToDbSource(data);
+    expect(db.params).toMatchObject({ subreddit: "/r/wallpapers", proxyUrl: "socks5://exit.internal:1080" });
+    expect(dbSourceToFormData(db, [], [])).toEqual(data);
+
+    const invalid = redditSourceSchema.safeParse({ ...data, proxyUrl: "exit.internal:1080" });
+    expect(invalid.success).toBe(false);
+  });
+
+  it("should only store top period when sorting reddit by top", () => {
+    const data = redditSourceSchema.parse({
+      ...getDefaultSourceFormData("reddit"),
+      name: "Wallpapers",
+      subreddit: "/r/wallpapers",
+      sort: "new",
+      topPeriod: "week",
+    });
+    expect(formDataToDbSource(data).params).toEqual({
+      subreddit: "/r/wallpapers",
+      sort: "new",
+      period: undefined,
+    });
+  });
+
+  it("should store reddit searches as a search path and read them back", () => {
+    const data = redditSourceSchema.parse({
+      ...getDefaultSourceFormData("reddit"),
+      name: "4K landscapes",
+      listing: "search",
+      subreddit: "/r/wallpapers",
+      searchQuery: "4k landscape",
+      sort: "top",
+      topPeriod: "week",
+    });
+    const db = formDataToDbSource(data);
+    expect(db.params).toEqual({
+      subreddit: "/r/wallpapers/search?q=4k+landscape&restrict_sr=1",
+      sort: "top",
+      period: "week",
+    });
+    expect(describeSourceTarget("reddit", db.params)).toBe('"4k landscape" in /r/wallpapers');
+
+    expect(dbSourceToFormData(db, [], [])).toEqual(data);
+    expect(dbSourceToFormData(db, [], [])).toMatchObject({ listing: "search", subreddit: "/r/wallpapers", searchQuery: "4k landscape" });
+  });
+
+  it("should store reddit post filters as lists and ratios", () => {
+    const data = redditSourceSchema.parse({
+      ...getDefaultSourceFormData("reddit"),
+      name: "Wallpapers",
+      subreddit: "/r/wallpapers",
+      minScore: 50,
+      minUpvoteRatio: 90,
+      allowedFlairs: "Desktop, 4K ,",
+      blockedDomains: "gfycat.com",
+      maxAgeHours: 48,
+    });
+    const db = formDataToDbSource(data);
+    expect(db.params).toEqual({
+      subreddit: "/r/wallpapers",
+      sort: "new",
+      minScore: 50,
+      minUpvoteRatio: 0.9,
+      allowedFlairs: ["Desktop", "4K"],
+      blockedDomains: ["gfycat.com"],
+      maxAgeHours: 48,
+    });
+    expect(dbSourceToFormData(db, [], [])).toEqual({ ...data, allowedFlairs: "Desktop, 4K" });
+  });
+
+  it("should round-trip reddit multireddit and domain listings", () => {
+    for (const [listing, field, value, path] of [
+      ["multireddit", "multireddit", "/r/wallpapers+earthporn", "/r/wallpapers+earthporn"],
+      ["domain", "domain", "i.redd.it", "/domain/i.redd.it"],
+    ] as const) {
+      const data = redditSourceSchema.parse({
+        ...getDefaultSourceFormData("reddit"),
+        name: "Wallpapers",
+        listing,
+        [field]: value,
+      });
+      const db = formDataToDbSource(data);
+      expect(db.params.subreddit).toBe(path);
+      expect(dbSourceToFormData(db, [], [])).toEqual(data);
+    }
+  });
+
+  it("should round-trip wallhaven params", () => {
+    const data = wallhavenSourceSchema.parse({
+      ...getDefaultSourceFormData("wallhaven"),
+      name: "Landscapes",
+      query: " landscape ",
+      sorting: "toplist",
+      topRange: "1w",
+      minResolution: "2560x1440",
+      ratios: ["16x9", "21x9"],
+    });
+
+    const dbSource = formDataToDbSource(data);
+    expect(dbSource.params).toEqual({
+      query: "landscape",
+      categories: ["general", "anime", "people"],
+      purity: ["sfw"],
+      sorting: "toplist",
+      topRange: "1w",
+      minResolution: "2560x1440",
+      ratios: ["16x9", "21x9"],
+      apiKey: undefined,
+    });
+
+    const formData = dbSourceToFormData(dbSource, [], []);
+    expect(formData).toEqual({ ...data, query: "landscape" });
+  });
+
+  it("should round-trip local folder params", () => {
+    const data = localFolderSourceSchema.parse({
+      ...getDefaultSourceFormData("local_folder"),
+      name: "NAS",
+      path: "/mnt/nas/wallpapers ",
+      watch: true,
+    });
+
+    const dbSource = formDataToDbSource(data);
+    expect(dbSource.params).toEqual({ path: "/mnt/nas/wallpapers", recursive: true, watch: true });
+    expect(dbSourceToFormData(dbSource, [], [])).toEqual({ ...data, path: "/mnt/nas/wallpapers" });
+  });
+
+  it("should round-trip custom JSON params", () => {
+    const defaults = getDefaultSourceFormData("custom_json") as CustomJsonSourceFormData;
+    const data = customJsonSourceSchema.parse({
+      ...defaults,
+      name: "API",
+      url: "https://api.example.com/photos",
+      headers: [{ name: "Authorization", value: "Client-ID abc" }],
+      itemsPath: "data",
+      fields: { ...defaults.fields, downloadUrl: "urls.full", width: "width" },
+      paginationType: "page",
+      pageParam: "p",
+      pageStart: 0,
+    });
+
+    const dbSource = formDataToDbSource(data);
+    expect(dbSource.params).toEqual({
+      url: "https://api.example.com/photos",
+      headers: { Authorization: "Client-ID abc" },
+      itemsPath: "data",
+      fields: { downloadUrl: "urls.full", width: "width" },
+      pagination: { type: "page", param: "p", start: 0 },
+    });
+    expect(dbSourceToFormData(dbSource, [], [])).toEqual(data);
+  });
+
+  it("should round-trip APOD params", () => {
+    const data = apodSourceSchema.parse({
+      ...getDefaultSourceFormData("apod"),
+      name: "APOD",
+      backfillDays: 7,
+    });
+
+    const dbSource = formDataToDbSource(data);
+    expect(dbSource.params).toEqual({ backfillDays: 7, apiKey: undefined });
+    expect(dbSourceToFormData(dbSource, [], [])).toEqual(data);
+  });
+
+  it("should throw for unknown kinds", () => {
+    expect(() =>
+      dbSourceToFormData({ enabled: true, name: "x", kind: "flickr", params: {}, lookupLimit: 1, nsfw: 0 })
+    ).toThrow("Unknown source kind: flickr");
+  });
+});
+
+describe("plugin sources", () => {
+  it("should only accept a JSON object as params", () => {
+    const valid = { ...getDefaultPluginSourceFormData("flickr"), name: "Flickr" };
+    expect(pluginSourceSchema.safeParse(valid).success).toBe(true);
+    expect(pluginSourceSchema.safeParse({ ...valid, params: '{"tag": "landscape"}' }).success).toBe(true);
+    expect(pluginSourceSchema.safeParse({ ...valid, params: "[1, 2]" }).success).toBe(false);
+    expect(pluginSourceSchema.safeParse({ ...valid, params: "{tag: landscape}" }).success).toBe(false);
+    expect(pluginSourceSchema.safeParse({ ...valid, kind: "Flickr Photos" }).success).toBe(false);
+  });
+
+  it("should round-trip params and keep the proxy out of the JSON", () => {
+    const data = pluginSourceSchema.parse({
+      ...getDefaultPluginSourceFormData("flickr"),
+      name: "Flickr",
+      params: '{"tag": "landscape", "perPage": 50}',
+      proxyUrl: "http://proxy.internal:3128",
+    });
+
+    const dbSource = pluginFormDataToDbSource(data);
+    expect(dbSource.kind).toBe("flickr");
+    expect(dbSource.params).toEqual({ tag: "landscape", perPage: 50, proxyUrl: "http://proxy.internal:3128" });
+
+    const formData = dbSourceToPluginFormData(dbSource, [], []);
+    expect(JSON.parse(formData.params)).toEqual({ tag: "landscape", perPage: 50 });
+    expect(formData.proxyUrl).toBe("http://proxy.internal:3128");
+    expect(pluginFormDataToDbSource(formData)).toEqual(dbSource);
+  });
+});
+
+describe("describeSourceTarget", () => {
+  it("should describe reddit and wallhaven sources", () => {
+    expect(describeSourceTarget("reddit", { subreddit: "/r/wallpapers" })).toBe("/r/wallpapers");
+    expect(describeSourceTarget("wallhaven", { query: "space" })).toBe("space");
+    expect(describeSourceTarget("wallhaven", { sorting: "toplist" })).toBe("(toplist)");
+  });
+
+  it("should handle params stored as JSON strings", () => {
+    expect(describeSourceTarget("reddit", '{"subreddit":"/r/earthporn"}')).toBe("/r/earthporn");
+    expect(describeSourceTarget("reddit", "{not json")).toBe("-");
+  });
+});
@@ -1,36 +1,21 @@
 import { z } from "zod";
+import { SOURCE_KIND_DEFINITIONS, type BaseSourceFormData, type PluginSourceFormData } from "./sources";
 
-// Available source kinds
-export const SOURCE_KINDS = [
-  { value: "reddit", label: "Reddit" },
-] as const;
+export * from "./sources";
 
-export type SourceKind = (typeof SOURCE_KINDS)[number]["value"];
+type SourceKindDefinitions = typeof SOURCE_KIND_DEFINITIONS;
 
-// Reddit subreddit pattern: /r/subreddit, /user/username, /u/username
-const redditSubredditPattern = /^\/(r|user|u)\/[a-zA-Z0-9_-]+$/;
+// Form schemas of a tuple of definitions, as a tuple
+type SourceKindSchemas<T extends readonly unknown[]> = {
+  [I in keyof T]: T[I] extends { schema: infer S } ? S : never;
+};
 
-// Reddit sort options
-export const REDDIT_SORT_OPTIONS = [
-  { value: "new", label: "New" },
-  { value: "hot", label: "Hot" },
-  { value: "top", label: "Top" },
-  { value: "rising", label: "Rising" },
-] as const;
+export type AnySourceKindDefinition = SourceKindDefinitions[number];
 
-export type RedditSortType = (typeof REDDIT_SORT_OPTIONS)[number]["value"];
-
-// Reddit top period options (only used when sort is "top")
-export const REDDIT_TOP_PERIOD_OPTIONS = [
-  { value: "hour", label: "Past Hour" },
-  { value: "day", label: "Past 24 Hours" },
-  { value: "week", label: "Past Week" },
-  { value: "month", label: "Past Month" },
-  { value: "year", label: "Past Year" },
-  { value: "all", label: "All Time" },
-] as const;
+export type SourceKind = AnySourceKindDefinition["kind"];
 
-export type RedditTopPeriod = (typeof REDDIT_TOP_PERIOD_OPTIONS)[number]["value"];
+// Available source kinds
+export const SOURCE_KINDS = SOURCE_KIND_DEFINITIONS.map(({ kind, label }) => ({ value: kind, label }));
 
 // NSFW handling options
 export const NSFW_OPTIONS = [
@@ -53,105 +38,175 @@ export const SCHEDULE_PRESETS = [
   { value: "0 0 * * 0", label: "Weekly (Sunday midnight)" },
 ] as const;
 
-// Full source schema for Reddit
-export const redditSourceSchema = z.object({
-  enabled: z.boolean().default(true),
+const SOURCE_KIND_MAP = new Map<string, AnySourceKindDefinition>(
+  SOURCE_KIND_DEFINITIONS.map((definition) => [definition.kind, definition])
+);
 
-  name: z
-    .string()
-    .min(1, { error: "Name is required" })
-    .max(100, { error: "Name must be 100 characters or less" }),
+// Per-kind form schemas
+export const SOURCE_SCHEMAS = Object.fromEntries(
+  SOURCE_KIND_DEFINITIONS.map((definition) => [definition.kind, definition.schema])
+) as { [D in AnySourceKindDefinition as D["kind"]]: D["schema"] };
 
-  kind: z.literal("reddit"),
+// Union of all source schemas
+export const sourceSchema = z.discriminatedUnion(
+  "kind",
+  SOURCE_KIND_DEFINITIONS.map((definition) => definition.schema) as unknown as SourceKindSchemas<SourceKindDefinitions>
+);
 
-  subreddit: z
-    .string()
-    .min(1, { error: "Subreddit is required" })
-    .regex(redditSubredditPattern, {
-      error: "Must be in format /r/<subreddit>, /user/<username>, or /u/<username>",
-    }),
+export type SourceFormData = z.infer<typeof sourceSchema>;
 
-  sort: z.enum(["new", "hot", "top", "rising"]).default("new"),
+// Check whether a string is a known source kind
+export function isSourceKind(kind: string | null | undefined): kind is SourceKind {
+  return kind != null && SOURCE_KIND_MAP.has(kind);
+}
 
-  // Only used when sort is "top"
-  topPeriod: z.enum(["hour", "day", "week", "month", "year", "all"]).default("day"),
+// Get the registered definition of a source kind
+export function getSourceKindDefinition(kind: string): AnySourceKindDefinition | undefined {
+  return SOURCE_KIND_MAP.get(kind);
+}
 
-  lookupLimit: z
-    .number()
-    .int({ error: "Lookup limit must be a whole number" })
-    .min(1, { error: "Lookup limit must be at least 1" })
-    .max(1000, { error: "Lookup limit must be 1000 or less" })
-    .default(300),
+// Get the form schema for a source kind
+export function getSourceSchema<K extends SourceKind>(kind: K): (typeof SOURCE_SCHEMAS)[K] {
+  return SOURCE_SCHEMAS[kind];
+}
 
-  // NSFW handling: 0 = auto (from post), 1 = SFW only, 2 = NSFW only (mark all as NSFW)
-  nsfw: z.number().int().min(0).max(2).default(0),
+// Default form values for a new source (lookupLimit: 300 for UI)
+export function getDefaultSourceFormData(kind: SourceKind): SourceFormData {
+  const base = {
+    enabled: true,
+    name: "",
+    lookupLimit: 300,
+    nsfw: 0,
+    schedules: [],
+    deviceIds: [],
+    proxyUrl: "",
+  };
+
+  return { ...base, kind, ...SOURCE_KIND_MAP.get(kind)!.defaults() } as SourceFormData;
+}
 
-  // Schedule cron expressions (multiple allowed)
-  schedules: z
-    .array(z.string().max(100, { error: "Schedule must be 100 characters or less" }))
-    .default([]),
+// Short human readable description of what a source fetches (for lists)
+export function describeSourceTarget(kind: string, params: unknown): string {
+  let p: Record<string, unknown>;
+  try {
+    p = (typeof params === "string" ? JSON.parse(params) : params ?? {}) as Record<string, unknown>;
+  } catch {
+    return "-";
+  }
 
-  // Device IDs to subscribe to this source
-  deviceIds: z.array(z.string()).default([]),
-});
+  return SOURCE_KIND_MAP.get(kind)?.describeTarget(p) ?? "-";
+}
 
-export type RedditSourceFormData = z.infer<typeof redditSourceSchema>;
+// Shared fields of the database format (params includes the source's proxy)
+function toDbSource(data: BaseSourceFormData & { kind: string }, params: Record<string, unknown>) {
+  if (data.proxyUrl) {
+    params.proxyUrl = data.proxyUrl;
+  }
 
-// Union of all source schemas (for future extensibility)
-export const sourceSchema = redditSourceSchema;
+  return {
+    enabled: data.enabled,
+    name: data.name,
+    kind: data.kind,
+    lookupLimit: data.lookupLimit,
+    nsfw: data.nsfw,
+    schedules: data.schedules.filter((s) => s.trim() !== ""),
+    deviceIds: data.deviceIds,
+    params,
+  };
+}
 
-export type SourceFormData = z.infer<typeof sourceSchema>;
+// Source as read from the database
+interface DbSource {
+  enabled: boolean;
+  name: string;
+  kind: string;
+  params: unknown;
+  lookupLimit: number;
+  nsfw: number;
+}
+
+// sources.params as an object (stored as JSON text by older versions)
+function parseDbParams(params: unknown): Record<string, any> {
+  return (typeof params === "string" ? JSON.parse(params) : params ?? {}) as Record<string, any>;
+}
+
+// Shared form fields of a database source
+function toBaseFormData(
+  source: DbSource,
+  params: Record<string, any>,
+  schedules?: string[],
+  deviceIds?: string[]
+): BaseSourceFormData {
+  return {
+    enabled: source.enabled,
+    name: source.name,
+    lookupLimit: source.lookupLimit,
+    nsfw: source.nsfw ?? 0,
+    schedules: schedules || [],
+    deviceIds: deviceIds || [],
+    proxyUrl: typeof params.proxyUrl === "string" ? params.proxyUrl : "",
+  };
+}
 
 // Helper to convert form data to database format
 export function formDataToDbSource(data: SourceFormData) {
-  if (data.kind === "reddit") {
-    return {
-      enabled: data.enabled,
-      name: data.name,
-      kind: data.kind,
-      params: {
-        subreddit: data.subreddit,
-        sort: data.sort,
-        period: data.sort === "top" ? data.topPeriod : undefined,
-      },
-      lookupLimit: data.lookupLimit,
-      nsfw: data.nsfw,
-      schedules: data.schedules.filter((s) => s.trim() !== ""),
-      deviceIds: data.deviceIds,
-    };
+  const definition = SOURCE_KIND_MAP.get(data.kind);
+  if (!definition) {
+    throw new Error(`Unknown source kind: ${data.kind}`);
   }
-  throw new Error(`Unknown source kind: ${data.kind}`);
+
+  // The definition was looked up by data.kind, so data matches its schema
+  return toDbSource(data, definition.toParams(data as never));
 }
 
 // Helper to convert database format to form data
-export function dbSourceToFormData(
-  source: {
-    enabled: boolean;
-    name: string;
-    kind: string;
-    params: unknown;
-    lookupLimit: number;
-    nsfw: number;
-  },
+export function dbSourceToFormData(source: DbSource, schedules?: string[], deviceIds?: string[]): SourceFormData {
+  const definition = SOURCE_KIND_MAP.get(source.kind);
+  if (!definition) {
+    throw new Error(`Unknown source kind: ${source.kind}`);
+  }
+
+  const params = parseDbParams(source.params);
+  return {
+    ...toBaseFormData(source, params, schedules, deviceIds),
+    kind: definition.kind,
+    ...definition.fromParams(params),
+  } as SourceFormData;
+}
+
+// Default form values for a new source of a plugin kind
+export function getDefaultPluginSourceFormData(kind: string): PluginSourceFormData {
+  return {
+    enabled: true,
+    name: "",
+    lookupLimit: 300,
+    nsfw: 0,
+    schedules: [],
+    deviceIds: [],
+    proxyUrl: "",
+    kind,
+    params: "{}",
+  };
+}
+
+// Helper to convert plugin source form data to database format
+export function pluginFormDataToDbSource(data: PluginSourceFormData) {
+  // The proxy has its own field
+  const { proxyUrl: _, ...params } = JSON.parse(data.params) as Record<string, unknown>;
+  return toDbSource(data, params);
+}
+
+// Helper to convert a plugin source to form data, with its params as JSON
+export function dbSourceToPluginFormData(
+  source: DbSource,
   schedules?: string[],
   deviceIds?: string[]
-): SourceFormData {
-  if (source.kind === "reddit") {
-    const params = typeof source.params === "string" 
-      ? JSON.parse(source.params) 
-      : source.params as { subreddit: string; sort?: RedditSortType; period?: RedditTopPeriod };
-    return {
-      enabled: source.enabled,
-      name: source.name,
-      kind: "reddit",
-      subreddit: params.subreddit || "",
-      sort: params.sort || "new",
-      topPeriod: params.period || "day",
-      lookupLimit: source.lookupLimit,
-      nsfw: source.nsfw ?? 0,
-      schedules: schedules || [],
-      deviceIds: deviceIds || [],
-    };
-  }
-  throw new Error(`Unknown source kind: ${source.kind}`);
+): PluginSourceFormData {
+  const params = parseDbParams(source.params);
+  const { proxyUrl: _, ...pluginParams } = params;
+  return {
+    ...toBaseFormData(source, params, schedules, deviceIds),
+    kind: source.kind,
+    params: JSON.stringify(pluginParams, null, 2),
+  };
 }
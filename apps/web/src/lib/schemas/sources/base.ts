@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { proxyUrlSchema } from "../proxy";
+
+// Fields shared by every source kind
+export const baseSourceFields = {
+  enabled: z.boolean().default(true),
+
+  name: z
+    .string()
+    .min(1, { error: "Name is required" })
+    .max(100, { error: "Name must be 100 characters or less" }),
+
+  lookupLimit: z
+    .number()
+    .int({ error: "Lookup limit must be a whole number" })
+    .min(1, { error: "Lookup limit must be at least 1" })
+    .max(1000, { error: "Lookup limit must be 1000 or less" })
+    .default(300),
+
+  // NSFW handling: 0 = auto (from item), 1 = SFW only, 2 = NSFW only (mark all as NSFW)
+  nsfw: z.number().int().min(0).max(2).default(0),
+
+  // Schedule cron expressions (multiple allowed)
+  schedules: z
+    .array(z.string().max(100, { error: "Schedule must be 100 characters or less" }))
+    .default([]),
+
+  // Device IDs to subscribe to this source
+  deviceIds: z.array(z.string()).default([]),
+
+  // Proxy for this source's requests and downloads, stored in sources.params (empty = global proxy)
+  proxyUrl: proxyUrlSchema,
+};
+
+export type BaseSourceFormData = z.output<z.ZodObject<typeof baseSourceFields>>;
+
+// Form values specific to one kind (everything except the shared fields)
+export type SourceKindFields<T> = Omit<T, keyof BaseSourceFormData | "kind">;
+
+/**
+ * Schema of sources.params (any Zod-compatible schema)
+ */
+export interface ParamsSchema {
+  safeParse(params: unknown): {
+    success: boolean;
+    error?: { issues: Array<{ path: PropertyKey[]; message: string }> };
+  };
+}
+
+/**
+ * Check sources.params against a params schema
+ * @returns error message of the first issue, or null if the params are valid
+ */
+export function getParamsError(schema: ParamsSchema, params: unknown): string | null {
+  const result = schema.safeParse(params);
+  if (result.success) {
+    return null;
+  }
+  const issue = result.error?.issues[0];
+  if (!issue) {
+    return "Invalid params";
+  }
+  return issue.path.length > 0 ? `Invalid ${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Everything there is to know about one source kind: its form and the params its runner accepts.
+ * The kind's runner (see $lib/server/runner) fetches the params built here and validates them with paramsSchema.
+ */
+export interface SourceKindDefinition<K extends string = string, S extends z.ZodObject = z.ZodObject> {
+  /** Stored in sources.kind, must match the runner's kind */
+  kind: K;
+  label: string;
+  /** What "lookup limit" counts for this kind */
+  lookupLimitHint: string;
+  /** Full form schema, including the shared fields and a `kind` literal */
+  schema: S;
+  /** Schema of the sources.params built by toParams, checked by the runner before every run */
+  paramsSchema: z.ZodType;
+  /** Form values for a new source */
+  defaults(): SourceKindFields<z.output<S>>;
+  /** Convert form values to sources.params */
+  toParams(data: z.output<S>): Record<string, unknown>;
+  /** Convert sources.params back to form values */
+  fromParams(params: Record<string, any>): SourceKindFields<z.output<S>>;
+  /** Short human readable description of what a source fetches (for lists) */
+  describeTarget(params: Record<string, unknown>): string;
+}
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { baseSourceFields, type SourceKindDefinition } from "./base";
+
+// Booru software options, with the default instance of each
+export const BOORU_OPTIONS = [
+  { value: "danbooru", label: "Danbooru", defaultUrl: "https://danbooru.donmai.us" },
+  { value: "gelbooru", label: "Gelbooru", defaultUrl: "https://gelbooru.com" },
+  { value: "moebooru", label: "Moebooru (yande.re, konachan)", defaultUrl: "https://yande.re" },
+] as const;
+
+// Booru rating options (questionable and explicit are marked NSFW)
+export const BOORU_RATING_OPTIONS = [
+  { value: "general", label: "General" },
+  { value: "sensitive", label: "Sensitive" },
+  { value: "questionable", label: "Questionable" },
+  { value: "explicit", label: "Explicit" },
+] as const;
+
+// Full source schema for Danbooru / Gelbooru / Moebooru instances
+export const booruSourceSchema = z.object({
+  ...baseSourceFields,
+
+  kind: z.literal("booru"),
+
+  booru: z.enum(["danbooru", "gelbooru", "moebooru"]).default("danbooru"),
+
+  // Empty means the default instance of the booru type
+  baseUrl: z.union([z.literal(""), z.url({ protocol: /^https?$/, error: "Must be a valid http(s) URL" })]).default(""),
+
+  // Empty query returns all posts
+  tags: z.string().max(500, { error: "Tags must be 500 characters or less" }).default(""),
+
+  ratings: z
+    .array(z.enum(["general", "sensitive", "questionable", "explicit"]))
+    .min(1, { error: "Select at least one rating" })
+    .default(["general"]),
+
+  // Unset means no minimum
+  minScore: z.number().int({ error: "Minimum score must be a whole number" }).optional(),
+
+  login: z.string().max(100, { error: "Login must be 100 characters or less" }).default(""),
+
+  apiKey: z.string().max(200, { error: "API key must be 200 characters or less" }).default(""),
+});
+
+export type BooruSourceFormData = z.infer<typeof booruSourceSchema>;
+
+// sources.params of a booru source
+export const booruParamsSchema = z.object(
+  {
+    booru: z.enum(["danbooru", "gelbooru", "moebooru"], { error: "must be one of danbooru, gelbooru, moebooru" }),
+    baseUrl: z.url({ protocol: /^https?$/, error: "must be an http(s) URL" }).optional(),
+    tags: z.string({ error: "must be a string" }).optional(),
+    ratings: z
+      .array(
+        z.enum(["general", "sensitive", "questionable", "explicit"], {
+          error: "must be one of general, sensitive, questionable, explicit",
+        }),
+        { error: "must be a list of general, sensitive, questionable, explicit" }
+      )
+      .min(1, { error: "must not be empty" })
+      .optional(),
+    minScore: z.number({ error: "must be a whole number" }).int({ error: "must be a whole number" }).optional(),
+    login: z.string({ error: "must be a string" }).optional(),
+    apiKey: z.string({ error: "must be a string" }).optional(),
+  },
+  { error: "Params must be an object" }
+);
+
+export const booruSourceKind: SourceKindDefinition<"booru", typeof booruSourceSchema> = {
+  kind: "booru",
+  label: "Booru",
+  lookupLimitHint: "Maximum number of posts to look up (not the number of images to download).",
+  schema: booruSourceSchema,
+  paramsSchema: booruParamsSchema,
+
+  defaults: () => ({
+    booru: "danbooru",
+    baseUrl: "",
+    tags: "",
+    ratings: ["general"],
+    minScore: undefined,
+    login: "",
+    apiKey: "",
+  }),
+
+  toParams: (data) => ({
+    booru: data.booru,
+    baseUrl: data.baseUrl || undefined,
+    tags: data.tags.trim() || undefined,
+    ratings: data.ratings,
+    minScore: data.minScore,
+    login: data.login.trim() || undefined,
+    apiKey: data.apiKey.trim() || undefined,
+  }),
+
+  fromParams: (params) => ({
+    booru: params.booru || "danbooru",
+    baseUrl: params.baseUrl || "",
+    tags: params.tags || "",
+    ratings: params.ratings || ["general", "sensitive", "questionable", "explicit"],
+    minScore: params.minScore,
+    login: params.login || "",
+    apiKey: params.apiKey || "",
+  }),
+
+  describeTarget: (p) => (typeof p.tags === "string" && p.tags ? `${p.booru}: ${p.tags}` : `${p.booru ?? "booru"}: (all)`),
+};
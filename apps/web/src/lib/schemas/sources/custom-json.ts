@@ -0,0 +1,219 @@
+import { z } from "zod";
+import { isValidJsonPath } from "$lib/json-path";
+import { baseSourceFields, type SourceKindDefinition } from "./base";
+
+// Custom JSON pagination options
+export const CUSTOM_JSON_PAGINATION_OPTIONS = [
+  { value: "none", label: "None (single request)" },
+  { value: "page", label: "Page number" },
+  { value: "cursor", label: "Cursor / next URL" },
+] as const;
+
+// Custom JSON field mappings shown in the form
+export const CUSTOM_JSON_FIELD_OPTIONS = [
+  { value: "downloadUrl", label: "Image URL", placeholder: "urls.full" },
+  { value: "websiteUrl", label: "Page URL", placeholder: "links.html" },
+  { value: "sourceItemId", label: "Item ID", placeholder: "id" },
+  { value: "title", label: "Title", placeholder: "description" },
+  { value: "author", label: "Author", placeholder: "user.name" },
+  { value: "width", label: "Width", placeholder: "width" },
+  { value: "height", label: "Height", placeholder: "height" },
+  { value: "nsfw", label: "NSFW flag", placeholder: "nsfw" },
+  { value: "createdAt", label: "Created at", placeholder: "created_at" },
+] as const;
+
+// JSONPath / dot-path field, empty allowed
+const jsonPathField = z
+  .string()
+  .max(200, { error: "Path must be 200 characters or less" })
+  .refine(isValidJsonPath, { error: "Invalid path, use e.g. data.items or $.data.items[0]" })
+  .default("");
+
+// Full source schema for a generic JSON HTTP API with field mapping
+export const customJsonSourceSchema = z
+  .object({
+    ...baseSourceFields,
+
+    kind: z.literal("custom_json"),
+
+    url: z
+      .url({ protocol: /^https?$/, error: "Must be a valid http(s) URL" })
+      .max(2000, { error: "URL must be 2000 characters or less" }),
+
+    headers: z
+      .array(
+        z.object({
+          name: z.string().regex(/^[A-Za-z0-9-]+$/, { error: "Invalid header name" }),
+          value: z.string().max(1000, { error: "Header value must be 1000 characters or less" }),
+        })
+      )
+      .default([]),
+
+    // Empty means the response itself is the item array
+    itemsPath: jsonPathField,
+
+    // Paths relative to each item
+    fields: z.object({
+      downloadUrl: jsonPathField.refine((path) => path.trim() !== "", { error: "Image URL path is required" }),
+      websiteUrl: jsonPathField,
+      sourceItemId: jsonPathField,
+      title: jsonPathField,
+      author: jsonPathField,
+      width: jsonPathField,
+      height: jsonPathField,
+      nsfw: jsonPathField,
+      createdAt: jsonPathField,
+    }),
+
+    paginationType: z.enum(["none", "page", "cursor"]).default("none"),
+
+    // Only used when paginationType is "page"
+    pageParam: z.string().max(100).default("page"),
+    pageStart: z.number().int({ error: "First page must be a whole number" }).min(0).default(1),
+
+    // Only used when paginationType is "cursor"
+    cursorParam: z.string().max(100).default("cursor"),
+    cursorPath: jsonPathField,
+  })
+  .refine((data) => data.paginationType !== "page" || data.pageParam.trim() !== "", {
+    error: "Page parameter is required",
+    path: ["pageParam"],
+  })
+  .refine((data) => data.paginationType !== "cursor" || data.cursorParam.trim() !== "", {
+    error: "Cursor parameter is required",
+    path: ["cursorParam"],
+  })
+  .refine((data) => data.paginationType !== "cursor" || data.cursorPath.trim() !== "", {
+    error: "Cursor path is required",
+    path: ["cursorPath"],
+  });
+
+export type CustomJsonSourceFormData = z.infer<typeof customJsonSourceSchema>;
+
+// JSONPath / dot-path stored in params
+const jsonPathParam = z.string({ error: "must be a path" }).refine(isValidJsonPath, { error: "must be a valid path" });
+const requiredJsonPathParam = jsonPathParam.refine((path) => path !== "", { error: "is required" });
+
+// sources.params of a custom JSON source
+export const customJsonParamsSchema = z.object(
+  {
+    url: z.url({ protocol: /^https?$/, error: "must be an http(s) URL" }),
+    headers: z.record(z.string(), z.string(), { error: "must be an object of strings" }).optional(),
+    itemsPath: jsonPathParam.optional(),
+    fields: z.object(
+      {
+        downloadUrl: requiredJsonPathParam,
+        websiteUrl: jsonPathParam.optional(),
+        sourceItemId: jsonPathParam.optional(),
+        title: jsonPathParam.optional(),
+        author: jsonPathParam.optional(),
+        width: jsonPathParam.optional(),
+        height: jsonPathParam.optional(),
+        nsfw: jsonPathParam.optional(),
+        createdAt: jsonPathParam.optional(),
+      },
+      { error: "must map at least downloadUrl" }
+    ),
+    pagination: z
+      .discriminatedUnion(
+        "type",
+        [
+          z.object({ type: z.literal("none") }),
+          z.object({
+            type: z.literal("page"),
+            param: z.string({ error: "must be a query parameter" }).min(1, { error: "must be a query parameter" }),
+            start: z.number({ error: "must be a whole number" }).int({ error: "must be a whole number" }).optional(),
+          }),
+          z.object({
+            type: z.literal("cursor"),
+            param: z.string({ error: "must be a query parameter" }).min(1, { error: "must be a query parameter" }),
+            cursorPath: requiredJsonPathParam,
+          }),
+        ],
+        { error: "must be one of none, page, cursor" }
+      )
+      .optional(),
+  },
+  { error: "Params must be an object" }
+);
+
+export const customJsonSourceKind: SourceKindDefinition<"custom_json", typeof customJsonSourceSchema> = {
+  kind: "custom_json",
+  label: "Custom JSON API",
+  lookupLimitHint: "Maximum number of API items to look up across all pages (not the number of images to download).",
+  schema: customJsonSourceSchema,
+  paramsSchema: customJsonParamsSchema,
+
+  defaults: () => ({
+    url: "",
+    headers: [],
+    itemsPath: "",
+    fields: {
+      downloadUrl: "",
+      websiteUrl: "",
+      sourceItemId: "",
+      title: "",
+      author: "",
+      width: "",
+      height: "",
+      nsfw: "",
+      createdAt: "",
+    },
+    paginationType: "none",
+    pageParam: "page",
+    pageStart: 1,
+    cursorParam: "cursor",
+    cursorPath: "",
+  }),
+
+  toParams: (data) => ({
+    url: data.url,
+    headers: data.headers.length > 0
+      ? Object.fromEntries(data.headers.map((h) => [h.name, h.value]))
+      : undefined,
+    itemsPath: data.itemsPath.trim() || undefined,
+    // Drop unmapped fields
+    fields: Object.fromEntries(
+      Object.entries(data.fields)
+        .map(([name, path]) => [name, path.trim()])
+        .filter(([, path]) => path !== "")
+    ),
+    pagination:
+      data.paginationType === "page"
+        ? { type: "page", param: data.pageParam.trim(), start: data.pageStart }
+        : data.paginationType === "cursor"
+          ? { type: "cursor", param: data.cursorParam.trim(), cursorPath: data.cursorPath.trim() }
+          : { type: "none" },
+  }),
+
+  fromParams: (params) => {
+    const fields = params.fields ?? {};
+    const pagination = params.pagination ?? { type: "none" };
+    return {
+      url: params.url || "",
+      headers: Object.entries((params.headers ?? {}) as Record<string, string>).map(([name, value]) => ({
+        name,
+        value,
+      })),
+      itemsPath: params.itemsPath || "",
+      fields: {
+        downloadUrl: fields.downloadUrl || "",
+        websiteUrl: fields.websiteUrl || "",
+        sourceItemId: fields.sourceItemId || "",
+        title: fields.title || "",
+        author: fields.author || "",
+        width: fields.width || "",
+        height: fields.height || "",
+        nsfw: fields.nsfw || "",
+        createdAt: fields.createdAt || "",
+      },
+      paginationType: pagination.type || "none",
+      pageParam: pagination.type === "page" ? pagination.param : "page",
+      pageStart: pagination.type === "page" ? (pagination.start ?? 1) : 1,
+      cursorParam: pagination.type === "cursor" ? pagination.param : "cursor",
+      cursorPath: pagination.type === "cursor" ? pagination.cursorPath : "",
+    };
+  },
+
+  describeTarget: (p) => (typeof p.url === "string" ? p.url : "-"),
+};
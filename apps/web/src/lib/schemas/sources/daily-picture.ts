@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { baseSourceFields, type SourceKindDefinition } from "./base";
+
+// Wikipedia language code: en, de, zh-yue
+const wikipediaLanguagePattern = /^[a-z]{2,3}(-[a-z]+)?$/;
+
+// Bing markets (each market has its own image of the day)
+export const BING_MARKET_OPTIONS = [
+  { value: "en-US", label: "United States" },
+  { value: "en-GB", label: "United Kingdom" },
+  { value: "en-CA", label: "Canada" },
+  { value: "en-AU", label: "Australia" },
+  { value: "en-IN", label: "India" },
+  { value: "de-DE", label: "Germany" },
+  { value: "fr-FR", label: "France" },
+  { value: "es-ES", label: "Spain" },
+  { value: "it-IT", label: "Italy" },
+  { value: "pt-BR", label: "Brazil" },
+  { value: "ja-JP", label: "Japan" },
+  { value: "zh-CN", label: "China" },
+] as const;
+
+// Bing's archive only keeps the last two weeks
+export const BING_MAX_BACKFILL_DAYS = 14;
+
+// Past days a daily picture source may backfill
+export const DAILY_PICTURE_MAX_BACKFILL_DAYS = 30;
+
+// What "lookup limit" counts for every daily picture kind
+const dailyPictureLookupLimitHint = "Maximum number of days to look up. Backfill days beyond this are ignored.";
+
+// Number of past days to fetch in addition to today
+function backfillDaysField(max: number) {
+  return z
+    .number()
+    .int({ error: "Backfill must be a whole number of days" })
+    .min(0, { error: "Backfill cannot be negative" })
+    .max(max, { error: `Backfill must be ${max} days or less` })
+    .default(0);
+}
+
+// Full source schema for the Bing homepage image
+export const bingSourceSchema = z.object({
+  ...baseSourceFields,
+
+  kind: z.literal("bing"),
+
+  market: z
+    .enum(["en-US", "en-GB", "en-CA", "en-AU", "en-IN", "de-DE", "fr-FR", "es-ES", "it-IT", "pt-BR", "ja-JP", "zh-CN"])
+    .default("en-US"),
+
+  backfillDays: backfillDaysField(BING_MAX_BACKFILL_DAYS),
+});
+
+export type BingSourceFormData = z.infer<typeof bingSourceSchema>;
+
+// Full source schema for NASA's Astronomy Picture of the Day
+export const apodSourceSchema = z.object({
+  ...baseSourceFields,
+
+  kind: z.literal("apod"),
+
+  backfillDays: backfillDaysField(DAILY_PICTURE_MAX_BACKFILL_DAYS),
+
+  // Empty uses the shared DEMO_KEY
+  apiKey: z.string().max(100, { error: "API key must be 100 characters or less" }).default(""),
+});
+
+export type ApodSourceFormData = z.infer<typeof apodSourceSchema>;
+
+// Full source schema for the Wikimedia Commons Picture of the Day
+export const wikimediaPotdSourceSchema = z.object({
+  ...baseSourceFields,
+
+  kind: z.literal("wikimedia_potd"),
+
+  // Language of the picture description
+  language: z
+    .string()
+    .regex(wikipediaLanguagePattern, { error: "Must be a Wikipedia language code, e.g. en or de" })
+    .default("en"),
+
+  backfillDays: backfillDaysField(DAILY_PICTURE_MAX_BACKFILL_DAYS),
+});
+
+export type WikimediaPotdSourceFormData = z.infer<typeof wikimediaPotdSourceSchema>;
+
+// Number of past days stored in params
+function backfillDaysParam(max: number) {
+  const error = `must be a whole number between 0 and ${max}`;
+  return z.number({ error }).int({ error }).min(0, { error }).max(max, { error }).optional();
+}
+
+// sources.params of a Bing source
+export const bingParamsSchema = z.object(
+  {
+    backfillDays: backfillDaysParam(BING_MAX_BACKFILL_DAYS),
+    market: z
+      .string({ error: "must look like en-US" })
+      .regex(/^[a-z]{2}-[A-Z]{2}$/, { error: "must look like en-US" })
+      .optional(),
+  },
+  { error: "Params must be an object" }
+);
+
+// sources.params of an APOD source
+export const apodParamsSchema = z.object(
+  {
+    backfillDays: backfillDaysParam(DAILY_PICTURE_MAX_BACKFILL_DAYS),
+    apiKey: z.string({ error: "must be a string" }).optional(),
+  },
+  { error: "Params must be an object" }
+);
+
+// sources.params of a Wikimedia picture of the day source
+export const wikimediaPotdParamsSchema = z.object(
+  {
+    backfillDays: backfillDaysParam(DAILY_PICTURE_MAX_BACKFILL_DAYS),
+    language: z
+      .string({ error: "must be a Wikipedia language code" })
+      .regex(wikipediaLanguagePattern, { error: "must be a Wikipedia language code" })
+      .optional(),
+  },
+  { error: "Params must be an object" }
+);
+
+export const bingSourceKind: SourceKindDefinition<"bing", typeof bingSourceSchema> = {
+  kind: "bing",
+  label: "Bing Image of the Day",
+  lookupLimitHint: dailyPictureLookupLimitHint,
+  schema: bingSourceSchema,
+  paramsSchema: bingParamsSchema,
+
+  defaults: () => ({ market: "en-US", backfillDays: 0 }),
+
+  toParams: (data) => ({
+    market: data.market,
+    backfillDays: data.backfillDays,
+  }),
+
+  fromParams: (params) => ({
+    market: params.market || "en-US",
+    backfillDays: params.backfillDays ?? 0,
+  }),
+
+  describeTarget: (p) => (typeof p.market === "string" ? p.market : "en-US"),
+};
+
+export const apodSourceKind: SourceKindDefinition<"apod", typeof apodSourceSchema> = {
+  kind: "apod",
+  label: "NASA Astronomy Picture of the Day",
+  lookupLimitHint: dailyPictureLookupLimitHint,
+  schema: apodSourceSchema,
+  paramsSchema: apodParamsSchema,
+
+  defaults: () => ({ backfillDays: 0, apiKey: "" }),
+
+  toParams: (data) => ({
+    backfillDays: data.backfillDays,
+    apiKey: data.apiKey.trim() || undefined,
+  }),
+
+  fromParams: (params) => ({
+    backfillDays: params.backfillDays ?? 0,
+    apiKey: params.apiKey || "",
+  }),
+
+  describeTarget: () => "apod.nasa.gov",
+};
+
+export const wikimediaPotdSourceKind: SourceKindDefinition<"wikimedia_potd", typeof wikimediaPotdSourceSchema> = {
+  kind: "wikimedia_potd",
+  label: "Wikimedia Picture of the Day",
+  lookupLimitHint: dailyPictureLookupLimitHint,
+  schema: wikimediaPotdSourceSchema,
+  paramsSchema: wikimediaPotdParamsSchema,
+
+  defaults: () => ({ language: "en", backfillDays: 0 }),
+
+  toParams: (data) => ({
+    language: data.language,
+    backfillDays: data.backfillDays,
+  }),
+
+  fromParams: (params) => ({
+    language: params.language || "en",
+    backfillDays: params.backfillDays ?? 0,
+  }),
+
+  describeTarget: (p) => `${typeof p.language === "string" ? p.language : "en"}.wikipedia.org`,
+};
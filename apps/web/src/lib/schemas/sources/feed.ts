@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { baseSourceFields, type SourceKindDefinition } from "./base";
+
+// Full source schema for an RSS or Atom feed
+export const feedSourceSchema = z.object({
+  ...baseSourceFields,
+
+  kind: z.literal("feed"),
+
+  url: z
+    .url({ protocol: /^https?$/, error: "Must be a valid http(s) URL" })
+    .max(2000, { error: "URL must be 2000 characters or less" }),
+});
+
+export type FeedSourceFormData = z.infer<typeof feedSourceSchema>;
+
+// sources.params of a feed source
+export const feedParamsSchema = z.object(
+  {
+    url: z.url({ protocol: /^https?$/, error: "must be an http(s) URL" }),
+  },
+  { error: "Params must be an object" }
+);
+
+export const feedSourceKind: SourceKindDefinition<"feed", typeof feedSourceSchema> = {
+  kind: "feed",
+  label: "RSS / Atom Feed",
+  lookupLimitHint: "Maximum number of feed items to check for images (not the number of images to download).",
+  schema: feedSourceSchema,
+  paramsSchema: feedParamsSchema,
+
+  defaults: () => ({ url: "" }),
+
+  toParams: (data) => ({
+    url: data.url,
+  }),
+
+  fromParams: (params) => ({
+    url: params.url || "",
+  }),
+
+  describeTarget: (p) => (typeof p.url === "string" ? p.url : "-"),
+};
@@ -0,0 +1,41 @@
+import { redditSourceKind } from "./reddit";
+import { wallhavenSourceKind } from "./wallhaven";
+import { localFolderSourceKind } from "./local-folder";
+import { feedSourceKind } from "./feed";
+import { booruSourceKind } from "./booru";
+import { customJsonSourceKind } from "./custom-json";
+import { bingSourceKind, apodSourceKind, wikimediaPotdSourceKind } from "./daily-picture";
+import { mastodonSourceKind } from "./mastodon";
+import { lemmySourceKind } from "./lemmy";
+
+export * from "./base";
+export * from "./reddit";
+export * from "./wallhaven";
+export * from "./local-folder";
+export * from "./feed";
+export * from "./booru";
+export * from "./custom-json";
+export * from "./daily-picture";
+export * from "./mastodon";
+export * from "./lemmy";
+export * from "./plugin";
+
+/**
+ * Every source kind, in the order they are offered when creating a source.
+ * This is the only list to extend for a new kind: the runner registry and the form fields
+ * are derived from it. The kind's runner folder in $lib/server/runner default-exports its
+ * runner, and its fields are $lib/components/source-fields/<kind>-source-fields.svelte.
+ */
+export const SOURCE_KIND_DEFINITIONS = [
+  redditSourceKind,
+  wallhavenSourceKind,
+  localFolderSourceKind,
+  feedSourceKind,
+  booruSourceKind,
+  customJsonSourceKind,
+  bingSourceKind,
+  apodSourceKind,
+  wikimediaPotdSourceKind,
+  mastodonSourceKind,
+  lemmySourceKind,
+] as const;
@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { baseSourceFields, type SourceKindDefinition } from "./base";
+
+// Lemmy community: community@instance, with or without the leading !
+const lemmyCommunityPattern = /^!?[a-zA-Z0-9_]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+// Lemmy sort options
+export const LEMMY_SORT_OPTIONS = [
+  { value: "New", label: "New" },
+  { value: "Hot", label: "Hot" },
+  { value: "Active", label: "Active" },
+  { value: "TopDay", label: "Top (Day)" },
+  { value: "TopWeek", label: "Top (Week)" },
+  { value: "TopMonth", label: "Top (Month)" },
+  { value: "TopYear", label: "Top (Year)" },
+  { value: "TopAll", label: "Top (All Time)" },
+] as const;
+
+// Full source schema for a Lemmy community
+export const lemmySourceSchema = z.object({
+  ...baseSourceFields,
+
+  kind: z.literal("lemmy"),
+
+  community: z
+    .string()
+    .min(1, { error: "Community is required" })
+    .regex(lemmyCommunityPattern, { error: "Must be in format community@instance" }),
+
+  sort: z.enum(["New", "Hot", "Active", "TopDay", "TopWeek", "TopMonth", "TopYear", "TopAll"]).default("New"),
+});
+
+export type LemmySourceFormData = z.infer<typeof lemmySourceSchema>;
+
+// sources.params of a Lemmy source
+export const lemmyParamsSchema = z.object(
+  {
+    community: z
+      .string({ error: "must be name@instance" })
+      .regex(/^[a-zA-Z0-9_]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/, { error: "must be name@instance" }),
+    sort: z
+      .enum(["Active", "Hot", "New", "TopDay", "TopWeek", "TopMonth", "TopYear", "TopAll"], {
+        error: "must be one of Active, Hot, New, TopDay, TopWeek, TopMonth, TopYear, TopAll",
+      })
+      .optional(),
+  },
+  { error: "Params must be an object" }
+);
+
+export const lemmySourceKind: SourceKindDefinition<"lemmy", typeof lemmySourceSchema> = {
+  kind: "lemmy",
+  label: "Lemmy",
+  lookupLimitHint: "Maximum number of posts to check for images (not the number of images to download).",
+  schema: lemmySourceSchema,
+  paramsSchema: lemmyParamsSchema,
+
+  defaults: () => ({ community: "", sort: "New" }),
+
+  toParams: (data) => ({
+    community: data.community.replace(/^!/, ""),
+    sort: data.sort,
+  }),
+
+  fromParams: (params) => ({
+    community: params.community || "",
+    sort: params.sort || "New",
+  }),
+
+  describeTarget: (p) => (typeof p.community === "string" ? `!${p.community}` : "-"),
+};
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { baseSourceFields, type SourceKindDefinition } from "./base";
+
+// Absolute path on the server: /path or C:\path
+const absolutePathPattern = /^(\/|[a-zA-Z]:[\\/])/;
+
+// Full source schema for a folder on the server
+export const localFolderSourceSchema = z.object({
+  ...baseSourceFields,
+
+  kind: z.literal("local_folder"),
+
+  path: z
+    .string()
+    .min(1, { error: "Folder path is required" })
+    .max(1000, { error: "Folder path must be 1000 characters or less" })
+    .regex(absolutePathPattern, { error: "Must be an absolute path" }),
+
+  // Scan sub folders
+  recursive: z.boolean().default(true),
+
+  // Create a run whenever files in the folder change
+  watch: z.boolean().default(false),
+});
+
+export type LocalFolderSourceFormData = z.infer<typeof localFolderSourceSchema>;
+
+// sources.params of a local folder source
+export const localFolderParamsSchema = z.object(
+  {
+    path: z
+      .string({ error: "must be an absolute path" })
+      .regex(absolutePathPattern, { error: "must be an absolute path" }),
+    recursive: z.boolean({ error: "must be a boolean" }).optional(),
+    watch: z.boolean({ error: "must be a boolean" }).optional(),
+  },
+  { error: "Params must be an object" }
+);
+
+export const localFolderSourceKind: SourceKindDefinition<"local_folder", typeof localFolderSourceSchema> = {
+  kind: "local_folder",
+  label: "Local Folder",
+  lookupLimitHint: "Maximum number of new files to import per run. Remaining files are imported by later runs.",
+  schema: localFolderSourceSchema,
+  paramsSchema: localFolderParamsSchema,
+
+  defaults: () => ({ path: "", recursive: true, watch: false }),
+
+  toParams: (data) => ({
+    path: data.path.trim(),
+    recursive: data.recursive,
+    watch: data.watch,
+  }),
+
+  fromParams: (params) => ({
+    path: params.path || "",
+    recursive: params.recursive ?? true,
+    watch: params.watch ?? false,
+  }),
+
+  describeTarget: (p) => (typeof p.path === "string" ? p.path : "-"),
+};
@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { baseSourceFields, type SourceKindDefinition } from "./base";
+
+// Mastodon hashtag, with or without the leading #
+const mastodonHashtagPattern = /^#?[\p{L}\p{N}_]*$/u;
+
+// Mastodon account: user or user@domain, with or without the leading @
+const mastodonAccountPattern = /^@?([a-zA-Z0-9_]+(@[a-zA-Z0-9.-]+)?)?$/;
+
+// Mastodon timelines a source can read
+export const MASTODON_TARGET_OPTIONS = [
+  { value: "hashtag", label: "Hashtag" },
+  { value: "account", label: "Account" },
+] as const;
+
+// Full source schema for a Mastodon-compatible instance
+export const mastodonSourceSchema = z
+  .object({
+    ...baseSourceFields,
+
+    kind: z.literal("mastodon"),
+
+    instanceUrl: z
+      .url({ protocol: /^https?$/, error: "Must be a valid http(s) URL" })
+      .max(500, { error: "URL must be 500 characters or less" }),
+
+    target: z.enum(["hashtag", "account"]).default("hashtag"),
+
+    // Only used when target is "hashtag"
+    hashtag: z
+      .string()
+      .max(100, { error: "Hashtag must be 100 characters or less" })
+      .regex(mastodonHashtagPattern, { error: "Hashtags only contain letters, numbers and underscores" })
+      .default(""),
+
+    // Only used when target is "account"
+    account: z
+      .string()
+      .max(200, { error: "Account must be 200 characters or less" })
+      .regex(mastodonAccountPattern, { error: "Must be in format user or user@instance" })
+      .default(""),
+
+    includeReblogs: z.boolean().default(false),
+
+    accessToken: z.string().max(500, { error: "Access token must be 500 characters or less" }).default(""),
+  })
+  .refine((data) => data.target !== "hashtag" || data.hashtag.replace(/^#/, "") !== "", {
+    error: "Hashtag is required",
+    path: ["hashtag"],
+  })
+  .refine((data) => data.target !== "account" || data.account.replace(/^@/, "") !== "", {
+    error: "Account is required",
+    path: ["account"],
+  });
+
+export type MastodonSourceFormData = z.infer<typeof mastodonSourceSchema>;
+
+// sources.params of a Mastodon source: a hashtag or an account timeline
+export const mastodonParamsSchema = z.discriminatedUnion(
+  "target",
+  [
+    z.object({
+      instanceUrl: z.url({ protocol: /^https?$/, error: "must be an http(s) URL" }),
+      target: z.literal("hashtag"),
+      hashtag: z.string({ error: "must be a hashtag" }).regex(/^[\p{L}\p{N}_]+$/u, { error: "must be a hashtag" }),
+      accessToken: z.string({ error: "must be a string" }).optional(),
+    }),
+    z.object({
+      instanceUrl: z.url({ protocol: /^https?$/, error: "must be an http(s) URL" }),
+      target: z.literal("account"),
+      account: z
+        .string({ error: "must be user or user@domain" })
+        .regex(/^[a-zA-Z0-9_]+(@[a-zA-Z0-9.-]+)?$/, { error: "must be user or user@domain" }),
+      includeReblogs: z.boolean({ error: "must be a boolean" }).optional(),
+      accessToken: z.string({ error: "must be a string" }).optional(),
+    }),
+  ],
+  {
+    error: (issue) =>
+      issue.input && typeof issue.input === "object" ? "must be one of hashtag, account" : "Params must be an object",
+  }
+);
+
+export const mastodonSourceKind: SourceKindDefinition<"mastodon", typeof mastodonSourceSchema> = {
+  kind: "mastodon",
+  label: "Mastodon",
+  lookupLimitHint: "Maximum number of statuses to check for images (not the number of images to download).",
+  schema: mastodonSourceSchema,
+  paramsSchema: mastodonParamsSchema,
+
+  defaults: () => ({
+    instanceUrl: "",
+    target: "hashtag",
+    hashtag: "",
+    account: "",
+    includeReblogs: false,
+    accessToken: "",
+  }),
+
+  toParams: (data) => ({
+    instanceUrl: data.instanceUrl.replace(/\/+$/, ""),
+    target: data.target,
+    hashtag: data.target === "hashtag" ? data.hashtag.replace(/^#/, "") : undefined,
+    account: data.target === "account" ? data.account.replace(/^@/, "") : undefined,
+    includeReblogs: data.target === "account" ? data.includeReblogs : undefined,
+    accessToken: data.accessToken.trim() || undefined,
+  }),
+
+  fromParams: (params) => ({
+    instanceUrl: params.instanceUrl || "",
+    target: params.target || "hashtag",
+    hashtag: params.hashtag || "",
+    account: params.account || "",
+    includeReblogs: params.includeReblogs ?? false,
+    accessToken: params.accessToken || "",
+  }),
+
+  describeTarget: (p) => {
+    const host = typeof p.instanceUrl === "string" ? p.instanceUrl.replace(/^https?:\/\//, "") : "?";
+    return p.target === "account" ? `@${p.account}@${host}` : `#${p.hashtag} on ${host}`;
+  },
+};
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { baseSourceFields } from "./base";
+
+// Source kinds are stored in sources.kind (same rule as for plugin runners)
+const pluginKindPattern = /^[a-z][a-z0-9_]*$/;
+
+// What "lookup limit" means is up to the plugin
+export const PLUGIN_LOOKUP_LIMIT_HINT = "Maximum number of items the plugin looks up per run.";
+
+/**
+ * Whether text is a JSON object (what sources.params holds)
+ */
+function isJsonObject(text: string): boolean {
+  try {
+    const value = JSON.parse(text);
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+  } catch {
+    return false;
+  }
+}
+
+// Full source schema for a kind added by a runner plugin.
+// Plugins have no form: params are edited as JSON and checked against the plugin's params schema on save.
+export const pluginSourceSchema = z.object({
+  ...baseSourceFields,
+
+  kind: z.string().regex(pluginKindPattern, { error: "Invalid source kind" }),
+
+  params: z
+    .string()
+    .max(20000, { error: "Params must be 20000 characters or less" })
+    .refine(isJsonObject, { error: "Must be a JSON object, e.g. {\"tag\": \"landscape\"}" })
+    .default("{}"),
+});
+
+export type PluginSourceFormData = z.infer<typeof pluginSourceSchema>;
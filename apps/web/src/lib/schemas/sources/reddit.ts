@@ -0,0 +1,267 @@
+import { z } from "zod";
+import { baseSourceFields, type SourceKindDefinition } from "./base";
+
+// Reddit subreddit pattern: /r/subreddit, /user/username, /u/username
+const redditSubredditPattern = /^\/(r|user|u)\/[a-zA-Z0-9_-]+$/;
+
+// Reddit multireddit pattern: /r/a+b+c, /user/username/m/name
+const redditMultiredditPattern = /^\/(r\/[a-zA-Z0-9_-]+(\+[a-zA-Z0-9_-]+)+|(user|u)\/[a-zA-Z0-9_-]+\/m\/[a-zA-Z0-9_-]+)$/;
+
+// Reddit domain listing: i.redd.it, with or without the leading /domain/
+const redditDomainPattern = /^(\/domain\/)?[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)+$/;
+
+// Reddit listing options
+export const REDDIT_LISTING_OPTIONS = [
+  { value: "subreddit", label: "Subreddit / User" },
+  { value: "multireddit", label: "Multireddit" },
+  { value: "search", label: "Subreddit Search" },
+  { value: "domain", label: "Domain" },
+] as const;
+
+export type RedditListing = (typeof REDDIT_LISTING_OPTIONS)[number]["value"];
+
+// Reddit sort options
+export const REDDIT_SORT_OPTIONS = [
+  { value: "new", label: "New" },
+  { value: "hot", label: "Hot" },
+  { value: "top", label: "Top" },
+  { value: "rising", label: "Rising" },
+] as const;
+
+export type RedditSortType = (typeof REDDIT_SORT_OPTIONS)[number]["value"];
+
+// Reddit top period options (only used when sort is "top")
+export const REDDIT_TOP_PERIOD_OPTIONS = [
+  { value: "hour", label: "Past Hour" },
+  { value: "day", label: "Past 24 Hours" },
+  { value: "week", label: "Past Week" },
+  { value: "month", label: "Past Month" },
+  { value: "year", label: "Past Year" },
+  { value: "all", label: "All Time" },
+] as const;
+
+export type RedditTopPeriod = (typeof REDDIT_TOP_PERIOD_OPTIONS)[number]["value"];
+
+// Full source schema for Reddit
+export const redditSourceSchema = z
+  .object({
+    ...baseSourceFields,
+
+    kind: z.literal("reddit"),
+
+    listing: z.enum(["subreddit", "multireddit", "search", "domain"]).default("subreddit"),
+
+    // Used when listing is "subreddit", and as the subreddit to search when listing is "search"
+    subreddit: z.string().default(""),
+
+    // Only used when listing is "multireddit"
+    multireddit: z.string().default(""),
+
+    // Only used when listing is "search"
+    searchQuery: z.string().max(512, { error: "Search query must be 512 characters or less" }).default(""),
+
+    // Only used when listing is "domain"
+    domain: z.string().default(""),
+
+    sort: z.enum(["new", "hot", "top", "rising"]).default("new"),
+
+    // Only used when sort is "top"
+    topPeriod: z.enum(["hour", "day", "week", "month", "year", "all"]).default("day"),
+
+    // Post quality filters (empty = no filter)
+    minScore: z.number().int({ error: "Minimum score must be a whole number" }).optional(),
+    minUpvoteRatio: z
+      .number()
+      .int({ error: "Minimum upvote ratio must be a whole number" })
+      .min(0, { error: "Minimum upvote ratio must be between 0 and 100" })
+      .max(100, { error: "Minimum upvote ratio must be between 0 and 100" })
+      .optional(),
+    allowedFlairs: z.string().max(500, { error: "Flairs must be 500 characters or less" }).default(""),
+    blockedFlairs: z.string().max(500, { error: "Flairs must be 500 characters or less" }).default(""),
+    allowedDomains: z.string().max(500, { error: "Domains must be 500 characters or less" }).default(""),
+    blockedDomains: z.string().max(500, { error: "Domains must be 500 characters or less" }).default(""),
+    maxAgeHours: z
+      .number()
+      .int({ error: "Maximum age must be a whole number of hours" })
+      .positive({ error: "Maximum age must be at least 1 hour" })
+      .optional(),
+
+    // Download the smallest preview that covers the subscribed devices
+    bestFitPreview: z.boolean().default(false),
+  })
+  .refine((data) => data.listing !== "subreddit" || redditSubredditPattern.test(data.subreddit), {
+    error: "Must be in format /r/<subreddit>, /user/<username>, or /u/<username>",
+    path: ["subreddit"],
+  })
+  .refine((data) => data.listing !== "multireddit" || redditMultiredditPattern.test(data.multireddit), {
+    error: "Must be in format /r/<a>+<b>+<c> or /user/<username>/m/<name>",
+    path: ["multireddit"],
+  })
+  .refine((data) => data.listing !== "search" || /^\/r\/[a-zA-Z0-9_-]+$/.test(data.subreddit), {
+    error: "Must be in format /r/<subreddit>",
+    path: ["subreddit"],
+  })
+  .refine((data) => data.listing !== "search" || data.searchQuery.trim() !== "", {
+    error: "Search query is required",
+    path: ["searchQuery"],
+  })
+  .refine((data) => data.listing !== "search" || data.sort !== "rising", {
+    error: "Rising is not available for search",
+    path: ["sort"],
+  })
+  .refine((data) => data.listing !== "domain" || redditDomainPattern.test(data.domain), {
+    error: "Must be a domain such as i.redd.it",
+    path: ["domain"],
+  });
+
+export type RedditSourceFormData = z.infer<typeof redditSourceSchema>;
+
+// List of flairs or domains stored in params
+const stringListParam = z.array(z.string(), { error: "must be a list of strings" }).optional();
+
+// Post quality filters in sources.params of a Reddit source
+export const redditPostFiltersSchema = z.object({
+  minScore: z.number({ error: "must be a number" }).optional(),
+  maxAgeHours: z.number({ error: "must be a number" }).positive({ error: "must be positive" }).optional(),
+  minUpvoteRatio: z
+    .number({ error: "must be between 0 and 1" })
+    .min(0, { error: "must be between 0 and 1" })
+    .max(1, { error: "must be between 0 and 1" })
+    .optional(),
+  allowedFlairs: stringListParam,
+  blockedFlairs: stringListParam,
+  allowedDomains: stringListParam,
+  blockedDomains: stringListParam,
+});
+
+// sources.params of a Reddit source (the listing path itself is checked by the Reddit client)
+export const redditParamsSchema = z.object(
+  {
+    subreddit: z
+      .string({ error: "must be a listing path, e.g. /r/wallpapers" })
+      .min(1, { error: "must be a listing path, e.g. /r/wallpapers" }),
+    sort: z.enum(["hot", "new", "top", "rising"], { error: "must be one of hot, new, top, rising" }).optional(),
+    period: z
+      .enum(["hour", "day", "week", "month", "year", "all"], {
+        error: "must be one of hour, day, week, month, year, all",
+      })
+      .optional(),
+    bestFitPreview: z.boolean({ error: "must be a boolean" }).optional(),
+    ...redditPostFiltersSchema.shape,
+  },
+  { error: "Params must be an object" }
+);
+
+/**
+ * Split a comma-separated form list, or undefined when empty
+ */
+function splitList(value: string): string[] | undefined {
+  const items = value.split(",").map((item) => item.trim()).filter((item) => item !== "");
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Build the listing path stored in Reddit params.subreddit.
+ * See RedditClient.parseTargetPath for the formats it understands.
+ */
+export function buildRedditTargetPath(data: RedditSourceFormData): string {
+  switch (data.listing) {
+    case "multireddit":
+      return data.multireddit;
+    case "search": {
+      const query = new URLSearchParams({ q: data.searchQuery.trim(), restrict_sr: "1" });
+      return `${data.subreddit}/search?${query.toString()}`;
+    }
+    case "domain":
+      return `/domain/${data.domain.replace(/^\/domain\//, "")}`;
+    default:
+      return data.subreddit;
+  }
+}
+
+/**
+ * Split a stored Reddit listing path back into form fields
+ */
+export function parseRedditTargetPath(
+  path: string
+): Pick<RedditSourceFormData, "listing" | "subreddit" | "multireddit" | "searchQuery" | "domain"> {
+  const fields = { listing: "subreddit" as RedditListing, subreddit: "", multireddit: "", searchQuery: "", domain: "" };
+  const [listingPath, query = ""] = path.split("?", 2);
+
+  if (listingPath.endsWith("/search")) {
+    return {
+      ...fields,
+      listing: "search",
+      subreddit: listingPath.replace(/\/search$/, ""),
+      searchQuery: new URLSearchParams(query).get("q") ?? "",
+    };
+  }
+  if (redditMultiredditPattern.test(listingPath)) {
+    return { ...fields, listing: "multireddit", multireddit: listingPath };
+  }
+  if (listingPath.startsWith("/domain/")) {
+    return { ...fields, listing: "domain", domain: listingPath.replace(/^\/domain\//, "") };
+  }
+  return { ...fields, subreddit: listingPath };
+}
+
+export const redditSourceKind: SourceKindDefinition<"reddit", typeof redditSourceSchema> = {
+  kind: "reddit",
+  label: "Reddit",
+  lookupLimitHint: "Maximum number of posts to check for images (not the number of images to download).",
+  schema: redditSourceSchema,
+  paramsSchema: redditParamsSchema,
+
+  defaults: () => ({
+    listing: "subreddit",
+    subreddit: "",
+    multireddit: "",
+    searchQuery: "",
+    domain: "",
+    sort: "new",
+    topPeriod: "day",
+    minScore: undefined,
+    minUpvoteRatio: undefined,
+    allowedFlairs: "",
+    blockedFlairs: "",
+    allowedDomains: "",
+    blockedDomains: "",
+    maxAgeHours: undefined,
+    bestFitPreview: false,
+  }),
+
+  toParams: (data) => ({
+    subreddit: buildRedditTargetPath(data),
+    sort: data.sort,
+    period: data.sort === "top" ? data.topPeriod : undefined,
+    minScore: data.minScore,
+    // Stored as 0-1, like Reddit's upvote_ratio
+    minUpvoteRatio: data.minUpvoteRatio !== undefined ? data.minUpvoteRatio / 100 : undefined,
+    allowedFlairs: splitList(data.allowedFlairs),
+    blockedFlairs: splitList(data.blockedFlairs),
+    allowedDomains: splitList(data.allowedDomains),
+    blockedDomains: splitList(data.blockedDomains),
+    maxAgeHours: data.maxAgeHours,
+    bestFitPreview: data.bestFitPreview || undefined,
+  }),
+
+  fromParams: (params) => ({
+    ...parseRedditTargetPath(params.subreddit || ""),
+    sort: (params.sort as RedditSortType) || "new",
+    topPeriod: (params.period as RedditTopPeriod) || "day",
+    minScore: params.minScore,
+    minUpvoteRatio: params.minUpvoteRatio !== undefined ? Math.round(params.minUpvoteRatio * 100) : undefined,
+    allowedFlairs: (params.allowedFlairs ?? []).join(", "),
+    blockedFlairs: (params.blockedFlairs ?? []).join(", "),
+    allowedDomains: (params.allowedDomains ?? []).join(", "),
+    blockedDomains: (params.blockedDomains ?? []).join(", "),
+    maxAgeHours: params.maxAgeHours,
+    bestFitPreview: params.bestFitPreview ?? false,
+  }),
+
+  describeTarget: (p) => {
+    if (typeof p.subreddit !== "string") return "-";
+    const target = parseRedditTargetPath(p.subreddit);
+    return target.listing === "search" ? `"${target.searchQuery}" in ${target.subreddit}` : p.subreddit;
+  },
+};
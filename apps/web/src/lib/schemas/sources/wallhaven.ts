@@ -0,0 +1,171 @@
+import { z } from "zod";
+import { baseSourceFields, type SourceKindDefinition } from "./base";
+
+// Wallhaven minimum resolution: empty or <width>x<height>
+const wallhavenResolutionPattern = /^(\d+x\d+)?$/;
+
+// Resolution or aspect ratio stored in params: <width>x<height>
+const wallhavenDimensionPattern = /^\d+x\d+$/;
+
+// Wallhaven category options
+export const WALLHAVEN_CATEGORY_OPTIONS = [
+  { value: "general", label: "General" },
+  { value: "anime", label: "Anime" },
+  { value: "people", label: "People" },
+] as const;
+
+// Wallhaven purity options ("nsfw" requires an API key)
+export const WALLHAVEN_PURITY_OPTIONS = [
+  { value: "sfw", label: "SFW" },
+  { value: "sketchy", label: "Sketchy" },
+  { value: "nsfw", label: "NSFW" },
+] as const;
+
+// Wallhaven sorting options
+export const WALLHAVEN_SORTING_OPTIONS = [
+  { value: "latest", label: "Latest" },
+  { value: "toplist", label: "Toplist" },
+  { value: "random", label: "Random" },
+] as const;
+
+// Wallhaven toplist range options (only used when sorting is "toplist")
+export const WALLHAVEN_TOP_RANGE_OPTIONS = [
+  { value: "1d", label: "Last Day" },
+  { value: "3d", label: "Last 3 Days" },
+  { value: "1w", label: "Last Week" },
+  { value: "1M", label: "Last Month" },
+  { value: "3M", label: "Last 3 Months" },
+  { value: "6M", label: "Last 6 Months" },
+  { value: "1y", label: "Last Year" },
+] as const;
+
+// Aspect ratios accepted by Wallhaven's ratios filter
+export const WALLHAVEN_RATIO_OPTIONS = [
+  "16x9", "16x10", "21x9", "32x9", "48x9",
+  "9x16", "10x16", "9x18",
+  "1x1", "3x2", "4x3", "5x4",
+] as const;
+
+// Full source schema for Wallhaven
+export const wallhavenSourceSchema = z
+  .object({
+    ...baseSourceFields,
+
+    kind: z.literal("wallhaven"),
+
+    // Empty query searches all wallpapers
+    query: z.string().max(255, { error: "Query must be 255 characters or less" }).default(""),
+
+    categories: z
+      .array(z.enum(["general", "anime", "people"]))
+      .min(1, { error: "Select at least one category" })
+      .default(["general", "anime", "people"]),
+
+    purity: z
+      .array(z.enum(["sfw", "sketchy", "nsfw"]))
+      .min(1, { error: "Select at least one purity level" })
+      .default(["sfw"]),
+
+    sorting: z.enum(["latest", "toplist", "random"]).default("latest"),
+
+    // Only used when sorting is "toplist"
+    topRange: z.enum(["1d", "3d", "1w", "1M", "3M", "6M", "1y"]).default("1M"),
+
+    // Empty means no minimum
+    minResolution: z
+      .string()
+      .regex(wallhavenResolutionPattern, { error: "Must be in format <width>x<height>, e.g. 1920x1080" })
+      .default(""),
+
+    ratios: z.array(z.string().regex(/^\d+x\d+$/)).default([]),
+
+    apiKey: z.string().max(100, { error: "API key must be 100 characters or less" }).default(""),
+  })
+  .refine((data) => !data.purity.includes("nsfw") || data.apiKey.trim() !== "", {
+    error: "NSFW purity requires an API key",
+    path: ["apiKey"],
+  });
+
+export type WallhavenSourceFormData = z.infer<typeof wallhavenSourceSchema>;
+
+// sources.params of a Wallhaven source
+export const wallhavenParamsSchema = z
+  .object(
+    {
+      query: z.string({ error: "must be a string" }).optional(),
+      categories: z
+        .array(z.enum(["general", "anime", "people"], { error: "must be one of general, anime, people" }), {
+          error: "must be a list of general, anime, people",
+        })
+        .min(1, { error: "must not be empty" })
+        .optional(),
+      purity: z
+        .array(z.enum(["sfw", "sketchy", "nsfw"], { error: "must be one of sfw, sketchy, nsfw" }), {
+          error: "must be a list of sfw, sketchy, nsfw",
+        })
+        .min(1, { error: "must not be empty" })
+        .optional(),
+      sorting: z.enum(["latest", "toplist", "random"], { error: "must be one of latest, toplist, random" }).optional(),
+      topRange: z
+        .enum(["1d", "3d", "1w", "1M", "3M", "6M", "1y"], { error: "must be one of 1d, 3d, 1w, 1M, 3M, 6M, 1y" })
+        .optional(),
+      minResolution: z
+        .string({ error: "must be a string" })
+        .regex(wallhavenDimensionPattern, { error: "must be in format WIDTHxHEIGHT" })
+        .optional(),
+      ratios: z
+        .array(z.string().regex(wallhavenDimensionPattern, { error: "must be in format WxH (e.g. 16x9)" }), {
+          error: "must be a list in format WxH (e.g. 16x9)",
+        })
+        .optional(),
+      apiKey: z.string({ error: "must be a string" }).optional(),
+    },
+    { error: "Params must be an object" }
+  )
+  .refine((p) => !p.purity?.includes("nsfw") || !!p.apiKey, {
+    error: "NSFW purity requires an API key",
+    path: ["apiKey"],
+  });
+
+export const wallhavenSourceKind: SourceKindDefinition<"wallhaven", typeof wallhavenSourceSchema> = {
+  kind: "wallhaven",
+  label: "Wallhaven",
+  lookupLimitHint: "Maximum number of wallpapers to look up (24 per page, not the number of images to download).",
+  schema: wallhavenSourceSchema,
+  paramsSchema: wallhavenParamsSchema,
+
+  defaults: () => ({
+    query: "",
+    categories: ["general", "anime", "people"],
+    purity: ["sfw"],
+    sorting: "latest",
+    topRange: "1M",
+    minResolution: "",
+    ratios: [],
+    apiKey: "",
+  }),
+
+  toParams: (data) => ({
+    query: data.query.trim() || undefined,
+    categories: data.categories,
+    purity: data.purity,
+    sorting: data.sorting,
+    topRange: data.sorting === "toplist" ? data.topRange : undefined,
+    minResolution: data.minResolution || undefined,
+    ratios: data.ratios.length > 0 ? data.ratios : undefined,
+    apiKey: data.apiKey.trim() || undefined,
+  }),
+
+  fromParams: (params) => ({
+    query: params.query || "",
+    categories: params.categories || ["general", "anime", "people"],
+    purity: params.purity || ["sfw"],
+    sorting: params.sorting || "latest",
+    topRange: params.topRange || "1M",
+    minResolution: params.minResolution || "",
+    ratios: params.ratios || [],
+    apiKey: params.apiKey || "",
+  }),
+
+  describeTarget: (p) => (typeof p.query === "string" && p.query ? p.query : `(${p.sorting ?? "latest"})`),
+};
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { parseBandwidthSchedule, getBandwidthLimit } from "./bandwidth";
+
+describe("parseBandwidthSchedule", () => {
+  it("should parse windows separated by semicolons and newlines", () => {
+    expect(parseBandwidthSchedule("09:00-18:30 1048576;\n 22:00-7:00  0\n")).toEqual([
+      { start: 540, end: 1110, bytesPerSec: 1048576 },
+      { start: 1320, end: 420, bytesPerSec: 0 },
+    ]);
+    expect(parseBandwidthSchedule("")).toEqual([]);
+  });
+
+  it("should reject malformed windows", () => {
+    expect(() => parseBandwidthSchedule("9-18 1048576")).toThrow('Invalid time window "9-18"');
+    expect(() => parseBandwidthSchedule("09:00-25:00 1048576")).toThrow('Invalid time window "09:00-25:00"');
+    expect(() => parseBandwidthSchedule("09:00-18:00 1MB")).toThrow("Invalid bandwidth for 09:00-18:00: 1MB");
+    expect(() => parseBandwidthSchedule("09:00-18:00")).toThrow("Invalid bandwidth for 09:00-18:00");
+  });
+});
+
+describe("getBandwidthLimit", () => {
+  const windows = parseBandwidthSchedule("09:00-18:00 1048576; 22:00-07:00 0");
+  const at = (time: string) => new Date(`2026-10-18T${time}:00`);
+
+  it("should use the first window containing the time", () => {
+    expect(getBandwidthLimit(500_000, windows, at("09:00"))).toBe(1048576);
+    expect(getBandwidthLimit(500_000, windows, at("17:59"))).toBe(1048576);
+    expect(getBandwidthLimit(500_000, windows, at("23:30"))).toBe(0);
+    expect(getBandwidthLimit(500_000, windows, at("06:59"))).toBe(0);
+  });
+
+  it("should fall back to the global cap outside the windows", () => {
+    expect(getBandwidthLimit(500_000, windows, at("18:00"))).toBe(500_000);
+    expect(getBandwidthLimit(500_000, windows, at("07:00"))).toBe(500_000);
+    expect(getBandwidthLimit(0, [], at("12:00"))).toBe(0);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Time-of-day window with its own download bandwidth cap
+ */
+export interface BandwidthWindow {
+  /** Start of the window in minutes after midnight (server local time) */
+  start: number;
+  /** End of the window in minutes after midnight; before start when it spans midnight */
+  end: number;
+  /** Cap in bytes per second while the window is active (0 = unlimited) */
+  bytesPerSec: number;
+}
+
+// HH:MM-HH:MM
+const WINDOW_TIMES = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/;
+
+/**
+ * Parse bandwidth windows from config, e.g. "09:00-18:00 1048576; 22:00-07:00 0".
+ * Windows are separated by semicolons or newlines; the first window containing the current time applies.
+ * @throws if a window is malformed
+ */
+export function parseBandwidthSchedule(spec: string): BandwidthWindow[] {
+  const windows: BandwidthWindow[] = [];
+
+  for (const entry of spec.split(/[;\n]/)) {
+    const parts = entry.trim().split(/\s+/);
+    if (!parts[0]) continue;
+
+    const [times, rate, ...extra] = parts;
+    const match = times.match(WINDOW_TIMES);
+    if (!match) {
+      throw new Error(`Invalid time window "${times}" (use HH:MM-HH:MM)`);
+    }
+
+    const [startHours, startMinutes, endHours, endMinutes] = match.slice(1).map(Number);
+    if (startHours > 23 || startMinutes > 59 || endMinutes > 59 || endHours * 60 + endMinutes > 24 * 60) {
+      throw new Error(`Invalid time window "${times}"`);
+    }
+
+    const bytesPerSec = Number(rate);
+    if (!rate || extra.length > 0 || !Number.isInteger(bytesPerSec) || bytesPerSec < 0) {
+      throw new Error(`Invalid bandwidth for ${times}: ${parts.slice(1).join(" ")} (use bytes per second, 0 = unlimited)`);
+    }
+
+    windows.push({
+      start: startHours * 60 + startMinutes,
+      end: endHours * 60 + endMinutes,
+      bytesPerSec,
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * Bandwidth cap at a given time: the first matching window, else the global cap
+ * @returns bytes per second (0 = unlimited)
+ */
+export function getBandwidthLimit(globalBytesPerSec: number, windows: BandwidthWindow[], date = new Date()): number {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const window = windows.find(({ start, end }) =>
+    start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+  );
+  return window ? window.bytesPerSec : globalBytesPerSec;
+}
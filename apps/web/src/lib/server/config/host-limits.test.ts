@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { parseHostLimits, matchesHostPattern, DEFAULT_HOST_LIMITS } from "./host-limits";
+
+describe("parseHostLimits", () => {
+  it("should parse rules separated by semicolons and newlines", () => {
+    expect(parseHostLimits("*.redd.it maxConcurrent=2 minDelayMs=250;\n i.imgur.com  cooldownMs=0\n")).toEqual([
+      { pattern: "*.redd.it", maxConcurrent: 2, minDelayMs: 250 },
+      { pattern: "i.imgur.com", cooldownMs: 0 },
+    ]);
+  });
+
+  it("should accept the default and an empty spec", () => {
+    expect(parseHostLimits(DEFAULT_HOST_LIMITS)).toHaveLength(1);
+    expect(parseHostLimits("")).toEqual([]);
+  });
+
+  it("should reject malformed rules", () => {
+    expect(() => parseHostLimits("https://i.redd.it")).toThrow('Invalid host pattern "https://i.redd.it"');
+    expect(() => parseHostLimits("i.redd.it delay=5")).toThrow('Unknown host limit "delay"');
+    expect(() => parseHostLimits("i.redd.it maxConcurrent=0")).toThrow("Invalid value for maxConcurrent");
+    expect(() => parseHostLimits("i.redd.it minDelayMs=")).toThrow("Invalid value for minDelayMs");
+  });
+});
+
+describe("matchesHostPattern", () => {
+  it("should match a domain and its subdomains for wildcards", () => {
+    expect(matchesHostPattern("i.redd.it", "*.redd.it")).toBe(true);
+    expect(matchesHostPattern("Preview.Redd.it", "*.redd.it")).toBe(true);
+    expect(matchesHostPattern("redd.it", "*.redd.it")).toBe(true);
+    expect(matchesHostPattern("notredd.it", "*.redd.it")).toBe(false);
+  });
+
+  it("should match exact hosts only otherwise", () => {
+    expect(matchesHostPattern("i.imgur.com", "i.imgur.com")).toBe(true);
+    expect(matchesHostPattern("imgur.com", "i.imgur.com")).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Download limits for hosts matching a pattern.
+ * Hosts matching the same pattern share its limits (e.g. every *.redd.it CDN host).
+ */
+export interface HostLimitRule {
+  /** Host name, or *.domain for the domain and all of its subdomains */
+  pattern: string;
+  /** Maximum downloads from these hosts at once (unset = only the global limit) */
+  maxConcurrent?: number;
+  /** Minimum delay in ms between starting two downloads from these hosts */
+  minDelayMs?: number;
+  /** Pause in ms after a 429/503 response without a Retry-After header */
+  cooldownMs?: number;
+}
+
+type HostLimitOption = Exclude<keyof HostLimitRule, "pattern">;
+
+const HOST_LIMIT_OPTIONS: HostLimitOption[] = ["maxConcurrent", "minDelayMs", "cooldownMs"];
+
+// Host name or *.domain
+const HOST_PATTERN = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+
+/**
+ * Default limits: Reddit's image CDNs block clients that open many connections
+ */
+export const DEFAULT_HOST_LIMITS = "*.redd.it maxConcurrent=2 minDelayMs=250";
+
+/**
+ * Parse host limits from config, e.g.
+ * "*.redd.it maxConcurrent=2 minDelayMs=250; i.imgur.com maxConcurrent=3 cooldownMs=120000".
+ * Rules are separated by semicolons or newlines; the first matching rule applies.
+ * @throws if a rule is malformed
+ */
+export function parseHostLimits(spec: string): HostLimitRule[] {
+  const rules: HostLimitRule[] = [];
+
+  for (const entry of spec.split(/[;\n]/)) {
+    const [pattern, ...options] = entry.trim().split(/\s+/);
+    if (!pattern) continue;
+
+    const rule: HostLimitRule = { pattern: pattern.toLowerCase() };
+    if (!HOST_PATTERN.test(rule.pattern)) {
+      throw new Error(`Invalid host pattern "${pattern}"`);
+    }
+
+    for (const option of options) {
+      const [key, value] = option.split("=");
+      if (!HOST_LIMIT_OPTIONS.includes(key as HostLimitOption)) {
+        throw new Error(`Unknown host limit "${key}" for ${pattern} (use ${HOST_LIMIT_OPTIONS.join(", ")})`);
+      }
+      const number = Number(value);
+      if (!value || !Number.isInteger(number) || number < (key === "maxConcurrent" ? 1 : 0)) {
+        throw new Error(`Invalid value for ${key} on ${pattern}: ${value ?? ""}`);
+      }
+      rule[key as HostLimitOption] = number;
+    }
+
+    rules.push(rule);
+  }
+
+  return rules;
+}
+
+/**
+ * Whether a host matches a rule pattern
+ */
+export function matchesHostPattern(host: string, pattern: string): boolean {
+  const hostname = host.toLowerCase();
+  if (pattern.startsWith("*.")) {
+    const domain = pattern.slice(2);
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  }
+  return hostname === pattern;
+}
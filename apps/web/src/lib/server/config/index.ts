@@ -1,8 +1,8 @@
 import { env } from "$env/dynamic/private";
 import { loadConfig, getConfigPath, configFileExists, saveConfig, generateEnvContent, validateConfig } from "./loader";
-import type { AppConfig, DatabaseConfig, SchedulerConfig, RunnerConfig } from "./schema";
+import type { AppConfig, DatabaseConfig, SchedulerConfig, RunnerConfig, RedditConfig } from "./schema";
 
-export type { AppConfig, DatabaseConfig, SchedulerConfig, RunnerConfig };
+export type { AppConfig, DatabaseConfig, SchedulerConfig, RunnerConfig, RedditConfig };
 export {
   defaultConfig,
   getDefaultConfigPath,
@@ -12,8 +12,11 @@ export {
   databaseConfigSchema,
   schedulerConfigSchema,
   runnerConfigSchema,
+  redditConfigSchema,
 } from "./schema";
 export { getConfigPath, configFileExists, saveConfig, generateEnvContent, validateConfig } from "./loader";
+export { parseHostLimits, matchesHostPattern, DEFAULT_HOST_LIMITS, type HostLimitRule } from "./host-limits";
+export { parseBandwidthSchedule, getBandwidthLimit, type BandwidthWindow } from "./bandwidth";
 
 // Singleton config instance
 let configInstance: AppConfig | null = null;
@@ -50,6 +53,13 @@ export function getRunnerConfig(): RunnerConfig {
   return getConfig().runner;
 }
 
+/**
+ * Get Reddit API credentials
+ */
+export function getRedditConfig(): RedditConfig {
+  return getConfig().reddit;
+}
+
 /**
  * Reload configuration (useful for testing or hot-reload scenarios)
  */
@@ -209,6 +209,8 @@ describe("generateEnvContent", () => {
     expect(content).toContain('FALLPAPER_SCHEDULER_POLL_CRON="* * * * *"');
     expect(content).toContain("# Runner");
     expect(content).toContain("FALLPAPER_RUNNER_MAX_CONCURRENT_DOWNLOADS=5");
+    expect(content).toContain("# Reddit");
+    expect(content).toContain("FALLPAPER_REDDIT_CLIENT_ID=");
   });
 
   it("should quote values with spaces", () => {
@@ -261,6 +263,10 @@ describe("validateConfig", () => {
         minSpeedBytesPerSec: "10240",
         slowSpeedTimeoutMs: "30000",
       },
+      reddit: {
+        clientId: "abc",
+        clientSecret: "def",
+      },
     };
 
     const result = validateConfig(input);
@@ -156,6 +156,7 @@ export function generateEnvContent(config: AppConfig): string {
     database: [],
     scheduler: [],
     runner: [],
+    reddit: [],
   };
 
   for (const [envVar, mapping] of Object.entries(envMappings)) {
@@ -175,6 +176,8 @@ export function generateEnvContent(config: AppConfig): string {
   lines.push(...sections.scheduler);
   lines.push("", "# Runner");
   lines.push(...sections.runner);
+  lines.push("", "# Reddit");
+  lines.push(...sections.reddit);
   lines.push("");
 
   return lines.join("\n");
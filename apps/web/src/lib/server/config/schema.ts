@@ -1,6 +1,11 @@
 import { join } from "path";
 import { homedir } from "os";
 import { z } from "zod";
+import { linkFallbackSchema } from "$lib/schemas/content-store";
+import { nearDuplicateActionSchema } from "$lib/schemas/near-duplicates";
+import { proxyUrlSchema } from "$lib/schemas/proxy";
+import { parseBandwidthSchedule } from "./bandwidth";
+import { DEFAULT_HOST_LIMITS, parseHostLimits } from "./host-limits";
 
 // Helper to coerce boolean from string ("true"/"false") or boolean
 const coerceBoolean = z.preprocess((val) => {
@@ -44,6 +49,56 @@ export const runnerConfigSchema = z.object({
   maxConcurrentDownloads: z.coerce.number().int().positive().max(50).default(5),
   minSpeedBytesPerSec: z.coerce.number().int().positive().default(10 * 1024), // 10 KB/s
   slowSpeedTimeoutMs: z.coerce.number().int().positive().default(30 * 1000), // 30 sec
+  downloadRetries: z.coerce.number().int().min(0).max(10).default(2),
+  downloadRetryBaseDelayMs: z.coerce.number().int().positive().default(1000), // 1 sec, doubled per retry
+  // Directory of out-of-tree source runner modules, loaded at startup (empty = no plugins)
+  pluginsDir: z.string().trim().default(""),
+  // Per-host download limits, see parseHostLimits
+  hostLimits: z
+    .string()
+    .trim()
+    .default(DEFAULT_HOST_LIMITS)
+    .superRefine((value, ctx) => {
+      try {
+        parseHostLimits(value);
+      } catch (err: any) {
+        ctx.addIssue({ code: "custom", message: err.message });
+      }
+    }),
+  // Outbound proxy for source requests and downloads (http, https or socks5 URL; empty = direct)
+  proxyUrl: proxyUrlSchema,
+  // Combined speed cap of all downloads (0 = unlimited)
+  bandwidthLimitBytesPerSec: z.coerce.number().int().min(0).default(0),
+  // Time-of-day windows with their own speed caps, see parseBandwidthSchedule
+  bandwidthSchedule: z
+    .string()
+    .trim()
+    .default("")
+    .superRefine((value, ctx) => {
+      try {
+        parseBandwidthSchedule(value);
+      } catch (err: any) {
+        ctx.addIssue({ code: "custom", message: err.message });
+      }
+    }),
+  // Perceptual hashes at most this many bits apart (of 64) count as the same picture
+  nearDuplicateDistance: z.coerce.number().int().min(0).max(16).default(4),
+  // What to do with new downloads that are near-duplicates of an existing image
+  nearDuplicateAction: nearDuplicateActionSchema,
+  // Images are stored once under imageDir/.store and hardlinked into device folders;
+  // what to do instead where hardlinks aren't supported
+  linkFallback: linkFallbackSchema,
+});
+
+/**
+ * Reddit API credentials schema
+ * Leave empty to use anonymous JSON access
+ */
+export const redditConfigSchema = z.object({
+  clientId: z.string().trim().default(""),
+  clientSecret: z.string().trim().default(""),
+  // Resolves Imgur albums linked from posts
+  imgurClientId: z.string().trim().default(""),
 });
 
 /**
@@ -53,6 +108,7 @@ export const appConfigSchema = z.object({
   database: databaseConfigSchema,
   scheduler: schedulerConfigSchema,
   runner: runnerConfigSchema,
+  reddit: redditConfigSchema,
 });
 
 /**
@@ -62,16 +118,19 @@ export const partialAppConfigSchema = z.object({
   database: databaseConfigSchema.optional(),
   scheduler: schedulerConfigSchema.optional(),
   runner: runnerConfigSchema.optional(),
+  reddit: redditConfigSchema.optional(),
 }).transform((val) => ({
   database: val.database ?? databaseConfigSchema.parse({}),
   scheduler: val.scheduler ?? schedulerConfigSchema.parse({}),
   runner: val.runner ?? runnerConfigSchema.parse({}),
+  reddit: val.reddit ?? redditConfigSchema.parse({}),
 }));
 
 // Derive types from Zod schemas
 export type DatabaseConfig = z.infer<typeof databaseConfigSchema>;
 export type SchedulerConfig = z.infer<typeof schedulerConfigSchema>;
 export type RunnerConfig = z.infer<typeof runnerConfigSchema>;
+export type RedditConfig = z.infer<typeof redditConfigSchema>;
 export type AppConfig = z.infer<typeof appConfigSchema>;
 
 /**
@@ -81,6 +140,7 @@ export const defaultConfig: AppConfig = {
   database: databaseConfigSchema.parse({}),
   scheduler: schedulerConfigSchema.parse({}),
   runner: runnerConfigSchema.parse({}),
+  reddit: redditConfigSchema.parse({}),
 };
 
 /**
@@ -113,4 +173,19 @@ export const envMappings: Record<string, { path: string[]; type: "string" | "num
   FALLPAPER_RUNNER_MAX_CONCURRENT_DOWNLOADS: { path: ["runner", "maxConcurrentDownloads"], type: "number" },
   FALLPAPER_RUNNER_MIN_SPEED_BYTES_PER_SEC: { path: ["runner", "minSpeedBytesPerSec"], type: "number" },
   FALLPAPER_RUNNER_SLOW_SPEED_TIMEOUT_MS: { path: ["runner", "slowSpeedTimeoutMs"], type: "number" },
+  FALLPAPER_RUNNER_DOWNLOAD_RETRIES: { path: ["runner", "downloadRetries"], type: "number" },
+  FALLPAPER_RUNNER_DOWNLOAD_RETRY_BASE_DELAY_MS: { path: ["runner", "downloadRetryBaseDelayMs"], type: "number" },
+  FALLPAPER_RUNNER_PLUGINS_DIR: { path: ["runner", "pluginsDir"], type: "string" },
+  FALLPAPER_RUNNER_HOST_LIMITS: { path: ["runner", "hostLimits"], type: "string" },
+  FALLPAPER_RUNNER_PROXY_URL: { path: ["runner", "proxyUrl"], type: "string" },
+  FALLPAPER_RUNNER_BANDWIDTH_LIMIT_BYTES_PER_SEC: { path: ["runner", "bandwidthLimitBytesPerSec"], type: "number" },
+  FALLPAPER_RUNNER_BANDWIDTH_SCHEDULE: { path: ["runner", "bandwidthSchedule"], type: "string" },
+  FALLPAPER_RUNNER_NEAR_DUPLICATE_DISTANCE: { path: ["runner", "nearDuplicateDistance"], type: "number" },
+  FALLPAPER_RUNNER_NEAR_DUPLICATE_ACTION: { path: ["runner", "nearDuplicateAction"], type: "string" },
+  FALLPAPER_RUNNER_LINK_FALLBACK: { path: ["runner", "linkFallback"], type: "string" },
+
+  // Reddit
+  FALLPAPER_REDDIT_CLIENT_ID: { path: ["reddit", "clientId"], type: "string" },
+  FALLPAPER_REDDIT_CLIENT_SECRET: { path: ["reddit", "clientSecret"], type: "string" },
+  FALLPAPER_REDDIT_IMGUR_CLIENT_ID: { path: ["reddit", "imgurClientId"], type: "string" },
 };
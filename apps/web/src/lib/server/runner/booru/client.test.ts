@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  createBooruClient,
+  type DanbooruPost,
+  type GelbooruPost,
+  type MoebooruPost,
+} from "@packages/booru";
+
+function danbooruPost(id: number, overrides: Partial<DanbooruPost> = {}): DanbooruPost {
+  return {
+    id,
+    created_at: "2026-01-02T03:04:05.000Z",
+    score: 50,
+    rating: "g",
+    md5: `d41d8cd98f00b204e9800998ecf8427${id % 10}`,
+    file_url: `https://cdn.donmai.example/original/${id}.png`,
+    image_width: 3840,
+    image_height: 2160,
+    file_size: 4_000_000,
+    file_ext: "png",
+    tag_string: "scenery  sky no_humans",
+    tag_string_artist: "painter",
+    source: "",
+    ...overrides,
+  };
+}
+
+const gelbooruPost: GelbooruPost = {
+  id: 7,
+  created_at: "Fri Jan 02 03:04:05 +0000 2026",
+  score: 12,
+  width: 2560,
+  height: 1440,
+  md5: "0123456789abcdef0123456789abcdef",
+  rating: "safe",
+  file_url: "https://img.gelbooru.example/images/01/23/0123.jpeg",
+  source: "https://artist.example/work",
+  tags: "landscape mountain",
+  owner: "uploader",
+};
+
+const moebooruPost: MoebooruPost = {
+  id: 9,
+  created_at: 1767323045,
+  score: 80,
+  md5: "fedcba9876543210fedcba9876543210",
+  file_url: "https://files.yande.example/image/fedcba/yande.re%209.jpg",
+  file_size: 3_000_000,
+  width: 4000,
+  height: 2250,
+  rating: "q",
+  source: "",
+  tags: "wallpaper",
+  author: "poster",
+};
+
+// Newest first: 101 is a video, 100 a restricted post without a file URL
+const DANBOORU_POSTS = [
+  danbooruPost(103),
+  danbooruPost(102, { rating: "e" }),
+  danbooruPost(101, { file_ext: "mp4", file_url: "https://cdn.donmai.example/original/101.mp4" }),
+  danbooruPost(100, { file_url: undefined, md5: undefined }),
+  danbooruPost(99),
+];
+
+describe("BooruClient against a fake instance", () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: URL[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      requests.push(url);
+      res.setHeader("Content-Type", "application/json");
+
+      if (url.pathname === "/posts.json") {
+        if (url.searchParams.get("api_key") === "wrong") {
+          res.statusCode = 401;
+          res.end("{}");
+          return;
+        }
+        const page = Number(url.searchParams.get("page"));
+        const limit = Number(url.searchParams.get("limit"));
+        res.end(JSON.stringify(DANBOORU_POSTS.slice((page - 1) * limit, page * limit)));
+        return;
+      }
+
+      if (url.pathname === "/index.php") {
+        // Gelbooru answers with an empty body past the last page
+        res.end(url.searchParams.get("pid") === "0" ? JSON.stringify({ post: [gelbooruPost] }) : "");
+        return;
+      }
+
+      if (url.pathname === "/post.json") {
+        res.end(JSON.stringify([moebooruPost]));
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end("{}");
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should map Danbooru posts, dropping videos and restricted files", async () => {
+    const client = createBooruClient({ type: "danbooru", baseUrl: `${baseUrl}/`, login: "me", apiKey: "key" });
+    const result = await client.fetchPosts({ tags: " scenery ", limit: 5 });
+
+    expect(requests.at(-1)?.searchParams.toString()).toBe("tags=scenery&page=1&limit=5&login=me&api_key=key");
+    expect(result.rawCount).toBe(5);
+    expect(result.posts.map((post) => post.id)).toEqual(["103", "102", "99"]);
+    expect(result.posts[0]).toEqual({
+      id: "103",
+      postUrl: `${baseUrl}/posts/103`,
+      fileUrl: "https://cdn.donmai.example/original/103.png",
+      width: 3840,
+      height: 2160,
+      fileSize: 4_000_000,
+      md5: "d41d8cd98f00b204e9800998ecf84273",
+      rating: "general",
+      score: 50,
+      tags: ["scenery", "sky", "no_humans"],
+      author: "painter",
+      source: undefined,
+      createdAt: 1767323045,
+    });
+    expect(result.posts[1].rating).toBe("explicit");
+  });
+
+  it("should stop paging once the limit is looked up", async () => {
+    requests.length = 0;
+    const client = createBooruClient({ type: "danbooru", baseUrl });
+
+    const ids: string[] = [];
+    for await (const batch of client.fetchPostBatches({ limit: 2 })) {
+      ids.push(...batch.posts.map((post) => post.id));
+    }
+
+    expect(ids).toEqual(["103", "102"]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should map Gelbooru posts and treat an empty body as the end", async () => {
+    const client = createBooruClient({ type: "gelbooru", baseUrl });
+
+    const first = await client.fetchPosts({ tags: "landscape" });
+    expect(requests.at(-1)?.searchParams.get("pid")).toBe("0");
+    expect(first.posts).toEqual([
+      {
+        id: "7",
+        postUrl: `${baseUrl}/index.php?page=post&s=view&id=7`,
+        fileUrl: "https://img.gelbooru.example/images/01/23/0123.jpeg",
+        width: 2560,
+        height: 1440,
+        md5: "0123456789abcdef0123456789abcdef",
+        rating: "general",
+        score: 12,
+        tags: ["landscape", "mountain"],
+        author: "uploader",
+        source: "https://artist.example/work",
+        createdAt: 1767323045,
+      },
+    ]);
+
+    const second = await client.fetchPosts({ tags: "landscape", page: 2 });
+    expect(second).toEqual({ posts: [], rawCount: 0, page: 2 });
+  });
+
+  it("should map Moebooru posts", async () => {
+    const client = createBooruClient({ type: "moebooru", baseUrl, login: "me", apiKey: "hash" });
+    const { posts } = await client.fetchPosts({ limit: 500 });
+
+    expect(requests.at(-1)?.searchParams.get("limit")).toBe("100");
+    expect(requests.at(-1)?.searchParams.get("password_hash")).toBe("hash");
+    expect(posts[0]).toMatchObject({
+      id: "9",
+      postUrl: `${baseUrl}/post/show/9`,
+      md5: "fedcba9876543210fedcba9876543210",
+      rating: "questionable",
+      author: "poster",
+      createdAt: 1767323045,
+    });
+  });
+
+  it("should point at the credentials when access is denied", async () => {
+    const client = createBooruClient({ type: "danbooru", baseUrl, login: "me", apiKey: "wrong" });
+    await expect(client.fetchPosts()).rejects.toThrow("Booru API error: 401 Unauthorized (check login and API key)");
+  });
+});
@@ -0,0 +1,13 @@
+import { createBooruRunner } from "./runner";
+
+export {
+  BooruRunner,
+  createBooruRunner,
+  runBooruSource,
+  type BooruSourceParams,
+  type BooruRunnerConfig,
+  type BooruRunResult,
+} from "./runner";
+
+// Runners of the source kinds in this folder, registered by ../registry
+export default [createBooruRunner()];
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from "vitest";
+import type { BooruPost } from "@packages/booru";
+import { toSourceImage } from "./runner";
+
+// The runner module reaches the database through ../common, which needs bun:sqlite
+vi.mock("$lib/server/db", () => ({ db: {} }));
+vi.mock("@packages/database", async () => ({
+  ...(await import("@packages/database/schema")),
+  withQueryName: (_name: string, query: () => Promise<unknown>) => query(),
+}));
+
+const post: BooruPost = {
+  id: "103",
+  postUrl: "https://danbooru.donmai.us/posts/103",
+  fileUrl: "https://cdn.donmai.us/original/ab/cd/abcd.png",
+  width: 3840,
+  height: 2160,
+  fileSize: 4_000_000,
+  md5: "abcd0123abcd0123abcd0123abcd0123",
+  rating: "general",
+  score: 50,
+  tags: ["scenery"],
+  author: "painter",
+  createdAt: 1767323045,
+};
+
+describe("toSourceImage", () => {
+  it("should pass the post's md5 along as the checksum", () => {
+    expect(toSourceImage(post)).toEqual({
+      downloadUrl: "https://cdn.donmai.us/original/ab/cd/abcd.png",
+      websiteUrl: "https://danbooru.donmai.us/posts/103",
+      sourceItemId: "103",
+      galleryIndex: 0,
+      author: "painter",
+      nsfw: false,
+      sourceCreatedAt: 1767323045,
+      width: 3840,
+      height: 2160,
+      filesize: 4_000_000,
+      checksum: "abcd0123abcd0123abcd0123abcd0123",
+    });
+  });
+
+  it("should mark questionable and explicit posts as NSFW", () => {
+    expect(toSourceImage({ ...post, rating: "sensitive" }).nsfw).toBe(false);
+    expect(toSourceImage({ ...post, rating: "questionable" }).nsfw).toBe(true);
+    expect(toSourceImage({ ...post, rating: "explicit", md5: undefined }).checksum).toBeUndefined();
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  createBooruClient,
+  type BooruPost,
+  type BooruRating,
+  type BooruType,
+} from "@packages/booru";
+import { getLogger } from "@packages/otel-server";
+import { getParamsError, booruSourceKind } from "$lib/schemas/source";
+import {
+  downloadAndProcessImages,
+  loadRunnerContext,
+  getRunSkipReason,
+  createRunResult,
+  createErrorResult,
+  addBatchResult,
+  applyNsfwMode,
+  filterExistingImages,
+  createProcessorConfig,
+  createProxyFetch,
+  formatFilenameTimestamp,
+  type SourceImage,
+  type SourceRunner,
+  type BaseRunnerConfig,
+  type BaseRunResult,
+  type NsfwMode,
+} from "../common";
+
+const logger = getLogger();
+
+const VALID_RATINGS: BooruRating[] = ["general", "sensitive", "questionable", "explicit"];
+
+/** Ratings treated as NSFW */
+const NSFW_RATINGS: BooruRating[] = ["questionable", "explicit"];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Booru source params stored in sources.params JSON
+ */
+export interface BooruSourceParams {
+  /** Booru software of the instance */
+  booru: BooruType;
+  /** Instance URL. Defaults to the main instance of the booru type */
+  baseUrl?: string;
+  /** Space separated tag query. Empty means all posts */
+  tags?: string;
+  /** Ratings to accept. Default: all ratings */
+  ratings?: BooruRating[];
+  /** Minimum post score */
+  minScore?: number;
+  /** Account name (Danbooru login, Gelbooru user ID, Moebooru login) */
+  login?: string;
+  /** API key (Moebooru: password hash) */
+  apiKey?: string;
+}
+
+/**
+ * Booru-specific runner configuration
+ */
+export interface BooruRunnerConfig extends BaseRunnerConfig {
+  // Can add booru-specific options here if needed
+}
+
+/**
+ * Booru-specific run result
+ */
+export interface BooruRunResult extends BaseRunResult {
+  /** Tag query that was used */
+  tags?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Convert BooruPost to SourceImage for common processor.
+ * The post's own rating decides the NSFW flag, and the md5 is passed along
+ * so files we already have from another source are skipped before download.
+ */
+export function toSourceImage(post: BooruPost): SourceImage {
+  return {
+    downloadUrl: post.fileUrl,
+    websiteUrl: post.postUrl,
+    sourceItemId: post.id,
+    galleryIndex: 0,
+    author: post.author,
+    nsfw: NSFW_RATINGS.includes(post.rating),
+    sourceCreatedAt: post.createdAt,
+    width: post.width,
+    height: post.height,
+    filesize: post.fileSize,
+    checksum: post.md5,
+  };
+}
+
+// ============================================================================
+// Booru Runner
+// ============================================================================
+
+export class BooruRunner implements SourceRunner<BooruRunnerConfig, BooruRunResult> {
+  readonly definition = booruSourceKind;
+  readonly kind = booruSourceKind.kind;
+
+  validateParams(params: unknown): string | null {
+    return getParamsError(this.definition.paramsSchema, params);
+  }
+
+  /**
+   * Build a discoverable filename for booru images.
+   * Format: booru_{id}_{timestamp}.{ext}
+   *
+   * The id is the post ID on the source's booru instance.
+   */
+  buildFilename(
+    image: { sourceItemId: string; galleryIndex?: number; sourceCreatedAt?: number | Date },
+    format: string
+  ): string {
+    const timestamp = formatFilenameTimestamp(image.sourceCreatedAt);
+    return `booru_${image.sourceItemId}_${timestamp}.${format}`;
+  }
+
+  async run(sourceId: string, config: BooruRunnerConfig): Promise<BooruRunResult> {
+    const startTime = Date.now();
+
+    // 1. Get source with subscribed devices
+    const context = await loadRunnerContext(sourceId, "BooruRunner.GetSource");
+    if (!context) {
+      return createErrorResult(sourceId, "Unknown", "Source not found");
+    }
+
+    const { source, eligibleDevices } = context;
+    const result: BooruRunResult = createRunResult(sourceId, source.name);
+
+    // 2. Check if source is enabled and has eligible devices
+    const skipReason = getRunSkipReason(context);
+    if (skipReason) {
+      logger.info({ sourceId, sourceName: source.name }, `${skipReason}, skipping`);
+      result.error = skipReason;
+      result.durationMs = Date.now() - startTime;
+      return result;
+    }
+
+    logger.info(
+      { sourceId, sourceName: source.name, deviceCount: eligibleDevices.length },
+      `Running booru source with ${eligibleDevices.length} eligible devices`
+    );
+
+    // 3. Validate source params
+    const paramsError = this.validateParams(source.params);
+    if (paramsError) {
+      return createErrorResult(sourceId, source.name, paramsError, startTime);
+    }
+
+    const params = source.params as BooruSourceParams;
+    result.tags = params.tags;
+
+    const ratings = params.ratings ?? VALID_RATINGS;
+    const minScore = params.minScore;
+
+    // Get NSFW mode from source settings (default to 0 = Auto)
+    const nsfwMode = (source.nsfw ?? 0) as NsfwMode;
+
+    // 4. Fetch and process in batches using async generator
+    const booruClient = createBooruClient({
+      type: params.booru,
+      baseUrl: params.baseUrl || undefined,
+      login: params.login || undefined,
+      apiKey: params.apiKey || undefined,
+      fetch: createProxyFetch(config.proxyUrl),
+    });
+    const processorConfig = createProcessorConfig(sourceId, config, this.buildFilename.bind(this));
+
+    try {
+      for await (const batch of booruClient.fetchPostBatches({
+        tags: params.tags,
+        limit: source.lookupLimit,
+      })) {
+        result.imagesFound += batch.posts.length;
+
+        logger.info(
+          { sourceId, page: batch.page, batchSize: batch.posts.length, totalFound: result.imagesFound },
+          `Fetched batch: ${batch.posts.length} posts`
+        );
+
+        // Rating and score filters
+        const posts = batch.posts.filter(
+          (post) => ratings.includes(post.rating) && (minScore === undefined || post.score >= minScore)
+        );
+        result.imagesSkipped += batch.posts.length - posts.length;
+
+        if (posts.length === 0) {
+          continue;
+        }
+
+        // Apply NSFW mode (1 = SFW Only skips NSFW images, 2 = NSFW Only marks all as NSFW)
+        const sourceImages = applyNsfwMode(posts.map(toSourceImage), nsfwMode);
+        result.imagesSkipped += posts.length - sourceImages.length;
+
+        // Filter out already downloaded images (by URL or md5)
+        const { newImages, skippedExisting } = await filterExistingImages(
+          sourceImages,
+          "BooruRunner.CheckExisting"
+        );
+
+        result.imagesSkipped += skippedExisting;
+
+        if (newImages.length === 0) {
+          logger.debug({ sourceId, skippedExisting }, `Batch skipped: no new images`);
+          continue;
+        }
+
+        logger.info(
+          { sourceId, newImages: newImages.length, skippedExisting },
+          `Processing ${newImages.length} new images (${skippedExisting} already exist)`
+        );
+
+        const processResult = await downloadAndProcessImages(newImages, eligibleDevices, processorConfig);
+        addBatchResult(result, processResult);
+      }
+    } catch (err: any) {
+      logger.error({ err, sourceId }, "Failed to fetch from booru");
+      result.success = false;
+      result.error = `Booru fetch failed: ${err.message}`;
+    }
+
+    result.durationMs = Date.now() - startTime;
+
+    logger.info(
+      {
+        sourceId,
+        sourceName: source.name,
+        duration: result.durationMs,
+        found: result.imagesFound,
+        downloaded: result.imagesDownloaded,
+        skipped: result.imagesSkipped,
+        failed: result.imagesFailed,
+      },
+      `Booru source completed in ${(result.durationMs / 1000).toFixed(1)}s`
+    );
+
+    return result;
+  }
+}
+
+export function createBooruRunner(): BooruRunner {
+  return new BooruRunner();
+}
+
+export async function runBooruSource(
+  sourceId: string,
+  config: BooruRunnerConfig
+): Promise<BooruRunResult> {
+  const runner = createBooruRunner();
+  return runner.run(sourceId, config);
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { parseBandwidthSchedule } from "$lib/server/config/bandwidth";
+import { BandwidthLimiter } from "./bandwidth-limiter";
+
+describe("BandwidthLimiter", () => {
+  const noon = new Date("2026-10-18T12:00:00").getTime();
+
+  it("should let a second's worth of bytes through, then make readers wait", () => {
+    const limiter = new BandwidthLimiter(1000);
+
+    expect(limiter.reserve(1000, noon)).toBe(0);
+    expect(limiter.reserve(500, noon)).toBe(500);
+    // Shared debt: the next reader waits for both
+    expect(limiter.reserve(500, noon)).toBe(1000);
+    expect(limiter.reserve(0, noon + 1000)).toBe(0);
+  });
+
+  it("should not save up more than one second of bandwidth", () => {
+    const limiter = new BandwidthLimiter(1000);
+    limiter.reserve(0, noon);
+
+    expect(limiter.reserve(1000, noon + 60_000)).toBe(0);
+    expect(limiter.reserve(1000, noon + 60_000)).toBe(1000);
+  });
+
+  it("should apply the cap of the current time window", () => {
+    const limiter = new BandwidthLimiter(1000, parseBandwidthSchedule("09:00-18:00 100; 22:00-07:00 0"));
+    const night = new Date("2026-10-18T23:00:00").getTime();
+
+    expect(limiter.getLimit(noon)).toBe(100);
+    expect(limiter.reserve(200, noon)).toBe(1000);
+    expect(limiter.reserve(10_000_000, night)).toBe(0);
+    expect(limiter.getLimit(new Date("2026-10-18T20:00:00").getTime())).toBe(1000);
+  });
+});
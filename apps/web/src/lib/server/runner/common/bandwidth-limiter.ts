@@ -0,0 +1,83 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { getBandwidthLimit, type BandwidthWindow } from "$lib/server/config/bandwidth";
+
+/**
+ * Token bucket capping the combined download speed, with time-of-day windows.
+ * The bucket holds up to one second of bandwidth; a chunk larger than what is left
+ * puts the bucket into debt, and the caller waits until the debt is paid off.
+ */
+export class BandwidthLimiter {
+  private tokens = 0;
+  private updatedAt = 0;
+
+  /**
+   * @param bytesPerSec - Cap outside the windows (0 = unlimited)
+   * @param windows - Time-of-day windows with their own caps
+   */
+  constructor(
+    private bytesPerSec = 0,
+    private windows: BandwidthWindow[] = []
+  ) {}
+
+  /**
+   * Replace the caps (the current debt is kept)
+   */
+  setLimits(bytesPerSec: number, windows: BandwidthWindow[]): void {
+    this.bytesPerSec = bytesPerSec;
+    this.windows = windows;
+  }
+
+  /**
+   * Cap in bytes per second at the given time (0 = unlimited)
+   */
+  getLimit(now = Date.now()): number {
+    return getBandwidthLimit(this.bytesPerSec, this.windows, new Date(now));
+  }
+
+  /**
+   * Take bytes out of the bucket
+   * @returns time in ms to wait before reading more (0 = go ahead)
+   */
+  reserve(bytes: number, now = Date.now()): number {
+    const limit = this.getLimit(now);
+    if (limit === 0) {
+      this.tokens = 0;
+      this.updatedAt = now;
+      return 0;
+    }
+
+    this.tokens = Math.min(limit, this.tokens + ((now - this.updatedAt) * limit) / 1000);
+    this.updatedAt = now;
+    this.tokens -= bytes;
+
+    return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens / limit) * 1000);
+  }
+
+  /**
+   * Wait until bytes just read fit within the cap
+   * @param signal - Stops waiting (rejecting with an AbortError) when aborted
+   * @returns time waited in ms
+   */
+  async throttle(bytes: number, signal?: AbortSignal): Promise<number> {
+    const waitMs = this.reserve(bytes);
+    if (waitMs > 0) {
+      await sleep(waitMs, undefined, { signal });
+    }
+    return waitMs;
+  }
+}
+
+let sharedLimiter: BandwidthLimiter | null = null;
+
+/**
+ * Get the bandwidth limiter shared by all downloads, so concurrent runs
+ * together stay within the cap
+ */
+export function getSharedBandwidthLimiter(bytesPerSec: number, windows: BandwidthWindow[]): BandwidthLimiter {
+  if (!sharedLimiter) {
+    sharedLimiter = new BandwidthLimiter(bytesPerSec, windows);
+  } else {
+    sharedLimiter.setLimits(bytesPerSec, windows);
+  }
+  return sharedLimiter;
+}
@@ -0,0 +1,102 @@
+import { and, asc, eq, gt, isNull } from "drizzle-orm";
+import { createReadStream, existsSync } from "node:fs";
+import { createHash } from "node:crypto";
+import { db } from "$lib/server/db";
+import type { LinkFallback } from "$lib/schemas/content-store";
+import { images, withQueryName } from "@packages/database";
+import { getLogger } from "@packages/otel-server";
+import { getContentStorePath, isLinkedToContentStore, linkFromContentStore } from "./content-store";
+
+const logger = getLogger();
+
+// Images converted per query
+const BATCH_SIZE = 100;
+
+/**
+ * Result of converting a library to the content store
+ */
+export interface ContentStoreMigrationResult {
+  /** Images moved into the store */
+  converted: number;
+  /** Images without any file on disk, left as they are */
+  missing: number;
+  /** Images that failed to convert (retried on the next start) */
+  failed: number;
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Convert images saved before the content store: the first device file becomes the stored
+ * original, and every device copy is replaced by a link to it. Safe to interrupt and re-run;
+ * images already converted (content_hash set) are not touched.
+ */
+export async function migrateToContentStore(
+  imageBaseDir: string,
+  linkFallback: LinkFallback
+): Promise<ContentStoreMigrationResult> {
+  const result: ContentStoreMigrationResult = { converted: 0, missing: 0, failed: 0 };
+  let lastId = "";
+
+  for (;;) {
+    const batch = await withQueryName("ContentStore.ListUnconverted", async () =>
+      await db.query.images.findMany({
+        where: and(isNull(images.contentHash), gt(images.id, lastId)),
+        orderBy: [asc(images.id)],
+        limit: BATCH_SIZE,
+        columns: { id: true, format: true },
+        with: {
+          deviceImages: {
+            columns: { localPath: true },
+          },
+        },
+      })
+    );
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    for (const image of batch) {
+      const localPaths = image.deviceImages
+        .map((deviceImage) => deviceImage.localPath)
+        .filter((localPath) => existsSync(localPath));
+      if (localPaths.length === 0) {
+        result.missing++;
+        continue;
+      }
+
+      try {
+        const contentHash = await hashFile(localPaths[0]);
+        const storePath = getContentStorePath(imageBaseDir, contentHash, image.format);
+
+        // The first copy is linked into the store (never copied twice), then the others are replaced
+        if (!existsSync(storePath)) {
+          linkFromContentStore(localPaths[0], storePath, "copy");
+        }
+        for (const localPath of localPaths) {
+          if (!isLinkedToContentStore(storePath, localPath)) {
+            linkFromContentStore(storePath, localPath, linkFallback);
+          }
+        }
+
+        await withQueryName("ContentStore.SetContentHash", async () =>
+          await db.update(images).set({ contentHash }).where(eq(images.id, image.id))
+        );
+        result.converted++;
+      } catch (err) {
+        logger.warn({ err, imageId: image.id }, "Failed to move image into the content store");
+        result.failed++;
+      }
+    }
+  }
+
+  if (result.converted > 0 || result.failed > 0) {
+    logger.info(result, "Converted image library to the content store");
+  }
+  return result;
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, lstatSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import * as fs from "node:fs";
+import { join, relative } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  getContentStorePath,
+  addToContentStore,
+  linkFromContentStore,
+  isLinkedToContentStore,
+} from "./content-store";
+
+vi.mock("node:fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:fs")>();
+  return { ...actual, linkSync: vi.fn(actual.linkSync) };
+});
+
+function linkError(code: string): Error {
+  return Object.assign(new Error(`${code}: link not permitted`), { code });
+}
+
+describe("content store", () => {
+  let imageDir: string;
+  let storePath: string;
+
+  beforeEach(() => {
+    imageDir = mkdtempSync(join(tmpdir(), "fallpaper-store-"));
+    storePath = getContentStorePath(imageDir, "ab12cd", "jpg");
+  });
+
+  afterEach(() => {
+    rmSync(imageDir, { recursive: true, force: true });
+    vi.mocked(fs.linkSync).mockReset();
+  });
+
+  it("should name stored files by their hash", () => {
+    expect(storePath).toBe(join(imageDir, ".store", "ab", "ab12cd.jpg"));
+  });
+
+  it("should store a file once", () => {
+    const first = join(imageDir, "first.download");
+    const second = join(imageDir, "second.download");
+    writeFileSync(first, "picture");
+    writeFileSync(second, "picture");
+
+    addToContentStore(first, storePath);
+    addToContentStore(second, storePath);
+
+    expect(readFileSync(storePath, "utf8")).toBe("picture");
+    expect(existsSync(first)).toBe(false);
+    expect(existsSync(second)).toBe(false);
+  });
+
+  it("should hardlink stored files into device folders", () => {
+    const download = join(imageDir, "picture.download");
+    writeFileSync(download, "picture");
+    addToContentStore(download, storePath);
+
+    const phone = join(imageDir, "phone", "picture.jpg");
+    const desktop = join(imageDir, "desktop", "picture.jpg");
+    expect(linkFromContentStore(storePath, phone, "copy")).toBe("hardlink");
+    expect(linkFromContentStore(storePath, desktop, "copy")).toBe("hardlink");
+
+    expect(statSync(storePath).nlink).toBe(3);
+    expect(isLinkedToContentStore(storePath, phone)).toBe(true);
+    expect(isLinkedToContentStore(storePath, desktop)).toBe(true);
+  });
+
+  it("should replace an existing device copy with a link", () => {
+    writeFileSync(join(imageDir, "picture.download"), "picture");
+    addToContentStore(join(imageDir, "picture.download"), storePath);
+    const localPath = join(imageDir, "phone", "picture.jpg");
+    linkFromContentStore(storePath, localPath, "copy");
+    rmSync(localPath);
+    writeFileSync(localPath, "picture");
+    expect(isLinkedToContentStore(storePath, localPath)).toBe(false);
+
+    linkFromContentStore(storePath, localPath, "copy");
+
+    expect(isLinkedToContentStore(storePath, localPath)).toBe(true);
+    expect(statSync(storePath).nlink).toBe(2);
+  });
+
+  it("should fall back to a copy or symlink where hardlinks aren't supported", () => {
+    writeFileSync(join(imageDir, "picture.download"), "picture");
+    addToContentStore(join(imageDir, "picture.download"), storePath);
+    vi.mocked(fs.linkSync).mockImplementation(() => {
+      throw linkError("EXDEV");
+    });
+
+    const copied = join(imageDir, "phone", "picture.jpg");
+    const symlinked = join(imageDir, "desktop", "picture.jpg");
+    expect(linkFromContentStore(storePath, copied, "copy")).toBe("copy");
+    expect(linkFromContentStore(storePath, symlinked, "symlink")).toBe("symlink");
+
+    expect(readFileSync(copied, "utf8")).toBe("picture");
+    expect(isLinkedToContentStore(storePath, copied)).toBe(false);
+    expect(lstatSync(symlinked).isSymbolicLink()).toBe(true);
+    expect(isLinkedToContentStore(storePath, symlinked)).toBe(true);
+  });
+
+  it("should symlink to the stored file when the image directory is relative", () => {
+    writeFileSync(join(imageDir, "picture.download"), "picture");
+    addToContentStore(join(imageDir, "picture.download"), storePath);
+    vi.mocked(fs.linkSync).mockImplementation(() => {
+      throw linkError("EXDEV");
+    });
+
+    const symlinked = join(imageDir, "desktop", "picture.jpg");
+    linkFromContentStore(relative(process.cwd(), storePath), symlinked, "symlink");
+
+    expect(readFileSync(symlinked, "utf8")).toBe("picture");
+    expect(isLinkedToContentStore(storePath, symlinked)).toBe(true);
+  });
+
+  it("should not fall back on other errors", () => {
+    vi.mocked(fs.linkSync).mockImplementation(() => {
+      throw linkError("ENOENT");
+    });
+
+    expect(() => linkFromContentStore(storePath, join(imageDir, "phone", "picture.jpg"), "copy")).toThrow("ENOENT");
+  });
+});
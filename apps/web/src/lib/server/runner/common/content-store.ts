@@ -0,0 +1,87 @@
+import { copyFileSync, existsSync, linkSync, mkdirSync, renameSync, rmSync, statSync, symlinkSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { randomUUID } from "node:crypto";
+import type { LinkFallback } from "$lib/schemas/content-store";
+
+/** Directory inside the image directory holding each original once (same filesystem, so hardlinks work) */
+export const CONTENT_STORE_DIR = ".store";
+
+// link() errors meaning the filesystem can't hardlink this file here
+const HARDLINK_UNSUPPORTED = new Set(["EXDEV", "EPERM", "ENOTSUP", "EOPNOTSUPP", "EMLINK", "ENOSYS"]);
+
+/** How a device file was created from the store */
+export type LinkMethod = "hardlink" | LinkFallback;
+
+/**
+ * Path of a file in the content store, named by its SHA-256
+ * (fanned out by the first two hex digits to keep directories small)
+ */
+export function getContentStorePath(imageBaseDir: string, contentHash: string, format: string): string {
+  return join(imageBaseDir, CONTENT_STORE_DIR, contentHash.slice(0, 2), `${contentHash}.${format}`);
+}
+
+/**
+ * Move a file into the content store. If the store already has it, the file is deleted instead.
+ */
+export function addToContentStore(filePath: string, storePath: string): void {
+  if (existsSync(storePath)) {
+    rmSync(filePath, { force: true });
+    return;
+  }
+  mkdirSync(dirname(storePath), { recursive: true });
+  renameSync(filePath, storePath);
+}
+
+/**
+ * Put a stored file at a device path: a hardlink, else a copy or symlink.
+ * An existing file at the path is replaced atomically, so it is never missing.
+ * @returns how the file was created
+ */
+export function linkFromContentStore(storePath: string, localPath: string, fallback: LinkFallback): LinkMethod {
+  mkdirSync(dirname(localPath), { recursive: true });
+  const tempPath = `${localPath}.${randomUUID()}.tmp`;
+
+  let method: LinkMethod = "hardlink";
+  try {
+    linkSync(storePath, tempPath);
+  } catch (err: any) {
+    if (!HARDLINK_UNSUPPORTED.has(err.code)) {
+      throw err;
+    }
+    method = fallback;
+    if (fallback === "symlink") {
+      // Symlink targets are relative to the link's own directory, not the working directory
+      symlinkSync(resolve(storePath), tempPath);
+    } else {
+      copyFileSync(storePath, tempPath);
+    }
+  }
+
+  try {
+    renameSync(tempPath, localPath);
+  } catch (err) {
+    rmSync(tempPath, { force: true });
+    throw err;
+  }
+  return method;
+}
+
+/**
+ * Whether a device path already is the stored file (hardlink or symlink to it)
+ */
+export function isLinkedToContentStore(storePath: string, localPath: string): boolean {
+  try {
+    const stored = statSync(storePath);
+    const local = statSync(localPath);
+    return stored.dev === local.dev && stored.ino === local.ino;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Delete a file from the content store
+ */
+export function removeFromContentStore(storePath: string): void {
+  rmSync(storePath, { force: true });
+}
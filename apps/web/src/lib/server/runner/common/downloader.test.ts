@@ -0,0 +1,467 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createHash } from "node:crypto";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { basename, join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  downloadWithSpeedCheck,
+  createDownloader,
+  classifyHttpStatus,
+  getRetryDelayMs,
+  ParallelDownloader,
+} from "./downloader";
+import { HostLimiter } from "./host-limiter";
+import { BandwidthLimiter } from "./bandwidth-limiter";
+
+// PNG signature and IHDR followed by enough padding to span several chunks
+function makePng(width: number, height: number, padding: number): Buffer {
+  const header = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header, 0);
+  header.writeUInt32BE(13, 8);
+  header.write("IHDR", 12, "ascii");
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return Buffer.concat([header, Buffer.alloc(padding, 7)]);
+}
+
+const png = makePng(3840, 2160, 200 * 1024);
+
+// Bytes sent before a flaky response drops the connection
+const CUT_AT = 64 * 1024;
+
+describe("downloadWithSpeedCheck", () => {
+  let server: Server;
+  let baseUrl: string;
+  let tempDir: string;
+  // Requests seen per path, and the Range header of each
+  let requests: Record<string, Array<string | undefined>>;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const seen = (requests[req.url!] ??= []);
+      seen.push(req.headers.range);
+
+      // Supports ranges, but drops the first connection
+      if (req.url === "/flaky.png" || req.url === "/flaky-no-range.png") {
+        const range = req.url === "/flaky.png" && req.headers["if-range"] === '"v1"' ? req.headers.range : undefined;
+        const start = range ? parseInt(range.replace("bytes=", ""), 10) : 0;
+        const headers = { "content-type": "image/png", etag: '"v1"', "accept-ranges": "bytes" };
+        if (range) {
+          res.writeHead(206, {
+            ...headers,
+            "content-length": png.length - start,
+            "content-range": `bytes ${start}-${png.length - 1}/${png.length}`,
+          });
+        } else {
+          res.writeHead(200, { ...headers, "content-length": png.length });
+        }
+        if (seen.length === 1) {
+          res.write(png.subarray(0, CUT_AT), () => res.destroy());
+        } else {
+          res.end(png.subarray(start));
+        }
+        return;
+      }
+
+      if (req.url === "/image.png") {
+        res.writeHead(200, { "content-type": "image/png", "content-length": png.length });
+        // Send the header split across writes
+        res.write(png.subarray(0, 10));
+        res.end(png.subarray(10));
+        return;
+      }
+      if (req.url === "/chunked.png") {
+        // No Content-Length: the size is only known while streaming
+        res.writeHead(200, { "content-type": "image/png" });
+        res.write(png.subarray(0, CUT_AT));
+        res.end(png.subarray(CUT_AT));
+        return;
+      }
+      if (req.url === "/removed.jpg") {
+        res.writeHead(200, { "content-type": "image/jpeg" });
+        res.end("<!DOCTYPE html><html><body>This image has been removed</body></html>");
+        return;
+      }
+      if (req.url === "/page.png") {
+        res.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+        res.end("<html>removed</html>");
+        return;
+      }
+      if (req.url === "/truncated.png") {
+        res.writeHead(200, { "content-type": "image/png", "content-length": png.length });
+        res.write(png.subarray(0, 1024), () => res.destroy());
+        return;
+      }
+      res.writeHead(404, "Not Found");
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = {};
+    tempDir = mkdtempSync(join(tmpdir(), "fallpaper-download-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should stream the body to a temp file with its checksum and dimensions", async () => {
+    const result = await downloadWithSpeedCheck(`${baseUrl}/image.png`, { tempDir });
+
+    expect(result.success).toBe(true);
+    expect(result.contentType).toBe("image/png");
+    expect(result.size).toBe(png.length);
+    expect(result.checksum).toBe(createHash("md5").update(png).digest("hex"));
+    expect(result.contentHash).toBe(createHash("sha256").update(png).digest("hex"));
+    expect(result.dimensions).toEqual({ width: 3840, height: 2160 });
+    expect(result.format).toBe("png");
+    expect(result.filePath!.startsWith(tempDir)).toBe(true);
+    expect(readFileSync(result.filePath!).equals(png)).toBe(true);
+  });
+
+  it("should create a temp directory that doesn't exist yet", async () => {
+    const missingDir = join(tempDir, "cleared-on-reboot");
+    const result = await downloadWithSpeedCheck(`${baseUrl}/image.png`, { tempDir: missingDir });
+
+    expect(result.success).toBe(true);
+    expect(result.filePath!.startsWith(missingDir)).toBe(true);
+    expect(readFileSync(result.filePath!).equals(png)).toBe(true);
+  });
+
+  it("should not create a file for HTTP errors", async () => {
+    const result = await downloadWithSpeedCheck(`${baseUrl}/missing.png`, { tempDir });
+
+    expect(result).toEqual({ success: false, error: "HTTP 404: Not Found", errorKind: "permanent", status: 404 });
+    expect(readdirSync(tempDir)).toEqual([]);
+  });
+
+  it("should reject pages served instead of images as permanent failures", async () => {
+    const result = await downloadWithSpeedCheck(`${baseUrl}/page.png`, { tempDir });
+
+    expect(result).toEqual({
+      success: false,
+      error: "Not an image (text/html)",
+      errorKind: "permanent",
+      rejection: "not-image",
+    });
+    expect(readdirSync(tempDir)).toEqual([]);
+  });
+
+  it("should reject error pages served with an image content type by their first bytes", async () => {
+    const result = await downloadWithSpeedCheck(`${baseUrl}/removed.jpg`, { tempDir });
+
+    expect(result).toEqual({
+      success: false,
+      error: "Not an image (unrecognised file signature)",
+      errorKind: "permanent",
+      rejection: "not-image",
+    });
+    expect(readdirSync(tempDir)).toEqual([]);
+  });
+
+  it("should skip files larger than maxBytes by their Content-Length", async () => {
+    const result = await downloadWithSpeedCheck(`${baseUrl}/image.png`, { tempDir, maxBytes: 100 * 1024 });
+
+    expect(result).toEqual({
+      success: false,
+      error: "File too large (0.2 MB, limit 0.1 MB)",
+      rejection: "too-large",
+    });
+    expect(readdirSync(tempDir)).toEqual([]);
+  });
+
+  it("should stay within the bandwidth limiter's cap without counting as slow", async () => {
+    // One second of burst, then about a second for the rest
+    const limiter = new BandwidthLimiter(128 * 1024);
+    const startedAt = Date.now();
+
+    const result = await downloadWithSpeedCheck(
+      `${baseUrl}/image.png`,
+      { tempDir, minSpeedBytesPerSec: 1024 * 1024, slowSpeedTimeoutMs: 100, speedCheckIntervalMs: 50 },
+      undefined,
+      limiter
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.size).toBe(png.length);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(500);
+  });
+
+  it("should abandon files growing past maxBytes while streaming", async () => {
+    const result = await downloadWithSpeedCheck(`${baseUrl}/chunked.png`, { tempDir, maxBytes: 100 * 1024 });
+
+    expect(result).toEqual({
+      success: false,
+      error: "File larger than the 0.1 MB limit",
+      rejection: "too-large",
+    });
+    expect(readdirSync(tempDir)).toEqual([]);
+
+    const unlimited = await downloadWithSpeedCheck(`${baseUrl}/chunked.png`, { tempDir });
+    expect(unlimited.success).toBe(true);
+    expect(unlimited.size).toBe(png.length);
+  });
+
+  it("should delete the partial file when the download fails", async () => {
+    const result = await downloadWithSpeedCheck(`${baseUrl}/truncated.png`, { tempDir });
+
+    expect(result.success).toBe(false);
+    expect(result.errorKind).toBe("transient");
+    expect(result.filePath).toBeUndefined();
+    expect(readdirSync(tempDir)).toEqual([]);
+  });
+
+  it("should keep a resumable partial file and resume it with a range request", async () => {
+    const first = await downloadWithSpeedCheck(`${baseUrl}/flaky.png`, { tempDir });
+
+    expect(first.success).toBe(false);
+    expect(first.resumable).toBe(true);
+    expect(readdirSync(tempDir).filter((f) => f.endsWith(".partial"))).toHaveLength(1);
+
+    const second = await downloadWithSpeedCheck(`${baseUrl}/flaky.png`, { tempDir });
+
+    expect(second.success).toBe(true);
+    expect(requests["/flaky.png"]).toEqual([undefined, `bytes=${CUT_AT}-`]);
+    expect(second.size).toBe(png.length);
+    expect(second.checksum).toBe(createHash("md5").update(png).digest("hex"));
+    expect(second.contentHash).toBe(createHash("sha256").update(png).digest("hex"));
+    expect(second.dimensions).toEqual({ width: 3840, height: 2160 });
+    expect(readFileSync(second.filePath!).equals(png)).toBe(true);
+    expect(readdirSync(tempDir)).toEqual([basename(second.filePath!)]);
+  });
+
+  it("should restart when the server ignores the range", async () => {
+    await downloadWithSpeedCheck(`${baseUrl}/flaky-no-range.png`, { tempDir });
+    const result = await downloadWithSpeedCheck(`${baseUrl}/flaky-no-range.png`, { tempDir });
+
+    expect(result.success).toBe(true);
+    expect(requests["/flaky-no-range.png"]).toEqual([undefined, `bytes=${CUT_AT}-`]);
+    expect(readFileSync(result.filePath!).equals(png)).toBe(true);
+  });
+});
+
+describe("ParallelDownloader", () => {
+  let server: Server;
+  let baseUrl: string;
+  let tempDir: string;
+  let ranges: Array<string | undefined>;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      ranges.push(req.headers.range);
+      const start = req.headers.range ? parseInt(req.headers.range.replace("bytes=", ""), 10) : 0;
+      res.writeHead(start > 0 ? 206 : 200, {
+        "content-type": "image/png",
+        "last-modified": "Mon, 05 Oct 2026 10:00:00 GMT",
+        "content-length": png.length - start,
+        ...(start > 0 && { "content-range": `bytes ${start}-${png.length - 1}/${png.length}` }),
+      });
+      if (ranges.length === 1) {
+        res.write(png.subarray(0, CUT_AT), () => res.destroy());
+      } else {
+        res.end(png.subarray(start));
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    ranges = [];
+    tempDir = mkdtempSync(join(tmpdir(), "fallpaper-download-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should resume interrupted downloads within the batch", async () => {
+    const downloader = createDownloader<string>({ tempDir, retryBaseDelayMs: 10 });
+    const [result] = await downloader.downloadAll([{ url: `${baseUrl}/image.png`, context: "a" }]);
+
+    expect(result.success).toBe(true);
+    expect(result.context).toBe("a");
+    expect(ranges).toEqual([undefined, `bytes=${CUT_AT}-`]);
+    expect(readFileSync(result.filePath!).equals(png)).toBe(true);
+  });
+
+  it("should give up after the configured retries", async () => {
+    const downloader = createDownloader<string>({ tempDir, maxRetries: 0 });
+    const [result] = await downloader.downloadAll([{ url: `${baseUrl}/image.png`, context: "a" }]);
+
+    expect(result.success).toBe(false);
+    expect(result.resumable).toBe(true);
+    expect(result.attempts).toBe(1);
+    expect(ranges).toEqual([undefined]);
+  });
+});
+
+describe("ParallelDownloader host limits", () => {
+  let server: Server;
+  let baseUrl: string;
+  let tempDir: string;
+  let active: number;
+  let maxActive: number;
+  let throttled: number;
+  let failing: number;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === "/gone.png") {
+        res.writeHead(410, "Gone");
+        res.end();
+        return;
+      }
+      if (req.url === "/error.png" && failing-- > 0) {
+        res.writeHead(502, "Bad Gateway");
+        res.end();
+        return;
+      }
+      if (req.url === "/closed.png") {
+        res.writeHead(429, "Too Many Requests", { "retry-after": "86400" });
+        res.end();
+        return;
+      }
+      if (req.url === "/throttled.png" && throttled-- > 0) {
+        res.writeHead(429, "Too Many Requests", { "retry-after": "0" });
+        res.end();
+        return;
+      }
+      active++;
+      maxActive = Math.max(maxActive, active);
+      setTimeout(() => {
+        active--;
+        res.writeHead(200, { "content-type": "image/png", "content-length": png.length });
+        res.end(png);
+      }, 30);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    active = 0;
+    maxActive = 0;
+    throttled = 0;
+    failing = 0;
+    tempDir = mkdtempSync(join(tmpdir(), "fallpaper-download-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should cap downloads per host below the global limit", async () => {
+    const limiter = new HostLimiter([{ pattern: "127.0.0.1", maxConcurrent: 1 }]);
+    const downloader = new ParallelDownloader<number>({ tempDir, maxConcurrent: 4 }, undefined, limiter);
+
+    const results = await downloader.downloadAll(
+      [1, 2, 3].map((i) => ({ url: `${baseUrl}/${i}.png`, context: i }))
+    );
+
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(maxActive).toBe(1);
+  });
+
+  it("should retry rate-limited downloads after the cooldown", async () => {
+    throttled = 1;
+    const downloader = new ParallelDownloader<number>({ tempDir, retryBaseDelayMs: 10 }, undefined, new HostLimiter());
+
+    const [result] = await downloader.downloadAll([{ url: `${baseUrl}/throttled.png`, context: 1 }]);
+
+    expect(result.success).toBe(true);
+    expect(throttled).toBe(-1);
+  });
+
+  it("should report the rate limit once retries run out", async () => {
+    throttled = 5;
+    const downloader = new ParallelDownloader<number>(
+      { tempDir, maxRetries: 1, retryBaseDelayMs: 10 },
+      undefined,
+      new HostLimiter()
+    );
+
+    const [result] = await downloader.downloadAll([{ url: `${baseUrl}/throttled.png`, context: 1 }]);
+
+    expect(result).toMatchObject({ success: false, status: 429, retryAfterMs: 0 });
+    expect(throttled).toBe(3);
+  });
+
+  it("should fail the host's queued downloads instead of waiting out a long cooldown", async () => {
+    const downloader = new ParallelDownloader<number>(
+      { tempDir, maxConcurrent: 1, retryBaseDelayMs: 10 },
+      undefined,
+      new HostLimiter()
+    );
+
+    const [closed, queued] = await downloader.downloadAll([
+      { url: `${baseUrl}/closed.png`, context: 1 },
+      { url: `${baseUrl}/1.png`, context: 2 },
+    ]);
+
+    expect(closed).toMatchObject({ success: false, status: 429, attempts: 1 });
+    expect(queued).toMatchObject({ success: false, errorKind: "transient", attempts: 0 });
+    expect(queued.error).toContain("rate limited");
+  });
+
+  it("should retry transient errors with backoff", async () => {
+    failing = 2;
+    const downloader = new ParallelDownloader<number>({ tempDir, retryBaseDelayMs: 10 }, undefined, new HostLimiter());
+
+    const [result] = await downloader.downloadAll([{ url: `${baseUrl}/error.png`, context: 1 }]);
+
+    expect(result).toMatchObject({ success: true, attempts: 3 });
+  });
+
+  it("should not retry permanent errors", async () => {
+    const downloader = new ParallelDownloader<number>({ tempDir, retryBaseDelayMs: 10 }, undefined, new HostLimiter());
+
+    const [result] = await downloader.downloadAll([{ url: `${baseUrl}/gone.png`, context: 1 }]);
+
+    expect(result).toMatchObject({ success: false, status: 410, errorKind: "permanent", attempts: 1 });
+  });
+});
+
+describe("classifyHttpStatus", () => {
+  it("should treat dead and forbidden URLs as permanent", () => {
+    expect(classifyHttpStatus(403)).toBe("permanent");
+    expect(classifyHttpStatus(404)).toBe("permanent");
+    expect(classifyHttpStatus(410)).toBe("permanent");
+  });
+
+  it("should treat server errors, timeouts and rate limits as transient", () => {
+    expect(classifyHttpStatus(408)).toBe("transient");
+    expect(classifyHttpStatus(429)).toBe("transient");
+    expect(classifyHttpStatus(500)).toBe("transient");
+    expect(classifyHttpStatus(503)).toBe("transient");
+  });
+});
+
+describe("getRetryDelayMs", () => {
+  it("should double the delay per attempt within the jitter range", () => {
+    expect(getRetryDelayMs(1, 1000, 30000, () => 0)).toBe(500);
+    expect(getRetryDelayMs(1, 1000, 30000, () => 1)).toBe(1000);
+    expect(getRetryDelayMs(3, 1000, 30000, () => 1)).toBe(4000);
+  });
+
+  it("should cap the delay", () => {
+    expect(getRetryDelayMs(10, 1000, 30000, () => 1)).toBe(30000);
+  });
+});
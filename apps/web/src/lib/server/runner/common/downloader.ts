@@ -1,4 +1,15 @@
+import { readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { createHash, randomUUID } from "node:crypto";
 import { getLogger } from "@packages/otel-server";
+import type { BandwidthWindow } from "$lib/server/config/bandwidth";
+import type { HostLimitRule } from "$lib/server/config/host-limits";
+import { getSharedBandwidthLimiter, type BandwidthLimiter } from "./bandwidth-limiter";
+import { detectImageFormat, IMAGE_SIGNATURE_BYTES, type ImageDimensions } from "./image-header";
+import { getSharedHostLimiter, parseRetryAfter, type HostLimiter } from "./host-limiter";
+import { createProxyFetch } from "./proxy";
+import { TempFileWriter } from "./temp-file";
+import { DEFAULT_TEMP_DIR } from "./types";
 
 export interface DownloadConfig {
   /** Minimum download speed in bytes/sec before considered slow. Default: 10KB/s */
@@ -11,21 +22,73 @@ export interface DownloadConfig {
   maxConcurrent?: number;
   /** Request timeout in ms. Default: 60000ms (1 min) */
   requestTimeoutMs?: number;
+  /** Directory the response body is streamed into. Defaults to OS temp + /fallpaper */
+  tempDir?: string;
+  /** Times a download failing with a transient error is retried. Default: 2 */
+  maxRetries?: number;
+  /** Backoff before the first retry in ms, doubled for each further retry (with jitter). Default: 1000ms */
+  retryBaseDelayMs?: number;
+  /** Longest backoff between retries in ms. Default: 30000ms (30s) */
+  retryMaxDelayMs?: number;
+  /** Age in ms after which unfinished partial files are deleted. Default: 7 days */
+  partialMaxAgeMs?: number;
+  /** Per-host concurrency caps, delays and cooldowns; the first matching rule applies. Default: none */
+  hostLimits?: HostLimitRule[];
+  /** Proxy URL (http, https or socks5) to download through. Default: direct */
+  proxyUrl?: string;
+  /** Largest file worth downloading in bytes; bigger files are abandoned unread or mid-stream. Default: no limit */
+  maxBytes?: number;
+  /** Combined speed cap of all downloads in bytes/sec, 0 = unlimited (ParallelDownloader only). Default: 0 */
+  bandwidthLimitBytesPerSec?: number;
+  /** Time-of-day windows overriding the speed cap (ParallelDownloader only). Default: none */
+  bandwidthSchedule?: BandwidthWindow[];
 }
 
+/**
+ * Whether a failed download is worth retrying:
+ * transient (network errors, timeouts, 5xx, 429) or permanent (404, 410, 403, not an image)
+ */
+export type DownloadErrorKind = "transient" | "permanent";
+
+/**
+ * Why a response was abandoned before it was saved:
+ * larger than maxBytes, or not an image (by content type or magic number)
+ */
+export type DownloadRejection = "too-large" | "not-image";
+
 export interface DownloadResult {
   /** Whether download was successful */
   success: boolean;
-  /** Downloaded data as ArrayBuffer (if successful) */
-  data?: ArrayBuffer;
+  /** Path of the downloaded file in the temp directory (if successful); the caller must move or delete it */
+  filePath?: string;
   /** Final file size in bytes */
   size?: number;
+  /** MD5 checksum of the downloaded file */
+  checksum?: string;
+  /** SHA-256 of the downloaded file */
+  contentHash?: string;
+  /** Dimensions read from the file header (null if not recognised) */
+  dimensions?: ImageDimensions | null;
+  /** Format detected from the file's magic number (null if not recognised) */
+  format?: string | null;
   /** Content type from response headers */
   contentType?: string;
   /** Error message if failed */
   error?: string;
+  /** Classification of the error if failed */
+  errorKind?: DownloadErrorKind;
+  /** Attempts made, including retries */
+  attempts?: number;
+  /** HTTP status of a failed response */
+  status?: number;
+  /** Delay from the Retry-After header of a failed response, in ms */
+  retryAfterMs?: number;
   /** Whether download was aborted due to slow speed */
   slowAbort?: boolean;
+  /** Set when the response was abandoned because no device could use it */
+  rejection?: DownloadRejection;
+  /** Whether the partial file was kept, so the next attempt resumes where this one stopped */
+  resumable?: boolean;
 }
 
 export interface DownloadProgress {
@@ -39,18 +102,183 @@ export interface DownloadProgress {
 export type ProgressCallback = (progress: DownloadProgress) => void;
 
 /**
- * Download a single file with slow speed detection
+ * Validators stored next to a partial file, checked with If-Range when resuming
+ */
+interface PartialDownloadMeta {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+interface PartialDownload extends PartialDownloadMeta {
+  /** Bytes already downloaded */
+  size: number;
+}
+
+interface PartialPaths {
+  filePath: string;
+  metaPath: string;
+}
+
+const PARTIAL_EXTENSION = ".partial";
+
+// Partial files being written, so two downloads of one URL never share a file
+const activePartials = new Set<string>();
+
+/**
+ * Partial file for a URL: one per URL, so a later attempt (or run) finds it again
+ */
+function getPartialPaths(tempDir: string, url: string): PartialPaths {
+  const key = createHash("sha1").update(url).digest("hex");
+  const filePath = join(tempDir, `${key}${PARTIAL_EXTENSION}`);
+  return { filePath, metaPath: `${filePath}.json` };
+}
+
+/**
+ * Validator to send in If-Range (weak ETags are not allowed there)
+ */
+function getIfRangeValidator(meta: PartialDownloadMeta): string | undefined {
+  return meta.etag && !meta.etag.startsWith("W/") ? meta.etag : meta.lastModified;
+}
+
+async function removePartial(paths: PartialPaths): Promise<void> {
+  await Promise.all([rm(paths.filePath, { force: true }), rm(paths.metaPath, { force: true })]);
+}
+
+/**
+ * Load the partial download left by an earlier attempt
+ * @returns null when there is nothing usable to resume
+ */
+async function loadPartial(paths: PartialPaths, url: string): Promise<PartialDownload | null> {
+  let meta: PartialDownloadMeta;
+  let size: number;
+  try {
+    meta = JSON.parse(await readFile(paths.metaPath, "utf8"));
+    size = (await stat(paths.filePath)).size;
+  } catch {
+    return null;
+  }
+
+  if (meta.url !== url || size === 0 || !getIfRangeValidator(meta)) {
+    await removePartial(paths);
+    return null;
+  }
+  return { ...meta, size };
+}
+
+/**
+ * Start offset of a 206 response, from "Content-Range: bytes N-M/total"
+ */
+function getContentRangeStart(contentRange: string | null): number | null {
+  const match = contentRange?.match(/^bytes (\d+)-/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+// Content types accepted besides image/*: servers that don't know the type
+const BINARY_CONTENT_TYPES = new Set(["application/octet-stream", "binary/octet-stream"]);
+
+/**
+ * Classify a failed HTTP status: client errors mean the URL is dead or forbidden,
+ * except timeouts and rate limits
+ */
+export function classifyHttpStatus(status: number): DownloadErrorKind {
+  if (status >= 400 && status < 500 && status !== 408 && status !== 425 && status !== 429) {
+    return "permanent";
+  }
+  return "transient";
+}
+
+/**
+ * Backoff before a retry: exponential, with jitter so parallel retries spread out
+ * @param attempt - Attempts made so far (1 before the first retry)
+ */
+export function getRetryDelayMs(attempt: number, baseMs: number, maxMs: number, random = Math.random): number {
+  const delayMs = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+  return Math.round(delayMs / 2 + (random() * delayMs) / 2);
+}
+
+/**
+ * Delete partial files that were never resumed
+ */
+export async function prunePartialDownloads(tempDir: string, maxAgeMs: number): Promise<number> {
+  let entries: string[];
+  try {
+    entries = await readdir(tempDir);
+  } catch {
+    return 0;
+  }
+
+  let removed = 0;
+  const cutoff = Date.now() - maxAgeMs;
+  for (const entry of entries) {
+    if (!entry.endsWith(PARTIAL_EXTENSION)) continue;
+
+    const filePath = join(tempDir, entry);
+    if (activePartials.has(filePath)) continue;
+
+    try {
+      if ((await stat(filePath)).mtimeMs < cutoff) {
+        await removePartial({ filePath, metaPath: `${filePath}.json` });
+        removed++;
+      }
+    } catch {
+      // Removed concurrently
+    }
+  }
+  return removed;
+}
+
+function tooLargeResult(maxBytes: number, size?: number): DownloadResult {
+  const toMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return {
+    success: false,
+    error: size ? `File too large (${toMB(size)}, limit ${toMB(maxBytes)})` : `File larger than the ${toMB(maxBytes)} limit`,
+    rejection: "too-large",
+  };
+}
+
+function notImageResult(): DownloadResult {
+  return {
+    success: false,
+    error: "Not an image (unrecognised file signature)",
+    errorKind: "permanent",
+    rejection: "not-image",
+  };
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(a.length + b.length);
+  bytes.set(a);
+  bytes.set(b, a.length);
+  return bytes;
+}
+
+/**
+ * Download a single file to the temp directory with slow speed detection.
+ * The body is streamed to disk while it is hashed and its dimensions sniffed,
+ * so large files never sit in memory. Files bigger than maxBytes (by Content-Length or
+ * while streaming) and bodies without an image magic number are abandoned before they are saved.
+ * With a bandwidth limiter, reading pauses to stay within its cap; those pauses don't count
+ * as slow speed and extend the request timeout.
+ *
+ * When a download is aborted (slow speed, timeout) or the connection drops, the partial
+ * file is kept if the server sent an ETag or Last-Modified. The next call for the same URL
+ * requests only the missing bytes with Range/If-Range, and starts over when the server
+ * ignores the range or the file changed.
  */
 export async function downloadWithSpeedCheck(
   url: string,
   config: DownloadConfig = {},
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  bandwidthLimiter?: BandwidthLimiter
 ): Promise<DownloadResult> {
   const {
     minSpeedBytesPerSec = 10 * 1024, // 10 KB/s
     slowSpeedTimeoutMs = 10000, // 10 seconds
     speedCheckIntervalMs = 1000, // 1 second
     requestTimeoutMs = 60000, // 1 minute
+    tempDir = DEFAULT_TEMP_DIR,
+    maxBytes = Infinity,
   } = config;
 
   const logger = getLogger();
@@ -59,36 +287,143 @@ export async function downloadWithSpeedCheck(
   let slowStartTime: number | null = null;
   let lastCheckTime = startTime;
   let lastCheckBytes = 0;
+  // Time spent waiting for the bandwidth cap
+  let throttledMs = 0;
+  let throttling = false;
+  let lastCheckThrottledMs = 0;
   let abortController: AbortController | null = new AbortController();
+  let writer: TempFileWriter | null = null;
+  let resumable = false;
+
+  // Another download of this URL is running: use a throwaway file instead
+  let partialPaths: PartialPaths | null = getPartialPaths(tempDir, url);
+  if (activePartials.has(partialPaths.filePath)) {
+    partialPaths = null;
+  } else {
+    activePartials.add(partialPaths.filePath);
+  }
+
+  const keepsPartial = () => resumable && writer !== null && writer.bytesWritten > 0;
 
   try {
-    const response = await fetch(url, {
+    const partial = partialPaths ? await loadPartial(partialPaths, url) : null;
+
+    const headers: Record<string, string> = {
+      "User-Agent": "fallpaper/1.0",
+    };
+    if (partial) {
+      headers["Range"] = `bytes=${partial.size}-`;
+      headers["If-Range"] = getIfRangeValidator(partial)!;
+    }
+
+    const response = await createProxyFetch(config.proxyUrl)(url, {
       signal: abortController.signal,
-      headers: {
-        "User-Agent": "fallpaper/1.0",
-      },
+      headers,
     });
 
+    if (partialPaths && partial && response.status === 416) {
+      // The partial file no longer matches the remote file: start over on the next attempt
+      await removePartial(partialPaths);
+      return {
+        success: false,
+        error: `HTTP ${response.status}: ${response.statusText}`,
+        errorKind: "transient",
+      };
+    }
+
     if (!response.ok) {
       return {
         success: false,
         error: `HTTP ${response.status}: ${response.statusText}`,
+        errorKind: classifyHttpStatus(response.status),
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
       };
     }
 
     const contentType = response.headers.get("content-type") ?? undefined;
-    const contentLength = response.headers.get("content-length");
-    const totalBytes = contentLength ? parseInt(contentLength, 10) : null;
+    const mimeType = contentType?.split(";")[0].trim().toLowerCase();
+    if (mimeType && !mimeType.startsWith("image/") && !BINARY_CONTENT_TYPES.has(mimeType)) {
+      // e.g. an HTML "removed" page served in place of the image
+      await response.body?.cancel();
+      if (partialPaths) {
+        await removePartial(partialPaths);
+      }
+      return {
+        success: false,
+        error: `Not an image (${mimeType})`,
+        errorKind: "permanent",
+        rejection: "not-image",
+      };
+    }
+
+    const etag = response.headers.get("etag") ?? partial?.etag;
+    const lastModified = response.headers.get("last-modified") ?? partial?.lastModified;
+
+    // If-Range makes the server send the whole file (200) when it changed;
+    // the checks here guard against servers that get ranges wrong
+    const resumed =
+      partial !== null &&
+      response.status === 206 &&
+      getContentRangeStart(response.headers.get("content-range")) === partial.size &&
+      (!partial.etag || etag === partial.etag);
+
+    if (partialPaths && response.status === 206 && !resumed) {
+      await response.body?.cancel();
+      await removePartial(partialPaths);
+      return {
+        success: false,
+        error: "Server returned an unexpected range",
+        errorKind: "transient",
+      };
+    }
 
     if (!response.body) {
       return {
         success: false,
         error: "No response body",
+        errorKind: "transient",
       };
     }
 
+    if (partial && !resumed) {
+      logger.debug({ url, partialBytes: partial.size }, "Server sent the whole file, restarting download");
+    }
+
+    const startOffset = resumed && partial ? partial.size : 0;
+    const contentLength = response.headers.get("content-length");
+    const totalBytes = contentLength ? startOffset + parseInt(contentLength, 10) : null;
+
+    if (totalBytes !== null && totalBytes > maxBytes) {
+      await response.body.cancel();
+      if (partialPaths) {
+        await removePartial(partialPaths);
+      }
+      return tooLargeResult(maxBytes, totalBytes);
+    }
+
     const reader = response.body.getReader();
-    const chunks: Uint8Array[] = [];
+    writer = partialPaths
+      ? await TempFileWriter.open(partialPaths.filePath, resumed)
+      : await TempFileWriter.create(tempDir);
+
+    // Only keep partial files that can be checked before resuming
+    resumable =
+      partialPaths !== null &&
+      getIfRangeValidator({ url, etag, lastModified }) !== undefined &&
+      response.headers.get("accept-ranges") !== "none";
+    if (partialPaths) {
+      if (resumable) {
+        const meta: PartialDownloadMeta = { url, etag, lastModified };
+        await writeFile(partialPaths.metaPath, JSON.stringify(meta));
+      } else {
+        await rm(partialPaths.metaPath, { force: true });
+      }
+    }
+
+    if (resumed) {
+      logger.info({ url, offset: startOffset }, `Resuming download at ${(startOffset / 1024).toFixed(2)} KB`);
+    }
 
     // Speed check interval
     const speedChecker = setInterval(() => {
@@ -101,15 +436,17 @@ export async function downloadWithSpeedCheck(
       if (onProgress) {
         onProgress({
           url,
-          bytesDownloaded,
+          bytesDownloaded: startOffset + bytesDownloaded,
           totalBytes,
           speedBytesPerSec,
           elapsedMs: now - startTime,
         });
       }
 
-      // Check for slow speed
-      if (speedBytesPerSec < minSpeedBytesPerSec) {
+      // Check for slow speed (being held back by our own bandwidth cap doesn't count)
+      const throttled = throttling || throttledMs !== lastCheckThrottledMs;
+      lastCheckThrottledMs = throttledMs;
+      if (speedBytesPerSec < minSpeedBytesPerSec && !throttled) {
         if (slowStartTime === null) {
           slowStartTime = now;
           logger.warn(
@@ -135,43 +472,111 @@ export async function downloadWithSpeedCheck(
       lastCheckBytes = bytesDownloaded;
     }, speedCheckIntervalMs);
 
-    // Timeout for entire download
-    const downloadTimeout = setTimeout(() => {
-      logger.warn({ url, timeoutMs: requestTimeoutMs }, "Download timeout");
-      abortController?.abort();
-    }, requestTimeoutMs);
+    // Timeout for entire download, extended by the time spent waiting for the bandwidth cap
+    let downloadTimeout: ReturnType<typeof setTimeout> | undefined;
+    let timeoutExtendedMs = 0;
+    const startDownloadTimeout = (timeoutMs: number) => {
+      downloadTimeout = setTimeout(() => {
+        if (throttledMs > timeoutExtendedMs) {
+          startDownloadTimeout(throttledMs - timeoutExtendedMs);
+          timeoutExtendedMs = throttledMs;
+          return;
+        }
+        logger.warn({ url, timeoutMs: requestTimeoutMs }, "Download timeout");
+        abortController?.abort();
+      }, timeoutMs);
+    };
+    startDownloadTimeout(requestTimeoutMs);
+
+    // The first bytes are held back until they show an image magic number,
+    // so error pages served as 200 image/jpeg never reach the disk (resumed files were checked before)
+    let signature: Uint8Array | null = resumed ? null : new Uint8Array(0);
+    let rejection: DownloadResult | null = null;
 
     try {
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
-
-        chunks.push(value);
         bytesDownloaded += value.length;
+
+        if (startOffset + bytesDownloaded > maxBytes) {
+          rejection = tooLargeResult(maxBytes);
+          break;
+        }
+
+        if (bandwidthLimiter) {
+          throttling = true;
+          try {
+            throttledMs += await bandwidthLimiter.throttle(value.length, abortController?.signal);
+          } finally {
+            throttling = false;
+          }
+        }
+
+        let chunk: Uint8Array = value;
+        if (signature) {
+          chunk = concatBytes(signature, value);
+          if (chunk.length < IMAGE_SIGNATURE_BYTES) {
+            signature = chunk;
+            continue;
+          }
+          signature = null;
+          if (!detectImageFormat(chunk)) {
+            rejection = notImageResult();
+            break;
+          }
+        }
+
+        await writer.write(chunk);
+      }
+
+      // Files shorter than a signature
+      if (!rejection && signature) {
+        if (detectImageFormat(signature)) {
+          await writer.write(signature);
+        } else {
+          rejection = notImageResult();
+        }
       }
     } finally {
       clearInterval(speedChecker);
       clearTimeout(downloadTimeout);
     }
 
-    // Combine chunks into single ArrayBuffer
-    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-    const result = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const chunk of chunks) {
-      result.set(chunk, offset);
-      offset += chunk.length;
+    if (rejection) {
+      await reader.cancel().catch(() => {});
+      await writer.discard();
+      writer = null;
+      if (partialPaths) {
+        await removePartial(partialPaths);
+      }
+      logger.debug({ url, reason: rejection.rejection }, `Download abandoned: ${rejection.error}`);
+      return rejection;
+    }
+
+    const file = await writer.finish();
+    writer = null;
+
+    // Hand the caller a file of its own; the partial name is reserved for this URL
+    if (partialPaths) {
+      file.filePath = join(tempDir, `${randomUUID()}.download`);
+      await rename(partialPaths.filePath, file.filePath);
+      await rm(partialPaths.metaPath, { force: true });
     }
 
     logger.debug(
-      { url, sizeKB: (totalLength / 1024).toFixed(2), durationMs: Date.now() - startTime },
-      `Downloaded ${(totalLength / 1024).toFixed(2)} KB in ${((Date.now() - startTime) / 1000).toFixed(1)}s`
+      { url, sizeKB: (file.size / 1024).toFixed(2), durationMs: Date.now() - startTime },
+      `Downloaded ${(file.size / 1024).toFixed(2)} KB in ${((Date.now() - startTime) / 1000).toFixed(1)}s`
     );
 
     return {
       success: true,
-      data: result.buffer,
-      size: totalLength,
+      filePath: file.filePath,
+      size: file.size,
+      checksum: file.checksum,
+      contentHash: file.contentHash,
+      dimensions: file.dimensions,
+      format: file.format,
       contentType,
     };
   } catch (err: any) {
@@ -179,15 +584,32 @@ export async function downloadWithSpeedCheck(
       return {
         success: false,
         error: "Download aborted",
+        errorKind: "transient",
         slowAbort: slowStartTime !== null,
+        resumable: keepsPartial(),
       };
     }
     return {
       success: false,
       error: err.message ?? String(err),
+      // DNS failures, connection resets and the like
+      errorKind: "transient",
+      resumable: keepsPartial(),
     };
   } finally {
     abortController = null;
+    // Keep the partial file of a failed download if it can be resumed, otherwise remove it
+    if (keepsPartial()) {
+      await writer!.close().catch(() => {});
+    } else {
+      await writer?.discard();
+      if (writer && partialPaths) {
+        await rm(partialPaths.metaPath, { force: true });
+      }
+    }
+    if (partialPaths) {
+      activePartials.delete(partialPaths.filePath);
+    }
   }
 }
 
@@ -198,34 +620,76 @@ interface QueueItem<T> {
   url: string;
   context: T;
   resolve: (result: DownloadResult & { context: T }) => void;
+  /** Attempts made so far */
+  attempts: number;
+  /** Not started again before this time (retry backoff) */
+  notBefore: number;
+  /** Size limit for this item, overriding the downloader's */
+  maxBytes?: number;
 }
 
+// Responses that put the host into cooldown
+const RATE_LIMIT_STATUSES = new Set([429, 503]);
+
+// Hosts cooling down longer fail their items instead of holding up the whole batch
+// (transient failures, so the next run tries them again)
+const MAX_COOLDOWN_WAIT_MS = 5 * 60 * 1000;
+
 /**
- * Parallel downloader with concurrency limit and slow speed detection
+ * Parallel downloader with concurrency limit, per-host limits, a shared bandwidth cap,
+ * retries and slow speed detection.
+ * Transient failures are queued again after a backoff, freeing their slot in the meantime.
  */
 export class ParallelDownloader<T = unknown> {
   private config: Required<DownloadConfig>;
   private queue: QueueItem<T>[] = [];
   private activeDownloads = 0;
   private onProgress?: ProgressCallback;
+  private hostLimiter: HostLimiter;
+  private bandwidthLimiter: BandwidthLimiter;
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(config: DownloadConfig = {}, onProgress?: ProgressCallback) {
+  /**
+   * @param hostLimiter - Defaults to the limiter shared by all downloads
+   * @param bandwidthLimiter - Defaults to the limiter shared by all downloads
+   */
+  constructor(
+    config: DownloadConfig = {},
+    onProgress?: ProgressCallback,
+    hostLimiter?: HostLimiter,
+    bandwidthLimiter?: BandwidthLimiter
+  ) {
     this.config = {
       minSpeedBytesPerSec: config.minSpeedBytesPerSec ?? 10 * 1024,
       slowSpeedTimeoutMs: config.slowSpeedTimeoutMs ?? 10000,
       speedCheckIntervalMs: config.speedCheckIntervalMs ?? 1000,
       maxConcurrent: config.maxConcurrent ?? 4,
       requestTimeoutMs: config.requestTimeoutMs ?? 60000,
+      tempDir: config.tempDir ?? DEFAULT_TEMP_DIR,
+      maxRetries: config.maxRetries ?? 2,
+      retryBaseDelayMs: config.retryBaseDelayMs ?? 1000,
+      retryMaxDelayMs: config.retryMaxDelayMs ?? 30000,
+      partialMaxAgeMs: config.partialMaxAgeMs ?? 7 * 24 * 60 * 60 * 1000,
+      hostLimits: config.hostLimits ?? [],
+      proxyUrl: config.proxyUrl ?? "",
+      maxBytes: config.maxBytes ?? Infinity,
+      bandwidthLimitBytesPerSec: config.bandwidthLimitBytesPerSec ?? 0,
+      bandwidthSchedule: config.bandwidthSchedule ?? [],
     };
     this.onProgress = onProgress;
+    this.hostLimiter = hostLimiter ?? getSharedHostLimiter(this.config.hostLimits);
+    this.bandwidthLimiter =
+      bandwidthLimiter ??
+      getSharedBandwidthLimiter(this.config.bandwidthLimitBytesPerSec, this.config.bandwidthSchedule);
   }
 
   /**
    * Add a URL to the download queue
+   * @param maxBytes - Size limit for this URL (e.g. the largest file its devices accept)
    */
-  async download(url: string, context: T): Promise<DownloadResult & { context: T }> {
+  async download(url: string, context: T, maxBytes?: number): Promise<DownloadResult & { context: T }> {
     return new Promise((resolve) => {
-      this.queue.push({ url, context, resolve });
+      this.queue.push({ url, context, resolve, attempts: 0, notBefore: 0, maxBytes });
       this.processQueue();
     });
   }
@@ -234,30 +698,102 @@ export class ParallelDownloader<T = unknown> {
    * Download multiple URLs in parallel
    */
   async downloadAll(
-    items: Array<{ url: string; context: T }>
+    items: Array<{ url: string; context: T; maxBytes?: number }>
   ): Promise<Array<DownloadResult & { context: T }>> {
-    const promises = items.map((item) => this.download(item.url, item.context));
+    const pruned = await prunePartialDownloads(this.config.tempDir, this.config.partialMaxAgeMs);
+    if (pruned > 0) {
+      getLogger().debug({ pruned }, `Removed ${pruned} stale partial downloads`);
+    }
+
+    const promises = items.map((item) => this.download(item.url, item.context, item.maxBytes));
     return Promise.all(promises);
   }
 
-  private async processQueue(): Promise<void> {
-    while (this.queue.length > 0 && this.activeDownloads < this.config.maxConcurrent) {
-      const item = this.queue.shift();
-      if (!item) break;
+  private processQueue(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    // Start the first items that are due and whose hosts are free,
+    // skipping over backed-off items and busy or cooling hosts,
+    // and failing items of hosts cooling down too long to wait for
+    let nextWakeMs = Infinity;
+    for (let i = 0; i < this.queue.length && this.activeDownloads < this.config.maxConcurrent; ) {
+      const item = this.queue[i];
+
+      const cooldownMs = this.hostLimiter.getCooldownMs(item.url);
+      if (cooldownMs > MAX_COOLDOWN_WAIT_MS) {
+        this.queue.splice(i, 1);
+        item.resolve({
+          success: false,
+          error: `Host rate limited for another ${Math.ceil(cooldownMs / 1000)}s`,
+          errorKind: "transient",
+          attempts: item.attempts,
+          context: item.context,
+        });
+        continue;
+      }
+
+      const waitMs = Math.max(item.notBefore - Date.now(), this.hostLimiter.getWaitMs(item.url));
+      if (waitMs > 0) {
+        nextWakeMs = Math.min(nextWakeMs, waitMs);
+        i++;
+        continue;
+      }
 
+      this.queue.splice(i, 1);
+      this.hostLimiter.acquire(item.url);
       this.activeDownloads++;
 
       // Don't await - let it run in parallel
       this.processItem(item).finally(() => {
+        this.hostLimiter.release(item.url);
         this.activeDownloads--;
         this.processQueue();
       });
     }
+
+    // Come back when the first waiting item is due
+    if (nextWakeMs !== Infinity && this.activeDownloads < this.config.maxConcurrent) {
+      this.wakeTimer = setTimeout(() => this.processQueue(), nextWakeMs);
+    }
   }
 
   private async processItem(item: QueueItem<T>): Promise<void> {
-    const result = await downloadWithSpeedCheck(item.url, this.config, this.onProgress);
-    item.resolve({ ...result, context: item.context });
+    const result = await downloadWithSpeedCheck(
+      item.url,
+      { ...this.config, maxBytes: item.maxBytes ?? this.config.maxBytes },
+      this.onProgress,
+      this.bandwidthLimiter
+    );
+    item.attempts++;
+
+    let retry = !result.success && result.errorKind === "transient" && item.attempts <= this.config.maxRetries;
+
+    // Pause the host; the retry waits behind the cooldown
+    if (!result.success && result.status !== undefined && RATE_LIMIT_STATUSES.has(result.status)) {
+      const cooldownMs = this.hostLimiter.coolDown(item.url, result.retryAfterMs);
+      getLogger().warn(
+        { url: item.url, status: result.status, cooldownMs },
+        `Host rate limited, pausing downloads for ${(cooldownMs / 1000).toFixed(1)}s`
+      );
+      retry &&= cooldownMs <= MAX_COOLDOWN_WAIT_MS;
+    }
+
+    if (retry) {
+      // Interrupted downloads resume from their partial file
+      const delayMs = getRetryDelayMs(item.attempts, this.config.retryBaseDelayMs, this.config.retryMaxDelayMs);
+      getLogger().info(
+        { url: item.url, attempt: item.attempts, delayMs, error: result.error },
+        `Retrying download in ${(delayMs / 1000).toFixed(1)}s`
+      );
+      item.notBefore = Date.now() + delayMs;
+      this.queue.push(item);
+      return;
+    }
+
+    item.resolve({ ...result, attempts: item.attempts, context: item.context });
   }
 }
 
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { HostLimiter, MAX_COOLDOWN_MS, parseRetryAfter } from "./host-limiter";
+
+describe("parseRetryAfter", () => {
+  it("should parse seconds and HTTP dates", () => {
+    const now = Date.parse("Sun, 18 Oct 2026 12:00:00 GMT");
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+    expect(parseRetryAfter("Sun, 18 Oct 2026 12:00:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfter("Sun, 18 Oct 2026 11:00:00 GMT", now)).toBe(0);
+  });
+
+  it("should ignore missing and invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("HostLimiter", () => {
+  const rules = [{ pattern: "*.redd.it", maxConcurrent: 2, minDelayMs: 500, cooldownMs: 10_000 }];
+
+  it("should cap concurrency for hosts sharing a rule", () => {
+    const limiter = new HostLimiter(rules);
+    limiter.acquire("https://i.redd.it/a.jpg", 0);
+    limiter.acquire("https://preview.redd.it/b.jpg", 500);
+
+    expect(limiter.getWaitMs("https://i.redd.it/c.jpg", 1000)).toBeGreaterThan(0);
+    expect(limiter.getWaitMs("https://example.com/c.jpg", 1000)).toBe(0);
+
+    limiter.release("https://i.redd.it/a.jpg", 1000);
+    expect(limiter.getWaitMs("https://i.redd.it/c.jpg", 1000)).toBe(0);
+  });
+
+  it("should space out starts by the minimum delay", () => {
+    const limiter = new HostLimiter(rules);
+    limiter.acquire("https://i.redd.it/a.jpg", 1000);
+
+    expect(limiter.getWaitMs("https://i.redd.it/b.jpg", 1200)).toBe(300);
+    expect(limiter.getWaitMs("https://i.redd.it/b.jpg", 1500)).toBe(0);
+  });
+
+  it("should cool down hosts, preferring Retry-After over the rule", () => {
+    const limiter = new HostLimiter(rules);
+
+    expect(limiter.coolDown("https://i.redd.it/a.jpg", undefined, 0)).toBe(10_000);
+    expect(limiter.getWaitMs("https://preview.redd.it/b.jpg", 4000)).toBe(6000);
+
+    expect(limiter.coolDown("https://example.com/a.jpg", 2000, 0)).toBe(2000);
+    expect(limiter.getWaitMs("https://example.com/b.jpg", 1000)).toBe(1000);
+    expect(limiter.getWaitMs("https://other.example.com/b.jpg", 1000)).toBe(0);
+  });
+
+  it("should cap cooldowns", () => {
+    const limiter = new HostLimiter(rules);
+
+    expect(limiter.coolDown("https://example.com/a.jpg", 86_400_000, 0)).toBe(MAX_COOLDOWN_MS);
+    expect(limiter.getCooldownMs("https://example.com/b.jpg", 1000)).toBe(MAX_COOLDOWN_MS - 1000);
+    expect(limiter.getCooldownMs("https://other.example.com/b.jpg", 1000)).toBe(0);
+  });
+});
@@ -0,0 +1,145 @@
+import { matchesHostPattern, type HostLimitRule } from "$lib/server/config/host-limits";
+
+/** Pause after a 429/503 when neither Retry-After nor the rule says how long */
+const DEFAULT_COOLDOWN_MS = 60 * 1000;
+
+/** Longest pause honoured, so a bogus Retry-After can't block a host for days */
+export const MAX_COOLDOWN_MS = 60 * 60 * 1000;
+
+/** How often to look again when a host is at its concurrency cap */
+const CAPACITY_RECHECK_MS = 100;
+
+/**
+ * Live state of one host group
+ */
+interface HostState {
+  /** Downloads running */
+  active: number;
+  /** Earliest start of the next download (min delay) */
+  nextStartAt: number;
+  /** No downloads until then (429/503 cooldown) */
+  cooldownUntil: number;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ * @returns delay in ms, or undefined when missing or invalid
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Enforces per-host concurrency caps, minimum delays and 429/503 cooldowns.
+ * Hosts matching the same rule share one state; other hosts are tracked by host name.
+ */
+export class HostLimiter {
+  private states = new Map<string, HostState>();
+
+  constructor(private rules: HostLimitRule[] = []) {}
+
+  /**
+   * Replace the rules (state of hosts in cooldown is kept)
+   */
+  setRules(rules: HostLimitRule[]): void {
+    this.rules = rules;
+  }
+
+  /**
+   * Time in ms until a download from the URL's host may start (0 = now)
+   */
+  getWaitMs(url: string, now = Date.now()): number {
+    const { rule, state } = this.lookup(url);
+    if (!state) return 0;
+
+    const wait = Math.max(state.cooldownUntil, state.nextStartAt) - now;
+    if (wait > 0) return wait;
+
+    if (rule?.maxConcurrent !== undefined && state.active >= rule.maxConcurrent) {
+      return CAPACITY_RECHECK_MS;
+    }
+    return 0;
+  }
+
+  /**
+   * Time in ms until the URL's host's 429/503 cooldown ends (0 = not cooling down)
+   */
+  getCooldownMs(url: string, now = Date.now()): number {
+    const { state } = this.lookup(url);
+    return state ? Math.max(0, state.cooldownUntil - now) : 0;
+  }
+
+  /**
+   * Record the start of a download
+   */
+  acquire(url: string, now = Date.now()): void {
+    const { key, rule, state } = this.lookup(url);
+    const current = state ?? { active: 0, nextStartAt: 0, cooldownUntil: 0 };
+    current.active++;
+    current.nextStartAt = now + (rule?.minDelayMs ?? 0);
+    this.states.set(key, current);
+  }
+
+  /**
+   * Record the end of a download
+   */
+  release(url: string, now = Date.now()): void {
+    const { key, state } = this.lookup(url);
+    if (!state) return;
+
+    state.active = Math.max(0, state.active - 1);
+    if (state.active === 0 && state.nextStartAt <= now && state.cooldownUntil <= now) {
+      this.states.delete(key);
+    }
+  }
+
+  /**
+   * Pause the URL's host after a 429/503 response
+   * @param retryAfterMs - Delay from the Retry-After header, if any
+   * @returns the cooldown in ms, at most MAX_COOLDOWN_MS
+   */
+  coolDown(url: string, retryAfterMs?: number, now = Date.now()): number {
+    const { key, rule, state } = this.lookup(url);
+    const cooldownMs = Math.min(retryAfterMs ?? rule?.cooldownMs ?? DEFAULT_COOLDOWN_MS, MAX_COOLDOWN_MS);
+    const current = state ?? { active: 0, nextStartAt: 0, cooldownUntil: 0 };
+    current.cooldownUntil = Math.max(current.cooldownUntil, now + cooldownMs);
+    this.states.set(key, current);
+    return cooldownMs;
+  }
+
+  private lookup(url: string): { key: string; rule?: HostLimitRule; state?: HostState } {
+    let host: string;
+    try {
+      host = new URL(url).hostname.toLowerCase();
+    } catch {
+      host = "";
+    }
+
+    const rule = this.rules.find((r) => matchesHostPattern(host, r.pattern));
+    const key = rule ? `rule:${rule.pattern}` : host;
+    return { key, rule, state: this.states.get(key) };
+  }
+}
+
+let sharedLimiter: HostLimiter | null = null;
+
+/**
+ * Get the host limiter shared by all downloads, so concurrent runs
+ * hitting the same host count against the same limits
+ */
+export function getSharedHostLimiter(rules: HostLimitRule[]): HostLimiter {
+  if (!sharedLimiter) {
+    sharedLimiter = new HostLimiter(rules);
+  } else {
+    sharedLimiter.setRules(rules);
+  }
+  return sharedLimiter;
+}
@@ -6,7 +6,8 @@ import type { Device } from "@packages/database";
 export interface ImageMetadata {
   width: number;
   height: number;
-  filesize: number;
+  /** File size in bytes. Undefined when not known yet (skips the filesize check) */
+  filesize?: number;
   nsfw: boolean;
 }
 
@@ -102,9 +103,11 @@ export function isEligibleForDevice(device: Device, image: ImageMetadata): Eligi
   const dimResult = checkDimensions(device, image.width, image.height);
   if (!dimResult.eligible) return dimResult;
 
-  // Check filesize
-  const filesizeResult = checkFilesize(device, image.filesize);
-  if (!filesizeResult.eligible) return filesizeResult;
+  // Check filesize (only when known, e.g. before download)
+  if (image.filesize !== undefined) {
+    const filesizeResult = checkFilesize(device, image.filesize);
+    if (!filesizeResult.eligible) return filesizeResult;
+  }
 
   return { eligible: true };
 }
@@ -135,3 +138,15 @@ export function isEligibleForAnyDevice(devices: Device[], image: ImageMetadata):
 export function getEligibleDevices(devices: Device[], image: ImageMetadata): Device[] {
   return devices.filter((device) => isEligibleForDevice(device, image).eligible);
 }
+
+/**
+ * Largest file any enabled device accepts, so bigger files need not be downloaded
+ * @returns the limit in bytes, or undefined when some device has no limit
+ */
+export function getMaxAcceptedFilesize(devices: Device[]): number | undefined {
+  const enabled = devices.filter((device) => device.enabled);
+  if (enabled.length === 0 || enabled.some((device) => device.maxFilesize === null)) {
+    return undefined;
+  }
+  return Math.max(...enabled.map((device) => device.maxFilesize!));
+}
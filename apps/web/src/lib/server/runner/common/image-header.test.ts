@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { detectImageFormat, getImageDimensions, ImageHeaderSniffer } from "./image-header";
+
+// JPEG with an APP1 segment pushing the SOF0 frame header past the first chunk
+function makeJpeg(width: number, height: number, app1Length: number): Uint8Array<ArrayBuffer> {
+  const bytes = [0xff, 0xd8, 0xff, 0xe1, app1Length >> 8, app1Length & 0xff];
+  bytes.push(...new Array(app1Length - 2).fill(0));
+  bytes.push(0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x03);
+  bytes.push(...new Array(16).fill(0));
+  return new Uint8Array(bytes);
+}
+
+describe("getImageDimensions", () => {
+  it("should read JPEG frame headers", () => {
+    expect(getImageDimensions(makeJpeg(1920, 1080, 100).buffer)).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it("should return null for truncated headers", () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    expect(getImageDimensions(png.buffer)).toBeNull();
+    expect(getImageDimensions(makeJpeg(1920, 1080, 100).slice(0, 50).buffer)).toBeNull();
+  });
+});
+
+describe("detectImageFormat", () => {
+  const bytes = (text: string, prefix: number[] = []) => new Uint8Array([...prefix, ...Buffer.from(text, "latin1")]);
+
+  it("should recognise image magic numbers", () => {
+    expect(detectImageFormat(makeJpeg(10, 10, 10))).toBe("jpg");
+    expect(detectImageFormat(bytes("PNG\r\n\x1a\n\0\0\0\x0d", [0x89]))).toBe("png");
+    expect(detectImageFormat(bytes("GIF89a\x01\0\x01\0\0\0"))).toBe("gif");
+    expect(detectImageFormat(bytes("RIFF\0\0\0\0WEBPVP8 "))).toBe("webp");
+    expect(detectImageFormat(bytes("\0\0\0\x1cftypavif\0\0\0\0"))).toBe("avif");
+  });
+
+  it("should not recognise markup or unknown bytes", () => {
+    expect(detectImageFormat(bytes("<!DOCTYPE html><html>"))).toBeNull();
+    expect(detectImageFormat(bytes('{"error":"not found"}'))).toBeNull();
+    expect(detectImageFormat(new Uint8Array(0))).toBeNull();
+  });
+});
+
+describe("ImageHeaderSniffer", () => {
+  it("should find dimensions spread over several chunks", () => {
+    const jpeg = makeJpeg(2560, 1440, 5000);
+    const sniffer = new ImageHeaderSniffer();
+
+    for (let offset = 0; offset < jpeg.length; offset += 1024) {
+      sniffer.push(jpeg.subarray(offset, offset + 1024));
+    }
+
+    expect(sniffer.dimensions).toEqual({ width: 2560, height: 1440 });
+    expect(sniffer.format).toBe("jpg");
+  });
+
+  it("should give up on unrecognised files", () => {
+    const sniffer = new ImageHeaderSniffer();
+    sniffer.push(new Uint8Array(600 * 1024));
+    sniffer.push(makeJpeg(100, 100, 10));
+
+    expect(sniffer.dimensions).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Image dimensions read from a file header
+ */
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Bytes of a file kept for dimension sniffing.
+ * JPEG frame headers can follow large EXIF/ICC segments, so allow more than the first few KB.
+ */
+const MAX_HEADER_BYTES = 512 * 1024;
+
+/**
+ * Bytes needed to recognise a file by its magic number
+ */
+export const IMAGE_SIGNATURE_BYTES = 12;
+
+// ISO-BMFF brands of AVIF and HEIF/HEIC files
+const AVIF_BRANDS = new Set(["avif", "avis"]);
+const HEIC_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "mif1", "msf1"]);
+
+/**
+ * Detect the image format from the magic number at the start of a file.
+ * Returns the file extension, or null when the bytes are not a known image format
+ * (e.g. an HTML error page served with an image content type).
+ * Supports: JPEG, PNG, GIF, WebP, BMP, TIFF, AVIF, HEIC, JPEG XL
+ */
+export function detectImageFormat(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpg";
+  if (bytes[0] === 0x89 && ascii(1, 4) === "PNG") return "png";
+  if (ascii(0, 4) === "GIF8") return "gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "webp";
+  if (ascii(0, 2) === "BM") return "bmp";
+  if (ascii(0, 4) === "II*\0" || ascii(0, 4) === "MM\0*") return "tiff";
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (AVIF_BRANDS.has(brand)) return "avif";
+    if (HEIC_BRANDS.has(brand)) return "heic";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0x0a) return "jxl";
+  if (ascii(4, 8) === "JXL ") return "jxl";
+
+  return null;
+}
+
+/**
+ * Get image dimensions from buffer using minimal parsing.
+ * Works on a truncated buffer (the start of a file), returning null until enough bytes are present.
+ * Supports: JPEG, PNG, GIF, WebP
+ */
+export function getImageDimensions(buffer: ArrayBuffer): ImageDimensions | null {
+  const view = new DataView(buffer);
+  const uint8 = new Uint8Array(buffer);
+
+  // PNG: 89 50 4E 47
+  if (uint8[0] === 0x89 && uint8[1] === 0x50 && uint8[2] === 0x4e && uint8[3] === 0x47) {
+    if (buffer.byteLength < 24) return null;
+    return {
+      width: view.getUint32(16, false),
+      height: view.getUint32(20, false),
+    };
+  }
+
+  // JPEG: FF D8 FF
+  if (uint8[0] === 0xff && uint8[1] === 0xd8 && uint8[2] === 0xff) {
+    let offset = 2;
+    while (offset < buffer.byteLength - 8) {
+      if (uint8[offset] !== 0xff) {
+        offset++;
+        continue;
+      }
+      const marker = uint8[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return {
+          height: view.getUint16(offset + 5, false),
+          width: view.getUint16(offset + 7, false),
+        };
+      }
+      const length = view.getUint16(offset + 2, false);
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  // GIF: 47 49 46
+  if (uint8[0] === 0x47 && uint8[1] === 0x49 && uint8[2] === 0x46) {
+    if (buffer.byteLength < 10) return null;
+    return {
+      width: view.getUint16(6, true),
+      height: view.getUint16(8, true),
+    };
+  }
+
+  // WebP: 52 49 46 46 ... 57 45 42 50
+  if (buffer.byteLength >= 30 &&
+      uint8[0] === 0x52 && uint8[1] === 0x49 && uint8[2] === 0x46 && uint8[3] === 0x46 &&
+      uint8[8] === 0x57 && uint8[9] === 0x45 && uint8[10] === 0x42 && uint8[11] === 0x50) {
+    // VP8 lossy
+    if (uint8[12] === 0x56 && uint8[13] === 0x50 && uint8[14] === 0x38 && uint8[15] === 0x20) {
+      const w = view.getUint16(26, true) & 0x3fff;
+      const h = view.getUint16(28, true) & 0x3fff;
+      return { width: w, height: h };
+    }
+    // VP8L lossless
+    if (uint8[12] === 0x56 && uint8[13] === 0x50 && uint8[14] === 0x38 && uint8[15] === 0x4c) {
+      const bits = view.getUint32(21, true);
+      const w = (bits & 0x3fff) + 1;
+      const h = ((bits >> 14) & 0x3fff) + 1;
+      return { width: w, height: h };
+    }
+    // VP8X extended
+    if (uint8[12] === 0x56 && uint8[13] === 0x50 && uint8[14] === 0x38 && uint8[15] === 0x58) {
+      const w = ((uint8[24] | (uint8[25] << 8) | (uint8[26] << 16)) & 0xffffff) + 1;
+      const h = ((uint8[27] | (uint8[28] << 8) | (uint8[29] << 16)) & 0xffffff) + 1;
+      return { width: w, height: h };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reads image format and dimensions from a file as it streams in,
+ * keeping only the header bytes instead of the whole file
+ */
+export class ImageHeaderSniffer {
+  private header = new Uint8Array(0);
+  private result: ImageDimensions | null = null;
+  private detectedFormat: string | null = null;
+  private done = false;
+
+  /**
+   * Feed the next chunk of the file
+   */
+  push(chunk: Uint8Array): void {
+    if (this.done) return;
+
+    const take = Math.min(chunk.length, MAX_HEADER_BYTES - this.header.length);
+    const header = new Uint8Array(this.header.length + take);
+    header.set(this.header);
+    header.set(chunk.subarray(0, take), this.header.length);
+    this.header = header;
+
+    this.result = getImageDimensions(header.buffer);
+    if (!this.detectedFormat && (header.length >= IMAGE_SIGNATURE_BYTES || this.result)) {
+      this.detectedFormat = detectImageFormat(header);
+    }
+    if (this.result || header.length >= MAX_HEADER_BYTES) {
+      // Found, or gave up: drop the header bytes
+      this.done = true;
+      this.header = new Uint8Array(0);
+    }
+  }
+
+  /**
+   * Dimensions found so far, null if the header was not recognised
+   */
+  get dimensions(): ImageDimensions | null {
+    return this.result;
+  }
+
+  /**
+   * Format detected from the magic number, null if not recognised
+   */
+  get format(): string | null {
+    // Files shorter than a signature are checked with what there is
+    return this.detectedFormat ?? detectImageFormat(this.header);
+  }
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { deviceImages, imageAliases, type Device } from "@packages/database/schema";
+import { getContentStorePath } from "./content-store";
+import { processDownloadedImage, type SourceImage } from "./image-processor";
+import type { TempImageFile } from "./temp-file";
+
+// bun:sqlite doesn't load under vitest: queries get canned rows, and inserts are recorded
+const fakeDb = vi.hoisted(() => ({
+  inserted: [] as Array<{ table: unknown; values: Record<string, unknown> }>,
+  query: {
+    images: { findFirst: (() => undefined) as (...args: unknown[]) => unknown },
+  },
+  insert(table: unknown) {
+    return {
+      values: (values: Record<string, unknown>) => {
+        fakeDb.inserted.push({ table, values });
+        return { onConflictDoNothing: async () => undefined };
+      },
+    };
+  },
+}));
+
+vi.mock("$lib/server/db", () => ({ db: fakeDb }));
+vi.mock("@packages/database", async () => ({
+  ...(await import("@packages/database/schema")),
+  withQueryName: (_name: string, query: () => Promise<unknown>) => query(),
+}));
+
+function device(overrides: Partial<Device> = {}): Device {
+  return {
+    id: "d1",
+    slug: "phone",
+    name: "Phone",
+    enabled: true,
+    width: 1080,
+    height: 2400,
+    aspectRatioDeviation: 0.2,
+    minWidth: null,
+    maxWidth: null,
+    minHeight: null,
+    maxHeight: null,
+    minFilesize: null,
+    maxFilesize: null,
+    nsfw: 0,
+    ...overrides,
+  } as Device;
+}
+
+const phone = device();
+const tablet = device({ id: "d2", slug: "tablet", name: "Tablet" });
+
+const sourceImage: SourceImage = {
+  downloadUrl: "https://lemmy.example/pictrs/image/abc.jpg",
+  websiteUrl: "https://lemmy.example/post/1",
+  sourceItemId: "1",
+  nsfw: false,
+};
+
+describe("processDownloadedImage with a file we already have", () => {
+  let imageDir: string;
+  let file: TempImageFile;
+
+  beforeEach(() => {
+    imageDir = mkdtempSync(join(tmpdir(), "fallpaper-processor-"));
+    const filePath = join(imageDir, "download.tmp");
+    writeFileSync(filePath, "picture");
+    file = {
+      filePath,
+      size: 7,
+      checksum: "0f1e2d",
+      contentHash: "ab12cd",
+      dimensions: { width: 1080, height: 2400 },
+      format: "jpg",
+    };
+    fakeDb.inserted = [];
+  });
+
+  afterEach(() => {
+    rmSync(imageDir, { recursive: true, force: true });
+  });
+
+  function findDuplicate(duplicate: object): void {
+    fakeDb.query.images.findFirst = () => duplicate;
+  }
+
+  it("should link the duplicate to newly eligible devices under its existing name", async () => {
+    findDuplicate({
+      id: "img1",
+      downloadUrl: "https://i.redd.it/abc.jpg",
+      format: "jpg",
+      contentHash: "ab12cd",
+      deviceImages: [{ deviceId: "d1", localPath: join(imageDir, "phone", "reddit_abc.jpg") }],
+    });
+
+    const result = await processDownloadedImage(file, "image/jpeg", sourceImage, [phone, tablet], {
+      sourceId: "lemmy-source",
+      imageBaseDir: imageDir,
+    });
+
+    expect(result).toEqual({
+      url: sourceImage.downloadUrl,
+      success: false,
+      skipped: true,
+      skipReason: "duplicate of img1",
+      imageId: "img1",
+      assignedDevices: ["tablet"],
+    });
+
+    const tabletPath = join(imageDir, "tablet", "reddit_abc.jpg");
+    expect(fakeDb.inserted.filter((row) => row.table === deviceImages).map((row) => row.values)).toEqual([
+      { deviceId: "d2", imageId: "img1", localPath: tabletPath },
+    ]);
+    expect(readFileSync(tabletPath, "utf8")).toBe("picture");
+    expect(existsSync(getContentStorePath(imageDir, "ab12cd", "jpg"))).toBe(true);
+    expect(existsSync(file.filePath)).toBe(false);
+  });
+
+  it("should record the new URL as an alias of the existing image", async () => {
+    findDuplicate({
+      id: "img1",
+      downloadUrl: "https://i.redd.it/abc.jpg",
+      format: "jpg",
+      contentHash: "ab12cd",
+      deviceImages: [{ deviceId: "d1", localPath: join(imageDir, "phone", "reddit_abc.jpg") }],
+    });
+
+    await processDownloadedImage(file, "image/jpeg", sourceImage, [phone], {
+      sourceId: "lemmy-source",
+      imageBaseDir: imageDir,
+    });
+
+    expect(fakeDb.inserted.filter((row) => row.table === imageAliases).map((row) => row.values)).toEqual([
+      {
+        imageId: "img1",
+        sourceId: "lemmy-source",
+        websiteUrl: sourceImage.websiteUrl,
+        downloadUrl: sourceImage.downloadUrl,
+      },
+    ]);
+  });
+
+  it("should not alias the image's own URL, nor link devices that have it", async () => {
+    findDuplicate({
+      id: "img1",
+      downloadUrl: sourceImage.downloadUrl,
+      format: "jpg",
+      contentHash: null,
+      deviceImages: [{ deviceId: "d1", localPath: join(imageDir, "phone", "lemmy_1.jpg") }],
+    });
+
+    const result = await processDownloadedImage(file, "image/jpeg", sourceImage, [phone], {
+      sourceId: "lemmy-source",
+      imageBaseDir: imageDir,
+    });
+
+    expect(result.skipReason).toBe("duplicate of img1");
+    expect(result.assignedDevices).toEqual([]);
+    expect(fakeDb.inserted).toEqual([]);
+    expect(existsSync(file.filePath)).toBe(false);
+  });
+
+  it("should name files of an image on no device after its ID", async () => {
+    findDuplicate({
+      id: "img1",
+      downloadUrl: sourceImage.downloadUrl,
+      format: "png",
+      contentHash: null,
+      deviceImages: [],
+    });
+
+    const result = await processDownloadedImage(file, "image/jpeg", sourceImage, [phone], {
+      sourceId: "lemmy-source",
+      imageBaseDir: imageDir,
+    });
+
+    expect(result.assignedDevices).toEqual(["phone"]);
+    // Images saved before the content store are stored under the new file's hash
+    expect(existsSync(getContentStorePath(imageDir, "ab12cd", "png"))).toBe(true);
+    expect(readFileSync(join(imageDir, "phone", "img1.png"), "utf8")).toBe("picture");
+  });
+});
@@ -1,12 +1,19 @@
+import { and, eq, inArray, isNotNull, type SQL } from "drizzle-orm";
 import { db } from "$lib/server/db";
-import { images, deviceImages, withQueryName, type Device } from "@packages/database";
+import type { BandwidthWindow } from "$lib/server/config/bandwidth";
+import type { HostLimitRule } from "$lib/server/config/host-limits";
+import type { LinkFallback } from "$lib/schemas/content-store";
+import type { NearDuplicateAction } from "$lib/schemas/near-duplicates";
+import { images, imageAliases, deviceImages, failedDownloads, withQueryName, type Device } from "@packages/database";
 import { getLogger } from "@packages/otel-server";
-import { createDownloader, type ProgressCallback } from "./downloader";
-import { getEligibleDevices, type ImageMetadata } from "./image-filter";
-import { DEFAULT_TEMP_DIR } from "./types";
-import { mkdirSync, unlinkSync, copyFileSync, renameSync } from "node:fs";
-import { join } from "node:path";
-import { createHash, randomUUID } from "node:crypto";
+import { createDownloader, type DownloadRejection, type DownloadResult, type ProgressCallback } from "./downloader";
+import { getEligibleDevices, getMaxAcceptedFilesize, type ImageMetadata } from "./image-filter";
+import { addToContentStore, getContentStorePath, linkFromContentStore, removeFromContentStore } from "./content-store";
+import { computePerceptualHash, PerceptualHashIndex } from "./perceptual-hash";
+import type { TempImageFile } from "./temp-file";
+import { rmSync } from "node:fs";
+import { basename, join } from "node:path";
+import { createHash } from "node:crypto";
 
 const logger = getLogger();
 
@@ -18,8 +25,10 @@ const logger = getLogger();
  * Source image data (from any source like Reddit, Wallhaven, etc.)
  */
 export interface SourceImage {
-  /** URL to download the image from */
+  /** URL to download the image from, also the key already downloaded images are recognized by */
   downloadUrl: string;
+  /** URL to fetch the file from instead, when the source offers a smaller rendition (e.g. a preview) */
+  fetchUrl?: string;
   /** URL to the source website/page */
   websiteUrl: string;
   /** Source-specific item ID (e.g., Reddit post ID) for filename construction */
@@ -32,6 +41,10 @@ export interface SourceImage {
   author?: string;
   /** Author profile URL */
   authorUrl?: string;
+  /** Copyright or credit line */
+  copyright?: string;
+  /** License name (e.g. "CC BY-SA 4.0") */
+  license?: string;
   /** Whether the image is NSFW */
   nsfw: boolean;
   /** When the image was created at source (unix timestamp or Date) */
@@ -40,6 +53,10 @@ export interface SourceImage {
   width?: number;
   /** Known height (0 if unknown, will be detected from download) */
   height?: number;
+  /** Known file size in bytes (if the source reports it before download) */
+  filesize?: number;
+  /** Known MD5 checksum (if the source reports it), used to skip files we already have */
+  checksum?: string;
 }
 
 /**
@@ -91,11 +108,44 @@ export interface ImageProcessorConfig {
     minSpeedBytesPerSec?: number;
     /** Duration in ms before aborting slow download. Default: 10s */
     slowSpeedTimeoutMs?: number;
+    /** Per-host download limits. Default: none */
+    hostLimits?: HostLimitRule[];
+    /** Retries for transient download errors. Default: 2 */
+    maxRetries?: number;
+    /** Backoff before the first retry in ms. Default: 1s */
+    retryBaseDelayMs?: number;
+    /** Proxy URL to download through. Default: direct */
+    proxyUrl?: string;
+    /** Combined speed cap of all downloads in bytes/sec. Default: 0 (unlimited) */
+    bandwidthLimitBytesPerSec?: number;
+    /** Time-of-day windows overriding the speed cap. Default: none */
+    bandwidthSchedule?: BandwidthWindow[];
   };
+  /** Max perceptual hash distance (bits) at which images count as near-duplicates. Default: 4 */
+  nearDuplicateDistance?: number;
+  /** What to do with near-duplicates of existing images. Default: skip */
+  nearDuplicateAction?: NearDuplicateAction;
+  /** How device folders get stored images when hardlinks aren't supported. Default: copy */
+  linkFallback?: LinkFallback;
   /** Progress callback for downloads */
   onProgress?: ProgressCallback;
 }
 
+/**
+ * Saved image as compared against new downloads
+ */
+interface HashedImage {
+  id: string;
+  perceptualHash: string | null;
+  width: number;
+  height: number;
+}
+
+/**
+ * Perceptual hashes of the library, for finding near-duplicates of new downloads
+ */
+export type NearDuplicateIndex = PerceptualHashIndex<HashedImage>;
+
 /**
  * Result of batch processing
  */
@@ -112,6 +162,12 @@ export interface BatchProcessResult {
   results: ProcessedImage[];
 }
 
+// Skip reasons for downloads abandoned before they were saved
+const DOWNLOAD_REJECTION_REASONS: Record<DownloadRejection, string> = {
+  "too-large": "Larger than any device accepts",
+  "not-image": "Not an image",
+};
+
 // ============================================================================
 // Helpers
 // ============================================================================
@@ -139,75 +195,259 @@ export function calculateHash(data: ArrayBuffer): string {
 }
 
 /**
- * Get image dimensions from buffer using minimal parsing
- * Supports: JPEG, PNG, GIF, WebP
+ * Delete device assignments and their files.
+ * Files still used by another device assignment are left alone.
  */
-export function getImageDimensions(buffer: ArrayBuffer): { width: number; height: number } | null {
-  const view = new DataView(buffer);
-  const uint8 = new Uint8Array(buffer);
-
-  // PNG: 89 50 4E 47
-  if (uint8[0] === 0x89 && uint8[1] === 0x50 && uint8[2] === 0x4e && uint8[3] === 0x47) {
-    return {
-      width: view.getUint32(16, false),
-      height: view.getUint32(20, false),
-    };
+async function removeDeviceImages(where: SQL | undefined): Promise<void> {
+  const assignments = await withQueryName("ImageProcessor.DeleteDeviceImages", async () =>
+    await db
+      .delete(deviceImages)
+      .where(where)
+      .returning({ localPath: deviceImages.localPath })
+  );
+
+  for (const { localPath } of assignments) {
+    const stillUsed = await withQueryName("ImageProcessor.FindDeviceImageByPath", async () =>
+      await db.query.deviceImages.findFirst({
+        where: eq(deviceImages.localPath, localPath),
+        columns: { id: true },
+      })
+    );
+    if (!stillUsed) {
+      rmSync(localPath, { force: true });
+    }
   }
+}
 
-  // JPEG: FF D8 FF
-  if (uint8[0] === 0xff && uint8[1] === 0xd8 && uint8[2] === 0xff) {
-    let offset = 2;
-    while (offset < buffer.byteLength - 8) {
-      if (uint8[offset] !== 0xff) {
-        offset++;
-        continue;
-      }
-      const marker = uint8[offset + 1];
-      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
-        return {
-          height: view.getUint16(offset + 5, false),
-          width: view.getUint16(offset + 7, false),
-        };
-      }
-      const length = view.getUint16(offset + 2, false);
-      offset += 2 + length;
+/**
+ * Delete an image: its device files, device assignments, database record and stored original.
+ * Files still used by another device assignment or image are left alone.
+ */
+export async function deleteImage(imageId: string, imageBaseDir: string): Promise<void> {
+  const image = await withQueryName("ImageProcessor.FindImageToDelete", async () =>
+    await db.query.images.findFirst({
+      where: eq(images.id, imageId),
+      columns: { contentHash: true, format: true },
+    })
+  );
+
+  await removeDeviceImages(eq(deviceImages.imageId, imageId));
+
+  await withQueryName("ImageProcessor.DeleteImage", async () =>
+    await db.delete(images).where(eq(images.id, imageId))
+  );
+  const contentHash = image?.contentHash;
+  if (image && contentHash) {
+    // Another image with the same file (e.g. a different source's record of it) still needs it
+    const stillStored = await withQueryName("ImageProcessor.FindImageByContentHash", async () =>
+      await db.query.images.findFirst({
+        where: eq(images.contentHash, contentHash),
+        columns: { id: true },
+      })
+    );
+    if (!stillStored) {
+      removeFromContentStore(getContentStorePath(imageBaseDir, contentHash, image.format));
     }
-    return null;
   }
+}
+
+/**
+ * Remember a URL that failed permanently, so later runs skip it (see filterExistingImages)
+ */
+async function rememberFailedDownload(sourceId: string, downloadUrl: string, dlResult: DownloadResult): Promise<void> {
+  try {
+    await withQueryName("ImageProcessor.InsertFailedDownload", async () =>
+      await db
+        .insert(failedDownloads)
+        .values({
+          sourceId,
+          downloadUrl,
+          status: dlResult.status ?? null,
+          error: dlResult.error ?? "Download failed",
+        })
+        .onConflictDoNothing({ target: failedDownloads.downloadUrl })
+    );
+  } catch (err) {
+    logger.warn({ err, downloadUrl }, "Failed to remember failed download");
+  }
+}
 
-  // GIF: 47 49 46
-  if (uint8[0] === 0x47 && uint8[1] === 0x49 && uint8[2] === 0x46) {
-    return {
-      width: view.getUint16(6, true),
-      height: view.getUint16(8, true),
-    };
+/**
+ * Put a downloaded file into the content store and link it into the device directories,
+ * recording the assignments
+ * @returns slugs of the devices the image was added to
+ */
+async function placeOnDevices(
+  file: TempImageFile,
+  storePath: string,
+  filename: string,
+  devices: Device[],
+  imageId: string,
+  config: ImageProcessorConfig
+): Promise<string[]> {
+  const assignedDevices: string[] = [];
+  if (devices.length === 0) {
+    return assignedDevices;
   }
 
-  // WebP: 52 49 46 46 ... 57 45 42 50
-  if (uint8[0] === 0x52 && uint8[1] === 0x49 && uint8[2] === 0x46 && uint8[3] === 0x46 &&
-      uint8[8] === 0x57 && uint8[9] === 0x45 && uint8[10] === 0x42 && uint8[11] === 0x50) {
-    // VP8 lossy
-    if (uint8[12] === 0x56 && uint8[13] === 0x50 && uint8[14] === 0x38 && uint8[15] === 0x20) {
-      const w = view.getUint16(26, true) & 0x3fff;
-      const h = view.getUint16(28, true) & 0x3fff;
-      return { width: w, height: h };
-    }
-    // VP8L lossless
-    if (uint8[12] === 0x56 && uint8[13] === 0x50 && uint8[14] === 0x38 && uint8[15] === 0x4c) {
-      const bits = view.getUint32(21, true);
-      const w = (bits & 0x3fff) + 1;
-      const h = ((bits >> 14) & 0x3fff) + 1;
-      return { width: w, height: h };
-    }
-    // VP8X extended
-    if (uint8[12] === 0x56 && uint8[13] === 0x50 && uint8[14] === 0x38 && uint8[15] === 0x58) {
-      const w = ((uint8[24] | (uint8[25] << 8) | (uint8[26] << 16)) & 0xffffff) + 1;
-      const h = ((uint8[27] | (uint8[28] << 8) | (uint8[29] << 16)) & 0xffffff) + 1;
-      return { width: w, height: h };
-    }
+  addToContentStore(file.filePath, storePath);
+
+  for (const device of devices) {
+    const localPath = join(config.imageBaseDir, device.slug, filename);
+    linkFromContentStore(storePath, localPath, config.linkFallback ?? "copy");
+
+    // Insert device_image record
+    await withQueryName("ImageProcessor.InsertDeviceImage", async () =>
+      await db.insert(deviceImages).values({
+        deviceId: device.id,
+        imageId,
+        localPath,
+      })
+    );
+
+    assignedDevices.push(device.slug);
+  }
+
+  return assignedDevices;
+}
+
+/**
+ * Make an image's URL and aliases point at the image replacing it,
+ * so they aren't downloaded again
+ */
+async function moveAliases(fromImageId: string, toImageId: string): Promise<void> {
+  const replaced = await withQueryName("ImageProcessor.FindReplacedImage", async () =>
+    await db.query.images.findFirst({
+      where: eq(images.id, fromImageId),
+      columns: { sourceId: true, websiteUrl: true, downloadUrl: true },
+    })
+  );
+  if (!replaced) return;
+
+  await withQueryName("ImageProcessor.MoveAliases", async () =>
+    await db.update(imageAliases).set({ imageId: toImageId }).where(eq(imageAliases.imageId, fromImageId))
+  );
+  await withQueryName("ImageProcessor.InsertAlias", async () =>
+    await db
+      .insert(imageAliases)
+      .values({ imageId: toImageId, ...replaced })
+      .onConflictDoNothing({ target: imageAliases.downloadUrl })
+  );
+}
+
+/**
+ * Load the perceptual hashes of all saved images, once per batch of new images
+ * @returns undefined when near-duplicates aren't looked for
+ */
+export async function loadNearDuplicateIndex(config: ImageProcessorConfig): Promise<NearDuplicateIndex | undefined> {
+  if (config.nearDuplicateAction === "off") {
+    return undefined;
+  }
+
+  const hashedImages = await withQueryName("ImageProcessor.ListPerceptualHashes", async () =>
+    await db
+      .select({
+        id: images.id,
+        perceptualHash: images.perceptualHash,
+        width: images.width,
+        height: images.height,
+      })
+      .from(images)
+      .where(isNotNull(images.perceptualHash))
+  );
+  return new PerceptualHashIndex(config.nearDuplicateDistance ?? 4, hashedImages);
+}
+
+/**
+ * Take a lower-resolution near-duplicate off the devices its replacement was added to.
+ * It stays on its other devices; once on none, it is deleted and its URL and aliases
+ * point at the replacement.
+ * @returns whether the replaced image was deleted
+ */
+async function replaceOnDevices(
+  replacedImageId: string,
+  newImageId: string,
+  deviceIds: string[],
+  imageBaseDir: string
+): Promise<boolean> {
+  await removeDeviceImages(
+    and(eq(deviceImages.imageId, replacedImageId), inArray(deviceImages.deviceId, deviceIds))
+  );
+
+  const remaining = await withQueryName("ImageProcessor.FindRemainingDeviceImage", async () =>
+    await db.query.deviceImages.findFirst({
+      where: eq(deviceImages.imageId, replacedImageId),
+      columns: { id: true },
+    })
+  );
+  if (remaining) {
+    return false;
   }
 
-  return null;
+  await moveAliases(replacedImageId, newImageId);
+  await deleteImage(replacedImageId, imageBaseDir);
+  return true;
+}
+
+/**
+ * Record a download whose file we already have as an alias of the existing image,
+ * and add that image to eligible devices that don't have it yet
+ */
+async function linkDuplicateImage(
+  file: TempImageFile,
+  duplicate: {
+    id: string;
+    downloadUrl: string;
+    format: string;
+    contentHash: string | null;
+    deviceImages: Array<{ deviceId: string | null; localPath: string }>;
+  },
+  sourceImage: SourceImage,
+  eligible: Device[],
+  config: ImageProcessorConfig
+): Promise<ProcessedImage> {
+  if (sourceImage.downloadUrl !== duplicate.downloadUrl) {
+    await withQueryName("ImageProcessor.InsertAlias", async () =>
+      await db
+        .insert(imageAliases)
+        .values({
+          imageId: duplicate.id,
+          sourceId: config.sourceId,
+          websiteUrl: sourceImage.websiteUrl,
+          downloadUrl: sourceImage.downloadUrl,
+        })
+        .onConflictDoNothing({ target: imageAliases.downloadUrl })
+    );
+  }
+
+  const linkedDeviceIds = new Set(duplicate.deviceImages.map((deviceImage) => deviceImage.deviceId));
+  const newDevices = eligible.filter((device) => !linkedDeviceIds.has(device.id));
+
+  // Keep the existing file name, so the copies on all devices match
+  const filename = duplicate.deviceImages.length > 0
+    ? basename(duplicate.deviceImages[0].localPath)
+    : `${duplicate.id}.${duplicate.format}`;
+  // Images saved before the content store get theirs when the library is converted
+  const storePath = getContentStorePath(
+    config.imageBaseDir,
+    duplicate.contentHash ?? file.contentHash,
+    duplicate.format
+  );
+  const assignedDevices = await placeOnDevices(file, storePath, filename, newDevices, duplicate.id, config);
+
+  logger.debug(
+    { imageId: duplicate.id, downloadUrl: sourceImage.downloadUrl, devices: assignedDevices },
+    "Linked duplicate download to existing image"
+  );
+
+  return {
+    url: sourceImage.downloadUrl,
+    success: false,
+    skipped: true,
+    skipReason: `duplicate of ${duplicate.id}`,
+    imageId: duplicate.id,
+    assignedDevices,
+  };
 }
 
 // ============================================================================
@@ -215,14 +455,34 @@ export function getImageDimensions(buffer: ArrayBuffer): { width: number; height
 // ============================================================================
 
 /**
- * Process and save a single downloaded image
+ * Process and save a single downloaded image.
+ * Takes ownership of the temp file: it is moved into the content store, or deleted.
+ * @param nearDuplicates - Library hashes loaded for the batch (see loadNearDuplicateIndex);
+ *   loaded for this image alone when not given. Updated with the saved image.
  */
 export async function processDownloadedImage(
-  data: ArrayBuffer,
+  file: TempImageFile,
   contentType: string | undefined,
   sourceImage: SourceImage,
   eligibleDevices: Device[],
-  config: ImageProcessorConfig
+  config: ImageProcessorConfig,
+  nearDuplicates?: NearDuplicateIndex
+): Promise<ProcessedImage> {
+  try {
+    return await saveDownloadedImage(file, contentType, sourceImage, eligibleDevices, config, nearDuplicates);
+  } finally {
+    // Already gone once moved into the content store
+    rmSync(file.filePath, { force: true });
+  }
+}
+
+async function saveDownloadedImage(
+  file: TempImageFile,
+  contentType: string | undefined,
+  sourceImage: SourceImage,
+  eligibleDevices: Device[],
+  config: ImageProcessorConfig,
+  nearDuplicates?: NearDuplicateIndex
 ): Promise<ProcessedImage> {
   const result: ProcessedImage = {
     url: sourceImage.downloadUrl,
@@ -234,17 +494,17 @@ export async function processDownloadedImage(
   let height = sourceImage.height ?? 0;
 
   if (width === 0 || height === 0) {
-    const dims = getImageDimensions(data);
-    if (!dims) {
+    if (!file.dimensions) {
       result.error = "Could not determine image dimensions";
       return result;
     }
-    width = dims.width;
-    height = dims.height;
+    width = file.dimensions.width;
+    height = file.dimensions.height;
   }
 
-  const filesize = data.byteLength;
-  const format = getImageFormat(contentType, sourceImage.downloadUrl);
+  const filesize = file.size;
+  // The magic number beats headers and URLs (e.g. PNGs served as image/jpeg)
+  const format = file.format ?? getImageFormat(contentType, sourceImage.fetchUrl ?? sourceImage.downloadUrl);
 
   // Build image metadata for filtering
   const metadata: ImageMetadata = {
@@ -257,115 +517,130 @@ export async function processDownloadedImage(
   // Find eligible devices for this image
   const eligible = getEligibleDevices(eligibleDevices, metadata);
 
+  // Hash computed while streaming, for deduplication
+  const checksum = file.checksum;
+
+  // The same file from another source or URL (e.g. a subreddit and its Lemmy mirror)
+  // is stored once, with this URL as an alias
+  const duplicate = await withQueryName("ImageProcessor.FindByChecksum", async () =>
+    await db.query.images.findFirst({
+      where: eq(images.checksum, checksum),
+      columns: { id: true, downloadUrl: true, format: true, contentHash: true },
+      with: {
+        deviceImages: {
+          columns: { deviceId: true, localPath: true },
+        },
+      },
+    })
+  );
+
+  if (duplicate) {
+    return linkDuplicateImage(file, duplicate, sourceImage, eligible, config);
+  }
+
   if (eligible.length === 0) {
     result.skipped = true;
     result.skipReason = "No eligible devices";
     return result;
   }
 
-  // Calculate hash for deduplication
-  const checksum = calculateHash(data);
-
-  // Write to temp directory first
-  const tempDir = config.tempDir ?? DEFAULT_TEMP_DIR;
-  mkdirSync(tempDir, { recursive: true });
-  const tempFilename = `${randomUUID()}.${format}`;
-  const tempPath = join(tempDir, tempFilename);
-  await Bun.write(tempPath, data);
-
-  try {
-    // Insert image record
-    const aspectRatio = width / height;
-    const sourceCreatedAt = sourceImage.sourceCreatedAt
-      ? (typeof sourceImage.sourceCreatedAt === "number"
-          ? new Date(sourceImage.sourceCreatedAt * 1000)
-          : sourceImage.sourceCreatedAt)
-      : undefined;
-
-    const newImage = await withQueryName("ImageProcessor.InsertImage", async () => {
-      const [inserted] = await db
-        .insert(images)
-        .values({
-          sourceId: config.sourceId,
-          sourceItemId: sourceImage.sourceItemId,
-          galleryIndex: sourceImage.galleryIndex ?? 0,
-          websiteUrl: sourceImage.websiteUrl,
-          downloadUrl: sourceImage.downloadUrl,
-          checksum,
-          width,
-          height,
-          aspectRatio,
-          filesize,
-          format,
-          title: sourceImage.title ?? null,
-          nsfw: sourceImage.nsfw ? 1 : 0,
-          author: sourceImage.author ?? null,
-          authorUrl: sourceImage.authorUrl ?? null,
-          sourceCreatedAt,
-        })
-        .returning();
-      return inserted;
-    });
-
-    result.imageId = newImage.id;
-    result.assignedDevices = [];
-
-    // Build filename - use runner's builder or fallback to image ID
-    const filename = config.buildFilename
-      ? config.buildFilename(sourceImage, format)
-      : `${newImage.id}.${format}`;
-
-    let isFirstDevice = true;
-
-    for (const device of eligible) {
-      const deviceDir = join(config.imageBaseDir, device.slug);
-      mkdirSync(deviceDir, { recursive: true });
-
-      const localPath = join(deviceDir, filename);
-
-      // For first device, move the temp file; for others, copy from first
-      if (isFirstDevice) {
-        renameSync(tempPath, localPath);
-        isFirstDevice = false;
-      } else {
-        const firstDeviceSlug = result.assignedDevices[0];
-        const sourcePath = join(config.imageBaseDir, firstDeviceSlug, filename);
-        copyFileSync(sourcePath, localPath);
+  // Fingerprint the picture itself, to also catch resized or re-encoded copies
+  const perceptualHash = await computePerceptualHash(file.filePath);
+  const nearDuplicateAction = config.nearDuplicateAction ?? "skip";
+  const index = perceptualHash ? nearDuplicates ?? await loadNearDuplicateIndex(config) : undefined;
+  let replaced: HashedImage[] = [];
+
+  if (perceptualHash && index) {
+    const similar = index.findNear(perceptualHash);
+
+    if (similar.length > 0) {
+      const isLargest = similar.every((image) => width * height > image.width * image.height);
+      if (nearDuplicateAction === "skip" || !isLargest) {
+        result.skipped = true;
+        result.skipReason = "Near-duplicate of an existing image";
+        return result;
       }
-
-      // Insert device_image record
-      await withQueryName("ImageProcessor.InsertDeviceImage", async () =>
-        await db.insert(deviceImages).values({
-          deviceId: device.id,
-          imageId: newImage.id,
-          localPath,
-        })
-      );
-
-      result.assignedDevices.push(device.slug);
+      // keep-larger: save this one, then drop the smaller copies from its devices
+      replaced = similar;
     }
+  }
 
-    result.success = true;
-
-    logger.debug(
-      {
-        imageId: newImage.id,
-        devices: result.assignedDevices,
-        size: filesize,
-      },
-      `Saved image to ${eligible.length} devices`
+  // Insert image record
+  const aspectRatio = width / height;
+  const sourceCreatedAt = sourceImage.sourceCreatedAt
+    ? (typeof sourceImage.sourceCreatedAt === "number"
+        ? new Date(sourceImage.sourceCreatedAt * 1000)
+        : sourceImage.sourceCreatedAt)
+    : undefined;
+
+  const newImage = await withQueryName("ImageProcessor.InsertImage", async () => {
+    const [inserted] = await db
+      .insert(images)
+      .values({
+        sourceId: config.sourceId,
+        sourceItemId: sourceImage.sourceItemId,
+        galleryIndex: sourceImage.galleryIndex ?? 0,
+        websiteUrl: sourceImage.websiteUrl,
+        downloadUrl: sourceImage.downloadUrl,
+        checksum,
+        contentHash: file.contentHash,
+        perceptualHash,
+        width,
+        height,
+        aspectRatio,
+        filesize,
+        format,
+        title: sourceImage.title ?? null,
+        nsfw: sourceImage.nsfw ? 1 : 0,
+        author: sourceImage.author ?? null,
+        authorUrl: sourceImage.authorUrl ?? null,
+        copyright: sourceImage.copyright ?? null,
+        license: sourceImage.license ?? null,
+        sourceCreatedAt,
+      })
+      .returning();
+    return inserted;
+  });
+
+  result.imageId = newImage.id;
+
+  // Build filename - use runner's builder or fallback to image ID
+  const filename = config.buildFilename
+    ? config.buildFilename(sourceImage, format)
+    : `${newImage.id}.${format}`;
+
+  const storePath = getContentStorePath(config.imageBaseDir, file.contentHash, format);
+  result.assignedDevices = await placeOnDevices(file, storePath, filename, eligible, newImage.id, config);
+  result.success = true;
+
+  index?.add({ id: newImage.id, perceptualHash, width, height });
+
+  for (const replacedImage of replaced) {
+    const deleted = await replaceOnDevices(
+      replacedImage.id,
+      newImage.id,
+      eligible.map((device) => device.id),
+      config.imageBaseDir
     );
-
-    return result;
-  } catch (err) {
-    // Clean up temp file if it still exists
-    try {
-      unlinkSync(tempPath);
-    } catch {
-      // Ignore cleanup errors
+    if (deleted) {
+      index?.delete(replacedImage);
     }
-    throw err;
+    logger.info(
+      { imageId: newImage.id, replacedImageId: replacedImage.id, deleted },
+      "Replaced a lower-resolution near-duplicate"
+    );
   }
+
+  logger.debug(
+    {
+      imageId: newImage.id,
+      devices: result.assignedDevices,
+      size: filesize,
+    },
+    `Saved image to ${eligible.length} devices`
+  );
+
+  return result;
 }
 
 /**
@@ -388,20 +663,72 @@ export async function downloadAndProcessImages<T extends SourceImage>(
     return result;
   }
 
+  // Skip images whose known metadata already rules out every device,
+  // so they are never downloaded. The rest may be as large as their devices accept.
+  const imagesToDownload: Array<{ url: string; context: T; maxBytes?: number }> = [];
+  for (const sourceImage of sourceImages) {
+    if (!sourceImage.width || !sourceImage.height) {
+      imagesToDownload.push({
+        url: sourceImage.fetchUrl ?? sourceImage.downloadUrl,
+        context: sourceImage,
+        maxBytes: getMaxAcceptedFilesize(eligibleDevices),
+      });
+      continue;
+    }
+
+    const eligible = getEligibleDevices(eligibleDevices, {
+      width: sourceImage.width,
+      height: sourceImage.height,
+      filesize: sourceImage.filesize,
+      nsfw: sourceImage.nsfw,
+    });
+
+    if (eligible.length > 0) {
+      imagesToDownload.push({
+        url: sourceImage.fetchUrl ?? sourceImage.downloadUrl,
+        context: sourceImage,
+        maxBytes: getMaxAcceptedFilesize(eligible),
+      });
+      continue;
+    }
+
+    result.skipped++;
+    result.results.push({
+      url: sourceImage.downloadUrl,
+      success: false,
+      skipped: true,
+      skipReason: "No eligible devices",
+    });
+  }
+
+  if (imagesToDownload.length === 0) {
+    return result;
+  }
+
   // Create downloader with config
   const downloader = createDownloader<T>(
     {
       maxConcurrent: config.download?.maxConcurrent ?? 4,
       minSpeedBytesPerSec: config.download?.minSpeedBytesPerSec ?? 10 * 1024,
       slowSpeedTimeoutMs: config.download?.slowSpeedTimeoutMs ?? 10000,
+      tempDir: config.tempDir,
+      hostLimits: config.download?.hostLimits,
+      maxRetries: config.download?.maxRetries,
+      retryBaseDelayMs: config.download?.retryBaseDelayMs,
+      proxyUrl: config.download?.proxyUrl,
+      bandwidthLimitBytesPerSec: config.download?.bandwidthLimitBytesPerSec,
+      bandwidthSchedule: config.download?.bandwidthSchedule,
     },
     config.onProgress
   );
 
   // Download all images
-  const downloadResults = await downloader.downloadAll(
-    sourceImages.map((img) => ({ url: img.downloadUrl, context: img }))
-  );
+  const downloadResults = await downloader.downloadAll(imagesToDownload);
+
+  // Library hashes are loaded once for the batch; images it saves are added as they go
+  const nearDuplicates = downloadResults.some((dlResult) => dlResult.success)
+    ? await loadNearDuplicateIndex(config)
+    : undefined;
 
   // Process each downloaded image
   for (const dlResult of downloadResults) {
@@ -409,7 +736,7 @@ export async function downloadAndProcessImages<T extends SourceImage>(
     result.processed++;
 
     // Download failed
-    if (!dlResult.success || !dlResult.data) {
+    if (!dlResult.success || !dlResult.filePath || !dlResult.checksum || !dlResult.contentHash) {
       const processResult: ProcessedImage = {
         url: sourceImage.downloadUrl,
         success: false,
@@ -420,10 +747,18 @@ export async function downloadAndProcessImages<T extends SourceImage>(
         processResult.skipped = true;
         processResult.skipReason = "Slow download aborted";
         result.skipped++;
+      } else if (dlResult.rejection) {
+        processResult.skipped = true;
+        processResult.skipReason = DOWNLOAD_REJECTION_REASONS[dlResult.rejection];
+        result.skipped++;
       } else {
         result.failed++;
       }
 
+      if (dlResult.errorKind === "permanent") {
+        await rememberFailedDownload(config.sourceId, sourceImage.downloadUrl, dlResult);
+      }
+
       result.results.push(processResult);
       continue;
     }
@@ -431,11 +766,19 @@ export async function downloadAndProcessImages<T extends SourceImage>(
     // Process the downloaded image
     try {
       const processResult = await processDownloadedImage(
-        dlResult.data,
+        {
+          filePath: dlResult.filePath,
+          size: dlResult.size ?? 0,
+          checksum: dlResult.checksum,
+          contentHash: dlResult.contentHash,
+          dimensions: dlResult.dimensions ?? null,
+          format: dlResult.format ?? null,
+        },
         dlResult.contentType,
         sourceImage,
         eligibleDevices,
-        config
+        config,
+        nearDuplicates
       );
 
       if (processResult.success) {
@@ -3,6 +3,7 @@ export {
   findEligibleDevices,
   isEligibleForAnyDevice,
   getEligibleDevices,
+  getMaxAcceptedFilesize,
   type ImageMetadata,
   type EligibilityResult,
 } from "./image-filter";
@@ -18,26 +19,82 @@ export {
   type ImageProcessResult,
   type RunnerContext,
   type RunnerRegistry,
+  type NsfwMode,
 } from "./types";
 
 export {
   downloadAndProcessImages,
   processDownloadedImage,
+  loadNearDuplicateIndex,
+  deleteImage,
   getImageFormat,
-  getImageDimensions,
   calculateHash,
   type SourceImage,
   type ProcessedImage,
   type ImageProcessorConfig,
   type BatchProcessResult,
+  type FilenameBuilder,
+  type NearDuplicateIndex,
 } from "./image-processor";
 
+export {
+  getImageDimensions,
+  detectImageFormat,
+  ImageHeaderSniffer,
+  IMAGE_SIGNATURE_BYTES,
+  type ImageDimensions,
+} from "./image-header";
+
+export { TempFileWriter, copyToTempFile, type TempImageFile } from "./temp-file";
+
+export { HostLimiter, getSharedHostLimiter, parseRetryAfter } from "./host-limiter";
+
+export { BandwidthLimiter, getSharedBandwidthLimiter } from "./bandwidth-limiter";
+
+export {
+  CONTENT_STORE_DIR,
+  getContentStorePath,
+  addToContentStore,
+  linkFromContentStore,
+  isLinkedToContentStore,
+  removeFromContentStore,
+  type LinkMethod,
+} from "./content-store";
+
+export { migrateToContentStore, type ContentStoreMigrationResult } from "./content-store-migration";
+
+export {
+  computePerceptualHash,
+  hammingDistance,
+  PerceptualHashIndex,
+  groupNearDuplicates,
+} from "./perceptual-hash";
+
+export { createProxyFetch, startSocksBridge, type FetchFunction } from "./proxy";
+
+export {
+  loadRunnerContext,
+  getRunSkipReason,
+  createRunResult,
+  createErrorResult,
+  addBatchResult,
+  applyNsfwMode,
+  filterExistingImages,
+  createProcessorConfig,
+  formatFilenameTimestamp,
+} from "./runner-utils";
+
 export {
   downloadWithSpeedCheck,
+  prunePartialDownloads,
+  classifyHttpStatus,
+  getRetryDelayMs,
   ParallelDownloader,
   createDownloader,
   type DownloadConfig,
   type DownloadResult,
+  type DownloadErrorKind,
+  type DownloadRejection,
   type DownloadProgress,
   type ProgressCallback,
 } from "./downloader";
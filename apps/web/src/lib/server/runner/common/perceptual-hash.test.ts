@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import sharp from "sharp";
+import {
+  computePerceptualHash,
+  hammingDistance,
+  PerceptualHashIndex,
+  groupNearDuplicates,
+} from "./perceptual-hash";
+
+// Greyscale picture with a diagonal gradient and a bright square, scaled to any size
+function makePicture(width: number, height: number, invert = false): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inSquare = x > width / 4 && x < width / 2 && y > height / 3 && y < (height * 2) / 3;
+      const value = inSquare ? 255 : Math.round(((x / width + y / height) / 2) * 200);
+      pixels[y * width + x] = invert ? 255 - value : value;
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } }).jpeg({ quality: 85 }).toBuffer();
+}
+
+describe("computePerceptualHash", () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "fallpaper-phash-"));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function hashOf(name: string, data: Buffer | Promise<Buffer>): Promise<string | null> {
+    const filePath = join(tempDir, name);
+    writeFileSync(filePath, await data);
+    return computePerceptualHash(filePath);
+  }
+
+  it("should give resized copies (nearly) the same hash", async () => {
+    const original = await hashOf("original.jpg", makePicture(1920, 1080));
+    const smaller = await hashOf("smaller.jpg", makePicture(640, 360));
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(original!, smaller!)).toBeLessThanOrEqual(4);
+  });
+
+  it("should give different pictures distant hashes", async () => {
+    const picture = await hashOf("picture.jpg", makePicture(800, 600));
+    const inverted = await hashOf("inverted.jpg", makePicture(800, 600, true));
+
+    expect(hammingDistance(picture!, inverted!)).toBeGreaterThan(16);
+  });
+
+  it("should return null for files that aren't images", async () => {
+    expect(await hashOf("not-an-image.jpg", Buffer.from("<html></html>"))).toBeNull();
+  });
+});
+
+describe("hammingDistance", () => {
+  it("should count differing bits", () => {
+    expect(hammingDistance("0000000000000000", "0000000000000000")).toBe(0);
+    expect(hammingDistance("0000000000000001", "8000000000000000")).toBe(2);
+    expect(hammingDistance("ffffffff00000000", "00000000ffffffff")).toBe(64);
+  });
+});
+
+describe("PerceptualHashIndex", () => {
+  const candidates = [
+    { id: "a", perceptualHash: "00000000000000ff" },
+    { id: "b", perceptualHash: null },
+    { id: "c", perceptualHash: "0000000000000003" },
+    { id: "d", perceptualHash: "8000000000000001" },
+  ];
+
+  it("should find the closest item within the distance", () => {
+    const index = new PerceptualHashIndex(4, candidates);
+
+    expect(index.findNearest("0000000000000000")?.id).toBe("c");
+    expect(index.findNearest("00000000000000fe")?.id).toBe("a");
+    expect(index.findNearest("ffff000000000000")).toBeUndefined();
+  });
+
+  it("should find items matching only one chunk of the hash", () => {
+    const index = new PerceptualHashIndex(1, candidates);
+
+    expect(index.findNear("8000000000000000").map((item) => item.id)).toEqual(["d"]);
+    expect(index.findNear("0000000000000001").map((item) => item.id)).toEqual(["d", "c"]);
+  });
+
+  it("should find the same items as comparing against every hash", () => {
+    // Random hashes, and copies of them with a few bits flipped
+    let seed = 42;
+    const randomBits = () => (seed = (Math.imul(seed, 1103515245) + 12345) >>> 0);
+    const randomHash = () => [randomBits(), randomBits()].map((half) => half.toString(16).padStart(8, "0")).join("");
+    const items = Array.from({ length: 200 }, (_, i) => ({ id: `${i}`, perceptualHash: randomHash() }));
+    for (const { perceptualHash } of items.slice(0, 100)) {
+      const flipped = (BigInt(`0x${perceptualHash}`) ^ (1n << BigInt(randomBits() % 64)) ^ (1n << BigInt(randomBits() % 64)))
+        .toString(16)
+        .padStart(16, "0");
+      items.push({ id: `${items.length}`, perceptualHash: flipped });
+    }
+    const index = new PerceptualHashIndex(4, items);
+
+    for (const { perceptualHash } of items) {
+      const expected = items.filter((item) => hammingDistance(perceptualHash, item.perceptualHash) <= 4);
+      expect(new Set(index.findNear(perceptualHash))).toEqual(new Set(expected));
+    }
+  });
+
+  it("should forget deleted items", () => {
+    const index = new PerceptualHashIndex(4, candidates);
+    index.delete(candidates[2]);
+
+    expect(index.findNear("0000000000000000").map((item) => item.id)).toEqual(["d"]);
+  });
+});
+
+describe("groupNearDuplicates", () => {
+  it("should group transitively and drop singletons", () => {
+    const items = [
+      { id: "a", perceptualHash: "0000000000000000" },
+      { id: "b", perceptualHash: "ffffffffffffffff" },
+      { id: "c", perceptualHash: "0000000000000007" },
+      { id: "d", perceptualHash: "000000000000003f" },
+      { id: "e", perceptualHash: null },
+    ];
+
+    const groups = groupNearDuplicates(items, 3);
+
+    expect(groups.map((group) => group.map((item) => item.id))).toEqual([["a", "c", "d"]]);
+  });
+});
@@ -0,0 +1,179 @@
+import sharp from "sharp";
+
+// dHash compares each pixel with its right neighbour on a 9x8 greyscale thumbnail
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT;
+
+/**
+ * Compute the 64-bit difference hash (dHash) of an image.
+ * Resized, re-encoded or slightly recompressed copies of a picture hash to the same
+ * value or one a few bits away (see hammingDistance).
+ * @returns 16 hex characters, or null if the image cannot be decoded
+ */
+export async function computePerceptualHash(filePath: string): Promise<string | null> {
+  let pixels: Buffer;
+  try {
+    pixels = await sharp(filePath, { failOn: "none" })
+      .greyscale()
+      .resize(HASH_WIDTH, HASH_HEIGHT, { fit: "fill" })
+      .raw()
+      .toBuffer();
+  } catch {
+    return null;
+  }
+
+  let hash = 0n;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+
+  return hash.toString(16).padStart(16, "0");
+}
+
+type HashHalves = [number, number];
+
+function splitHash(hash: string): HashHalves {
+  return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)];
+}
+
+function popcount32(value: number): number {
+  value -= (value >>> 1) & 0x55555555;
+  value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+  return Math.imul((value + (value >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
+
+function distanceBetween(a: HashHalves, b: HashHalves): number {
+  return popcount32(a[0] ^ b[0]) + popcount32(a[1] ^ b[1]);
+}
+
+/**
+ * Number of differing bits between two perceptual hashes (0 = same picture, 64 = opposite)
+ */
+export function hammingDistance(a: string, b: string): number {
+  return distanceBetween(splitHash(a), splitHash(b));
+}
+
+/**
+ * Index of perceptual hashes that finds near-duplicates without comparing against every hash.
+ * Hashes are split into maxDistance + 1 chunks: two hashes at most maxDistance bits apart
+ * match exactly in at least one chunk, so only items sharing a chunk are compared.
+ */
+export class PerceptualHashIndex<T extends { perceptualHash: string | null }> {
+  private buckets = new Map<string, Array<{ item: T; halves: HashHalves }>>();
+  private chunks: Array<{ shift: bigint; mask: bigint }>;
+
+  constructor(private maxDistance: number, items: T[] = []) {
+    const chunkCount = Math.min(maxDistance + 1, HASH_BITS);
+    this.chunks = Array.from({ length: chunkCount }, (_, index) => {
+      const start = Math.floor((index * HASH_BITS) / chunkCount);
+      const end = Math.floor(((index + 1) * HASH_BITS) / chunkCount);
+      return { shift: BigInt(start), mask: (1n << BigInt(end - start)) - 1n };
+    });
+    for (const item of items) {
+      this.add(item);
+    }
+  }
+
+  add(item: T): void {
+    if (item.perceptualHash === null) return;
+    const entry = { item, halves: splitHash(item.perceptualHash) };
+    for (const key of this.chunkKeys(item.perceptualHash)) {
+      const bucket = this.buckets.get(key);
+      if (bucket) {
+        bucket.push(entry);
+      } else {
+        this.buckets.set(key, [entry]);
+      }
+    }
+  }
+
+  delete(item: T): void {
+    if (item.perceptualHash === null) return;
+    for (const key of this.chunkKeys(item.perceptualHash)) {
+      const bucket = this.buckets.get(key)?.filter((entry) => entry.item !== item);
+      if (bucket && bucket.length > 0) {
+        this.buckets.set(key, bucket);
+      } else {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Items within maxDistance of a hash, closest first
+   */
+  findNear(hash: string): T[] {
+    const target = splitHash(hash);
+    const seen = new Set<T>();
+    const found: Array<{ item: T; distance: number }> = [];
+
+    for (const key of this.chunkKeys(hash)) {
+      for (const { item, halves } of this.buckets.get(key) ?? []) {
+        if (seen.has(item)) continue;
+        seen.add(item);
+        const distance = distanceBetween(target, halves);
+        if (distance <= this.maxDistance) {
+          found.push({ item, distance });
+        }
+      }
+    }
+
+    return found.sort((a, b) => a.distance - b.distance).map(({ item }) => item);
+  }
+
+  /**
+   * The item closest to a hash, if it is within maxDistance
+   */
+  findNearest(hash: string): T | undefined {
+    return this.findNear(hash)[0];
+  }
+
+  private chunkKeys(hash: string): string[] {
+    const value = BigInt(`0x${hash}`);
+    return this.chunks.map(({ shift, mask }, index) => `${index}:${(value >> shift) & mask}`);
+  }
+}
+
+/**
+ * Group items whose perceptual hashes are within maxDistance of each other
+ * (transitively, so A~B and B~C put A, B and C in one group)
+ * @returns groups of two or more items, in input order
+ */
+export function groupNearDuplicates<T extends { perceptualHash: string | null }>(
+  items: T[],
+  maxDistance: number
+): T[][] {
+  const hashed = items.filter((item) => item.perceptualHash !== null);
+  const parent = hashed.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  // Each item is compared with the earlier items sharing a chunk of its hash
+  const index = new PerceptualHashIndex<T>(maxDistance);
+  const positions = new Map<T, number>();
+  hashed.forEach((item, position) => {
+    for (const near of index.findNear(item.perceptualHash!)) {
+      parent[find(position)] = find(positions.get(near)!);
+    }
+    index.add(item);
+    positions.set(item, position);
+  });
+
+  const groups = new Map<number, T[]>();
+  hashed.forEach((item, position) => {
+    const root = find(position);
+    groups.set(root, [...(groups.get(root) ?? []), item]);
+  });
+
+  return [...groups.values()].filter((group) => group.length > 1);
+}
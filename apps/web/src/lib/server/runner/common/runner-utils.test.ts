@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { filterExistingImages } from "./runner-utils";
+import type { SourceImage } from "./image-processor";
+
+// bun:sqlite doesn't load under vitest: each table returns the rows a test gives it
+const fakeDb = vi.hoisted(() => ({
+  rows: {} as Record<string, unknown[]>,
+  queried: [] as string[],
+  query: new Proxy({} as Record<string, { findMany: () => Promise<unknown[]> }>, {
+    get: (_target, table: string) => ({
+      findMany: async () => {
+        fakeDb.queried.push(table);
+        return fakeDb.rows[table] ?? [];
+      },
+    }),
+  }),
+}));
+
+vi.mock("$lib/server/db", () => ({ db: fakeDb }));
+vi.mock("@packages/database", async () => ({
+  ...(await import("@packages/database/schema")),
+  withQueryName: (_name: string, query: () => Promise<unknown>) => query(),
+}));
+
+function candidate(downloadUrl: string, checksum?: string): SourceImage {
+  return { downloadUrl, websiteUrl: downloadUrl, sourceItemId: downloadUrl, nsfw: false, checksum };
+}
+
+describe("filterExistingImages", () => {
+  beforeEach(() => {
+    fakeDb.rows = {};
+    fakeDb.queried = [];
+  });
+
+  it("should skip candidates whose URL is stored as an alias", async () => {
+    fakeDb.rows.imageAliases = [{ downloadUrl: "https://lemmy.example/pictrs/image/abc.jpg" }];
+
+    const { newImages, skippedExisting } = await filterExistingImages(
+      [
+        candidate("https://lemmy.example/pictrs/image/abc.jpg"),
+        candidate("https://lemmy.example/pictrs/image/new.jpg"),
+      ],
+      "Test.CheckExisting"
+    );
+
+    expect(newImages.map((image) => image.downloadUrl)).toEqual(["https://lemmy.example/pictrs/image/new.jpg"]);
+    expect(skippedExisting).toBe(1);
+    expect(fakeDb.queried).toContain("imageAliases");
+  });
+
+  it("should skip saved URLs, known checksums and failed downloads", async () => {
+    fakeDb.rows.images = [
+      { downloadUrl: "https://i.redd.it/saved.jpg", checksum: "aaa" },
+      { downloadUrl: "https://i.redd.it/other.jpg", checksum: "bbb" },
+    ];
+    fakeDb.rows.failedDownloads = [{ downloadUrl: "https://i.redd.it/gone.jpg" }];
+
+    const { newImages, skippedExisting } = await filterExistingImages(
+      [
+        candidate("https://i.redd.it/saved.jpg"),
+        candidate("https://booru.example/same-file.jpg", "BBB"),
+        candidate("https://i.redd.it/gone.jpg"),
+        candidate("https://i.redd.it/new.jpg", "ccc"),
+      ],
+      "Test.CheckExisting"
+    );
+
+    expect(newImages.map((image) => image.downloadUrl)).toEqual(["https://i.redd.it/new.jpg"]);
+    expect(skippedExisting).toBe(3);
+  });
+
+  it("should not query for no candidates", async () => {
+    expect(await filterExistingImages([], "Test.CheckExisting")).toEqual({ newImages: [], skippedExisting: 0 });
+    expect(fakeDb.queried).toEqual([]);
+  });
+});
@@ -0,0 +1,230 @@
+import { eq, inArray, or } from "drizzle-orm";
+import { db } from "$lib/server/db";
+import { sources, images, imageAliases, failedDownloads, withQueryName } from "@packages/database";
+import { getLogger } from "@packages/otel-server";
+import type { ImageProcessorConfig, BatchProcessResult, SourceImage, FilenameBuilder } from "./image-processor";
+import type { BaseRunnerConfig, BaseRunResult, NsfwMode, RunnerContext } from "./types";
+
+const logger = getLogger();
+
+/**
+ * Load a source with its subscribed devices.
+ * Returns null if the source does not exist.
+ * @param sourceId - The source ID to load
+ * @param queryName - Query name for logging/tracing (e.g. "RedditRunner.GetSource")
+ */
+export async function loadRunnerContext(
+  sourceId: string,
+  queryName: string
+): Promise<RunnerContext | null> {
+  const source = await withQueryName(queryName, async () =>
+    await db.query.sources.findFirst({
+      where: eq(sources.id, sourceId),
+      with: {
+        subscriptions: {
+          with: {
+            device: true,
+          },
+        },
+      },
+    })
+  );
+
+  if (!source) {
+    return null;
+  }
+
+  // Eligible devices are enabled subscriptions with enabled devices
+  const eligibleDevices = source.subscriptions
+    .filter((sub) => sub.enabled && sub.device.enabled)
+    .map((sub) => sub.device);
+
+  return { source, eligibleDevices };
+}
+
+/**
+ * Get the reason a source should not run, or null if it can run
+ */
+export function getRunSkipReason(context: RunnerContext): string | null {
+  if (!context.source.enabled) {
+    return "Source is disabled";
+  }
+  if (context.eligibleDevices.length === 0) {
+    return "No eligible devices subscribed";
+  }
+  return null;
+}
+
+/**
+ * Create an empty run result for a source
+ */
+export function createRunResult(sourceId: string, sourceName: string): BaseRunResult {
+  return {
+    sourceId,
+    sourceName,
+    success: true,
+    imagesFound: 0,
+    imagesProcessed: 0,
+    imagesDownloaded: 0,
+    imagesSkipped: 0,
+    imagesFailed: 0,
+    results: [],
+  };
+}
+
+/**
+ * Create a failed run result
+ */
+export function createErrorResult(
+  sourceId: string,
+  sourceName: string,
+  error: string,
+  startTime?: number
+): BaseRunResult {
+  return {
+    ...createRunResult(sourceId, sourceName),
+    success: false,
+    error,
+    durationMs: startTime ? Date.now() - startTime : undefined,
+  };
+}
+
+/**
+ * Add a batch processing result to the run totals
+ */
+export function addBatchResult(result: BaseRunResult, batch: BatchProcessResult): void {
+  result.imagesProcessed += batch.processed;
+  result.imagesDownloaded += batch.downloaded;
+  result.imagesSkipped += batch.skipped;
+  result.imagesFailed += batch.failed;
+  result.results.push(...batch.results);
+}
+
+/**
+ * Apply the source NSFW mode to a list of images
+ * - 0 (Auto): keep images as-is
+ * - 1 (SFW Only): drop images flagged NSFW
+ * - 2 (NSFW Only): mark every image as NSFW
+ */
+export function applyNsfwMode<T extends SourceImage>(sourceImages: T[], nsfwMode: NsfwMode): T[] {
+  if (nsfwMode === 1) {
+    return sourceImages.filter((img) => !img.nsfw);
+  }
+  if (nsfwMode === 2) {
+    return sourceImages.map((img) => ({ ...img, nsfw: true }));
+  }
+  return sourceImages;
+}
+
+/**
+ * Filter out images whose download URL is already in the database,
+ * as an image or as an alias of one (the same file found at another URL).
+ * Images with a known checksum are also skipped when a file with the same
+ * checksum was saved before, e.g. the same picture from another source.
+ * URLs that failed permanently before (404, 410, ...) are skipped as well.
+ * @param sourceImages - Candidate images
+ * @param queryName - Query name for logging/tracing (e.g. "RedditRunner.CheckExisting")
+ */
+export async function filterExistingImages<T extends SourceImage>(
+  sourceImages: T[],
+  queryName: string
+): Promise<{ newImages: T[]; skippedExisting: number }> {
+  if (sourceImages.length === 0) {
+    return { newImages: [], skippedExisting: 0 };
+  }
+
+  const imageUrls = sourceImages.map((img) => img.downloadUrl);
+  const checksums = sourceImages
+    .map((img) => img.checksum?.toLowerCase())
+    .filter((checksum): checksum is string => !!checksum);
+
+  const existingImages = await withQueryName(queryName, async () =>
+    await db.query.images.findMany({
+      where: checksums.length > 0
+        ? or(inArray(images.downloadUrl, imageUrls), inArray(images.checksum, checksums))
+        : inArray(images.downloadUrl, imageUrls),
+      columns: { downloadUrl: true, checksum: true },
+    })
+  );
+  const aliases = await withQueryName(`${queryName}.Aliases`, async () =>
+    await db.query.imageAliases.findMany({
+      where: inArray(imageAliases.downloadUrl, imageUrls),
+      columns: { downloadUrl: true },
+    })
+  );
+  const failed = await withQueryName(`${queryName}.FailedDownloads`, async () =>
+    await db.query.failedDownloads.findMany({
+      where: inArray(failedDownloads.downloadUrl, imageUrls),
+      columns: { downloadUrl: true },
+    })
+  );
+  const existingUrlSet = new Set([
+    ...existingImages.map((img) => img.downloadUrl),
+    ...aliases.map((alias) => alias.downloadUrl),
+    ...failed.map((row) => row.downloadUrl),
+  ]);
+  const existingChecksumSet = new Set(existingImages.map((img) => img.checksum));
+
+  const newImages = sourceImages.filter(
+    (img) =>
+      !existingUrlSet.has(img.downloadUrl) &&
+      !(img.checksum && existingChecksumSet.has(img.checksum.toLowerCase()))
+  );
+  return { newImages, skippedExisting: sourceImages.length - newImages.length };
+}
+
+/**
+ * Build image processor config from runner config
+ */
+export function createProcessorConfig(
+  sourceId: string,
+  config: BaseRunnerConfig,
+  buildFilename: FilenameBuilder
+): ImageProcessorConfig {
+  return {
+    sourceId,
+    imageBaseDir: config.imageBaseDir,
+    tempDir: config.tempDir,
+    buildFilename,
+    download: {
+      maxConcurrent: config.maxConcurrentDownloads,
+      minSpeedBytesPerSec: config.minSpeedBytesPerSec,
+      slowSpeedTimeoutMs: config.slowSpeedTimeoutMs,
+      hostLimits: config.hostLimits,
+      maxRetries: config.downloadRetries,
+      retryBaseDelayMs: config.downloadRetryBaseDelayMs,
+      proxyUrl: config.proxyUrl,
+      bandwidthLimitBytesPerSec: config.bandwidthLimitBytesPerSec,
+      bandwidthSchedule: config.bandwidthSchedule,
+    },
+    nearDuplicateDistance: config.nearDuplicateDistance,
+    nearDuplicateAction: config.nearDuplicateAction,
+    linkFallback: config.linkFallback,
+    onProgress: (progress) => {
+      logger.debug(
+        {
+          url: progress.url.slice(0, 50),
+          speedKBps: (progress.speedBytesPerSec / 1024).toFixed(1),
+        },
+        `Downloading: ${(progress.speedBytesPerSec / 1024).toFixed(1)} KB/s`
+      );
+    },
+  };
+}
+
+/**
+ * Format a source timestamp as YYYYMMDD_HHMMSS for filenames
+ * @param sourceCreatedAt - Unix seconds or Date (defaults to now)
+ */
+export function formatFilenameTimestamp(sourceCreatedAt?: number | Date): string {
+  const date = typeof sourceCreatedAt === "number"
+    ? new Date(sourceCreatedAt * 1000)
+    : sourceCreatedAt ?? new Date();
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  const hour = String(date.getHours()).padStart(2, "0");
+  const min = String(date.getMinutes()).padStart(2, "0");
+  const sec = String(date.getSeconds()).padStart(2, "0");
+  return `${year}${month}${day}_${hour}${min}${sec}`;
+}
@@ -0,0 +1,133 @@
+import { createReadStream } from "node:fs";
+import { mkdir, open, rm, type FileHandle } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { createHash, randomUUID, type Hash } from "node:crypto";
+import { ImageHeaderSniffer, type ImageDimensions } from "./image-header";
+
+/**
+ * Image written to the temp directory, ready for the image processor
+ */
+export interface TempImageFile {
+  /** Path of the file in the temp directory */
+  filePath: string;
+  /** File size in bytes */
+  size: number;
+  /** MD5 checksum of the file contents */
+  checksum: string;
+  /** SHA-256 of the file contents, its key in the content store */
+  contentHash: string;
+  /** Dimensions read from the file header (null if not recognised) */
+  dimensions: ImageDimensions | null;
+  /** Format detected from the file's magic number, as a file extension (null if not recognised) */
+  format: string | null;
+}
+
+/**
+ * Writes a file to the temp directory chunk by chunk,
+ * hashing it and sniffing its dimensions on the way so it is never held in memory
+ */
+export class TempFileWriter {
+  private size = 0;
+  private readonly hash: Hash = createHash("md5");
+  private readonly contentHash: Hash = createHash("sha256");
+  private readonly sniffer = new ImageHeaderSniffer();
+  private handle: FileHandle | null = null;
+
+  private constructor(readonly filePath: string) {}
+
+  /**
+   * Create a new, uniquely named file in the temp directory
+   */
+  static async create(tempDir: string): Promise<TempFileWriter> {
+    await mkdir(tempDir, { recursive: true });
+    const writer = new TempFileWriter(join(tempDir, `${randomUUID()}.download`));
+    writer.handle = await open(writer.filePath, "wx");
+    return writer;
+  }
+
+  /**
+   * Open a file at a known path, either truncating it or appending to what is already there.
+   * When appending, the existing bytes are read back (from disk, in chunks) so the checksum
+   * and dimensions cover the whole file.
+   */
+  static async open(filePath: string, append = false): Promise<TempFileWriter> {
+    // The temp directory may be gone, e.g. cleared on reboot
+    await mkdir(dirname(filePath), { recursive: true });
+    const writer = new TempFileWriter(filePath);
+    if (append) {
+      for await (const chunk of createReadStream(filePath)) {
+        writer.update(chunk as Buffer);
+      }
+    }
+    writer.handle = await open(filePath, append ? "a" : "w");
+    return writer;
+  }
+
+  /** Bytes in the file so far */
+  get bytesWritten(): number {
+    return this.size;
+  }
+
+  /**
+   * Append a chunk to the file
+   */
+  async write(chunk: Uint8Array): Promise<void> {
+    await this.handle!.write(chunk);
+    this.update(chunk);
+  }
+
+  /**
+   * Close the file and return what was learned about it
+   */
+  async finish(): Promise<TempImageFile> {
+    await this.close();
+    return {
+      filePath: this.filePath,
+      size: this.size,
+      checksum: this.hash.digest("hex"),
+      contentHash: this.contentHash.digest("hex"),
+      dimensions: this.sniffer.dimensions,
+      format: this.sniffer.format,
+    };
+  }
+
+  /**
+   * Close the file, keeping what was written (e.g. to resume later)
+   */
+  async close(): Promise<void> {
+    const handle = this.handle;
+    this.handle = null;
+    await handle?.close();
+  }
+
+  /**
+   * Close and delete a partial file
+   */
+  async discard(): Promise<void> {
+    await this.close().catch(() => {});
+    await rm(this.filePath, { force: true });
+  }
+
+  private update(chunk: Uint8Array): void {
+    this.hash.update(chunk);
+    this.contentHash.update(chunk);
+    this.sniffer.push(chunk);
+    this.size += chunk.length;
+  }
+}
+
+/**
+ * Copy a local file into the temp directory, leaving the original in place
+ */
+export async function copyToTempFile(sourcePath: string, tempDir: string): Promise<TempImageFile> {
+  const writer = await TempFileWriter.create(tempDir);
+  try {
+    for await (const chunk of createReadStream(sourcePath)) {
+      await writer.write(chunk as Buffer);
+    }
+    return await writer.finish();
+  } catch (err) {
+    await writer.discard();
+    throw err;
+  }
+}
@@ -1,4 +1,9 @@
 import type { Source, Device } from "@packages/database";
+import type { BandwidthWindow } from "$lib/server/config/bandwidth";
+import type { HostLimitRule } from "$lib/server/config/host-limits";
+import type { LinkFallback } from "$lib/schemas/content-store";
+import type { NearDuplicateAction } from "$lib/schemas/near-duplicates";
+import type { SourceKindDefinition } from "$lib/schemas/source";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
@@ -19,8 +24,34 @@ export interface BaseRunnerConfig {
   minSpeedBytesPerSec?: number;
   /** Duration in ms to wait before aborting slow download */
   slowSpeedTimeoutMs?: number;
+  /** Per-host download limits */
+  hostLimits?: HostLimitRule[];
+  /** Retries for transient download errors */
+  downloadRetries?: number;
+  /** Backoff before the first download retry in ms */
+  downloadRetryBaseDelayMs?: number;
+  /** Proxy URL for the source's requests and downloads (the source's own, else the global one) */
+  proxyUrl?: string;
+  /** Combined download speed cap in bytes/sec (0 = unlimited) */
+  bandwidthLimitBytesPerSec?: number;
+  /** Time-of-day windows overriding the speed cap */
+  bandwidthSchedule?: BandwidthWindow[];
+  /** Max perceptual hash distance (bits) at which images count as near-duplicates */
+  nearDuplicateDistance?: number;
+  /** What to do with near-duplicates of existing images */
+  nearDuplicateAction?: NearDuplicateAction;
+  /** How device folders get stored images when hardlinks aren't supported */
+  linkFallback?: LinkFallback;
 }
 
+/**
+ * NSFW handling mode from source.nsfw field
+ * 0 = Auto (use the item's own nsfw flag)
+ * 1 = SFW Only (skip NSFW items)
+ * 2 = NSFW Only (mark all images as NSFW)
+ */
+export type NsfwMode = 0 | 1 | 2;
+
 /**
  * Result of processing a single image
  * Note: Duplicated in image-processor.ts as ProcessedImage (they must match)
@@ -90,6 +121,12 @@ export interface SourceRunner<
   /** Unique identifier for this runner type (matches source.kind) */
   readonly kind: string;
 
+  /**
+   * Form and params schema of the source kind (see $lib/schemas/sources).
+   * Plugin runners have none: their params are checked against the plugin's own schema.
+   */
+  readonly definition?: SourceKindDefinition;
+
   /**
    * Run the source to fetch and process images
    * @param sourceId - The source ID to process
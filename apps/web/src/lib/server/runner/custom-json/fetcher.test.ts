@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { fetchCustomJsonBatches, type CustomJsonFetchOptions } from "./fetcher";
+
+// Five items served two per page, by page number or by cursor
+const ITEMS = ["a", "b", "c", "d", "e"].map((id) => ({ id, image: `/images/${id}.jpg` }));
+
+describe("fetchCustomJsonBatches against a fake API", () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: Array<{ url: URL; headers: IncomingHttpHeaders }> = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      requests.push({ url, headers: req.headers });
+      res.setHeader("Content-Type", "application/json");
+
+      if (url.pathname === "/paged") {
+        const page = Number(url.searchParams.get("p"));
+        res.end(JSON.stringify({ data: { results: ITEMS.slice((page - 1) * 2, page * 2) } }));
+        return;
+      }
+
+      if (url.pathname === "/cursor") {
+        const start = Number(url.searchParams.get("after") ?? 0);
+        const next = start + 2 < ITEMS.length ? String(start + 2) : null;
+        res.end(JSON.stringify({ items: ITEMS.slice(start, start + 2), next }));
+        return;
+      }
+
+      if (url.pathname === "/links") {
+        // The next link is absolute, and the API keeps handing out the same one
+        res.end(JSON.stringify({ items: ITEMS.slice(0, 2), links: { next: `${baseUrl}/links?page=2` } }));
+        return;
+      }
+
+      if (url.pathname === "/array") {
+        res.end(JSON.stringify(ITEMS));
+        return;
+      }
+
+      if (url.pathname === "/html") {
+        res.setHeader("Content-Type", "text/html");
+        res.end("<html></html>");
+        return;
+      }
+
+      res.statusCode = 500;
+      res.end("{}");
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function collect(options: CustomJsonFetchOptions): Promise<string[][]> {
+    const batches: string[][] = [];
+    for await (const batch of fetchCustomJsonBatches(options)) {
+      batches.push(batch.items.map((item) => (item as { id: string }).id));
+    }
+    return batches;
+  }
+
+  it("should read the items path and send the configured headers", async () => {
+    requests.length = 0;
+    const batches = await collect({
+      url: `${baseUrl}/array`,
+      headers: { Authorization: "Bearer token" },
+      limit: 3,
+    });
+
+    expect(batches).toEqual([["a", "b", "c"]]);
+    expect(requests[0].headers.authorization).toBe("Bearer token");
+    expect(requests[0].headers.accept).toBe("application/json");
+  });
+
+  it("should count up the page parameter until the limit", async () => {
+    requests.length = 0;
+    const batches = await collect({
+      url: `${baseUrl}/paged?sort=new`,
+      itemsPath: "data.results",
+      pagination: { type: "page", param: "p" },
+      limit: 3,
+    });
+
+    expect(batches).toEqual([["a", "b"], ["c"]]);
+    expect(requests.map(({ url }) => url.search)).toEqual(["?sort=new&p=1", "?sort=new&p=2"]);
+  });
+
+  it("should follow cursors until there are none", async () => {
+    requests.length = 0;
+    const batches = await collect({
+      url: `${baseUrl}/cursor`,
+      itemsPath: "items",
+      pagination: { type: "cursor", param: "after", cursorPath: "next" },
+      limit: 10,
+    });
+
+    expect(batches).toEqual([["a", "b"], ["c", "d"], ["e"]]);
+    expect(requests.map(({ url }) => url.searchParams.get("after"))).toEqual([null, "2", "4"]);
+  }, 10_000);
+
+  it("should fetch absolute cursor URLs as-is, once", async () => {
+    requests.length = 0;
+    const batches = await collect({
+      url: `${baseUrl}/links`,
+      itemsPath: "items",
+      pagination: { type: "cursor", param: "unused", cursorPath: "links.next" },
+      limit: 10,
+    });
+
+    expect(batches).toHaveLength(2);
+    expect(requests.map(({ url }) => url.search)).toEqual(["", "?page=2"]);
+  });
+
+  it("should report responses it can't read", async () => {
+    await expect(collect({ url: `${baseUrl}/array`, itemsPath: "data", limit: 1 })).rejects.toThrow(
+      'Items path "data" does not point to an array'
+    );
+    await expect(collect({ url: `${baseUrl}/html`, limit: 1 })).rejects.toThrow(
+      "API error: response is not valid JSON"
+    );
+    await expect(collect({ url: `${baseUrl}/broken`, limit: 1 })).rejects.toThrow("API error: 500");
+  });
+});
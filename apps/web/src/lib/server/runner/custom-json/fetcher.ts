@@ -0,0 +1,128 @@
+import { getJsonPath } from "$lib/json-path";
+import type { FetchFunction } from "../common";
+
+const USER_AGENT = "fallpaper/1.0";
+
+/** Delay between page requests to be polite to the API */
+const REQUEST_INTERVAL_MS = 1000;
+
+/**
+ * How to request the next page
+ * - none: single request
+ * - page: increment a page number query param
+ * - cursor: read the next cursor from the response and pass it as query param.
+ *   If the cursor is an absolute URL it is fetched as-is (e.g. `links.next`).
+ */
+export type CustomJsonPagination =
+  | { type: "none" }
+  | { type: "page"; param: string; start?: number }
+  | { type: "cursor"; param: string; cursorPath: string };
+
+export interface CustomJsonFetchOptions {
+  url: string;
+  headers?: Record<string, string>;
+  /** Path to the item array in the response. Empty means the response is the array */
+  itemsPath?: string;
+  pagination?: CustomJsonPagination;
+  /** Total number of items to look up */
+  limit: number;
+  /** Request timeout in milliseconds. Default: 30000 */
+  timeout?: number;
+  /** Fetch implementation, e.g. one going through a proxy. Default: global fetch */
+  fetch?: FetchFunction;
+}
+
+export interface CustomJsonBatch {
+  items: unknown[];
+  /** URL the batch was fetched from, for resolving relative URLs */
+  url: string;
+  page: number;
+}
+
+async function fetchJson(
+  fetchFn: FetchFunction,
+  url: string,
+  headers: Record<string, string>,
+  timeout: number
+): Promise<unknown> {
+  const response = await fetchFn(url, {
+    headers: {
+      "User-Agent": USER_AGENT,
+      Accept: "application/json",
+      ...headers,
+    },
+    signal: AbortSignal.timeout(timeout),
+  });
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status} ${response.statusText}`);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new Error("API error: response is not valid JSON");
+  }
+}
+
+/**
+ * Async generator that yields pages of raw items until `limit` items have
+ * been looked up or pagination runs out.
+ */
+export async function* fetchCustomJsonBatches(
+  options: CustomJsonFetchOptions
+): AsyncGenerator<CustomJsonBatch, void, unknown> {
+  const {
+    headers = {},
+    itemsPath = "",
+    pagination = { type: "none" },
+    timeout = 30000,
+    fetch: fetchFn = fetch,
+  } = options;
+  let remaining = options.limit;
+  let page = pagination.type === "page" ? (pagination.start ?? 1) : 1;
+  let url = new URL(options.url);
+  if (pagination.type === "page") {
+    url.searchParams.set(pagination.param, String(page));
+  }
+
+  const seenCursors = new Set<string>();
+
+  while (remaining > 0) {
+    const body = await fetchJson(fetchFn, url.href, headers, timeout);
+    const items = getJsonPath(body, itemsPath);
+
+    if (!Array.isArray(items)) {
+      throw new Error(`Items path "${itemsPath || "$"}" does not point to an array`);
+    }
+
+    yield { items: items.slice(0, remaining), url: url.href, page };
+    remaining -= items.length;
+
+    if (items.length === 0 || remaining <= 0 || pagination.type === "none") break;
+
+    if (pagination.type === "page") {
+      page++;
+      url = new URL(url);
+      url.searchParams.set(pagination.param, String(page));
+    } else {
+      const cursor = getJsonPath(body, pagination.cursorPath);
+      if (cursor === undefined || cursor === null || cursor === "" || cursor === false) break;
+
+      // Stop if the API hands out the same cursor again
+      const cursorValue = String(cursor);
+      if (seenCursors.has(cursorValue)) break;
+      seenCursors.add(cursorValue);
+
+      if (/^https?:\/\//i.test(cursorValue)) {
+        url = new URL(cursorValue);
+      } else {
+        url = new URL(url);
+        url.searchParams.set(pagination.param, cursorValue);
+      }
+      page++;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, REQUEST_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,22 @@
+import { createCustomJsonRunner } from "./runner";
+
+export {
+  CustomJsonRunner,
+  createCustomJsonRunner,
+  runCustomJsonSource,
+  mapCustomJsonItem,
+  type CustomJsonSourceParams,
+  type CustomJsonFieldMapping,
+  type CustomJsonRunnerConfig,
+  type CustomJsonRunResult,
+} from "./runner";
+
+export {
+  fetchCustomJsonBatches,
+  type CustomJsonPagination,
+  type CustomJsonFetchOptions,
+  type CustomJsonBatch,
+} from "./fetcher";
+
+// Runners of the source kinds in this folder, registered by ../registry
+export default [createCustomJsonRunner()];
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from "vitest";
+import { mapCustomJsonItem, type CustomJsonFieldMapping } from "./runner";
+
+// The runner module reaches the database through ../common, which needs bun:sqlite
+vi.mock("$lib/server/db", () => ({ db: {} }));
+vi.mock("@packages/database", async () => ({
+  ...(await import("@packages/database/schema")),
+  withQueryName: (_name: string, query: () => Promise<unknown>) => query(),
+}));
+
+const fields: CustomJsonFieldMapping = {
+  downloadUrl: "urls.full",
+  websiteUrl: "links.html",
+  title: "description",
+  author: "user.name",
+  width: "width",
+  height: "height",
+  nsfw: "flags.adult",
+  sourceItemId: "id",
+  createdAt: "created_at",
+};
+
+describe("mapCustomJsonItem", () => {
+  it("should read each field from its path, resolving relative URLs", () => {
+    const item = {
+      id: 42,
+      urls: { full: "/photos/42.jpg" },
+      links: { html: "https://photos.example/p/42" },
+      description: "  Misty forest  ",
+      user: { name: "Photographer" },
+      width: "6000",
+      height: 4000,
+      flags: { adult: "yes" },
+      created_at: "2026-01-02T03:04:05Z",
+    };
+
+    expect(mapCustomJsonItem(item, fields, "https://api.photos.example/v1/list")).toEqual({
+      downloadUrl: "https://api.photos.example/photos/42.jpg",
+      websiteUrl: "https://photos.example/p/42",
+      sourceItemId: "42",
+      galleryIndex: 0,
+      title: "Misty forest",
+      author: "Photographer",
+      nsfw: true,
+      sourceCreatedAt: 1767323045,
+      width: 6000,
+      height: 4000,
+    });
+  });
+
+  it("should fall back for missing optional fields", () => {
+    const image = mapCustomJsonItem({ urls: { full: "https://cdn.example/a.png" } }, fields, "https://api.example/");
+
+    expect(image).toMatchObject({
+      downloadUrl: "https://cdn.example/a.png",
+      websiteUrl: "https://cdn.example/a.png",
+      nsfw: false,
+      width: undefined,
+      sourceCreatedAt: undefined,
+    });
+    // Stable ID from the URL, so the same item keeps its file name
+    expect(image?.sourceItemId).toMatch(/^[0-9a-f]{16}$/);
+    expect(mapCustomJsonItem({ urls: { full: "https://cdn.example/a.png" } }, fields, "https://api.example/"))
+      .toEqual(image);
+  });
+
+  it("should read millisecond timestamps and reject unusable values", () => {
+    const image = mapCustomJsonItem(
+      { urls: { full: "https://cdn.example/a.png" }, created_at: 1767323045000, width: -1, flags: { adult: 0 } },
+      fields,
+      "https://api.example/"
+    );
+    expect(image).toMatchObject({ sourceCreatedAt: 1767323045, width: undefined, nsfw: false });
+  });
+
+  it("should skip items without an http(s) download URL", () => {
+    expect(mapCustomJsonItem({ urls: {} }, fields, "https://api.example/")).toBeNull();
+    expect(mapCustomJsonItem({ urls: { full: "data:image/png;base64,AAAA" } }, fields, "https://api.example/"))
+      .toBeNull();
+    expect(mapCustomJsonItem("not an object", fields, "https://api.example/")).toBeNull();
+  });
+});
@@ -0,0 +1,311 @@
+import { createHash } from "node:crypto";
+import { getLogger } from "@packages/otel-server";
+import { getParamsError, customJsonSourceKind } from "$lib/schemas/source";
+import { getJsonPath } from "$lib/json-path";
+import {
+  downloadAndProcessImages,
+  loadRunnerContext,
+  getRunSkipReason,
+  createRunResult,
+  createErrorResult,
+  addBatchResult,
+  applyNsfwMode,
+  filterExistingImages,
+  createProcessorConfig,
+  createProxyFetch,
+  formatFilenameTimestamp,
+  type SourceImage,
+  type SourceRunner,
+  type BaseRunnerConfig,
+  type BaseRunResult,
+  type NsfwMode,
+} from "../common";
+import { fetchCustomJsonBatches, type CustomJsonPagination } from "./fetcher";
+
+const logger = getLogger();
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Paths to SourceImage fields, relative to each item
+ */
+export interface CustomJsonFieldMapping {
+  /** Required: image URL */
+  downloadUrl: string;
+  websiteUrl?: string;
+  title?: string;
+  author?: string;
+  width?: string;
+  height?: string;
+  /** Truthy values (true, 1, "true", "yes") mark the item as NSFW */
+  nsfw?: string;
+  /** Stable item ID. Defaults to a hash of the download URL */
+  sourceItemId?: string;
+  /** Unix timestamp (seconds or milliseconds) or date string */
+  createdAt?: string;
+}
+
+/**
+ * Custom JSON source params stored in sources.params JSON
+ */
+export interface CustomJsonSourceParams {
+  /** API endpoint URL */
+  url: string;
+  /** Extra request headers, e.g. Authorization */
+  headers?: Record<string, string>;
+  /** Path to the item array in the response. Empty means the response is the array */
+  itemsPath?: string;
+  fields: CustomJsonFieldMapping;
+  pagination?: CustomJsonPagination;
+}
+
+/**
+ * Custom JSON-specific runner configuration
+ */
+export interface CustomJsonRunnerConfig extends BaseRunnerConfig {
+  // Can add custom JSON-specific options here if needed
+}
+
+/**
+ * Custom JSON-specific run result
+ */
+export interface CustomJsonRunResult extends BaseRunResult {
+  /** Endpoint that was fetched */
+  url?: string;
+  /** Items without a usable download URL */
+  itemsUnmapped?: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  const num = typeof value === "string" ? Number(value) : value;
+  return typeof num === "number" && Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+function asBoolean(value: unknown): boolean {
+  if (typeof value === "string") return ["true", "1", "yes"].includes(value.toLowerCase());
+  return value === true || value === 1;
+}
+
+/**
+ * Convert a timestamp (seconds, milliseconds or date string) to unix seconds
+ */
+function asUnixSeconds(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    // Values beyond year 2286 in seconds are treated as milliseconds
+    return Math.floor(value > 1e10 ? value / 1000 : value);
+  }
+  if (typeof value === "string" && value) {
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? undefined : Math.floor(ms / 1000);
+  }
+  return undefined;
+}
+
+function asUrl(value: unknown, base: string): string | undefined {
+  const str = asString(value);
+  if (!str) return undefined;
+  try {
+    const url = new URL(str, base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Map a raw API item to a SourceImage.
+ * Returns null when the item has no usable download URL.
+ */
+export function mapCustomJsonItem(
+  item: unknown,
+  fields: CustomJsonFieldMapping,
+  baseUrl: string
+): SourceImage | null {
+  const read = (path: string | undefined) => (path ? getJsonPath(item, path) : undefined);
+
+  const downloadUrl = asUrl(read(fields.downloadUrl), baseUrl);
+  if (!downloadUrl) return null;
+
+  return {
+    downloadUrl,
+    websiteUrl: asUrl(read(fields.websiteUrl), baseUrl) ?? downloadUrl,
+    sourceItemId:
+      asString(read(fields.sourceItemId)) ??
+      createHash("md5").update(downloadUrl).digest("hex").slice(0, 16),
+    galleryIndex: 0,
+    title: asString(read(fields.title)),
+    author: asString(read(fields.author)),
+    nsfw: asBoolean(read(fields.nsfw)),
+    sourceCreatedAt: asUnixSeconds(read(fields.createdAt)),
+    width: asNumber(read(fields.width)),
+    height: asNumber(read(fields.height)),
+  };
+}
+
+// ============================================================================
+// Custom JSON Runner
+// ============================================================================
+
+export class CustomJsonRunner implements SourceRunner<CustomJsonRunnerConfig, CustomJsonRunResult> {
+  readonly definition = customJsonSourceKind;
+  readonly kind = customJsonSourceKind.kind;
+
+  validateParams(params: unknown): string | null {
+    return getParamsError(this.definition.paramsSchema, params);
+  }
+
+  /**
+   * Build a discoverable filename for custom JSON images.
+   * Format: json_{id}_{timestamp}.{ext}
+   *
+   * Unsafe characters in the item ID are replaced with underscores.
+   */
+  buildFilename(
+    image: { sourceItemId: string; galleryIndex?: number; sourceCreatedAt?: number | Date },
+    format: string
+  ): string {
+    const timestamp = formatFilenameTimestamp(image.sourceCreatedAt);
+    const id = image.sourceItemId.replace(/[^a-zA-Z0-9-]+/g, "_").slice(0, 64);
+    return `json_${id}_${timestamp}.${format}`;
+  }
+
+  async run(sourceId: string, config: CustomJsonRunnerConfig): Promise<CustomJsonRunResult> {
+    const startTime = Date.now();
+
+    // 1. Get source with subscribed devices
+    const context = await loadRunnerContext(sourceId, "CustomJsonRunner.GetSource");
+    if (!context) {
+      return createErrorResult(sourceId, "Unknown", "Source not found");
+    }
+
+    const { source, eligibleDevices } = context;
+    const result: CustomJsonRunResult = createRunResult(sourceId, source.name);
+
+    // 2. Check if source is enabled and has eligible devices
+    const skipReason = getRunSkipReason(context);
+    if (skipReason) {
+      logger.info({ sourceId, sourceName: source.name }, `${skipReason}, skipping`);
+      result.error = skipReason;
+      result.durationMs = Date.now() - startTime;
+      return result;
+    }
+
+    logger.info(
+      { sourceId, sourceName: source.name, deviceCount: eligibleDevices.length },
+      `Running custom JSON source with ${eligibleDevices.length} eligible devices`
+    );
+
+    // 3. Validate source params
+    const paramsError = this.validateParams(source.params);
+    if (paramsError) {
+      return createErrorResult(sourceId, source.name, paramsError, startTime);
+    }
+
+    const params = source.params as CustomJsonSourceParams;
+    result.url = params.url;
+    result.itemsUnmapped = 0;
+
+    // Get NSFW mode from source settings (default to 0 = Auto)
+    const nsfwMode = (source.nsfw ?? 0) as NsfwMode;
+
+    // 4. Fetch and process in batches using async generator
+    const processorConfig = createProcessorConfig(sourceId, config, this.buildFilename.bind(this));
+
+    try {
+      for await (const batch of fetchCustomJsonBatches({
+        url: params.url,
+        headers: params.headers,
+        itemsPath: params.itemsPath,
+        pagination: params.pagination,
+        limit: source.lookupLimit,
+        fetch: createProxyFetch(config.proxyUrl),
+      })) {
+        const mapped = batch.items
+          .map((item) => mapCustomJsonItem(item, params.fields, batch.url))
+          .filter((img): img is SourceImage => img !== null);
+
+        result.imagesFound += mapped.length;
+        result.itemsUnmapped += batch.items.length - mapped.length;
+
+        logger.info(
+          { sourceId, page: batch.page, batchSize: batch.items.length, mapped: mapped.length },
+          `Fetched batch: ${batch.items.length} items, ${mapped.length} with an image URL`
+        );
+
+        if (mapped.length === 0) {
+          continue;
+        }
+
+        // Apply NSFW mode (1 = SFW Only skips NSFW images, 2 = NSFW Only marks all as NSFW)
+        const sourceImages = applyNsfwMode(mapped, nsfwMode);
+        result.imagesSkipped += mapped.length - sourceImages.length;
+
+        // Filter out already downloaded images
+        const { newImages, skippedExisting } = await filterExistingImages(
+          sourceImages,
+          "CustomJsonRunner.CheckExisting"
+        );
+
+        result.imagesSkipped += skippedExisting;
+
+        if (newImages.length === 0) {
+          logger.debug({ sourceId, skippedExisting }, `Batch skipped: no new images`);
+          continue;
+        }
+
+        logger.info(
+          { sourceId, newImages: newImages.length, skippedExisting },
+          `Processing ${newImages.length} new images (${skippedExisting} already exist)`
+        );
+
+        const processResult = await downloadAndProcessImages(newImages, eligibleDevices, processorConfig);
+        addBatchResult(result, processResult);
+      }
+    } catch (err: any) {
+      logger.error({ err, sourceId }, "Failed to fetch from custom JSON API");
+      result.success = false;
+      result.error = `Custom JSON fetch failed: ${err.message}`;
+    }
+
+    result.durationMs = Date.now() - startTime;
+
+    logger.info(
+      {
+        sourceId,
+        sourceName: source.name,
+        duration: result.durationMs,
+        found: result.imagesFound,
+        downloaded: result.imagesDownloaded,
+        skipped: result.imagesSkipped,
+        failed: result.imagesFailed,
+      },
+      `Custom JSON source completed in ${(result.durationMs / 1000).toFixed(1)}s`
+    );
+
+    return result;
+  }
+}
+
+export function createCustomJsonRunner(): CustomJsonRunner {
+  return new CustomJsonRunner();
+}
+
+export async function runCustomJsonSource(
+  sourceId: string,
+  config: CustomJsonRunnerConfig
+): Promise<CustomJsonRunResult> {
+  const runner = createCustomJsonRunner();
+  return runner.run(sourceId, config);
+}
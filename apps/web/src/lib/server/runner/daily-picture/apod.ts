@@ -0,0 +1,46 @@
+import { createApodClient, type DailyPicture } from "@packages/potd";
+import {
+  DailyPictureRunner,
+  type DailyPictureSourceParams,
+  type DailyPictureRunnerConfig,
+  type DailyPictureRunResult,
+} from "./runner";
+import { apodSourceKind } from "$lib/schemas/source";
+import type { FetchFunction } from "../common";
+
+/**
+ * NASA APOD source params stored in sources.params JSON
+ */
+export interface ApodSourceParams extends DailyPictureSourceParams {
+  /** api.nasa.gov key. Default: DEMO_KEY (30 requests per hour) */
+  apiKey?: string;
+}
+
+/**
+ * Days with a video instead of an image are skipped.
+ */
+export class ApodRunner extends DailyPictureRunner<ApodSourceParams> {
+  readonly definition = apodSourceKind;
+  readonly kind = apodSourceKind.kind;
+  protected readonly label = "NASA APOD";
+
+  protected fetchPictures(
+    params: ApodSourceParams,
+    backfillDays: number,
+    fetch: FetchFunction
+  ): Promise<DailyPicture[]> {
+    return createApodClient({ apiKey: params.apiKey || undefined, fetch }).fetchPictures({ backfillDays });
+  }
+}
+
+export function createApodRunner(): ApodRunner {
+  return new ApodRunner();
+}
+
+export async function runApodSource(
+  sourceId: string,
+  config: DailyPictureRunnerConfig
+): Promise<DailyPictureRunResult> {
+  const runner = createApodRunner();
+  return runner.run(sourceId, config);
+}
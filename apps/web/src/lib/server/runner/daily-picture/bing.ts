@@ -0,0 +1,59 @@
+import { createBingClient, type DailyPicture } from "@packages/potd";
+import {
+  DailyPictureRunner,
+  formatPictureDate,
+  type DailyPictureSourceParams,
+  type DailyPictureRunnerConfig,
+  type DailyPictureRunResult,
+} from "./runner";
+import { bingSourceKind } from "$lib/schemas/source";
+import type { FetchFunction } from "../common";
+
+/**
+ * Bing source params stored in sources.params JSON
+ */
+export interface BingSourceParams extends DailyPictureSourceParams {
+  /** Market, e.g. "en-US". Default: "en-US" */
+  market?: string;
+}
+
+export class BingRunner extends DailyPictureRunner<BingSourceParams> {
+  readonly definition = bingSourceKind;
+  readonly kind = bingSourceKind.kind;
+  protected readonly label = "Bing";
+
+  protected fetchPictures(
+    params: BingSourceParams,
+    backfillDays: number,
+    fetch: FetchFunction
+  ): Promise<DailyPicture[]> {
+    return createBingClient({ market: params.market, fetch }).fetchPictures({ backfillDays });
+  }
+
+  /**
+   * Build a discoverable filename for Bing images.
+   * Format: bing_{YYYYMMDD}_{name}.{ext}
+   *
+   * Each market has its own image, so the image name (e.g. SnowyOwl_EN-US123)
+   * keeps sources for different markets apart.
+   */
+  buildFilename(
+    image: { sourceItemId: string; galleryIndex?: number; sourceCreatedAt?: number | Date },
+    format: string
+  ): string {
+    const name = image.sourceItemId.replace(/^OHR\./, "").replace(/[^a-zA-Z0-9-]+/g, "_");
+    return `bing_${formatPictureDate(image.sourceCreatedAt)}_${name}.${format}`;
+  }
+}
+
+export function createBingRunner(): BingRunner {
+  return new BingRunner();
+}
+
+export async function runBingSource(
+  sourceId: string,
+  config: DailyPictureRunnerConfig
+): Promise<DailyPictureRunResult> {
+  const runner = createBingRunner();
+  return runner.run(sourceId, config);
+}
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  createApodClient,
+  createBingClient,
+  createWikimediaClient,
+  type ApodEntry,
+  type BingImage,
+  type WikimediaFeaturedResponse,
+} from "@packages/potd";
+
+// The APIs live at fixed URLs, so each client gets a fetch answering for them
+function fakeApi(respond: (url: URL) => Response) {
+  const requests: URL[] = [];
+  const fetch = async (input: string | URL | Request): Promise<Response> => {
+    const url = new URL(input.toString());
+    requests.push(url);
+    return respond(url);
+  };
+  return { fetch, requests };
+}
+
+function bingImage(startdate: string, overrides: Partial<BingImage> = {}): BingImage {
+  return {
+    startdate,
+    fullstartdate: `${startdate}0800`,
+    enddate: startdate,
+    url: `/th?id=OHR.Image${startdate}_EN-US123_1920x1080.jpg&rf=LaDigue_1920x1080.jpg`,
+    urlbase: `/th?id=OHR.Image${startdate}_EN-US123`,
+    copyright: "Snowy owl, Canada (© Jane Doe/Nature Agency)",
+    copyrightlink: "https://www.bing.com/search?q=snowy+owl",
+    title: "Winter watch",
+    hsh: `hash${startdate}`,
+    ...overrides,
+  };
+}
+
+// Bing's archive: 15 days, newest first, read in windows of 8 starting at idx
+const BING_DAYS = Array.from({ length: 15 }, (_, i) => `202601${String(15 - i).padStart(2, "0")}`);
+
+describe("BingClient", () => {
+  const { fetch, requests } = fakeApi((url) => {
+    const idx = Number(url.searchParams.get("idx"));
+    const n = Number(url.searchParams.get("n"));
+    return Response.json({ images: BING_DAYS.slice(idx, idx + n).map((day) => bingImage(day)) });
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it("should split the caption from the credit", async () => {
+    const client = createBingClient({ market: "de-DE", fetch });
+    const [picture] = await client.fetchPictures();
+
+    expect(requests[0].searchParams.toString()).toBe("format=js&idx=0&n=1&mkt=de-DE");
+    expect(picture).toEqual({
+      date: "2026-01-15",
+      id: "OHR.Image20260115_EN-US123",
+      imageUrl: "https://www.bing.com/th?id=OHR.Image20260115_EN-US123_UHD.jpg",
+      pageUrl: "https://www.bing.com/search?q=snowy+owl",
+      title: "Snowy owl, Canada",
+      author: "Jane Doe",
+      copyright: "© Jane Doe/Nature Agency",
+    });
+  });
+
+  it("should read both archive windows for long backfills, without the overlapping day twice", async () => {
+    const client = createBingClient({ fetch });
+    const pictures = await client.fetchPictures({ backfillDays: 30 });
+
+    expect(requests.map((url) => url.searchParams.get("idx"))).toEqual(["0", "7"]);
+    expect(pictures).toHaveLength(15);
+    expect(new Set(pictures.map((picture) => picture.date)).size).toBe(15);
+    expect(pictures.at(-1)?.date).toBe("2026-01-01");
+  });
+
+  it("should link the market's homepage when there's no copyright link", async () => {
+    const client = createBingClient({
+      market: "ja-JP",
+      fetch: async () => Response.json({ images: [bingImage("20260115", { copyrightlink: "javascript:void(0)" })] }),
+    });
+    const [picture] = await client.fetchPictures();
+
+    expect(picture.pageUrl).toBe("https://www.bing.com/?mkt=ja-JP");
+  });
+});
+
+describe("ApodClient", () => {
+  const entries: ApodEntry[] = [
+    {
+      date: "2026-01-03",
+      title: "Orion Nebula",
+      explanation: "",
+      media_type: "image",
+      url: "https://apod.nasa.gov/apod/image/2601/orion_1024.jpg",
+      hdurl: "https://apod.nasa.gov/apod/image/2601/orion.jpg",
+      copyright: "\nJohn   Smith\n",
+      service_version: "v1",
+    },
+    {
+      date: "2026-01-04",
+      title: "Launch video",
+      explanation: "",
+      media_type: "video",
+      url: "https://www.youtube.com/embed/abc",
+      service_version: "v1",
+    },
+    {
+      date: "2026-01-05",
+      title: "Earthrise",
+      explanation: "",
+      media_type: "image",
+      url: "https://apod.nasa.gov/apod/image/2601/earthrise.jpg",
+      service_version: "v1",
+    },
+  ];
+
+  beforeEach(() => {
+    // Midday in New York, where APOD publishes
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-05T17:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should request the backfilled date range and skip videos, newest first", async () => {
+    const { fetch, requests } = fakeApi(() => Response.json(entries));
+    const client = createApodClient({ apiKey: "my-key", fetch });
+
+    const pictures = await client.fetchPictures({ backfillDays: 2 });
+
+    expect(Object.fromEntries(requests[0].searchParams)).toEqual({
+      api_key: "my-key",
+      start_date: "2026-01-03",
+      end_date: "2026-01-05",
+    });
+    expect(pictures).toEqual([
+      {
+        date: "2026-01-05",
+        id: "2026-01-05",
+        imageUrl: "https://apod.nasa.gov/apod/image/2601/earthrise.jpg",
+        pageUrl: "https://apod.nasa.gov/apod/ap260105.html",
+        title: "Earthrise",
+        author: undefined,
+        copyright: undefined,
+        license: "Public domain",
+      },
+      {
+        date: "2026-01-03",
+        id: "2026-01-03",
+        imageUrl: "https://apod.nasa.gov/apod/image/2601/orion.jpg",
+        pageUrl: "https://apod.nasa.gov/apod/ap260103.html",
+        title: "Orion Nebula",
+        author: "John Smith",
+        copyright: "© John Smith",
+        license: undefined,
+      },
+    ]);
+  });
+
+  it("should use the demo key by default and explain rate limits", async () => {
+    const { fetch, requests } = fakeApi(() => new Response("", { status: 429 }));
+    const client = createApodClient({ fetch });
+
+    await expect(client.fetchPictures()).rejects.toThrow("rate limited (use your own api.nasa.gov key)");
+    expect(requests[0].searchParams.get("api_key")).toBe("DEMO_KEY");
+  });
+});
+
+describe("WikimediaClient", () => {
+  const featured: WikimediaFeaturedResponse = {
+    image: {
+      title: "File:Matterhorn from Domhütte.jpg",
+      thumbnail: { source: "https://upload.wikimedia.org/thumb/matterhorn.jpg", width: 640, height: 427 },
+      image: { source: "https://upload.wikimedia.org/matterhorn.jpg", width: 6000, height: 4000 },
+      file_page: "https://commons.wikimedia.org/wiki/File:Matterhorn_from_Domh%C3%BCtte.jpg",
+      artist: { html: "<a>Photographer</a>", text: " Photographer " },
+      credit: { html: "", text: "Own work" },
+      license: { type: "CC BY-SA 4.0", code: "cc-by-sa-4.0" },
+    },
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-05T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should fetch each day, skipping days without a picture", async () => {
+    const { fetch, requests } = fakeApi((url) =>
+      Response.json(url.pathname.endsWith("/2026/01/05") ? featured : {})
+    );
+    const client = createWikimediaClient({ language: "de", fetch });
+
+    const pictures = await client.fetchPictures({ backfillDays: 1 });
+
+    expect(requests.map((url) => url.href)).toEqual([
+      "https://api.wikimedia.org/feed/v1/wikipedia/de/featured/2026/01/05",
+      "https://api.wikimedia.org/feed/v1/wikipedia/de/featured/2026/01/04",
+    ]);
+    expect(pictures).toEqual([
+      {
+        date: "2026-01-05",
+        id: "2026-01-05",
+        imageUrl: "https://upload.wikimedia.org/matterhorn.jpg",
+        pageUrl: "https://commons.wikimedia.org/wiki/File:Matterhorn_from_Domh%C3%BCtte.jpg",
+        // No description: named after the file
+        title: "Matterhorn from Domhütte",
+        author: "Photographer",
+        copyright: "Own work",
+        license: "CC BY-SA 4.0",
+        width: 6000,
+        height: 4000,
+      },
+    ]);
+  });
+
+  it("should report API errors", async () => {
+    const { fetch } = fakeApi(() => new Response("", { status: 503, statusText: "Service Unavailable" }));
+    const client = createWikimediaClient({ fetch });
+
+    await expect(client.fetchPicture("2026-01-05")).rejects.toThrow("Wikimedia API error: 503 Service Unavailable");
+  });
+});
@@ -0,0 +1,22 @@
+import { createBingRunner } from "./bing";
+import { createApodRunner } from "./apod";
+import { createWikimediaPotdRunner } from "./wikimedia";
+
+export {
+  DailyPictureRunner,
+  formatPictureDate,
+  type DailyPictureSourceParams,
+  type DailyPictureRunnerConfig,
+  type DailyPictureRunResult,
+} from "./runner";
+export { BingRunner, createBingRunner, runBingSource, type BingSourceParams } from "./bing";
+export { ApodRunner, createApodRunner, runApodSource, type ApodSourceParams } from "./apod";
+export {
+  WikimediaPotdRunner,
+  createWikimediaPotdRunner,
+  runWikimediaPotdSource,
+  type WikimediaPotdSourceParams,
+} from "./wikimedia";
+
+// Runners of the source kinds in this folder, registered by ../registry
+export default [createBingRunner(), createApodRunner(), createWikimediaPotdRunner()];
@@ -0,0 +1,232 @@
+import type { DailyPicture } from "@packages/potd";
+import { getLogger } from "@packages/otel-server";
+import { getParamsError, type SourceKindDefinition } from "$lib/schemas/source";
+import {
+  downloadAndProcessImages,
+  loadRunnerContext,
+  getRunSkipReason,
+  createRunResult,
+  createErrorResult,
+  addBatchResult,
+  applyNsfwMode,
+  filterExistingImages,
+  createProcessorConfig,
+  createProxyFetch,
+  type FetchFunction,
+  type SourceImage,
+  type SourceRunner,
+  type BaseRunnerConfig,
+  type BaseRunResult,
+  type NsfwMode,
+} from "../common";
+
+const logger = getLogger();
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Params shared by all picture of the day sources, stored in sources.params JSON
+ */
+export interface DailyPictureSourceParams {
+  /** Number of past days to fetch in addition to today. Default: 0 */
+  backfillDays?: number;
+}
+
+/**
+ * Picture of the day runner configuration
+ */
+export interface DailyPictureRunnerConfig extends BaseRunnerConfig {
+  // Can add picture of the day options here if needed
+}
+
+/**
+ * Picture of the day run result
+ */
+export interface DailyPictureRunResult extends BaseRunResult {
+  /** Days that were requested, including today */
+  days?: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Convert a DailyPicture to SourceImage for common processor.
+ * Daily pictures are curated, so they are never flagged NSFW.
+ */
+function toSourceImage(picture: DailyPicture): SourceImage {
+  return {
+    downloadUrl: picture.imageUrl,
+    websiteUrl: picture.pageUrl,
+    sourceItemId: picture.id,
+    galleryIndex: 0,
+    title: picture.title,
+    author: picture.author,
+    authorUrl: picture.authorUrl,
+    copyright: picture.copyright,
+    license: picture.license,
+    nsfw: false,
+    sourceCreatedAt: Date.parse(`${picture.date}T00:00:00Z`) / 1000,
+    width: picture.width,
+    height: picture.height,
+  };
+}
+
+/**
+ * Publication date as YYYYMMDD (UTC, the date the picture was published for)
+ */
+export function formatPictureDate(sourceCreatedAt?: number | Date): string {
+  const date = typeof sourceCreatedAt === "number"
+    ? new Date(sourceCreatedAt * 1000)
+    : sourceCreatedAt ?? new Date();
+  return date.toISOString().slice(0, 10).replaceAll("-", "");
+}
+
+// ============================================================================
+// Picture of the Day Runner
+// ============================================================================
+
+/**
+ * Base runner for sources that publish one picture per day.
+ * Subclasses only fetch the pictures; filtering, dedupe and processing are shared.
+ */
+export abstract class DailyPictureRunner<TParams extends DailyPictureSourceParams = DailyPictureSourceParams>
+  implements SourceRunner<DailyPictureRunnerConfig, DailyPictureRunResult>
+{
+  /** Form and params schema of the provider's source kind */
+  abstract readonly definition: SourceKindDefinition;
+
+  abstract readonly kind: string;
+
+  /** Provider name for logs and errors */
+  protected abstract readonly label: string;
+
+  /**
+   * Fetch today's picture and `backfillDays` previous ones
+   * @param fetch - Fetch going through the source's proxy
+   */
+  protected abstract fetchPictures(
+    params: TParams,
+    backfillDays: number,
+    fetch: FetchFunction
+  ): Promise<DailyPicture[]>;
+
+  validateParams(params: unknown): string | null {
+    return getParamsError(this.definition.paramsSchema, params);
+  }
+
+  /**
+   * Build a discoverable filename for daily pictures.
+   * Format: {kind}_{YYYYMMDD}.{ext}
+   *
+   * The date is the publication date, so the filename also identifies the picture.
+   */
+  buildFilename(
+    image: { sourceItemId: string; galleryIndex?: number; sourceCreatedAt?: number | Date },
+    format: string
+  ): string {
+    return `${this.kind}_${formatPictureDate(image.sourceCreatedAt)}.${format}`;
+  }
+
+  async run(sourceId: string, config: DailyPictureRunnerConfig): Promise<DailyPictureRunResult> {
+    const startTime = Date.now();
+
+    // 1. Get source with subscribed devices
+    const context = await loadRunnerContext(sourceId, "DailyPictureRunner.GetSource");
+    if (!context) {
+      return createErrorResult(sourceId, "Unknown", "Source not found");
+    }
+
+    const { source, eligibleDevices } = context;
+    const result: DailyPictureRunResult = createRunResult(sourceId, source.name);
+
+    // 2. Check if source is enabled and has eligible devices
+    const skipReason = getRunSkipReason(context);
+    if (skipReason) {
+      logger.info({ sourceId, sourceName: source.name }, `${skipReason}, skipping`);
+      result.error = skipReason;
+      result.durationMs = Date.now() - startTime;
+      return result;
+    }
+
+    logger.info(
+      { sourceId, sourceName: source.name, kind: this.kind, deviceCount: eligibleDevices.length },
+      `Running ${this.label} source with ${eligibleDevices.length} eligible devices`
+    );
+
+    // 3. Validate source params
+    const paramsError = this.validateParams(source.params);
+    if (paramsError) {
+      return createErrorResult(sourceId, source.name, paramsError, startTime);
+    }
+
+    const params = source.params as TParams;
+    const backfillDays = params.backfillDays ?? 0;
+    result.days = backfillDays + 1;
+
+    // Get NSFW mode from source settings (default to 0 = Auto)
+    const nsfwMode = (source.nsfw ?? 0) as NsfwMode;
+
+    // 4. Fetch the pictures (a handful at most, so a single batch)
+    try {
+      const pictures = (
+        await this.fetchPictures(params, backfillDays, createProxyFetch(config.proxyUrl))
+      ).slice(0, source.lookupLimit);
+      result.imagesFound = pictures.length;
+
+      logger.info(
+        { sourceId, days: result.days, found: pictures.length },
+        `Fetched ${pictures.length} pictures for ${result.days} days`
+      );
+
+      // Apply NSFW mode (1 = SFW Only skips NSFW images, 2 = NSFW Only marks all as NSFW)
+      const sourceImages = applyNsfwMode(pictures.map(toSourceImage), nsfwMode);
+      result.imagesSkipped += pictures.length - sourceImages.length;
+
+      // Filter out already downloaded images
+      const { newImages, skippedExisting } = await filterExistingImages(
+        sourceImages,
+        "DailyPictureRunner.CheckExisting"
+      );
+
+      result.imagesSkipped += skippedExisting;
+
+      if (newImages.length > 0) {
+        logger.info(
+          { sourceId, newImages: newImages.length, skippedExisting },
+          `Processing ${newImages.length} new images (${skippedExisting} already exist)`
+        );
+
+        const processorConfig = createProcessorConfig(sourceId, config, this.buildFilename.bind(this));
+        const processResult = await downloadAndProcessImages(newImages, eligibleDevices, processorConfig);
+        addBatchResult(result, processResult);
+      } else {
+        logger.debug({ sourceId, skippedExisting }, `No new pictures`);
+      }
+    } catch (err: any) {
+      logger.error({ err, sourceId }, `Failed to fetch from ${this.label}`);
+      result.success = false;
+      result.error = `${this.label} fetch failed: ${err.message}`;
+    }
+
+    result.durationMs = Date.now() - startTime;
+
+    logger.info(
+      {
+        sourceId,
+        sourceName: source.name,
+        duration: result.durationMs,
+        found: result.imagesFound,
+        downloaded: result.imagesDownloaded,
+        skipped: result.imagesSkipped,
+        failed: result.imagesFailed,
+      },
+      `${this.label} source completed in ${(result.durationMs / 1000).toFixed(1)}s`
+    );
+
+    return result;
+  }
+}
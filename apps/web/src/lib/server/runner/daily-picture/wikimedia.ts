@@ -0,0 +1,46 @@
+import { createWikimediaClient, type DailyPicture } from "@packages/potd";
+import {
+  DailyPictureRunner,
+  type DailyPictureSourceParams,
+  type DailyPictureRunnerConfig,
+  type DailyPictureRunResult,
+} from "./runner";
+import { wikimediaPotdSourceKind } from "$lib/schemas/source";
+import type { FetchFunction } from "../common";
+
+/**
+ * Wikimedia Picture of the Day source params stored in sources.params JSON
+ */
+export interface WikimediaPotdSourceParams extends DailyPictureSourceParams {
+  /** Wikipedia language for the description. Default: "en" */
+  language?: string;
+}
+
+/**
+ * License and credit lines come from the Commons file page.
+ */
+export class WikimediaPotdRunner extends DailyPictureRunner<WikimediaPotdSourceParams> {
+  readonly definition = wikimediaPotdSourceKind;
+  readonly kind = wikimediaPotdSourceKind.kind;
+  protected readonly label = "Wikimedia";
+
+  protected fetchPictures(
+    params: WikimediaPotdSourceParams,
+    backfillDays: number,
+    fetch: FetchFunction
+  ): Promise<DailyPicture[]> {
+    return createWikimediaClient({ language: params.language, fetch }).fetchPictures({ backfillDays });
+  }
+}
+
+export function createWikimediaPotdRunner(): WikimediaPotdRunner {
+  return new WikimediaPotdRunner();
+}
+
+export async function runWikimediaPotdSource(
+  sourceId: string,
+  config: DailyPictureRunnerConfig
+): Promise<DailyPictureRunResult> {
+  const runner = createWikimediaPotdRunner();
+  return runner.run(sourceId, config);
+}
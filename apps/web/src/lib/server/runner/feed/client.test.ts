@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createFeedClient } from "@packages/feed";
+
+// Relative links, to be resolved against the URL the feed was served from
+const FEED = `<?xml version="1.0"?>
+<rss version="2.0">
+  <channel>
+    <title>Blog</title>
+    <item>
+      <guid>1</guid>
+      <link>posts/1</link>
+      <enclosure url="/images/1.jpg" type="image/jpeg" />
+    </item>
+  </channel>
+</rss>`;
+
+describe("FeedClient against a fake server", () => {
+  let server: Server;
+  let baseUrl: string;
+  const userAgents: Array<string | undefined> = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      userAgents.push(req.headers["user-agent"]);
+
+      if (req.url === "/feed") {
+        res.writeHead(301, { Location: "/blog/feed.xml" });
+        res.end();
+        return;
+      }
+      if (req.url === "/blog/feed.xml") {
+        res.setHeader("Content-Type", "application/rss+xml");
+        res.end(FEED);
+        return;
+      }
+      res.statusCode = 404;
+      res.end("Not found");
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should resolve relative links against the redirected feed URL", async () => {
+    const client = createFeedClient({ userAgent: "fallpaper-test" });
+    const feed = await client.fetchFeed(`${baseUrl}/feed`);
+
+    expect(feed.link).toBe(`${baseUrl}/blog/feed.xml`);
+    expect(feed.items[0]).toMatchObject({
+      link: `${baseUrl}/blog/posts/1`,
+      images: [{ url: `${baseUrl}/images/1.jpg`, origin: "enclosure" }],
+    });
+    expect(userAgents.at(-1)).toBe("fallpaper-test");
+  });
+
+  it("should report HTTP errors", async () => {
+    const client = createFeedClient();
+    await expect(client.fetchFeed(`${baseUrl}/missing.xml`)).rejects.toThrow("Feed fetch error: 404");
+  });
+});
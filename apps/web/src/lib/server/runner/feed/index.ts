@@ -0,0 +1,13 @@
+import { createFeedRunner } from "./runner";
+
+export {
+  FeedRunner,
+  createFeedRunner,
+  runFeedSource,
+  type FeedSourceParams,
+  type FeedRunnerConfig,
+  type FeedRunResult,
+} from "./runner";
+
+// Runners of the source kinds in this folder, registered by ../registry
+export default [createFeedRunner()];
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { parseFeed } from "@packages/feed";
+
+const RSS = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+  xmlns:media="http://search.yahoo.com/mrss/"
+  xmlns:content="http://purl.org/rss/1.0/modules/content/"
+  xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Photo Blog</title>
+    <link>https://photos.example/</link>
+    <item>
+      <title>Alpine lake</title>
+      <link>/posts/alpine-lake</link>
+      <guid isPermaLink="false">post-2</guid>
+      <dc:creator>Ansel</dc:creator>
+      <pubDate>Fri, 02 Jan 2026 03:04:05 GMT</pubDate>
+      <enclosure url="https://cdn.photos.example/lake.jpg" type="image/jpeg" length="2500000" />
+      <enclosure url="https://cdn.photos.example/lake.mp3" type="audio/mpeg" length="100" />
+      <media:content url="https://cdn.photos.example/lake-4k.png" medium="image" width="3840" height="2160" />
+      <media:thumbnail url="https://cdn.photos.example/lake-small.jpg" width="320" height="180" />
+      <content:encoded><![CDATA[<p><img src="../img/lake-detail.webp?w=2000&amp;q=90" alt=""></p>
+        <img src='data:image/png;base64,AAAA'><img src="https://cdn.photos.example/lake.jpg">]]></content:encoded>
+    </item>
+    <item>
+      <title>Night sky</title>
+      <link>https://photos.example/posts/night-sky</link>
+      <media:group>
+        <media:thumbnail url="https://cdn.photos.example/sky-small.jpg" width="320" height="180" />
+        <media:rating scheme="urn:simple">adult</media:rating>
+      </media:group>
+    </item>
+    <item>
+      <description>No title, link or guid, so nothing to tell it apart by</description>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Artist &amp; Co</title>
+  <link rel="self" href="https://art.example/feed.atom" />
+  <link rel="alternate" href="https://art.example/" />
+  <entry>
+    <id>tag:art.example,2026:1</id>
+    <title>Dunes</title>
+    <link rel="alternate" href="/works/dunes" />
+    <link rel="enclosure" href="https://art.example/files/dunes.jpg" type="image/jpeg" length="1200000" />
+    <author><name>Artist</name><uri>/about</uri></author>
+    <updated>2026-01-02T03:04:05Z</updated>
+    <content type="html">&lt;img src="/files/dunes-crop.jpg"&gt;</content>
+  </entry>
+</feed>`;
+
+const RDF = `<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/">
+  <channel rdf:about="https://old.example/">
+    <title>Old Site</title>
+    <link>https://old.example/</link>
+  </channel>
+  <item rdf:about="https://old.example/1">
+    <title>First</title>
+    <link>https://old.example/1</link>
+    <description>&lt;img src="pictures/1.gif"&gt;</description>
+  </item>
+</rdf:RDF>`;
+
+describe("parseFeed", () => {
+  it("should read RSS items with their images, full size first", () => {
+    const feed = parseFeed(RSS, "https://photos.example/feed.xml");
+
+    expect(feed).toMatchObject({ format: "rss", title: "Photo Blog", link: "https://photos.example/" });
+    expect(feed.items).toHaveLength(2);
+    expect(feed.items[0]).toEqual({
+      id: "post-2",
+      title: "Alpine lake",
+      link: "https://photos.example/posts/alpine-lake",
+      author: "Ansel",
+      publishedAt: 1767323045,
+      nsfw: false,
+      images: [
+        { url: "https://cdn.photos.example/lake.jpg", origin: "enclosure", fileSize: 2500000 },
+        {
+          url: "https://cdn.photos.example/lake-4k.png",
+          origin: "media:content",
+          width: 3840,
+          height: 2160,
+          fileSize: undefined,
+        },
+        { url: "https://photos.example/img/lake-detail.webp?w=2000&q=90", origin: "html" },
+      ],
+    });
+  });
+
+  it("should fall back to thumbnails and read adult ratings in media groups", () => {
+    const [, night] = parseFeed(RSS, "https://photos.example/feed.xml").items;
+
+    expect(night).toMatchObject({ id: "https://photos.example/posts/night-sky", nsfw: true });
+    expect(night.images).toEqual([
+      { url: "https://cdn.photos.example/sky-small.jpg", origin: "media:thumbnail", width: 320, height: 180 },
+    ]);
+  });
+
+  it("should read Atom entries, resolving links against the site", () => {
+    const feed = parseFeed(ATOM, "https://feeds.example/art");
+
+    expect(feed).toMatchObject({ format: "atom", title: "Artist & Co", link: "https://art.example/" });
+    expect(feed.items).toEqual([
+      {
+        id: "tag:art.example,2026:1",
+        title: "Dunes",
+        link: "https://art.example/works/dunes",
+        author: "Artist",
+        authorUrl: "https://art.example/about",
+        publishedAt: 1767323045,
+        nsfw: false,
+        images: [
+          { url: "https://art.example/files/dunes.jpg", origin: "enclosure", fileSize: 1200000 },
+          { url: "https://art.example/files/dunes-crop.jpg", origin: "html" },
+        ],
+      },
+    ]);
+  });
+
+  it("should read RSS 1.0 (RDF) documents", () => {
+    const feed = parseFeed(RDF);
+
+    expect(feed).toMatchObject({ format: "rdf", title: "Old Site", link: "https://old.example/" });
+    expect(feed.items[0]).toMatchObject({
+      id: "https://old.example/1",
+      images: [{ url: "https://old.example/pictures/1.gif", origin: "html" }],
+    });
+  });
+
+  it("should reject documents that are not feeds", () => {
+    expect(() => parseFeed("<html><body>Not a feed</body></html>")).toThrow("Unrecognized feed format");
+    expect(() => parseFeed('{"items": []}')).toThrow("Unrecognized feed format");
+  });
+});
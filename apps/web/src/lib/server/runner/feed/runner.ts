@@ -0,0 +1,225 @@
+import { createHash } from "node:crypto";
+import { createFeedClient, type FeedItem } from "@packages/feed";
+import { getLogger } from "@packages/otel-server";
+import { getParamsError, feedSourceKind } from "$lib/schemas/source";
+import {
+  downloadAndProcessImages,
+  loadRunnerContext,
+  getRunSkipReason,
+  createRunResult,
+  createErrorResult,
+  addBatchResult,
+  applyNsfwMode,
+  filterExistingImages,
+  createProcessorConfig,
+  createProxyFetch,
+  formatFilenameTimestamp,
+  type SourceImage,
+  type SourceRunner,
+  type BaseRunnerConfig,
+  type BaseRunResult,
+  type NsfwMode,
+} from "../common";
+
+const logger = getLogger();
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Feed source params stored in sources.params JSON
+ */
+export interface FeedSourceParams {
+  /** RSS or Atom feed URL */
+  url: string;
+}
+
+/**
+ * Feed-specific runner configuration
+ */
+export interface FeedRunnerConfig extends BaseRunnerConfig {
+  // Can add feed-specific options here if needed
+}
+
+/**
+ * Feed-specific run result
+ */
+export interface FeedRunResult extends BaseRunResult {
+  /** Feed URL that was fetched */
+  url?: string;
+  /** Feed title */
+  feedTitle?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Convert a feed item to SourceImages for common processor.
+ * Every image in the item becomes a gallery entry of the item.
+ */
+function toSourceImages(item: FeedItem): SourceImage[] {
+  return item.images.map((image, index) => ({
+    downloadUrl: image.url,
+    websiteUrl: item.link ?? image.url,
+    sourceItemId: item.id,
+    galleryIndex: index,
+    title: item.title,
+    author: item.author,
+    authorUrl: item.authorUrl,
+    nsfw: item.nsfw,
+    sourceCreatedAt: item.publishedAt,
+    width: image.width,
+    height: image.height,
+    filesize: image.fileSize,
+  }));
+}
+
+// ============================================================================
+// Feed Runner
+// ============================================================================
+
+export class FeedRunner implements SourceRunner<FeedRunnerConfig, FeedRunResult> {
+  readonly definition = feedSourceKind;
+  readonly kind = feedSourceKind.kind;
+
+  validateParams(params: unknown): string | null {
+    return getParamsError(this.definition.paramsSchema, params);
+  }
+
+  /**
+   * Build a discoverable filename for feed images.
+   * Format: feed_{hash}[_{gallery}]_{timestamp}.{ext}
+   *
+   * Feed item IDs are arbitrary strings (often URLs), so the filename uses a
+   * short hash of the ID. The full ID is kept in images.source_item_id.
+   */
+  buildFilename(
+    image: { sourceItemId: string; galleryIndex?: number; sourceCreatedAt?: number | Date },
+    format: string
+  ): string {
+    const timestamp = formatFilenameTimestamp(image.sourceCreatedAt);
+    const hash = createHash("md5").update(image.sourceItemId).digest("hex").slice(0, 12);
+
+    // Gallery suffix only if gallery index > 0
+    const gallerySuffix = image.galleryIndex && image.galleryIndex > 0
+      ? `_${image.galleryIndex}`
+      : "";
+
+    return `feed_${hash}${gallerySuffix}_${timestamp}.${format}`;
+  }
+
+  async run(sourceId: string, config: FeedRunnerConfig): Promise<FeedRunResult> {
+    const startTime = Date.now();
+
+    // 1. Get source with subscribed devices
+    const context = await loadRunnerContext(sourceId, "FeedRunner.GetSource");
+    if (!context) {
+      return createErrorResult(sourceId, "Unknown", "Source not found");
+    }
+
+    const { source, eligibleDevices } = context;
+    const result: FeedRunResult = createRunResult(sourceId, source.name);
+
+    // 2. Check if source is enabled and has eligible devices
+    const skipReason = getRunSkipReason(context);
+    if (skipReason) {
+      logger.info({ sourceId, sourceName: source.name }, `${skipReason}, skipping`);
+      result.error = skipReason;
+      result.durationMs = Date.now() - startTime;
+      return result;
+    }
+
+    logger.info(
+      { sourceId, sourceName: source.name, deviceCount: eligibleDevices.length },
+      `Running feed source with ${eligibleDevices.length} eligible devices`
+    );
+
+    // 3. Validate source params
+    const paramsError = this.validateParams(source.params);
+    if (paramsError) {
+      return createErrorResult(sourceId, source.name, paramsError, startTime);
+    }
+
+    const params = source.params as FeedSourceParams;
+    result.url = params.url;
+
+    // Get NSFW mode from source settings (default to 0 = Auto)
+    const nsfwMode = (source.nsfw ?? 0) as NsfwMode;
+
+    // 4. Fetch the feed. Feeds are a single document, so there is only one batch.
+    const feedClient = createFeedClient({ fetch: createProxyFetch(config.proxyUrl) });
+    const processorConfig = createProcessorConfig(sourceId, config, this.buildFilename.bind(this));
+
+    try {
+      const feed = await feedClient.fetchFeed(params.url);
+      result.feedTitle = feed.title;
+
+      const items = feed.items.slice(0, source.lookupLimit);
+      const allImages = items.flatMap(toSourceImages);
+      result.imagesFound = allImages.length;
+
+      logger.info(
+        { sourceId, format: feed.format, items: items.length, totalFound: result.imagesFound },
+        `Fetched feed: ${items.length} items, ${allImages.length} images`
+      );
+
+      // Apply NSFW mode (1 = SFW Only skips NSFW images, 2 = NSFW Only marks all as NSFW)
+      const sourceImages = applyNsfwMode(allImages, nsfwMode);
+      result.imagesSkipped += allImages.length - sourceImages.length;
+
+      // Filter out already downloaded images
+      const { newImages, skippedExisting } = await filterExistingImages(
+        sourceImages,
+        "FeedRunner.CheckExisting"
+      );
+
+      result.imagesSkipped += skippedExisting;
+
+      if (newImages.length > 0) {
+        logger.info(
+          { sourceId, newImages: newImages.length, skippedExisting },
+          `Processing ${newImages.length} new images (${skippedExisting} already exist)`
+        );
+
+        const processResult = await downloadAndProcessImages(newImages, eligibleDevices, processorConfig);
+        addBatchResult(result, processResult);
+      }
+    } catch (err: any) {
+      logger.error({ err, sourceId }, "Failed to fetch feed");
+      result.success = false;
+      result.error = `Feed fetch failed: ${err.message}`;
+    }
+
+    result.durationMs = Date.now() - startTime;
+
+    logger.info(
+      {
+        sourceId,
+        sourceName: source.name,
+        duration: result.durationMs,
+        found: result.imagesFound,
+        downloaded: result.imagesDownloaded,
+        skipped: result.imagesSkipped,
+        failed: result.imagesFailed,
+      },
+      `Feed source completed in ${(result.durationMs / 1000).toFixed(1)}s`
+    );
+
+    return result;
+  }
+}
+
+export function createFeedRunner(): FeedRunner {
+  return new FeedRunner();
+}
+
+export async function runFeedSource(
+  sourceId: string,
+  config: FeedRunnerConfig
+): Promise<FeedRunResult> {
+  const runner = createFeedRunner();
+  return runner.run(sourceId, config);
+}
@@ -3,3 +3,33 @@ export * from "./common";
 
 // Reddit runner
 export * from "./reddit";
+
+// Wallhaven runner
+export * from "./wallhaven";
+
+// Local folder runner
+export * from "./local-folder";
+
+// RSS / Atom feed runner
+export * from "./feed";
+
+// Booru runner
+export * from "./booru";
+
+// Custom JSON API runner
+export * from "./custom-json";
+
+// Picture of the day runners (Bing, NASA APOD, Wikimedia)
+export * from "./daily-picture";
+
+// Mastodon runner
+export * from "./mastodon";
+
+// Lemmy runner
+export * from "./lemmy";
+
+// Runner registry (source kind -> runner)
+export * from "./registry";
+
+// Out-of-tree runner plugins
+export * from "./plugins";
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createLemmyClient, parseCommunity, type LemmyPostView } from "@packages/lemmy";
+
+function makePost(id: number, overrides: Partial<LemmyPostView["post"]> = {}): LemmyPostView {
+  return {
+    post: {
+      id,
+      name: `Post ${id}`,
+      url: `https://lemmy.fake/pictrs/image/${id}.jpeg?thumbnail=256`,
+      nsfw: false,
+      published: "2026-01-02T03:04:05.000000",
+      ap_id: `https://lemmy.fake/post/${id}`,
+      removed: false,
+      deleted: false,
+      ...overrides,
+    },
+    creator: { name: "artist", display_name: "Artist", actor_id: "https://lemmy.fake/u/artist" },
+    community: { name: "wallpapers", nsfw: false, actor_id: "https://lemmy.fake/c/wallpapers" },
+    counts: { score: 10 },
+  };
+}
+
+const POSTS = [
+  makePost(5),
+  makePost(4, { url: "https://example.com/article" }),
+  makePost(3, { url: "https://lemmy.fake/api/v3/image_proxy?url=https%3A%2F%2Fcdn.example.com%2Fsea.png" }),
+  makePost(2, { removed: true }),
+  makePost(1, { url: "https://cdn.example.com/hills", url_content_type: "image/webp", nsfw: true }),
+];
+
+describe("parseCommunity", () => {
+  it("should split name and instance, ignoring a leading !", () => {
+    expect(parseCommunity("!wallpapers@lemmy.world")).toEqual({ name: "wallpapers", instance: "lemmy.world" });
+  });
+
+  it("should reject communities without an instance", () => {
+    expect(() => parseCommunity("wallpapers")).toThrow("must be name@instance");
+  });
+});
+
+describe("LemmyClient against a fake instance", () => {
+  let server: Server;
+  let instanceUrl: string;
+  const requests: URL[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      requests.push(url);
+      res.setHeader("Content-Type", "application/json");
+
+      if (url.pathname === "/api/v3/post/list") {
+        const limit = Number(url.searchParams.get("limit"));
+        const page = Number(url.searchParams.get("page"));
+        res.end(JSON.stringify({ posts: POSTS.slice((page - 1) * limit, page * limit) }));
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: "couldnt_find_community" }));
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    instanceUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should query the community by its federated name", async () => {
+    requests.length = 0;
+    const client = createLemmyClient({ instanceUrl });
+    await client.fetchCommunity({ community: "wallpapers@lemmy.fake", sort: "TopWeek", limit: 100 });
+
+    expect(requests[0].searchParams.get("community_name")).toBe("wallpapers@lemmy.fake");
+    expect(requests[0].searchParams.get("sort")).toBe("TopWeek");
+    expect(requests[0].searchParams.get("limit")).toBe("50");
+  });
+
+  it("should keep image posts only, resolving pict-rs and proxied URLs", async () => {
+    const client = createLemmyClient({ instanceUrl });
+    const { images, postsProcessed } = await client.fetchCommunity({ community: "wallpapers@lemmy.fake" });
+
+    expect(postsProcessed).toBe(5);
+    expect(images.map((img) => img.imageUrl)).toEqual([
+      "https://lemmy.fake/pictrs/image/5.jpeg",
+      "https://cdn.example.com/sea.png",
+      "https://cdn.example.com/hills",
+    ]);
+    expect(images[0]).toMatchObject({
+      postId: "5",
+      postUrl: `${instanceUrl}/post/5`,
+      author: "Artist",
+      nsfw: false,
+      createdAt: 1767323045,
+    });
+    expect(images[2].nsfw).toBe(true);
+  });
+
+  it("should stop paging when a page comes back short", async () => {
+    requests.length = 0;
+    const client = createLemmyClient({ instanceUrl });
+
+    const batches = [];
+    for await (const batch of client.fetchCommunityBatches({ community: "wallpapers@lemmy.fake", limit: 50 })) {
+      batches.push(batch);
+    }
+
+    expect(batches).toHaveLength(1);
+    expect(requests.map((r) => r.searchParams.get("page"))).toEqual(["1"]);
+  });
+
+  it("should report API errors", async () => {
+    const client = createLemmyClient({ instanceUrl: `${instanceUrl}/missing` });
+    await expect(client.fetchCommunity({ community: "wallpapers@lemmy.fake" })).rejects.toThrow(
+      "Lemmy API error: 404"
+    );
+  });
+});
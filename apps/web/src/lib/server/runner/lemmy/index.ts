@@ -0,0 +1,13 @@
+import { createLemmyRunner } from "./runner";
+
+export {
+  LemmyRunner,
+  createLemmyRunner,
+  runLemmySource,
+  type LemmySourceParams,
+  type LemmyRunnerConfig,
+  type LemmyRunResult,
+} from "./runner";
+
+// Runners of the source kinds in this folder, registered by ../registry
+export default [createLemmyRunner()];
@@ -0,0 +1,233 @@
+import { createLemmyClient, type LemmyImage, type LemmySortType } from "@packages/lemmy";
+import { getLogger } from "@packages/otel-server";
+import { getParamsError, lemmySourceKind } from "$lib/schemas/source";
+import {
+  downloadAndProcessImages,
+  loadRunnerContext,
+  getRunSkipReason,
+  createRunResult,
+  createErrorResult,
+  addBatchResult,
+  applyNsfwMode,
+  filterExistingImages,
+  createProcessorConfig,
+  createProxyFetch,
+  formatFilenameTimestamp,
+  type SourceImage,
+  type SourceRunner,
+  type BaseRunnerConfig,
+  type BaseRunResult,
+  type NsfwMode,
+} from "../common";
+
+const logger = getLogger();
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Lemmy source params stored in sources.params JSON
+ */
+export interface LemmySourceParams {
+  /** Community as name@instance, e.g. wallpapers@lemmy.world */
+  community: string;
+  sort?: LemmySortType;
+}
+
+/**
+ * Lemmy-specific runner configuration
+ */
+export interface LemmyRunnerConfig extends BaseRunnerConfig {
+  // Can add lemmy-specific options here if needed
+}
+
+/**
+ * Lemmy-specific run result
+ */
+export interface LemmyRunResult extends BaseRunResult {
+  /** Community that was fetched */
+  community?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Convert LemmyImage to SourceImage for common processor
+ * @param img - Lemmy image data
+ * @returns SourceImage using the post's nsfw flag (source NSFW mode is applied afterwards)
+ */
+function toSourceImage(img: LemmyImage): SourceImage {
+  return {
+    downloadUrl: img.imageUrl,
+    websiteUrl: img.postUrl,
+    sourceItemId: img.postId,
+    galleryIndex: 0,
+    title: img.title,
+    author: img.author,
+    authorUrl: img.authorUrl,
+    nsfw: img.nsfw,
+    sourceCreatedAt: img.createdAt,
+  };
+}
+
+// ============================================================================
+// Lemmy Runner
+// ============================================================================
+
+export class LemmyRunner implements SourceRunner<LemmyRunnerConfig, LemmyRunResult> {
+  readonly definition = lemmySourceKind;
+  readonly kind = lemmySourceKind.kind;
+
+  validateParams(params: unknown): string | null {
+    return getParamsError(this.definition.paramsSchema, params);
+  }
+
+  /**
+   * Build a discoverable filename for Lemmy images.
+   * Format: lemmy_{postId}_{timestamp}.{ext}
+   *
+   * The postId can be used to reconstruct URL: https://{instance}/post/{postId}
+   */
+  buildFilename(
+    image: { sourceItemId: string; galleryIndex?: number; sourceCreatedAt?: number | Date },
+    format: string
+  ): string {
+    const timestamp = formatFilenameTimestamp(image.sourceCreatedAt);
+    return `lemmy_${image.sourceItemId}_${timestamp}.${format}`;
+  }
+
+  async run(sourceId: string, config: LemmyRunnerConfig): Promise<LemmyRunResult> {
+    const startTime = Date.now();
+
+    // 1. Get source with subscribed devices
+    const context = await loadRunnerContext(sourceId, "LemmyRunner.GetSource");
+    if (!context) {
+      return createErrorResult(sourceId, "Unknown", "Source not found");
+    }
+
+    const { source, eligibleDevices } = context;
+    const result: LemmyRunResult = createRunResult(sourceId, source.name);
+
+    // 2. Check if source is enabled and has eligible devices
+    const skipReason = getRunSkipReason(context);
+    if (skipReason) {
+      logger.info({ sourceId, sourceName: source.name }, `${skipReason}, skipping`);
+      result.error = skipReason;
+      result.durationMs = Date.now() - startTime;
+      return result;
+    }
+
+    logger.info(
+      { sourceId, sourceName: source.name, deviceCount: eligibleDevices.length },
+      `Running Lemmy source with ${eligibleDevices.length} eligible devices`
+    );
+
+    // 3. Validate source params
+    const paramsError = this.validateParams(source.params);
+    if (paramsError) {
+      return createErrorResult(sourceId, source.name, paramsError, startTime);
+    }
+
+    const params = source.params as LemmySourceParams;
+    result.community = params.community;
+
+    // Get NSFW mode from source settings (default to 0 = Auto)
+    const nsfwMode = (source.nsfw ?? 0) as NsfwMode;
+
+    // 4. Fetch and process in batches using async generator
+    const lemmyClient = createLemmyClient({ fetch: createProxyFetch(config.proxyUrl) });
+    const processorConfig = createProcessorConfig(sourceId, config, this.buildFilename.bind(this));
+
+    try {
+      for await (const batch of lemmyClient.fetchCommunityBatches({
+        community: params.community,
+        sort: params.sort ?? "New",
+        limit: source.lookupLimit,
+      })) {
+        result.imagesFound += batch.images.length;
+
+        logger.info(
+          { sourceId, page: batch.page, batchSize: batch.images.length, totalFound: result.imagesFound },
+          `Fetched batch: ${batch.images.length} images`
+        );
+
+        if (batch.images.length === 0) {
+          continue;
+        }
+
+        // Apply NSFW mode (1 = SFW Only skips NSFW images, 2 = NSFW Only marks all as NSFW)
+        const sourceImages = applyNsfwMode(batch.images.map(toSourceImage), nsfwMode);
+        const skippedByNsfw = batch.images.length - sourceImages.length;
+
+        if (skippedByNsfw > 0) {
+          logger.debug(
+            { sourceId, skippedByNsfw },
+            `Skipped ${skippedByNsfw} NSFW images (SFW Only mode)`
+          );
+          result.imagesSkipped += skippedByNsfw;
+        }
+
+        if (sourceImages.length === 0) {
+          continue;
+        }
+
+        // Filter out already downloaded images
+        const { newImages, skippedExisting } = await filterExistingImages(
+          sourceImages,
+          "LemmyRunner.CheckExisting"
+        );
+
+        result.imagesSkipped += skippedExisting;
+
+        if (newImages.length === 0) {
+          logger.debug({ sourceId, skippedExisting }, `Batch skipped: all ${skippedExisting} already exist`);
+          continue;
+        }
+
+        logger.info(
+          { sourceId, newImages: newImages.length, skippedExisting },
+          `Processing ${newImages.length} new images (${skippedExisting} already exist)`
+        );
+
+        const processResult = await downloadAndProcessImages(newImages, eligibleDevices, processorConfig);
+        addBatchResult(result, processResult);
+      }
+    } catch (err: any) {
+      logger.error({ err, sourceId }, "Failed to fetch from Lemmy");
+      result.success = false;
+      result.error = `Lemmy fetch failed: ${err.message}`;
+    }
+
+    result.durationMs = Date.now() - startTime;
+
+    logger.info(
+      {
+        sourceId,
+        sourceName: source.name,
+        duration: result.durationMs,
+        found: result.imagesFound,
+        downloaded: result.imagesDownloaded,
+        skipped: result.imagesSkipped,
+        failed: result.imagesFailed,
+      },
+      `Lemmy source completed in ${(result.durationMs / 1000).toFixed(1)}s`
+    );
+
+    return result;
+  }
+}
+
+export function createLemmyRunner(): LemmyRunner {
+  return new LemmyRunner();
+}
+
+export async function runLemmySource(
+  sourceId: string,
+  config: LemmyRunnerConfig
+): Promise<LemmyRunResult> {
+  const runner = createLemmyRunner();
+  return runner.run(sourceId, config);
+}
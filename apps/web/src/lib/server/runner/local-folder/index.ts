@@ -0,0 +1,15 @@
+import { createLocalFolderRunner } from "./runner";
+
+export {
+  LocalFolderRunner,
+  createLocalFolderRunner,
+  runLocalFolderSource,
+  type LocalFolderSourceParams,
+  type LocalFolderRunnerConfig,
+  type LocalFolderRunResult,
+} from "./runner";
+
+export { LocalFolderWatcher, type FolderChangeHandler } from "./watcher";
+
+// Runners of the source kinds in this folder, registered by ../registry
+export default [createLocalFolderRunner()];
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, relative } from "node:path";
+import { pathToFileURL } from "node:url";
+import { LocalFolderRunner, findNewFiles, walkImageFiles } from "./runner";
+import { LocalFolderWatcher } from "./watcher";
+
+// bun:sqlite doesn't load under vitest: each table returns the rows a test gives it
+const fakeDb = vi.hoisted(() => ({
+  rows: {} as Record<string, unknown[]>,
+  queried: [] as string[],
+  query: new Proxy({} as Record<string, { findMany: () => Promise<unknown[]> }>, {
+    get: (_target, table: string) => ({
+      findMany: async () => {
+        fakeDb.queried.push(table);
+        return fakeDb.rows[table] ?? [];
+      },
+    }),
+  }),
+}));
+
+vi.mock("$lib/server/db", () => ({ db: fakeDb }));
+vi.mock("@packages/database", async () => ({
+  ...(await import("@packages/database/schema")),
+  withQueryName: (_name: string, query: () => Promise<unknown>) => query(),
+}));
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "fallpaper-local-folder-"));
+  fakeDb.rows = {};
+  fakeDb.queried = [];
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function addFile(path: string, content = "image"): string {
+  const filePath = join(dir, path);
+  mkdirSync(join(filePath, ".."), { recursive: true });
+  writeFileSync(filePath, content);
+  return filePath;
+}
+
+async function walk(recursive: boolean): Promise<string[]> {
+  const paths: string[] = [];
+  for await (const filePath of walkImageFiles(dir, recursive)) {
+    paths.push(relative(dir, filePath));
+  }
+  return paths.sort();
+}
+
+describe("walkImageFiles", () => {
+  beforeEach(() => {
+    addFile("beach.jpg");
+    addFile("NIGHT.PNG");
+    addFile("notes.txt");
+    addFile(".hidden.jpg");
+    addFile(".thumbnails/beach.jpg");
+    addFile("2025/summer/lake.webp");
+  });
+
+  it("should skip dotfiles and non-image files, and recurse into sub folders", async () => {
+    expect(await walk(true)).toEqual(["2025/summer/lake.webp", "NIGHT.PNG", "beach.jpg"]);
+  });
+
+  it("should stay in the folder when not recursive", async () => {
+    expect(await walk(false)).toEqual(["NIGHT.PNG", "beach.jpg"]);
+  });
+});
+
+describe("findNewFiles", () => {
+  function addFiles(count: number): string[] {
+    return Array.from({ length: count }, (_, i) => addFile(`${String(i).padStart(4, "0")}.jpg`));
+  }
+
+  it("should stop at the limit without walking the rest of the folder", async () => {
+    addFiles(1100);
+
+    const { newFiles, scanned, skippedExisting } = await findNewFiles({ path: dir }, 10, 0);
+
+    expect(newFiles).toHaveLength(10);
+    expect(scanned).toBe(500);
+    expect(skippedExisting).toBe(0);
+    expect(fakeDb.queried.filter((table) => table === "images")).toHaveLength(1);
+  });
+
+  it("should check known paths a chunk at a time", async () => {
+    const filePaths = addFiles(1100);
+    fakeDb.rows.images = filePaths.map((filePath) => ({ downloadUrl: pathToFileURL(filePath).href }));
+
+    const { newFiles, scanned, skippedExisting } = await findNewFiles({ path: dir }, 10, 0);
+
+    expect(newFiles).toEqual([]);
+    expect(scanned).toBe(1100);
+    expect(skippedExisting).toBe(1100);
+    expect(fakeDb.queried.filter((table) => table === "images")).toHaveLength(3);
+  });
+
+  it("should return new files with their relative path, date and size", async () => {
+    const known = addFile("old.jpg");
+    addFile("albums/new.png", "12345");
+    fakeDb.rows.images = [{ downloadUrl: pathToFileURL(known).href }];
+
+    const { newFiles, scanned, skippedExisting } = await findNewFiles({ path: dir }, 10, 0);
+
+    expect(scanned).toBe(2);
+    expect(skippedExisting).toBe(1);
+    expect(newFiles).toEqual([
+      expect.objectContaining({
+        downloadUrl: pathToFileURL(join(dir, "albums/new.png")).href,
+        sourceItemId: "albums/new.png",
+        filesize: 5,
+        sourceCreatedAt: expect.any(Date),
+      }),
+    ]);
+  });
+});
+
+describe("LocalFolderRunner.buildFilename", () => {
+  const runner = new LocalFolderRunner();
+  const sourceCreatedAt = new Date(2026, 0, 2, 3, 4, 5);
+
+  it("should name files after their relative path", () => {
+    expect(runner.buildFilename({ sourceItemId: "2025/Summer trip/lake.webp", sourceCreatedAt }, "jpg")).toBe(
+      "local_2025_Summer_trip_lake_20260102_030405.jpg"
+    );
+  });
+
+  it("should fall back for paths without safe characters", () => {
+    expect(runner.buildFilename({ sourceItemId: "夏/海.png", sourceCreatedAt }, "webp")).toBe(
+      "local_image_20260102_030405.webp"
+    );
+  });
+});
+
+describe("LocalFolderWatcher", () => {
+  let watcher: LocalFolderWatcher;
+  const onChange = vi.fn(async (_sourceId: string) => {});
+
+  beforeEach(() => {
+    onChange.mockClear();
+    watcher = new LocalFolderWatcher(onChange, 100);
+  });
+
+  afterEach(() => {
+    watcher.unwatchAll();
+  });
+
+  it("should debounce a burst of changes into one run", async () => {
+    watcher.watch("source-1", { path: dir });
+    for (let i = 0; i < 5; i++) {
+      addFile(`album/${i}.jpg`);
+    }
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledWith("source-1"));
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("should ignore hidden files", async () => {
+    watcher.watch("source-1", { path: dir });
+    addFile(".beach.jpg.part");
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should stop cleanly, dropping pending runs", async () => {
+    watcher = new LocalFolderWatcher(onChange, 300);
+    watcher.watch("source-1", { path: dir });
+    addFile("beach.jpg");
+    // Let the event arrive, then stop before the debounce runs out
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    watcher.unwatchAll();
+    addFile("lake.jpg");
+
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    expect(onChange).not.toHaveBeenCalled();
+    expect(watcher.getWatchedSourceIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,336 @@
+import { readdir, stat } from "node:fs/promises";
+import { join, relative, sep, extname } from "node:path";
+import { pathToFileURL } from "node:url";
+import { getLogger } from "@packages/otel-server";
+import { getParamsError, localFolderSourceKind } from "$lib/schemas/source";
+import {
+  processDownloadedImage,
+  loadNearDuplicateIndex,
+  copyToTempFile,
+  loadRunnerContext,
+  getRunSkipReason,
+  createRunResult,
+  createErrorResult,
+  applyNsfwMode,
+  filterExistingImages,
+  createProcessorConfig,
+  formatFilenameTimestamp,
+  DEFAULT_TEMP_DIR,
+  type SourceImage,
+  type SourceRunner,
+  type BaseRunnerConfig,
+  type BaseRunResult,
+  type NsfwMode,
+} from "../common";
+
+const logger = getLogger();
+
+/** File extensions picked up by the scanner (formats the image processor can read) */
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp", ".gif"]);
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+};
+
+/** Number of files checked against the database per query */
+const EXISTING_CHECK_CHUNK_SIZE = 500;
+
+/** Number of new files stat'ed at once */
+const STAT_CONCURRENCY = 16;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Local folder source params stored in sources.params JSON
+ */
+export interface LocalFolderSourceParams {
+  /** Absolute path of the folder on the server */
+  path: string;
+  /** Scan sub folders. Default: true */
+  recursive?: boolean;
+  /** Watch the folder and create a run when files change. Default: false */
+  watch?: boolean;
+}
+
+/**
+ * Local folder-specific runner configuration
+ */
+export interface LocalFolderRunnerConfig extends BaseRunnerConfig {
+  // Can add local folder-specific options here if needed
+}
+
+/**
+ * Local folder-specific run result
+ */
+export interface LocalFolderRunResult extends BaseRunResult {
+  /** Folder that was scanned */
+  path?: string;
+}
+
+/**
+ * Image file found while scanning the folder
+ */
+interface LocalFile extends SourceImage {
+  /** Absolute path on disk */
+  filePath: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Recursively walk the image files below a directory, one directory listing at a time.
+ * Hidden files and folders (dotfiles) are ignored.
+ */
+export async function* walkImageFiles(dir: string, recursive: boolean): AsyncGenerator<string> {
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) {
+      continue;
+    }
+
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive) {
+        yield* walkImageFiles(fullPath, recursive);
+      }
+    } else if (entry.isFile() && IMAGE_EXTENSIONS.has(extname(entry.name).toLowerCase())) {
+      yield fullPath;
+    }
+  }
+}
+
+/**
+ * Convert a file path to SourceImage for common processor.
+ * The path relative to the source folder is the stable item ID, and the
+ * file:// URL doubles as download URL for dedupe.
+ */
+function toLocalFile(rootDir: string, filePath: string): LocalFile {
+  const fileUrl = pathToFileURL(filePath).href;
+  return {
+    filePath,
+    downloadUrl: fileUrl,
+    websiteUrl: fileUrl,
+    sourceItemId: relative(rootDir, filePath).split(sep).join("/"),
+    galleryIndex: 0,
+    nsfw: false,
+  };
+}
+
+/**
+ * Add modification time and size to a file
+ * @returns null if the file was removed since the walk
+ */
+async function withFileInfo(file: LocalFile): Promise<LocalFile | null> {
+  try {
+    const info = await stat(file.filePath);
+    return { ...file, sourceCreatedAt: info.mtime, filesize: info.size };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Walk the folder for files that weren't imported yet, stopping once `limit` are found.
+ * Paths are checked against the database a chunk at a time, and only new files are stat'ed.
+ */
+export async function findNewFiles(
+  params: LocalFolderSourceParams,
+  limit: number,
+  nsfwMode: NsfwMode
+): Promise<{ newFiles: LocalFile[]; scanned: number; skippedExisting: number }> {
+  const newFiles: LocalFile[] = [];
+  let scanned = 0;
+  let skippedExisting = 0;
+  let chunk: LocalFile[] = [];
+
+  const checkChunk = async () => {
+    const filtered = await filterExistingImages(applyNsfwMode(chunk, nsfwMode), "LocalFolderRunner.CheckExisting");
+    skippedExisting += filtered.skippedExisting;
+    chunk = [];
+
+    const candidates = filtered.newImages.slice(0, limit - newFiles.length);
+    for (let i = 0; i < candidates.length; i += STAT_CONCURRENCY) {
+      const files = await Promise.all(candidates.slice(i, i + STAT_CONCURRENCY).map(withFileInfo));
+      newFiles.push(...files.filter((file): file is LocalFile => file !== null));
+    }
+  };
+
+  for await (const filePath of walkImageFiles(params.path, params.recursive ?? true)) {
+    scanned++;
+    chunk.push(toLocalFile(params.path, filePath));
+    if (chunk.length === EXISTING_CHECK_CHUNK_SIZE) {
+      await checkChunk();
+      if (newFiles.length >= limit) {
+        break;
+      }
+    }
+  }
+  if (chunk.length > 0 && newFiles.length < limit) {
+    await checkChunk();
+  }
+
+  return { newFiles, scanned, skippedExisting };
+}
+
+// ============================================================================
+// Local Folder Runner
+// ============================================================================
+
+export class LocalFolderRunner implements SourceRunner<LocalFolderRunnerConfig, LocalFolderRunResult> {
+  readonly definition = localFolderSourceKind;
+  readonly kind = localFolderSourceKind.kind;
+
+  validateParams(params: unknown): string | null {
+    return getParamsError(this.definition.paramsSchema, params);
+  }
+
+  /**
+   * Build a discoverable filename for local images.
+   * Format: local_{relative_path}_{timestamp}.{ext}
+   *
+   * Path separators and unsafe characters in the relative path are replaced
+   * with underscores, so the original file can still be recognized.
+   */
+  buildFilename(
+    image: { sourceItemId: string; galleryIndex?: number; sourceCreatedAt?: number | Date },
+    format: string
+  ): string {
+    const timestamp = formatFilenameTimestamp(image.sourceCreatedAt);
+    const name = image.sourceItemId
+      .replace(/\.[^./]+$/, "")
+      .replace(/[^a-zA-Z0-9-]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      .slice(0, 100);
+    return `local_${name || "image"}_${timestamp}.${format}`;
+  }
+
+  async run(sourceId: string, config: LocalFolderRunnerConfig): Promise<LocalFolderRunResult> {
+    const startTime = Date.now();
+
+    // 1. Get source with subscribed devices
+    const context = await loadRunnerContext(sourceId, "LocalFolderRunner.GetSource");
+    if (!context) {
+      return createErrorResult(sourceId, "Unknown", "Source not found");
+    }
+
+    const { source, eligibleDevices } = context;
+    const result: LocalFolderRunResult = createRunResult(sourceId, source.name);
+
+    // 2. Check if source is enabled and has eligible devices
+    const skipReason = getRunSkipReason(context);
+    if (skipReason) {
+      logger.info({ sourceId, sourceName: source.name }, `${skipReason}, skipping`);
+      result.error = skipReason;
+      result.durationMs = Date.now() - startTime;
+      return result;
+    }
+
+    // 3. Validate source params
+    const paramsError = this.validateParams(source.params);
+    if (paramsError) {
+      return createErrorResult(sourceId, source.name, paramsError, startTime);
+    }
+
+    const params = source.params as LocalFolderSourceParams;
+    result.path = params.path;
+
+    logger.info(
+      { sourceId, sourceName: source.name, path: params.path, deviceCount: eligibleDevices.length },
+      `Scanning local folder with ${eligibleDevices.length} eligible devices`
+    );
+
+    // Get NSFW mode from source settings (default to 0 = Auto)
+    const nsfwMode = (source.nsfw ?? 0) as NsfwMode;
+    const processorConfig = createProcessorConfig(sourceId, config, this.buildFilename.bind(this));
+
+    // 4. Scan the folder until lookupLimit new files are found. Remaining files
+    // are picked up by later runs, so huge folders are ingested gradually.
+    let newFiles: LocalFile[];
+    try {
+      const scan = await findNewFiles(params, source.lookupLimit, nsfwMode);
+      newFiles = scan.newFiles;
+      result.imagesFound = scan.scanned;
+      result.imagesSkipped += scan.skippedExisting;
+    } catch (err: any) {
+      logger.error({ err, sourceId, path: params.path }, "Failed to scan local folder");
+      return createErrorResult(sourceId, source.name, `Failed to scan folder: ${err.message}`, startTime);
+    }
+
+    logger.info(
+      { sourceId, found: result.imagesFound, newFiles: newFiles.length },
+      `Importing ${newFiles.length} new files`
+    );
+
+    // 5. Copy and process files one at a time; originals are left in place
+    const nearDuplicates = newFiles.length > 0 ? await loadNearDuplicateIndex(processorConfig) : undefined;
+    for (const file of newFiles) {
+      result.imagesProcessed++;
+      try {
+        const tempFile = await copyToTempFile(file.filePath, config.tempDir ?? DEFAULT_TEMP_DIR);
+        const contentType = CONTENT_TYPES[extname(file.filePath).toLowerCase()];
+        const processResult = await processDownloadedImage(
+          tempFile,
+          contentType,
+          file,
+          eligibleDevices,
+          processorConfig,
+          nearDuplicates
+        );
+
+        if (processResult.success) {
+          result.imagesDownloaded++;
+        } else if (processResult.skipped) {
+          result.imagesSkipped++;
+        } else {
+          result.imagesFailed++;
+        }
+        result.results.push(processResult);
+      } catch (err: any) {
+        result.imagesFailed++;
+        result.results.push({
+          url: file.downloadUrl,
+          success: false,
+          error: err.message ?? String(err),
+        });
+      }
+    }
+
+    result.durationMs = Date.now() - startTime;
+
+    logger.info(
+      {
+        sourceId,
+        sourceName: source.name,
+        duration: result.durationMs,
+        found: result.imagesFound,
+        imported: result.imagesDownloaded,
+        skipped: result.imagesSkipped,
+        failed: result.imagesFailed,
+      },
+      `Local folder source completed in ${(result.durationMs / 1000).toFixed(1)}s`
+    );
+
+    return result;
+  }
+}
+
+export function createLocalFolderRunner(): LocalFolderRunner {
+  return new LocalFolderRunner();
+}
+
+export async function runLocalFolderSource(
+  sourceId: string,
+  config: LocalFolderRunnerConfig
+): Promise<LocalFolderRunResult> {
+  const runner = createLocalFolderRunner();
+  return runner.run(sourceId, config);
+}
@@ -0,0 +1,103 @@
+import { watch, type FSWatcher } from "node:fs";
+import { getLogger } from "@packages/otel-server";
+import type { LocalFolderSourceParams } from "./runner";
+
+const logger = getLogger();
+
+/**
+ * Callback invoked once file changes in a watched folder have settled
+ */
+export type FolderChangeHandler = (sourceId: string) => Promise<void>;
+
+interface WatchedFolder {
+  path: string;
+  watcher: FSWatcher;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Watches local folder sources and reports changes per source.
+ * Bursts of file events (e.g. copying a whole album) are debounced into
+ * a single change notification.
+ */
+export class LocalFolderWatcher {
+  private folders: Map<string, WatchedFolder> = new Map();
+
+  constructor(
+    private onChange: FolderChangeHandler,
+    private debounceMs = 10_000,
+  ) {}
+
+  /**
+   * Start watching a source folder (replaces any existing watch for the source)
+   */
+  watch(sourceId: string, params: LocalFolderSourceParams): void {
+    this.unwatch(sourceId);
+
+    try {
+      const watcher = watch(params.path, { recursive: params.recursive ?? true }, (_event, filename) => {
+        // Ignore hidden files such as partial downloads (.file.jpg.part)
+        if (filename && filename.split(/[\\/]/).some((part) => part.startsWith("."))) {
+          return;
+        }
+        this.schedule(sourceId);
+      });
+
+      watcher.on("error", (err) => {
+        logger.error({ err, sourceId, path: params.path }, "Folder watcher failed, stopped watching");
+        this.unwatch(sourceId);
+      });
+
+      this.folders.set(sourceId, { path: params.path, watcher });
+      logger.info({ sourceId, path: params.path }, "Watching local folder");
+    } catch (err) {
+      logger.error({ err, sourceId, path: params.path }, "Failed to watch local folder");
+    }
+  }
+
+  /**
+   * Stop watching a source folder
+   */
+  unwatch(sourceId: string): void {
+    const folder = this.folders.get(sourceId);
+    if (!folder) {
+      return;
+    }
+
+    clearTimeout(folder.timer);
+    folder.watcher.close();
+    this.folders.delete(sourceId);
+    logger.debug({ sourceId, path: folder.path }, "Stopped watching local folder");
+  }
+
+  /**
+   * Stop watching all folders
+   */
+  unwatchAll(): void {
+    for (const sourceId of [...this.folders.keys()]) {
+      this.unwatch(sourceId);
+    }
+  }
+
+  /**
+   * Source IDs currently being watched
+   */
+  getWatchedSourceIds(): string[] {
+    return [...this.folders.keys()];
+  }
+
+  private schedule(sourceId: string): void {
+    const folder = this.folders.get(sourceId);
+    if (!folder) {
+      return;
+    }
+
+    clearTimeout(folder.timer);
+    folder.timer = setTimeout(() => {
+      folder.timer = undefined;
+      this.onChange(sourceId).catch((err) => {
+        logger.error({ err, sourceId }, "Error handling local folder change");
+      });
+    }, this.debounceMs);
+  }
+}
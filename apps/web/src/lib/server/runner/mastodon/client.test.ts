@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createMastodonClient, type MastodonStatus } from "@packages/mastodon";
+
+function makeStatus(id: string, overrides: Partial<MastodonStatus> = {}): MastodonStatus {
+  return {
+    id,
+    created_at: "2026-01-02T03:04:05.000Z",
+    url: `https://fake.social/@artist/${id}`,
+    uri: `https://fake.social/users/artist/statuses/${id}`,
+    content: "<p>Sunset over the hills &amp; sea</p>",
+    spoiler_text: "",
+    sensitive: false,
+    account: {
+      id: "42",
+      username: "artist",
+      acct: "artist",
+      display_name: "Artist",
+      url: "https://fake.social/@artist",
+    },
+    media_attachments: [
+      {
+        id: `${id}-1`,
+        type: "image",
+        url: `https://files.fake.social/${id}.png`,
+        preview_url: null,
+        remote_url: null,
+        description: null,
+        meta: { original: { width: 3840, height: 2160 } },
+      },
+    ],
+    reblog: null,
+    ...overrides,
+  };
+}
+
+// Newest first, like a real timeline
+const STATUSES = [
+  makeStatus("105", { sensitive: true }),
+  makeStatus("104", {
+    media_attachments: [
+      { ...makeStatus("104").media_attachments[0], type: "video" },
+      { ...makeStatus("104").media_attachments[0], id: "104-2", url: "https://files.fake.social/104-2.jpg" },
+    ],
+  }),
+  makeStatus("103"),
+  makeStatus("102"),
+  makeStatus("101"),
+];
+
+describe("MastodonClient against a fake instance", () => {
+  let server: Server;
+  let instanceUrl: string;
+  const requests: URL[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      requests.push(url);
+      res.setHeader("Content-Type", "application/json");
+
+      if (url.pathname === "/api/v1/accounts/lookup") {
+        res.end(JSON.stringify(STATUSES[0].account));
+        return;
+      }
+
+      if (url.pathname === "/api/v1/timelines/tag/wallpaper" || url.pathname === "/api/v1/accounts/42/statuses") {
+        const maxId = url.searchParams.get("max_id");
+        const limit = Number(url.searchParams.get("limit"));
+        const older = maxId ? STATUSES.filter((s) => BigInt(s.id) < BigInt(maxId)) : STATUSES;
+        res.end(JSON.stringify(older.slice(0, limit)));
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: "Record not found" }));
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    instanceUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should paginate hashtag timelines with max_id", async () => {
+    requests.length = 0;
+    const client = createMastodonClient({ instanceUrl, requestInterval: 0 });
+
+    const batches = [];
+    for await (const batch of client.fetchStatusBatches({
+      target: { type: "hashtag", hashtag: "#wallpaper" },
+      limit: 4,
+    })) {
+      batches.push(batch);
+    }
+
+    expect(requests.map((r) => r.searchParams.get("max_id"))).toEqual([null]);
+    expect(batches).toHaveLength(1);
+    expect(batches[0].statusesProcessed).toBe(4);
+    expect(batches[0].maxId).toBe("102");
+    expect(requests[0].searchParams.get("only_media")).toBe("true");
+  });
+
+  it("should follow max_id until the timeline runs out", async () => {
+    requests.length = 0;
+    const client = createMastodonClient({ instanceUrl, requestInterval: 0 });
+
+    const statusIds: string[] = [];
+    for await (const batch of client.fetchStatusBatches({
+      target: { type: "hashtag", hashtag: "wallpaper" },
+      limit: 100,
+    })) {
+      statusIds.push(...new Set(batch.images.map((img) => img.statusId)));
+    }
+
+    expect(requests.map((r) => r.searchParams.get("max_id"))).toEqual([null, "101"]);
+    expect(statusIds).toEqual(["105", "104", "103", "102", "101"]);
+  });
+
+  it("should map attachments, skipping non-images", async () => {
+    const client = createMastodonClient({ instanceUrl });
+    const { images } = await client.fetchStatuses({ target: { type: "hashtag", hashtag: "wallpaper" }, limit: 2 });
+
+    expect(images).toHaveLength(2);
+    expect(images[0]).toMatchObject({
+      statusId: "105",
+      statusUrl: "https://fake.social/@artist/105",
+      imageUrl: "https://files.fake.social/105.png",
+      width: 3840,
+      height: 2160,
+      title: "Sunset over the hills & sea",
+      author: "Artist",
+      nsfw: true,
+      createdAt: 1767323045,
+      galleryIndex: 0,
+    });
+    expect(images[1]).toMatchObject({ statusId: "104", galleryIndex: 1, nsfw: false });
+  });
+
+  it("should resolve account handles before reading statuses", async () => {
+    requests.length = 0;
+    const client = createMastodonClient({ instanceUrl });
+    const { statusesProcessed } = await client.fetchStatuses({
+      target: { type: "account", acct: "@artist" },
+      limit: 1,
+    });
+
+    expect(statusesProcessed).toBe(1);
+    expect(requests[0].pathname).toBe("/api/v1/accounts/lookup");
+    expect(requests[0].searchParams.get("acct")).toBe("artist");
+    expect(requests[1].searchParams.get("exclude_reblogs")).toBe("true");
+  });
+
+  it("should report API errors", async () => {
+    const client = createMastodonClient({ instanceUrl: `${instanceUrl}/missing` });
+    await expect(
+      client.fetchStatuses({ target: { type: "hashtag", hashtag: "wallpaper" } })
+    ).rejects.toThrow("Mastodon API error: 404");
+  });
+});
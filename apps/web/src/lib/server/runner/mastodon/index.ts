@@ -0,0 +1,13 @@
+import { createMastodonRunner } from "./runner";
+
+export {
+  MastodonRunner,
+  createMastodonRunner,
+  runMastodonSource,
+  type MastodonSourceParams,
+  type MastodonRunnerConfig,
+  type MastodonRunResult,
+} from "./runner";
+
+// Runners of the source kinds in this folder, registered by ../registry
+export default [createMastodonRunner()];
@@ -0,0 +1,253 @@
+import { createMastodonClient, type MastodonImage, type MastodonTarget } from "@packages/mastodon";
+import { getLogger } from "@packages/otel-server";
+import { getParamsError, mastodonSourceKind } from "$lib/schemas/source";
+import {
+  downloadAndProcessImages,
+  loadRunnerContext,
+  getRunSkipReason,
+  createRunResult,
+  createErrorResult,
+  addBatchResult,
+  applyNsfwMode,
+  filterExistingImages,
+  createProcessorConfig,
+  createProxyFetch,
+  formatFilenameTimestamp,
+  type SourceImage,
+  type SourceRunner,
+  type BaseRunnerConfig,
+  type BaseRunResult,
+  type NsfwMode,
+} from "../common";
+
+const logger = getLogger();
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Mastodon source params stored in sources.params JSON
+ */
+export interface MastodonSourceParams {
+  /** Instance URL, e.g. https://mastodon.social */
+  instanceUrl: string;
+  /** Timeline to read */
+  target: "hashtag" | "account";
+  /** Hashtag without # (target: hashtag) */
+  hashtag?: string;
+  /** Account handle, user or user@domain (target: account) */
+  account?: string;
+  /** Include boosts in account timelines. Default: false */
+  includeReblogs?: boolean;
+  /** Access token, for instances that require sign in */
+  accessToken?: string;
+}
+
+/**
+ * Mastodon-specific runner configuration
+ */
+export interface MastodonRunnerConfig extends BaseRunnerConfig {
+  // Can add Mastodon-specific options here if needed
+}
+
+/**
+ * Mastodon-specific run result
+ */
+export interface MastodonRunResult extends BaseRunResult {
+  /** Timeline that was read, e.g. #wallpaper or @artist */
+  timeline?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Convert MastodonImage to SourceImage for common processor.
+ * Statuses marked sensitive are treated as NSFW.
+ */
+function toSourceImage(img: MastodonImage): SourceImage {
+  return {
+    downloadUrl: img.imageUrl,
+    websiteUrl: img.statusUrl,
+    sourceItemId: img.statusId,
+    galleryIndex: img.galleryIndex,
+    title: img.title || undefined,
+    author: img.author,
+    authorUrl: img.authorUrl,
+    nsfw: img.nsfw,
+    sourceCreatedAt: img.createdAt,
+    width: img.width,
+    height: img.height,
+  };
+}
+
+function toTarget(params: MastodonSourceParams): MastodonTarget {
+  return params.target === "account"
+    ? { type: "account", acct: params.account ?? "" }
+    : { type: "hashtag", hashtag: params.hashtag ?? "" };
+}
+
+// ============================================================================
+// Mastodon Runner
+// ============================================================================
+
+export class MastodonRunner implements SourceRunner<MastodonRunnerConfig, MastodonRunResult> {
+  readonly definition = mastodonSourceKind;
+  readonly kind = mastodonSourceKind.kind;
+
+  validateParams(params: unknown): string | null {
+    return getParamsError(this.definition.paramsSchema, params);
+  }
+
+  /**
+   * Build a discoverable filename for Mastodon images.
+   * Format: mastodon_{statusId}[_{gallery}]_{timestamp}.{ext}
+   *
+   * The status ID is only meaningful on the source's instance.
+   */
+  buildFilename(
+    image: { sourceItemId: string; galleryIndex?: number; sourceCreatedAt?: number | Date },
+    format: string
+  ): string {
+    const timestamp = formatFilenameTimestamp(image.sourceCreatedAt);
+
+    // Gallery suffix only if gallery index > 0
+    const gallerySuffix = image.galleryIndex && image.galleryIndex > 0
+      ? `_${image.galleryIndex}`
+      : "";
+
+    const id = image.sourceItemId.replace(/[^a-zA-Z0-9-]+/g, "_");
+    return `mastodon_${id}${gallerySuffix}_${timestamp}.${format}`;
+  }
+
+  async run(sourceId: string, config: MastodonRunnerConfig): Promise<MastodonRunResult> {
+    const startTime = Date.now();
+
+    // 1. Get source with subscribed devices
+    const context = await loadRunnerContext(sourceId, "MastodonRunner.GetSource");
+    if (!context) {
+      return createErrorResult(sourceId, "Unknown", "Source not found");
+    }
+
+    const { source, eligibleDevices } = context;
+    const result: MastodonRunResult = createRunResult(sourceId, source.name);
+
+    // 2. Check if source is enabled and has eligible devices
+    const skipReason = getRunSkipReason(context);
+    if (skipReason) {
+      logger.info({ sourceId, sourceName: source.name }, `${skipReason}, skipping`);
+      result.error = skipReason;
+      result.durationMs = Date.now() - startTime;
+      return result;
+    }
+
+    logger.info(
+      { sourceId, sourceName: source.name, deviceCount: eligibleDevices.length },
+      `Running Mastodon source with ${eligibleDevices.length} eligible devices`
+    );
+
+    // 3. Validate source params
+    const paramsError = this.validateParams(source.params);
+    if (paramsError) {
+      return createErrorResult(sourceId, source.name, paramsError, startTime);
+    }
+
+    const params = source.params as MastodonSourceParams;
+    result.timeline = params.target === "account" ? `@${params.account}` : `#${params.hashtag}`;
+
+    // Get NSFW mode from source settings (default to 0 = Auto)
+    const nsfwMode = (source.nsfw ?? 0) as NsfwMode;
+
+    // 4. Fetch and process in batches using async generator
+    const mastodonClient = createMastodonClient({
+      instanceUrl: params.instanceUrl,
+      accessToken: params.accessToken || undefined,
+      fetch: createProxyFetch(config.proxyUrl),
+    });
+    const processorConfig = createProcessorConfig(sourceId, config, this.buildFilename.bind(this));
+
+    try {
+      for await (const batch of mastodonClient.fetchStatusBatches({
+        target: toTarget(params),
+        includeReblogs: params.includeReblogs ?? false,
+        limit: source.lookupLimit,
+      })) {
+        result.imagesFound += batch.images.length;
+
+        logger.info(
+          {
+            sourceId,
+            batchSize: batch.images.length,
+            statuses: batch.statusesProcessed,
+            totalFound: result.imagesFound,
+          },
+          `Fetched batch: ${batch.images.length} images from ${batch.statusesProcessed} statuses`
+        );
+
+        // Apply NSFW mode (1 = SFW Only skips NSFW images, 2 = NSFW Only marks all as NSFW)
+        const sourceImages = applyNsfwMode(batch.images.map(toSourceImage), nsfwMode);
+        result.imagesSkipped += batch.images.length - sourceImages.length;
+
+        if (sourceImages.length === 0) {
+          continue;
+        }
+
+        // Filter out already downloaded images
+        const { newImages, skippedExisting } = await filterExistingImages(
+          sourceImages,
+          "MastodonRunner.CheckExisting"
+        );
+
+        result.imagesSkipped += skippedExisting;
+
+        if (newImages.length === 0) {
+          logger.debug({ sourceId, skippedExisting }, `Batch skipped: no new images`);
+          continue;
+        }
+
+        logger.info(
+          { sourceId, newImages: newImages.length, skippedExisting },
+          `Processing ${newImages.length} new images (${skippedExisting} already exist)`
+        );
+
+        const processResult = await downloadAndProcessImages(newImages, eligibleDevices, processorConfig);
+        addBatchResult(result, processResult);
+      }
+    } catch (err: any) {
+      logger.error({ err, sourceId }, "Failed to fetch from Mastodon");
+      result.success = false;
+      result.error = `Mastodon fetch failed: ${err.message}`;
+    }
+
+    result.durationMs = Date.now() - startTime;
+
+    logger.info(
+      {
+        sourceId,
+        sourceName: source.name,
+        duration: result.durationMs,
+        found: result.imagesFound,
+        downloaded: result.imagesDownloaded,
+        skipped: result.imagesSkipped,
+        failed: result.imagesFailed,
+      },
+      `Mastodon source completed in ${(result.durationMs / 1000).toFixed(1)}s`
+    );
+
+    return result;
+  }
+}
+
+export function createMastodonRunner(): MastodonRunner {
+  return new MastodonRunner();
+}
+
+export async function runMastodonSource(
+  sourceId: string,
+  config: MastodonRunnerConfig
+): Promise<MastodonRunResult> {
+  const runner = createMastodonRunner();
+  return runner.run(sourceId, config);
+}
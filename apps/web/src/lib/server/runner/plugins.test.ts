@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRunnerRegistry, getRunner, registerRunner, type RunnerRegistry } from "./common/types";
+import { loadRunnerPlugins, type RunnerPluginHost } from "./plugins";
+
+// Plugin runner for kind `kind` whose schema requires params.tag
+function pluginSource(kind: string, exportStyle: "named" | "default" | "factory" = "named"): string {
+  const plugin = `{
+    runner: {
+      kind: ${JSON.stringify(kind)},
+      run: async (sourceId) => ({ sourceId, host: typeof host }),
+      validateParams: (params) => (params.tag === "bad" ? "Tag is not allowed" : null),
+      buildFilename: (image, format) => \`${kind}_\${image.sourceItemId}.\${format}\`,
+    },
+    paramsSchema: {
+      safeParse: (params) =>
+        typeof params?.tag === "string"
+          ? { success: true }
+          : { success: false, error: { issues: [{ path: ["tag"], message: "Required" }] } },
+    },
+  }`;
+
+  switch (exportStyle) {
+    case "named":
+      return `const host = undefined;\nconst { runner, paramsSchema } = ${plugin};\nexport { runner, paramsSchema };\n`;
+    case "default":
+      return `const host = undefined;\nexport default ${plugin};\n`;
+    case "factory":
+      return `export default (host) => (${plugin});\n`;
+  }
+}
+
+const host = { marker: true } as unknown as RunnerPluginHost;
+
+describe("loadRunnerPlugins", () => {
+  let dir: string;
+  let registry: RunnerRegistry;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "fallpaper-plugins-test-"));
+    registry = createRunnerRegistry();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should register runners from named, default and factory exports", async () => {
+    writeFileSync(join(dir, "a.mjs"), pluginSource("alpha", "named"));
+    writeFileSync(join(dir, "b.mjs"), pluginSource("beta", "default"));
+    writeFileSync(join(dir, "c.mjs"), pluginSource("gamma", "factory"));
+
+    const results = await loadRunnerPlugins(dir, registry, host);
+
+    expect(results).toEqual([
+      { file: join(dir, "a.mjs"), kind: "alpha" },
+      { file: join(dir, "b.mjs"), kind: "beta" },
+      { file: join(dir, "c.mjs"), kind: "gamma" },
+    ]);
+    expect([...registry.keys()]).toEqual(["alpha", "beta", "gamma"]);
+
+    // Factories receive the host helpers
+    await expect(getRunner(registry, "gamma")!.run("src-1", {})).resolves.toEqual({
+      sourceId: "src-1",
+      host: "object",
+    });
+    expect(getRunner(registry, "alpha")!.buildFilename({ sourceItemId: "42" }, "jpg")).toBe("alpha_42.jpg");
+  });
+
+  it("should check params against the plugin schema before the runner", async () => {
+    writeFileSync(join(dir, "a.mjs"), pluginSource("alpha"));
+    await loadRunnerPlugins(dir, registry, host);
+
+    const runner = getRunner(registry, "alpha")!;
+    expect(runner.validateParams({})).toBe("Invalid tag: Required");
+    expect(runner.validateParams({ tag: "bad" })).toBe("Tag is not allowed");
+    expect(runner.validateParams({ tag: "cats" })).toBeNull();
+  });
+
+  it("should report broken plugins without registering them", async () => {
+    writeFileSync(join(dir, "empty.mjs"), "export const nothing = 1;\n");
+    writeFileSync(join(dir, "kind.mjs"), pluginSource("Bad Kind"));
+    writeFileSync(join(dir, "throws.mjs"), 'throw new Error("boom");\n');
+    writeFileSync(join(dir, "schema.mjs"), 'export const runner = { kind: "nos", run() {}, validateParams() {}, buildFilename() {} };\n');
+
+    const results = await loadRunnerPlugins(dir, registry, host);
+
+    expect(results).toEqual([
+      { file: join(dir, "empty.mjs"), error: "Plugin does not export a runner" },
+      { file: join(dir, "kind.mjs"), error: "Runner kind must be lowercase letters, digits and underscores" },
+      { file: join(dir, "schema.mjs"), error: "Plugin does not export a params schema" },
+      { file: join(dir, "throws.mjs"), error: "Failed to load: boom" },
+    ]);
+    expect(registry.size).toBe(0);
+  });
+
+  it("should not replace runners that are already registered", async () => {
+    const builtIn = { kind: "reddit", run: async () => ({}), validateParams: () => null, buildFilename: () => "" };
+    registerRunner(registry, builtIn as any);
+    writeFileSync(join(dir, "reddit.mjs"), pluginSource("reddit"));
+
+    const results = await loadRunnerPlugins(dir, registry, host);
+
+    expect(results).toEqual([
+      { file: join(dir, "reddit.mjs"), kind: "reddit", error: 'Source kind "reddit" is already registered' },
+    ]);
+    expect(getRunner(registry, "reddit")).toBe(builtIn);
+  });
+
+  it("should only load module files", async () => {
+    writeFileSync(join(dir, "a.mjs"), pluginSource("alpha"));
+    writeFileSync(join(dir, "types.d.ts"), "export {};\n");
+    writeFileSync(join(dir, "README.md"), "# plugins\n");
+
+    const results = await loadRunnerPlugins(dir, registry, host);
+
+    expect(results.map((r) => r.file)).toEqual([join(dir, "a.mjs")]);
+  });
+
+  it("should report a missing plugins directory", async () => {
+    const results = await loadRunnerPlugins(join(dir, "missing"), registry, host);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].file).toBe(join(dir, "missing"));
+    expect(results[0].error).toMatch(/^Cannot read plugins directory/);
+  });
+});
@@ -0,0 +1,161 @@
+import { readdir } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { getParamsError, type ParamsSchema } from "$lib/schemas/source";
+import { getRunner, registerRunner, type RunnerRegistry, type SourceRunner } from "./common/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Helpers handed to plugin factories, so out-of-tree runners can reuse the
+ * download and processing pipeline without importing app internals
+ */
+export type RunnerPluginHost = typeof import("./common");
+
+/**
+ * Params schema exported by a plugin (any Zod-compatible schema)
+ */
+export type RunnerPluginParamsSchema = ParamsSchema;
+
+/**
+ * What a plugin module exports, as its default export or as named exports
+ */
+export interface RunnerPlugin {
+  /** Runner for the plugin's source kind */
+  runner: SourceRunner<any, any>;
+  /** Schema for sources.params, checked before the runner's own validateParams */
+  paramsSchema: RunnerPluginParamsSchema;
+}
+
+/**
+ * A plugin module may also default-export a factory receiving the runner helpers
+ */
+export type RunnerPluginFactory = (host: RunnerPluginHost) => RunnerPlugin | Promise<RunnerPlugin>;
+
+/**
+ * Outcome of loading one plugin file
+ */
+export interface RunnerPluginResult {
+  /** Plugin file (or the plugins directory when it could not be read) */
+  file: string;
+  /** Source kind registered by the plugin */
+  kind?: string;
+  /** Why the plugin was not registered */
+  error?: string;
+}
+
+// Modules loaded from the plugins directory (.ts/.mts need a runtime that can import TypeScript, e.g. Bun)
+const PLUGIN_FILE_PATTERN = /^(?!.*\.d\.[cm]?ts$).+\.(js|mjs|ts|mts)$/;
+
+// Source kinds are stored in sources.kind
+const KIND_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check the shape of a plugin module's exports
+ * @returns error message, or null when the plugin is usable
+ */
+function getPluginError(plugin: Partial<RunnerPlugin> | undefined): string | null {
+  const runner = plugin?.runner;
+  if (!runner || typeof runner !== "object") {
+    return "Plugin does not export a runner";
+  }
+  if (typeof runner.kind !== "string" || !KIND_PATTERN.test(runner.kind)) {
+    return "Runner kind must be lowercase letters, digits and underscores";
+  }
+  for (const method of ["run", "validateParams", "buildFilename"] as const) {
+    if (typeof runner[method] !== "function") {
+      return `Runner is missing ${method}()`;
+    }
+  }
+  if (typeof plugin.paramsSchema?.safeParse !== "function") {
+    return "Plugin does not export a params schema";
+  }
+  return null;
+}
+
+/**
+ * Wrap a plugin runner so params are checked against its schema first
+ */
+function withParamsSchema(runner: SourceRunner<any, any>, schema: RunnerPluginParamsSchema): SourceRunner<any, any> {
+  return {
+    kind: runner.kind,
+    run: (sourceId, config) => runner.run(sourceId, config),
+    buildFilename: (image, format) => runner.buildFilename(image, format),
+    validateParams(params) {
+      return getParamsError(schema, params) ?? runner.validateParams(params);
+    },
+  };
+}
+
+/**
+ * Import one plugin file and resolve its exports
+ */
+async function importPlugin(file: string, host: RunnerPluginHost): Promise<Partial<RunnerPlugin> | undefined> {
+  const mod = await import(/* @vite-ignore */ pathToFileURL(file).href);
+  const exported = mod.default ?? mod;
+  return typeof exported === "function" ? await (exported as RunnerPluginFactory)(host) : exported;
+}
+
+// ============================================================================
+// Loader
+// ============================================================================
+
+/**
+ * Load every plugin module in a directory and register its runner.
+ * Never throws: failures are returned per file so they can be shown to the user.
+ *
+ * @param dir - Plugins directory (not recursive)
+ * @param registry - Registry to add the plugin runners to
+ * @param host - Helpers passed to plugin factories
+ */
+export async function loadRunnerPlugins(
+  dir: string,
+  registry: RunnerRegistry,
+  host: RunnerPluginHost
+): Promise<RunnerPluginResult[]> {
+  const pluginsDir = resolve(dir);
+
+  let files: string[];
+  try {
+    const entries = await readdir(pluginsDir, { withFileTypes: true });
+    files = entries
+      .filter((entry) => entry.isFile() && PLUGIN_FILE_PATTERN.test(entry.name))
+      .map((entry) => join(pluginsDir, entry.name))
+      .sort();
+  } catch (err: any) {
+    return [{ file: pluginsDir, error: `Cannot read plugins directory: ${err.message}` }];
+  }
+
+  const results: RunnerPluginResult[] = [];
+
+  for (const file of files) {
+    try {
+      const plugin = await importPlugin(file, host);
+
+      const pluginError = getPluginError(plugin);
+      if (pluginError) {
+        results.push({ file, error: pluginError });
+        continue;
+      }
+
+      const { runner, paramsSchema } = plugin as RunnerPlugin;
+      if (getRunner(registry, runner.kind)) {
+        results.push({ file, kind: runner.kind, error: `Source kind "${runner.kind}" is already registered` });
+        continue;
+      }
+
+      registerRunner(registry, withParamsSchema(runner, paramsSchema));
+      results.push({ file, kind: runner.kind });
+    } catch (err: any) {
+      results.push({ file, error: `Failed to load: ${err?.message ?? String(err)}` });
+    }
+  }
+
+  return results;
+}
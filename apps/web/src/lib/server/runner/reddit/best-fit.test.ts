@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import type { Device } from "@packages/database";
+import { pickBestFitPreview } from "./best-fit";
+
+function device(overrides: Partial<Device> = {}): Device {
+  return {
+    id: "d1",
+    slug: "phone",
+    name: "Phone",
+    enabled: true,
+    width: 1080,
+    height: 2400,
+    aspectRatioDeviation: 10,
+    minWidth: null,
+    maxWidth: null,
+    minHeight: null,
+    maxHeight: null,
+    minFilesize: null,
+    maxFilesize: null,
+    nsfw: 0,
+    ...overrides,
+  } as Device;
+}
+
+const previews = [
+  { url: "https://preview.redd.it/a.jpg?width=640", width: 640, height: 1422 },
+  { url: "https://preview.redd.it/a.jpg?width=1080", width: 1080, height: 2400 },
+  { url: "https://preview.redd.it/a.jpg?width=2160", width: 2160, height: 4800 },
+];
+
+const image = { width: 5400, height: 12000, nsfw: false, previews };
+
+describe("pickBestFitPreview", () => {
+  it("should pick the smallest preview covering the largest device", () => {
+    expect(pickBestFitPreview(image, [device()])?.width).toBe(1080);
+    expect(pickBestFitPreview(image, [device(), device({ id: "d2", width: 1440, height: 3200 })])?.width).toBe(2160);
+  });
+
+  it("should respect device minimum image sizes", () => {
+    expect(pickBestFitPreview(image, [device({ minHeight: 3000 })])?.width).toBe(2160);
+  });
+
+  it("should ignore devices the image is not eligible for", () => {
+    const tablet = device({ id: "d2", width: 2560, height: 1600, aspectRatioDeviation: 0.1 });
+    expect(pickBestFitPreview(image, [device(), tablet])?.width).toBe(1080);
+    expect(pickBestFitPreview({ ...image, nsfw: true }, [device({ nsfw: 1 })])).toBeNull();
+  });
+
+  it("should keep the source when no preview covers the devices", () => {
+    expect(pickBestFitPreview(image, [device({ width: 3840, height: 8000 })])).toBeNull();
+  });
+
+  it("should keep the source when its size or previews are unknown", () => {
+    expect(pickBestFitPreview({ ...image, width: 0, height: 0 }, [device()])).toBeNull();
+    expect(pickBestFitPreview({ ...image, previews: undefined }, [device()])).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import type { Device } from "@packages/database";
+import type { RedditImage, RedditImageSource } from "@packages/reddit";
+import { getEligibleDevices } from "../common/image-filter";
+
+/**
+ * Pick the smallest preview rendition that still covers every device the
+ * full-size image is eligible for, or null to keep the full-size source.
+ *
+ * A rendition covers a device when it is at least as large as the device
+ * screen (and the device's minimum image size) in both dimensions, so it
+ * never needs upscaling.
+ */
+export function pickBestFitPreview(
+  image: Pick<RedditImage, "width" | "height" | "nsfw" | "previews">,
+  devices: Device[]
+): RedditImageSource | null {
+  // Unknown source size: nothing to compare against
+  if (!image.previews?.length || image.width <= 0 || image.height <= 0) {
+    return null;
+  }
+
+  const eligible = getEligibleDevices(devices, { width: image.width, height: image.height, nsfw: image.nsfw });
+  if (eligible.length === 0) {
+    return null;
+  }
+
+  const neededWidth = Math.max(...eligible.map((d) => Math.max(d.width, d.minWidth ?? 0)));
+  const neededHeight = Math.max(...eligible.map((d) => Math.max(d.height, d.minHeight ?? 0)));
+
+  const best = image.previews
+    .filter((p) => p.width >= neededWidth && p.height >= neededHeight)
+    .sort((a, b) => a.width * a.height - b.width * b.height)[0];
+
+  // Only worth it when the rendition is actually smaller than the source
+  return best && best.width < image.width ? best : null;
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createRedditClient } from "@packages/reddit";
+
+describe("RedditClient.parseTargetPath", () => {
+  const client = createRedditClient();
+
+  it("should resolve subreddits and users", () => {
+    expect(client.parseTargetPath("/r/wallpapers")).toEqual({ type: "subreddit", path: "/r/wallpapers", searchParams: {} });
+    expect(client.parseTargetPath("wallpapers").path).toBe("/r/wallpapers");
+    expect(client.parseTargetPath("/u/artist")).toEqual({ type: "user", path: "/user/artist/submitted", searchParams: {} });
+  });
+
+  it("should resolve multireddits", () => {
+    expect(client.parseTargetPath("/r/wallpapers+earthporn")).toEqual({
+      type: "multireddit",
+      path: "/r/wallpapers+earthporn",
+      searchParams: {},
+    });
+    expect(client.parseTargetPath("/u/artist/m/walls/").path).toBe("/user/artist/m/walls");
+  });
+
+  it("should resolve subreddit searches", () => {
+    expect(client.parseTargetPath("/r/wallpapers/search?q=4k+landscape&restrict_sr=1")).toEqual({
+      type: "search",
+      path: "/r/wallpapers/search",
+      searchParams: { q: "4k landscape", restrict_sr: "1" },
+    });
+    expect(() => client.parseTargetPath("/r/wallpapers/search?restrict_sr=1")).toThrow("missing a q= query");
+  });
+
+  it("should resolve domain listings", () => {
+    expect(client.parseTargetPath("/domain/i.redd.it")).toEqual({ type: "domain", path: "/domain/i.redd.it", searchParams: {} });
+  });
+
+  it("should reject anything else", () => {
+    expect(() => client.parseTargetPath("/r/wallpapers/comments/abc")).toThrow("Unsupported Reddit target");
+    expect(() => client.parseTargetPath("/r/wallpapers?q=4k")).toThrow("only search paths take a query");
+  });
+});
+
+describe("RedditClient rate limiting and OAuth", () => {
+  let server: Server;
+  let url: string;
+  const requests: { path: string; auth?: string }[] = [];
+  let tooManyRequests = 0;
+  let tokensIssued = 0;
+
+  const emptyListing = { kind: "Listing", data: { after: null, before: null, children: [], dist: 0, modhash: "" } };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const path = new URL(req.url ?? "/", "http://localhost").pathname;
+      requests.push({ path, auth: req.headers.authorization });
+      res.setHeader("Content-Type", "application/json");
+
+      if (path === "/api/v1/access_token") {
+        tokensIssued++;
+        res.end(JSON.stringify({ access_token: `token-${tokensIssued}`, token_type: "bearer", expires_in: 86400, scope: "*" }));
+        return;
+      }
+
+      if (tooManyRequests > 0) {
+        tooManyRequests--;
+        res.statusCode = 429;
+        res.setHeader("Retry-After", "0");
+        res.end(JSON.stringify({ message: "Too Many Requests" }));
+        return;
+      }
+
+      res.setHeader("x-ratelimit-remaining", "99");
+      res.setHeader("x-ratelimit-reset", "0");
+      res.end(JSON.stringify(emptyListing));
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should use the anonymous JSON API without credentials", async () => {
+    requests.length = 0;
+    const client = createRedditClient({ baseUrl: url, oauthUrl: `${url}/oauth` });
+    await client.fetchSubreddit({ subreddit: "/r/wallpapers" });
+
+    expect(client.authenticated).toBe(false);
+    expect(requests).toEqual([{ path: "/r/wallpapers/new.json", auth: undefined }]);
+  });
+
+  it("should fetch a client credentials token once and call the OAuth API", async () => {
+    requests.length = 0;
+    const client = createRedditClient({ baseUrl: url, oauthUrl: `${url}/oauth`, clientId: "id", clientSecret: "secret" });
+    await client.fetchSubreddit({ subreddit: "/r/wallpapers" });
+    await client.fetchSubreddit({ subreddit: "/r/wallpapers", sort: "top" });
+
+    expect(requests.map((r) => r.path)).toEqual(["/api/v1/access_token", "/oauth/r/wallpapers/new", "/oauth/r/wallpapers/top"]);
+    expect(requests[0].auth).toBe(`Basic ${Buffer.from("id:secret").toString("base64")}`);
+    expect(requests[1].auth).toBe(`Bearer token-${tokensIssued}`);
+  });
+
+  it("should wait and retry on 429 instead of failing", async () => {
+    requests.length = 0;
+    tooManyRequests = 2;
+    const client = createRedditClient({ baseUrl: url });
+    const result = await client.fetchSubreddit({ subreddit: "/r/wallpapers" });
+
+    expect(result.postsProcessed).toBe(0);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("should give up after maxRetries", async () => {
+    tooManyRequests = 5;
+    const client = createRedditClient({ baseUrl: url, maxRetries: 1 });
+    await expect(client.fetchSubreddit({ subreddit: "/r/wallpapers" })).rejects.toThrow("Reddit API error: 429");
+    tooManyRequests = 0;
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { getPostFilterReason, validatePostFilters } from "./filters";
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+const post = {
+  score: 120,
+  upvoteRatio: 0.93,
+  flair: "Desktop",
+  domain: "i.redd.it",
+  createdAt: NOW / 1000 - 5 * 3600,
+};
+
+describe("getPostFilterReason", () => {
+  it("should pass posts when no filters are set", () => {
+    expect(getPostFilterReason(post, {}, NOW)).toBeNull();
+  });
+
+  it("should skip posts below minimum score or upvote ratio", () => {
+    expect(getPostFilterReason(post, { minScore: 121 }, NOW)).toBe("Score 120 below minimum 121");
+    expect(getPostFilterReason(post, { minScore: 120 }, NOW)).toBeNull();
+    expect(getPostFilterReason(post, { minUpvoteRatio: 0.95 }, NOW)).toBe("Upvote ratio 93% below minimum 95%");
+  });
+
+  it("should match flairs case-insensitively", () => {
+    expect(getPostFilterReason(post, { allowedFlairs: ["desktop", "4K"] }, NOW)).toBeNull();
+    expect(getPostFilterReason(post, { allowedFlairs: ["Mobile"] }, NOW)).toBe('Flair "Desktop" not allowed');
+    expect(getPostFilterReason({ ...post, flair: undefined }, { allowedFlairs: ["Mobile"] }, NOW)).toBe(
+      "Post has no flair"
+    );
+    expect(getPostFilterReason(post, { blockedFlairs: [" DESKTOP "] }, NOW)).toBe('Flair "Desktop" is blocked');
+  });
+
+  it("should match domains including subdomains", () => {
+    expect(getPostFilterReason({ ...post, domain: "i.imgur.com" }, { allowedDomains: ["imgur.com"] }, NOW)).toBeNull();
+    expect(getPostFilterReason(post, { allowedDomains: ["imgur.com"] }, NOW)).toBe("Domain i.redd.it not allowed");
+    expect(getPostFilterReason(post, { blockedDomains: ["redd.it"] }, NOW)).toBe("Domain i.redd.it is blocked");
+    expect(getPostFilterReason({ ...post, domain: "notredd.it" }, { blockedDomains: ["redd.it"] }, NOW)).toBeNull();
+  });
+
+  it("should skip posts older than the maximum age", () => {
+    expect(getPostFilterReason(post, { maxAgeHours: 6 }, NOW)).toBeNull();
+    expect(getPostFilterReason(post, { maxAgeHours: 4 }, NOW)).toBe("Post is 5h old, maximum 4h");
+  });
+});
+
+describe("validatePostFilters", () => {
+  it("should accept valid filters", () => {
+    expect(
+      validatePostFilters({ minScore: -5, minUpvoteRatio: 0.9, allowedFlairs: ["Desktop"], maxAgeHours: 24 })
+    ).toBeNull();
+  });
+
+  it("should reject invalid filters", () => {
+    expect(validatePostFilters({ minScore: "10" })).toBe("Invalid minScore: must be a number");
+    expect(validatePostFilters({ minUpvoteRatio: 90 })).toBe("Invalid minUpvoteRatio: must be between 0 and 1");
+    expect(validatePostFilters({ blockedDomains: "imgur.com" })).toBe("Invalid blockedDomains: must be a list of strings");
+    expect(validatePostFilters({ maxAgeHours: 0 })).toBe("Invalid maxAgeHours: must be positive");
+  });
+});
@@ -0,0 +1,89 @@
+import type { RedditImage } from "@packages/reddit";
+import { getParamsError, redditPostFiltersSchema } from "$lib/schemas/source";
+
+/**
+ * Optional post quality filters, stored with the Reddit source params.
+ * Lists match case-insensitively; empty lists and unset numbers disable a filter.
+ */
+export interface RedditPostFilters {
+  /** Minimum post score (upvotes - downvotes) */
+  minScore?: number;
+  /** Minimum share of upvotes, 0-1 */
+  minUpvoteRatio?: number;
+  /** Only keep posts with one of these flairs */
+  allowedFlairs?: string[];
+  /** Skip posts with one of these flairs */
+  blockedFlairs?: string[];
+  /** Only keep posts linking to these domains (subdomains included) */
+  allowedDomains?: string[];
+  /** Skip posts linking to these domains (subdomains included) */
+  blockedDomains?: string[];
+  /** Skip posts older than this many hours */
+  maxAgeHours?: number;
+}
+
+function normalize(values: string[] | undefined): string[] {
+  return (values ?? []).map((v) => v.trim().toLowerCase()).filter((v) => v !== "");
+}
+
+/**
+ * Check if a domain equals or is a subdomain of one of the listed domains
+ */
+function matchesDomain(domain: string, domains: string[]): boolean {
+  const d = domain.toLowerCase();
+  return domains.some((listed) => d === listed || d.endsWith(`.${listed}`));
+}
+
+/**
+ * Get the reason a post fails the filters, or null if it passes
+ * @param image - Image with its post's score, ratio, flair, domain and creation time
+ * @param filters - Source filters
+ * @param now - Current time in ms (for the age filter)
+ */
+export function getPostFilterReason(
+  image: Pick<RedditImage, "score" | "upvoteRatio" | "flair" | "domain" | "createdAt">,
+  filters: RedditPostFilters,
+  now: number = Date.now()
+): string | null {
+  if (filters.minScore !== undefined && image.score < filters.minScore) {
+    return `Score ${image.score} below minimum ${filters.minScore}`;
+  }
+
+  if (filters.minUpvoteRatio !== undefined && image.upvoteRatio < filters.minUpvoteRatio) {
+    return `Upvote ratio ${Math.round(image.upvoteRatio * 100)}% below minimum ${Math.round(filters.minUpvoteRatio * 100)}%`;
+  }
+
+  const flair = image.flair?.trim().toLowerCase() ?? "";
+  const allowedFlairs = normalize(filters.allowedFlairs);
+  if (allowedFlairs.length > 0 && !allowedFlairs.includes(flair)) {
+    return flair ? `Flair "${image.flair}" not allowed` : "Post has no flair";
+  }
+  if (flair && normalize(filters.blockedFlairs).includes(flair)) {
+    return `Flair "${image.flair}" is blocked`;
+  }
+
+  const allowedDomains = normalize(filters.allowedDomains);
+  if (allowedDomains.length > 0 && !matchesDomain(image.domain, allowedDomains)) {
+    return `Domain ${image.domain} not allowed`;
+  }
+  if (matchesDomain(image.domain, normalize(filters.blockedDomains))) {
+    return `Domain ${image.domain} is blocked`;
+  }
+
+  if (filters.maxAgeHours !== undefined) {
+    const ageHours = (now / 1000 - image.createdAt) / 3600;
+    if (ageHours > filters.maxAgeHours) {
+      return `Post is ${Math.floor(ageHours)}h old, maximum ${filters.maxAgeHours}h`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate filter params from sources.params
+ * @returns null if valid, error message if invalid
+ */
+export function validatePostFilters(p: Record<string, unknown>): string | null {
+  return getParamsError(redditPostFiltersSchema, p);
+}
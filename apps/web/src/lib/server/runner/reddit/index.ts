@@ -1,8 +1,15 @@
+import { getRedditConfig } from "$lib/server/config";
+import { createRedditRunner } from "./runner";
+
 export {
   RedditRunner,
   createRedditRunner,
   runRedditSource,
   type RedditSourceParams,
   type RedditRunnerConfig,
+  type RedditCredentials,
   type RedditRunResult,
 } from "./runner";
+
+// Runners of the source kinds in this folder, registered by ../registry
+export default [createRedditRunner(getRedditConfig)];
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  LinkResolverRegistry,
+  createArtStationResolver,
+  createFlickrResolver,
+  createImgurResolver,
+  createRedditClient,
+  type LinkResolver,
+} from "@packages/reddit";
+
+const context = { userAgent: "test", timeout: 5000, fetch };
+
+describe("link resolvers against a fake host", () => {
+  let server: Server;
+  let url: string;
+  const requests: { path: string; auth?: string }[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const { pathname } = new URL(req.url ?? "/", "http://localhost");
+      requests.push({ path: pathname, auth: req.headers.authorization });
+      res.setHeader("Content-Type", "application/json");
+
+      if (pathname === "/imgur/album/AbCdE12/images") {
+        res.end(
+          JSON.stringify({
+            success: true,
+            status: 200,
+            data: [
+              { id: "one", link: "https://i.imgur.com/one.png", width: 3840, height: 2160, type: "image/png", animated: false },
+              { id: "two", link: "https://i.imgur.com/two.gif", width: 500, height: 500, type: "image/gif", animated: true },
+              { id: "three", link: "https://i.imgur.com/three.jpg", width: 2560, height: 1440, type: "image/jpeg", animated: false },
+            ],
+          })
+        );
+        return;
+      }
+
+      if (pathname === "/projects/Xy12ab.json") {
+        res.end(
+          JSON.stringify({
+            assets: [
+              { asset_type: "image", has_image: true, image_url: "https://cdn.art/large/a.jpg?1", width: 3840, height: 2160 },
+              { asset_type: "video", has_image: false, image_url: "", width: 0, height: 0 },
+              { asset_type: "image", has_image: true, image_url: "https://cdn.art/large/b.jpg?2", width: 1600, height: 900 },
+            ],
+          })
+        );
+        return;
+      }
+
+      if (pathname === "/oembed") {
+        res.end(JSON.stringify({ type: "photo", url: "https://live.staticflickr.com/1/123456_abc_b.jpg", width: "2048", height: 1365 }));
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end("{}");
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should map single Imgur images without a request", async () => {
+    const imgur = createImgurResolver();
+    expect(await imgur.resolve(new URL("https://imgur.com/AbCdE12"), context)).toEqual([
+      { url: "https://i.imgur.com/AbCdE12.jpg", width: 0, height: 0, galleryIndex: 0 },
+    ]);
+    expect(await imgur.resolve(new URL("https://i.imgur.com/AbCdE12.gifv"), context)).toEqual([]);
+  });
+
+  it("should resolve Imgur albums with a client ID, skipping animations", async () => {
+    requests.length = 0;
+    const imgur = createImgurResolver({ clientId: "cid", apiUrl: `${url}/imgur` });
+    const images = await imgur.resolve(new URL("https://imgur.com/gallery/mountain-sunsets-AbCdE12"), context);
+
+    expect(images).toEqual([
+      { url: "https://i.imgur.com/one.png", width: 3840, height: 2160, galleryIndex: 0 },
+      { url: "https://i.imgur.com/three.jpg", width: 2560, height: 1440, galleryIndex: 1 },
+    ]);
+    expect(requests[0].auth).toBe("Client-ID cid");
+  });
+
+  it("should skip Imgur albums without a client ID", async () => {
+    const imgur = createImgurResolver({ apiUrl: `${url}/imgur` });
+    expect(await imgur.resolve(new URL("https://imgur.com/a/AbCdE12"), context)).toEqual([]);
+  });
+
+  it("should take 4k renditions of large ArtStation images", async () => {
+    const artstation = createArtStationResolver({ baseUrl: url });
+    const images = await artstation.resolve(new URL("https://www.artstation.com/artwork/Xy12ab"), context);
+
+    expect(images.map((img) => img.url)).toEqual(["https://cdn.art/4k/a.jpg?1", "https://cdn.art/large/b.jpg?2"]);
+    expect(images[1].galleryIndex).toBe(1);
+  });
+
+  it("should resolve Flickr photo pages through oEmbed", async () => {
+    const flickr = createFlickrResolver({ oembedUrl: `${url}/oembed` });
+    expect(await flickr.resolve(new URL("https://www.flickr.com/photos/someone/123456/"), context)).toEqual([
+      { url: "https://live.staticflickr.com/1/123456_abc_b.jpg", width: 2048, height: 1365, galleryIndex: 0 },
+    ]);
+    expect(await flickr.resolve(new URL("https://www.flickr.com/groups/walls"), context)).toEqual([]);
+  });
+});
+
+describe("LinkResolverRegistry", () => {
+  const stub = (name: string, host: string): LinkResolver => ({
+    name,
+    matches: (url) => url.hostname === host,
+    resolve: async (url) => [{ url: `${url.href}#${name}`, width: 1, height: 1, galleryIndex: 0 }],
+  });
+
+  it("should pick the first matching resolver and replace by name", async () => {
+    const registry = new LinkResolverRegistry([stub("a", "a.test"), stub("b", "b.test")]);
+    registry.register(stub("a", "c.test"));
+
+    expect(registry.names).toEqual(["b", "a"]);
+    expect(await registry.resolve("https://c.test/x", context)).toEqual([
+      { url: "https://c.test/x#a", width: 1, height: 1, galleryIndex: 0 },
+    ]);
+    expect(await registry.resolve("https://a.test/x", context)).toBeNull();
+    expect(registry.find("not a url")).toBeNull();
+  });
+});
+
+describe("RedditClient with link resolvers", () => {
+  let server: Server;
+  let url: string;
+
+  const post = (id: string, postUrl: string) => ({
+    kind: "t3",
+    data: {
+      id,
+      name: `t3_${id}`,
+      title: `Post ${id}`,
+      author: "artist",
+      subreddit: "wallpapers",
+      permalink: `/r/wallpapers/comments/${id}/`,
+      url: postUrl,
+      created_utc: 1767323045,
+      score: 1,
+      over_18: false,
+      stickied: false,
+      is_self: false,
+      is_video: false,
+      preview: {
+        enabled: true,
+        images: [{ id: "p", source: { url: `https://preview.redd.it/${id}.jpg`, width: 640, height: 360 }, resolutions: [] }],
+      },
+    },
+  });
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify({
+          kind: "Listing",
+          data: {
+            after: null,
+            children: [
+              post("album", "https://album.test/a/1"),
+              post("broken", "https://broken.test/x"),
+              post("plain", "https://example.com/"),
+              post("imgur", "https://i.imgur.com/AbCdE12.png"),
+            ],
+          },
+        })
+      );
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should expand resolved links and fall back to previews", async () => {
+    const linkResolvers = new LinkResolverRegistry([
+      {
+        name: "album",
+        matches: (u) => u.hostname === "album.test",
+        resolve: async () => [
+          { url: "https://album.test/1.png", width: 3840, height: 2160, galleryIndex: 0 },
+          { url: "https://album.test/2.png", width: 3840, height: 2160, galleryIndex: 1 },
+        ],
+      },
+      {
+        name: "broken",
+        matches: (u) => u.hostname === "broken.test",
+        resolve: async () => {
+          throw new Error("boom");
+        },
+      },
+    ]);
+
+    const client = createRedditClient({ baseUrl: url, linkResolvers });
+    const { images } = await client.fetchSubreddit({ subreddit: "/r/wallpapers" });
+
+    expect(images.map((img) => [img.postId, img.imageUrl, img.galleryIndex])).toEqual([
+      ["album", "https://album.test/1.png", 0],
+      ["album", "https://album.test/2.png", 1],
+      ["broken", "https://preview.redd.it/broken.jpg", 0],
+      ["plain", "https://preview.redd.it/plain.jpg", 0],
+      ["imgur", "https://preview.redd.it/imgur.jpg", 0],
+    ]);
+  });
+
+  it("should keep the preview size when the resolver doesn't know it", async () => {
+    const client = createRedditClient({ baseUrl: url });
+    const { images } = await client.fetchSubreddit({ subreddit: "/r/wallpapers" });
+
+    expect(images.find((img) => img.postId === "imgur")).toMatchObject({
+      imageUrl: "https://i.imgur.com/AbCdE12.png",
+      width: 640,
+      height: 360,
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { Device } from "@packages/database";
+import type { RedditImage } from "@packages/reddit";
+import { filterExistingImages } from "../common";
+import { pickBestFitPreview } from "./best-fit";
+import { toSourceImage } from "./runner";
+
+// bun:sqlite doesn't load under vitest: each table returns the rows a test gives it
+const fakeDb = vi.hoisted(() => ({
+  rows: {} as Record<string, unknown[]>,
+  query: new Proxy({} as Record<string, { findMany: () => Promise<unknown[]> }>, {
+    get: (_target, table: string) => ({
+      findMany: async () => fakeDb.rows[table] ?? [],
+    }),
+  }),
+}));
+
+vi.mock("$lib/server/db", () => ({ db: fakeDb }));
+vi.mock("@packages/database", async () => ({
+  ...(await import("@packages/database/schema")),
+  withQueryName: (_name: string, query: () => Promise<unknown>) => query(),
+}));
+
+function device(overrides: Partial<Device> = {}): Device {
+  return {
+    id: "d1",
+    slug: "phone",
+    name: "Phone",
+    enabled: true,
+    width: 1080,
+    height: 2400,
+    aspectRatioDeviation: 10,
+    minWidth: null,
+    maxWidth: null,
+    minHeight: null,
+    maxHeight: null,
+    minFilesize: null,
+    maxFilesize: null,
+    nsfw: 0,
+    ...overrides,
+  } as Device;
+}
+
+const image: RedditImage = {
+  postId: "abc123",
+  postUrl: "https://www.reddit.com/r/wallpapers/comments/abc123/",
+  imageUrl: "https://i.redd.it/abc123.png",
+  width: 5400,
+  height: 12000,
+  title: "Dunes",
+  author: "artist",
+  authorUrl: "https://www.reddit.com/u/artist",
+  subreddit: "wallpapers",
+  nsfw: false,
+  createdAt: 1767323045,
+  score: 100,
+  upvoteRatio: 0.98,
+  domain: "i.redd.it",
+  previews: [
+    { url: "https://preview.redd.it/abc123.png?width=1080", width: 1080, height: 2400 },
+    { url: "https://preview.redd.it/abc123.png?width=2160", width: 2160, height: 4800 },
+  ],
+  galleryIndex: 0,
+};
+
+describe("toSourceImage with a best-fit preview", () => {
+  beforeEach(() => {
+    fakeDb.rows = {};
+  });
+
+  it("should fetch the preview but keep the source URL as the download URL", () => {
+    const sourceImage = toSourceImage(image, pickBestFitPreview(image, [device()]));
+
+    expect(sourceImage).toMatchObject({
+      downloadUrl: "https://i.redd.it/abc123.png",
+      fetchUrl: "https://preview.redd.it/abc123.png?width=1080",
+      width: 1080,
+      height: 2400,
+    });
+  });
+
+  it("should skip a post already downloaded after the best-fit choice changes", async () => {
+    // Downloaded for the phone, before a larger tablet made the 2160 preview the best fit
+    fakeDb.rows.images = [{ downloadUrl: toSourceImage(image, pickBestFitPreview(image, [device()])).downloadUrl }];
+    const tablet = device({ id: "d2", slug: "tablet", width: 1440, height: 3200 });
+    const candidate = toSourceImage(image, pickBestFitPreview(image, [device(), tablet]));
+
+    const { newImages, skippedExisting } = await filterExistingImages([candidate], "Test.CheckExisting");
+
+    expect(candidate.fetchUrl).toBe("https://preview.redd.it/abc123.png?width=2160");
+    expect(newImages).toEqual([]);
+    expect(skippedExisting).toBe(1);
+  });
+});
@@ -1,16 +1,33 @@
-import { eq, inArray } from "drizzle-orm";
-import { db } from "$lib/server/db";
-import { sources, images, withQueryName } from "@packages/database";
-import { createRedditClient, type RedditImage, type SortType, type TopPeriod } from "@packages/reddit";
+import {
+  createRedditClient,
+  type RedditClient,
+  type RedditImage,
+  type RedditImageSource,
+  type SortType,
+  type TopPeriod,
+} from "@packages/reddit";
 import { getLogger } from "@packages/otel-server";
+import { getParamsError, redditSourceKind } from "$lib/schemas/source";
 import {
   downloadAndProcessImages,
+  loadRunnerContext,
+  getRunSkipReason,
+  createRunResult,
+  createErrorResult,
+  addBatchResult,
+  applyNsfwMode,
+  filterExistingImages,
+  createProcessorConfig,
+  formatFilenameTimestamp,
+  createProxyFetch,
   type SourceImage,
   type SourceRunner,
   type BaseRunnerConfig,
   type BaseRunResult,
-  type ProcessedImage,
+  type NsfwMode,
 } from "../common";
+import { getPostFilterReason, type RedditPostFilters } from "./filters";
+import { pickBestFitPreview } from "./best-fit";
 
 const logger = getLogger();
 
@@ -21,27 +38,31 @@ const logger = getLogger();
 /**
  * Reddit source params stored in sources.params JSON
  */
-export interface RedditSourceParams {
+export interface RedditSourceParams extends RedditPostFilters {
+  /** Listing path, see RedditClient.parseTargetPath (e.g. /r/wallpapers, /r/a+b, /domain/i.redd.it) */
   subreddit: string;
   sort?: SortType;
   period?: TopPeriod;
+  /** Download the smallest preview rendition that covers the subscribed devices instead of the full-size source */
+  bestFitPreview?: boolean;
 }
 
-/**
- * NSFW handling mode from source.nsfw field
- * 0 = Auto (use post's nsfw flag)
- * 1 = SFW Only (skip NSFW posts)
- * 2 = NSFW Only (mark all images as NSFW)
- */
-export type NsfwMode = 0 | 1 | 2;
-
 /**
  * Reddit-specific runner configuration
  */
 export interface RedditRunnerConfig extends BaseRunnerConfig {
-  // Can add reddit-specific options here if needed
+  /** App-only OAuth credentials; anonymous JSON access when empty */
+  clientId?: string;
+  clientSecret?: string;
+  /** Imgur API client ID for resolving album links */
+  imgurClientId?: string;
 }
 
+/**
+ * Reddit API credentials, read from app config on every run
+ */
+export type RedditCredentials = Pick<RedditRunnerConfig, "clientId" | "clientSecret" | "imgurClientId">;
+
 /**
  * Reddit-specific run result
  */
@@ -54,18 +75,38 @@ export interface RedditRunResult extends BaseRunResult {
 // Helpers
 // ============================================================================
 
+const sharedClients = new Map<string, RedditClient>();
+
+/**
+ * Get a Reddit client shared by all runs with the same credentials and proxy,
+ * so the OAuth token and rate-limit budget carry over between runs
+ */
+function getSharedRedditClient(config: RedditRunnerConfig): RedditClient {
+  const key = [config.clientId, config.clientSecret, config.imgurClientId, config.proxyUrl].join(":");
+  let client = sharedClients.get(key);
+  if (!client) {
+    client = createRedditClient({
+      clientId: config.clientId,
+      clientSecret: config.clientSecret,
+      imgurClientId: config.imgurClientId,
+      fetch: createProxyFetch(config.proxyUrl),
+    });
+    sharedClients.set(key, client);
+  }
+  return client;
+}
+
 /**
  * Convert RedditImage to SourceImage for common processor
  * @param img - Reddit image data
- * @param nsfwMode - NSFW handling mode from source settings
- * @returns SourceImage with adjusted nsfw flag based on mode
+ * @param preview - Preview rendition to fetch instead of the full-size source. The source URL
+ *   stays the download URL, so the image is recognized whichever rendition was picked.
+ * @returns SourceImage using the post's nsfw flag (source NSFW mode is applied afterwards)
  */
-function toSourceImage(img: RedditImage, nsfwMode: NsfwMode): SourceImage {
-  // Determine final NSFW value based on mode:
-  // 0 = Auto: use post's nsfw flag
-  // 1 = SFW Only: should have been filtered out already, use post's flag
-  // 2 = NSFW Only: force all images to NSFW
-  const nsfw = nsfwMode === 2 ? true : img.nsfw;
+export function toSourceImage(img: RedditImage, preview?: RedditImageSource | null): SourceImage {
+  if (preview) {
+    return { ...toSourceImage(img), fetchUrl: preview.url, width: preview.width, height: preview.height };
+  }
 
   return {
     downloadUrl: img.imageUrl,
@@ -75,72 +116,43 @@ function toSourceImage(img: RedditImage, nsfwMode: NsfwMode): SourceImage {
     title: img.title,
     author: img.author,
     authorUrl: img.authorUrl,
-    nsfw,
+    nsfw: img.nsfw,
     sourceCreatedAt: img.createdAt,
     width: img.width,
     height: img.height,
   };
 }
 
-/**
- * Filter images based on NSFW mode
- * @param images - Array of Reddit images
- * @param nsfwMode - NSFW handling mode from source settings
- * @returns Filtered array (only for mode 1 which skips NSFW)
- */
-function filterByNsfwMode(images: RedditImage[], nsfwMode: NsfwMode): RedditImage[] {
-  if (nsfwMode === 1) {
-    // SFW Only: skip images marked as NSFW
-    return images.filter((img) => !img.nsfw);
-  }
-  // For modes 0 (Auto) and 2 (NSFW Only), keep all images
-  return images;
-}
-
-/**
- * Format timestamp as YYYYMMDD_HHMMSS
- */
-function formatTimestamp(unixSeconds?: number): string {
-  const date = unixSeconds ? new Date(unixSeconds * 1000) : new Date();
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  const hour = String(date.getHours()).padStart(2, "0");
-  const min = String(date.getMinutes()).padStart(2, "0");
-  const sec = String(date.getSeconds()).padStart(2, "0");
-  return `${year}${month}${day}_${hour}${min}${sec}`;
-}
-
 // ============================================================================
 // Reddit Runner
 // ============================================================================
 
 export class RedditRunner implements SourceRunner<RedditRunnerConfig, RedditRunResult> {
-  readonly kind = "reddit";
+  readonly definition = redditSourceKind;
+  readonly kind = redditSourceKind.kind;
+
+  /**
+   * @param getCredentials - Credentials used when the run config has none (anonymous access by default)
+   */
+  constructor(private readonly getCredentials: () => RedditCredentials = () => ({})) {}
 
   validateParams(params: unknown): string | null {
-    if (!params || typeof params !== "object") {
-      return "Params must be an object";
+    const paramsError = getParamsError(this.definition.paramsSchema, params);
+    if (paramsError) {
+      return paramsError;
     }
 
-    const p = params as Record<string, unknown>;
-
-    if (!p.subreddit || typeof p.subreddit !== "string") {
-      return "Missing or invalid subreddit";
-    }
+    const p = params as RedditSourceParams;
 
-    if (p.sort !== undefined) {
-      const validSorts = ["hot", "new", "top", "rising"];
-      if (!validSorts.includes(p.sort as string)) {
-        return `Invalid sort: must be one of ${validSorts.join(", ")}`;
-      }
+    let targetType: string;
+    try {
+      targetType = createRedditClient().parseTargetPath(p.subreddit).type;
+    } catch (err: any) {
+      return err.message;
     }
 
-    if (p.period !== undefined) {
-      const validPeriods = ["hour", "day", "week", "month", "year", "all"];
-      if (!validPeriods.includes(p.period as string)) {
-        return `Invalid period: must be one of ${validPeriods.join(", ")}`;
-      }
+    if (targetType === "search" && p.sort === "rising") {
+      return 'Invalid sort: "rising" is not available for search';
     }
 
     return null;
@@ -156,12 +168,7 @@ export class RedditRunner implements SourceRunner<RedditRunnerConfig, RedditRunR
     image: { sourceItemId: string; galleryIndex?: number; sourceCreatedAt?: number | Date },
     format: string
   ): string {
-    // Format timestamp
-    const timestamp = typeof image.sourceCreatedAt === "number"
-      ? formatTimestamp(image.sourceCreatedAt)
-      : image.sourceCreatedAt
-        ? formatTimestamp(Math.floor(image.sourceCreatedAt.getTime() / 1000))
-        : formatTimestamp();
+    const timestamp = formatFilenameTimestamp(image.sourceCreatedAt);
 
     // Gallery suffix only if gallery index > 0
     const gallerySuffix = image.galleryIndex && image.galleryIndex > 0 
@@ -174,52 +181,20 @@ export class RedditRunner implements SourceRunner<RedditRunnerConfig, RedditRunR
   async run(sourceId: string, config: RedditRunnerConfig): Promise<RedditRunResult> {
     const startTime = Date.now();
 
-    // 1. Get source with subscriptions
-    const source = await withQueryName("RedditRunner.GetSource", async () =>
-      await db.query.sources.findFirst({
-        where: eq(sources.id, sourceId),
-        with: {
-          subscriptions: {
-            with: {
-              device: true,
-            },
-          },
-        },
-      })
-    );
-
-    if (!source) {
-      return this.errorResult(sourceId, "Unknown", "Source not found");
-    }
-
-    const result: RedditRunResult = {
-      sourceId,
-      sourceName: source.name,
-      success: true,
-      imagesFound: 0,
-      imagesProcessed: 0,
-      imagesDownloaded: 0,
-      imagesSkipped: 0,
-      imagesFailed: 0,
-      results: [],
-    };
-
-    // 2. Check if source is enabled
-    if (!source.enabled) {
-      logger.info({ sourceId, sourceName: source.name }, "Source is disabled, skipping");
-      result.error = "Source is disabled";
-      result.durationMs = Date.now() - startTime;
-      return result;
+    // 1. Get source with subscribed devices
+    const context = await loadRunnerContext(sourceId, "RedditRunner.GetSource");
+    if (!context) {
+      return createErrorResult(sourceId, "Unknown", "Source not found");
     }
 
-    // 3. Get eligible devices (enabled subscriptions with enabled devices)
-    const eligibleDevices = source.subscriptions
-      .filter((sub) => sub.enabled && sub.device.enabled)
-      .map((sub) => sub.device);
+    const { source, eligibleDevices } = context;
+    const result: RedditRunResult = createRunResult(sourceId, source.name);
 
-    if (eligibleDevices.length === 0) {
-      logger.info({ sourceId, sourceName: source.name }, "No eligible devices, skipping");
-      result.error = "No eligible devices subscribed";
+    // 2. Check if source is enabled and has eligible devices
+    const skipReason = getRunSkipReason(context);
+    if (skipReason) {
+      logger.info({ sourceId, sourceName: source.name }, `${skipReason}, skipping`);
+      result.error = skipReason;
       result.durationMs = Date.now() - startTime;
       return result;
     }
@@ -229,10 +204,10 @@ export class RedditRunner implements SourceRunner<RedditRunnerConfig, RedditRunR
       `Running Reddit source with ${eligibleDevices.length} eligible devices`
     );
 
-    // 4. Validate source params
+    // 3. Validate source params
     const paramsError = this.validateParams(source.params);
     if (paramsError) {
-      return this.errorResult(sourceId, source.name, paramsError, startTime);
+      return createErrorResult(sourceId, source.name, paramsError, startTime);
     }
 
     const params = source.params as RedditSourceParams;
@@ -241,8 +216,9 @@ export class RedditRunner implements SourceRunner<RedditRunnerConfig, RedditRunR
     // Get NSFW mode from source settings (default to 0 = Auto)
     const nsfwMode = (source.nsfw ?? 0) as NsfwMode;
 
-    // 5. Fetch and process in batches using async generator
-    const redditClient = createRedditClient();
+    // 4. Fetch and process in batches using async generator
+    const redditClient = getSharedRedditClient({ ...this.getCredentials(), ...config });
+    const processorConfig = createProcessorConfig(sourceId, config, this.buildFilename.bind(this));
 
     try {
       for await (const batch of redditClient.fetchSubredditBatches({
@@ -262,10 +238,39 @@ export class RedditRunner implements SourceRunner<RedditRunnerConfig, RedditRunR
           continue;
         }
 
-        // Filter by NSFW mode (mode 1 = SFW Only skips NSFW images)
-        const nsfwFilteredImages = filterByNsfwMode(batch.images, nsfwMode);
-        const skippedByNsfw = batch.images.length - nsfwFilteredImages.length;
-        
+        // Apply post quality filters before anything touches the database or network
+        const now = Date.now();
+        const passedImages = batch.images.filter((img) => {
+          const skipReason = getPostFilterReason(img, params, now);
+          if (!skipReason) {
+            return true;
+          }
+          result.imagesSkipped++;
+          result.results.push({ url: img.imageUrl, success: false, skipped: true, skipReason });
+          return false;
+        });
+
+        if (passedImages.length < batch.images.length) {
+          logger.debug(
+            { sourceId, skippedByFilters: batch.images.length - passedImages.length },
+            `Skipped ${batch.images.length - passedImages.length} images by post filters`
+          );
+        }
+
+        // Apply NSFW mode (1 = SFW Only skips NSFW images, 2 = NSFW Only marks all as NSFW)
+        // Best-fit previews are picked for the devices the image would go to,
+        // which depends on the NSFW flag after the source NSFW mode
+        const candidates = passedImages.map((img) =>
+          toSourceImage(
+            img,
+            params.bestFitPreview
+              ? pickBestFitPreview({ ...img, nsfw: nsfwMode === 2 || img.nsfw }, eligibleDevices)
+              : null
+          )
+        );
+        const sourceImages = applyNsfwMode(candidates, nsfwMode);
+        const skippedByNsfw = passedImages.length - sourceImages.length;
+
         if (skippedByNsfw > 0) {
           logger.debug(
             { sourceId, skippedByNsfw },
@@ -274,22 +279,15 @@ export class RedditRunner implements SourceRunner<RedditRunnerConfig, RedditRunR
           result.imagesSkipped += skippedByNsfw;
         }
 
-        if (nsfwFilteredImages.length === 0) {
+        if (sourceImages.length === 0) {
           continue;
         }
 
         // Filter out already downloaded images
-        const imageUrls = nsfwFilteredImages.map((img) => img.imageUrl);
-        const existingImages = await withQueryName("RedditRunner.CheckExisting", async () =>
-          await db.query.images.findMany({
-            where: inArray(images.downloadUrl, imageUrls),
-            columns: { downloadUrl: true },
-          })
+        const { newImages, skippedExisting } = await filterExistingImages(
+          sourceImages,
+          "RedditRunner.CheckExisting"
         );
-        const existingUrlSet = new Set(existingImages.map((img) => img.downloadUrl));
-
-        const newImages = nsfwFilteredImages.filter((img) => !existingUrlSet.has(img.imageUrl));
-        const skippedExisting = nsfwFilteredImages.length - newImages.length;
 
         result.imagesSkipped += skippedExisting;
 
@@ -303,36 +301,8 @@ export class RedditRunner implements SourceRunner<RedditRunnerConfig, RedditRunR
           `Processing ${newImages.length} new images (${skippedExisting} already exist)`
         );
 
-        // Convert to SourceImage and process (apply NSFW mode for final flag)
-        const sourceImages = newImages.map((img) => toSourceImage(img, nsfwMode));
-
-        const processResult = await downloadAndProcessImages(sourceImages, eligibleDevices, {
-          sourceId,
-          imageBaseDir: config.imageBaseDir,
-          tempDir: config.tempDir,
-          buildFilename: this.buildFilename.bind(this),
-          download: {
-            maxConcurrent: config.maxConcurrentDownloads,
-            minSpeedBytesPerSec: config.minSpeedBytesPerSec,
-            slowSpeedTimeoutMs: config.slowSpeedTimeoutMs,
-          },
-          onProgress: (progress) => {
-            logger.debug(
-              {
-                url: progress.url.slice(0, 50),
-                speedKBps: (progress.speedBytesPerSec / 1024).toFixed(1),
-              },
-              `Downloading: ${(progress.speedBytesPerSec / 1024).toFixed(1)} KB/s`
-            );
-          },
-        });
-
-        // Aggregate results
-        result.imagesProcessed += processResult.processed;
-        result.imagesDownloaded += processResult.downloaded;
-        result.imagesSkipped += processResult.skipped;
-        result.imagesFailed += processResult.failed;
-        result.results.push(...processResult.results);
+        const processResult = await downloadAndProcessImages(newImages, eligibleDevices, processorConfig);
+        addBatchResult(result, processResult);
       }
     } catch (err: any) {
       logger.error({ err, sourceId }, "Failed to fetch from Reddit");
@@ -357,31 +327,10 @@ export class RedditRunner implements SourceRunner<RedditRunnerConfig, RedditRunR
 
     return result;
   }
-
-  private errorResult(
-    sourceId: string,
-    sourceName: string,
-    error: string,
-    startTime?: number
-  ): RedditRunResult {
-    return {
-      sourceId,
-      sourceName,
-      success: false,
-      error,
-      imagesFound: 0,
-      imagesProcessed: 0,
-      imagesDownloaded: 0,
-      imagesSkipped: 0,
-      imagesFailed: 0,
-      results: [],
-      durationMs: startTime ? Date.now() - startTime : undefined,
-    };
-  }
 }
 
-export function createRedditRunner(): RedditRunner {
-  return new RedditRunner();
+export function createRedditRunner(getCredentials?: () => RedditCredentials): RedditRunner {
+  return new RedditRunner(getCredentials);
 }
 
 export async function runRedditSource(
@@ -0,0 +1,81 @@
+import { getLogger } from "@packages/otel-server";
+import { SOURCE_KIND_DEFINITIONS } from "$lib/schemas/source";
+import * as runnerHelpers from "./common";
+import { createRunnerRegistry, registerRunner, getRunner, type SourceRunner } from "./common";
+import { loadRunnerPlugins, type RunnerPluginResult } from "./plugins";
+
+const logger = getLogger();
+
+// Runners of the built-in kinds: every runner folder default-exports the runners it provides
+const builtInRunners = Object.values(
+  import.meta.glob<SourceRunner<any, any>[]>(["./*/index.ts", "!./common/index.ts"], {
+    eager: true,
+    import: "default",
+  })
+).flat();
+
+/**
+ * Runners for every source kind, keyed by source.kind.
+ * Built from SOURCE_KIND_DEFINITIONS, so a kind is registered by adding its definition there.
+ */
+export const runnerRegistry = createRunnerRegistry();
+
+for (const definition of SOURCE_KIND_DEFINITIONS) {
+  const runner = builtInRunners.find((r) => r.kind === definition.kind);
+  if (!runner) {
+    throw new Error(`No runner for source kind: ${definition.kind}`);
+  }
+  registerRunner(runnerRegistry, runner);
+}
+
+/**
+ * Get the runner for a source kind
+ * @throws if no runner is registered for the kind
+ */
+export function getSourceRunner(kind: string): SourceRunner<any, any> {
+  const runner = getRunner(runnerRegistry, kind);
+  if (!runner) {
+    throw new Error(`Unknown source kind: ${kind}`);
+  }
+  return runner;
+}
+
+let pluginResults: RunnerPluginResult[] = [];
+
+/**
+ * Register the runners of every plugin in the plugins directory.
+ * Call once at startup, before any run is executed.
+ * @param dir - Plugins directory, empty to skip loading plugins
+ */
+export async function loadPluginRunners(dir: string): Promise<RunnerPluginResult[]> {
+  if (!dir) {
+    pluginResults = [];
+    return pluginResults;
+  }
+
+  pluginResults = await loadRunnerPlugins(dir, runnerRegistry, runnerHelpers);
+
+  for (const result of pluginResults) {
+    if (result.error) {
+      logger.error({ file: result.file, kind: result.kind }, `Runner plugin not loaded: ${result.error}`);
+    } else {
+      logger.info({ file: result.file, kind: result.kind }, `Loaded runner plugin for "${result.kind}" sources`);
+    }
+  }
+
+  return pluginResults;
+}
+
+/**
+ * Outcome of the last plugin load, for the settings page
+ */
+export function getPluginRunnerResults(): RunnerPluginResult[] {
+  return pluginResults;
+}
+
+/**
+ * Source kinds added by loaded plugins, for the sources UI
+ */
+export function getPluginSourceKinds(): string[] {
+  return pluginResults.flatMap((result) => (result.kind && !result.error ? [result.kind] : []));
+}
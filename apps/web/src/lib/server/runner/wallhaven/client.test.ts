@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { createWallhavenClient, type WallhavenSearchResponse, type WallhavenWallpaper } from "@packages/wallhaven";
+
+function makeWallpaper(id: string, overrides: Partial<WallhavenWallpaper> = {}): WallhavenWallpaper {
+  return {
+    id,
+    url: `https://wallhaven.cc/w/${id}`,
+    short_url: `https://whvn.cc/${id}`,
+    views: 100,
+    favorites: 10,
+    source: "",
+    purity: "sfw",
+    category: "general",
+    dimension_x: 3840,
+    dimension_y: 2160,
+    resolution: "3840x2160",
+    ratio: "1.78",
+    file_size: 2_500_000,
+    file_type: "image/jpeg",
+    created_at: "2026-01-02 03:04:05",
+    colors: [],
+    path: `https://w.wallhaven.cc/full/${id.slice(0, 2)}/wallhaven-${id}.jpg`,
+    thumbs: { large: "", original: "", small: "" },
+    ...overrides,
+  };
+}
+
+// Wallhaven's URL is fixed, so the client gets a fetch answering from these pages
+function fakeWallhaven(pages: WallhavenWallpaper[][], status = 200) {
+  const requests: Array<{ url: URL; headers: Headers }> = [];
+  const fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input.toString());
+    requests.push({ url, headers: new Headers(init?.headers) });
+    if (status !== 200) {
+      return new Response("", { status, statusText: "Unauthorized" });
+    }
+
+    const page = Number(url.searchParams.get("page"));
+    const body: WallhavenSearchResponse = {
+      data: pages[page - 1] ?? [],
+      meta: {
+        current_page: page,
+        last_page: pages.length,
+        per_page: 24,
+        total: pages.flat().length,
+        query: null,
+        seed: url.searchParams.get("sorting") === "random" ? "AbC123" : null,
+      },
+    };
+    return Response.json(body);
+  };
+  return { fetch, requests };
+}
+
+describe("WallhavenClient", () => {
+  it("should encode search options as Wallhaven parameters", async () => {
+    const { fetch, requests } = fakeWallhaven([[makeWallpaper("94x38z")]]);
+    const client = createWallhavenClient({ fetch, apiKey: "secret" });
+
+    await client.search({
+      query: "landscape",
+      categories: ["general", "people"],
+      purity: ["sfw", "nsfw"],
+      sorting: "toplist",
+      topRange: "1w",
+      atleast: "2560x1440",
+      ratios: ["16x9", "21x9"],
+    });
+
+    const { url, headers } = requests[0];
+    expect(url.origin + url.pathname).toBe("https://wallhaven.cc/api/v1/search");
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      categories: "101",
+      purity: "101",
+      sorting: "toplist",
+      order: "desc",
+      page: "1",
+      q: "landscape",
+      topRange: "1w",
+      atleast: "2560x1440",
+      ratios: "16x9,21x9",
+    });
+    expect(headers.get("X-API-Key")).toBe("secret");
+  });
+
+  it("should map wallpapers to images", async () => {
+    const wallpaper = makeWallpaper("94x38z", { purity: "sketchy", source: "https://artist.example" });
+    const { fetch } = fakeWallhaven([[wallpaper]]);
+    const client = createWallhavenClient({ fetch });
+
+    const result = await client.search({ sorting: "latest" });
+
+    expect(result).toMatchObject({ page: 1, lastPage: 1, seed: null });
+    expect(result.images).toEqual([
+      {
+        id: "94x38z",
+        pageUrl: "https://wallhaven.cc/w/94x38z",
+        imageUrl: "https://w.wallhaven.cc/full/94/wallhaven-94x38z.jpg",
+        width: 3840,
+        height: 2160,
+        fileSize: 2_500_000,
+        fileType: "image/jpeg",
+        purity: "sketchy",
+        category: "general",
+        source: "https://artist.example",
+        createdAt: 1767323045,
+      },
+    ]);
+  });
+
+  it("should page through random results with the first page's seed, up to the limit", async () => {
+    const first = Array.from({ length: 24 }, (_, i) => makeWallpaper(`a${i}`));
+    const second = Array.from({ length: 24 }, (_, i) => makeWallpaper(`b${i}`));
+    const { fetch, requests } = fakeWallhaven([first, second, [makeWallpaper("c0")]]);
+    const client = createWallhavenClient({ fetch });
+
+    const ids: string[] = [];
+    for await (const batch of client.searchBatches({ sorting: "random", limit: 30 })) {
+      ids.push(...batch.images.map((image) => image.id));
+    }
+
+    expect(ids).toHaveLength(30);
+    expect(ids.at(-1)).toBe("b5");
+    expect(requests.map(({ url }) => [url.searchParams.get("page"), url.searchParams.get("seed")])).toEqual([
+      ["1", null],
+      ["2", "AbC123"],
+    ]);
+  });
+
+  it("should explain rejected API keys", async () => {
+    const { fetch } = fakeWallhaven([], 401);
+    const client = createWallhavenClient({ fetch, apiKey: "wrong" });
+
+    await expect(client.search()).rejects.toThrow("401 Unauthorized (invalid or missing API key)");
+  });
+});
@@ -0,0 +1,13 @@
+import { createWallhavenRunner } from "./runner";
+
+export {
+  WallhavenRunner,
+  createWallhavenRunner,
+  runWallhavenSource,
+  type WallhavenSourceParams,
+  type WallhavenRunnerConfig,
+  type WallhavenRunResult,
+} from "./runner";
+
+// Runners of the source kinds in this folder, registered by ../registry
+export default [createWallhavenRunner()];
@@ -0,0 +1,247 @@
+import {
+  createWallhavenClient,
+  type WallhavenImage,
+  type WallhavenCategory,
+  type WallhavenPurity,
+  type WallhavenSorting,
+  type WallhavenTopRange,
+} from "@packages/wallhaven";
+import { getLogger } from "@packages/otel-server";
+import { getParamsError, wallhavenSourceKind } from "$lib/schemas/source";
+import {
+  downloadAndProcessImages,
+  loadRunnerContext,
+  getRunSkipReason,
+  createRunResult,
+  createErrorResult,
+  addBatchResult,
+  applyNsfwMode,
+  filterExistingImages,
+  createProcessorConfig,
+  createProxyFetch,
+  formatFilenameTimestamp,
+  type SourceImage,
+  type SourceRunner,
+  type BaseRunnerConfig,
+  type BaseRunResult,
+  type NsfwMode,
+} from "../common";
+
+const logger = getLogger();
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Wallhaven source params stored in sources.params JSON
+ */
+export interface WallhavenSourceParams {
+  /** Search query (tags, keywords, @username). Empty means all wallpapers */
+  query?: string;
+  categories?: WallhavenCategory[];
+  purity?: WallhavenPurity[];
+  sorting?: WallhavenSorting;
+  /** Only used when sorting is "toplist" */
+  topRange?: WallhavenTopRange;
+  /** Minimum resolution e.g. "1920x1080" */
+  minResolution?: string;
+  /** Required aspect ratios e.g. ["16x9", "21x9"] */
+  ratios?: string[];
+  /** API key, required for NSFW purity */
+  apiKey?: string;
+}
+
+/**
+ * Wallhaven-specific runner configuration
+ */
+export interface WallhavenRunnerConfig extends BaseRunnerConfig {
+  // Can add wallhaven-specific options here if needed
+}
+
+/**
+ * Wallhaven-specific run result
+ */
+export interface WallhavenRunResult extends BaseRunResult {
+  /** Search query that was used */
+  query?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Convert WallhavenImage to SourceImage for common processor.
+ * Wallhaven reports dimensions and file size up front, so ineligible
+ * images are filtered before download.
+ * "sketchy" and "nsfw" purity are both treated as NSFW.
+ */
+function toSourceImage(img: WallhavenImage): SourceImage {
+  return {
+    downloadUrl: img.imageUrl,
+    websiteUrl: img.pageUrl,
+    sourceItemId: img.id,
+    galleryIndex: 0,
+    nsfw: img.purity !== "sfw",
+    sourceCreatedAt: img.createdAt,
+    width: img.width,
+    height: img.height,
+    filesize: img.fileSize,
+  };
+}
+
+// ============================================================================
+// Wallhaven Runner
+// ============================================================================
+
+export class WallhavenRunner implements SourceRunner<WallhavenRunnerConfig, WallhavenRunResult> {
+  readonly definition = wallhavenSourceKind;
+  readonly kind = wallhavenSourceKind.kind;
+
+  validateParams(params: unknown): string | null {
+    return getParamsError(this.definition.paramsSchema, params);
+  }
+
+  /**
+   * Build a discoverable filename for Wallhaven images.
+   * Format: wallhaven_{id}_{timestamp}.{ext}
+   *
+   * The id can be used to reconstruct URL: https://wallhaven.cc/w/{id}
+   */
+  buildFilename(
+    image: { sourceItemId: string; galleryIndex?: number; sourceCreatedAt?: number | Date },
+    format: string
+  ): string {
+    const timestamp = formatFilenameTimestamp(image.sourceCreatedAt);
+    return `wallhaven_${image.sourceItemId}_${timestamp}.${format}`;
+  }
+
+  async run(sourceId: string, config: WallhavenRunnerConfig): Promise<WallhavenRunResult> {
+    const startTime = Date.now();
+
+    // 1. Get source with subscribed devices
+    const context = await loadRunnerContext(sourceId, "WallhavenRunner.GetSource");
+    if (!context) {
+      return createErrorResult(sourceId, "Unknown", "Source not found");
+    }
+
+    const { source, eligibleDevices } = context;
+    const result: WallhavenRunResult = createRunResult(sourceId, source.name);
+
+    // 2. Check if source is enabled and has eligible devices
+    const skipReason = getRunSkipReason(context);
+    if (skipReason) {
+      logger.info({ sourceId, sourceName: source.name }, `${skipReason}, skipping`);
+      result.error = skipReason;
+      result.durationMs = Date.now() - startTime;
+      return result;
+    }
+
+    logger.info(
+      { sourceId, sourceName: source.name, deviceCount: eligibleDevices.length },
+      `Running Wallhaven source with ${eligibleDevices.length} eligible devices`
+    );
+
+    // 3. Validate source params
+    const paramsError = this.validateParams(source.params);
+    if (paramsError) {
+      return createErrorResult(sourceId, source.name, paramsError, startTime);
+    }
+
+    const params = source.params as WallhavenSourceParams;
+    result.query = params.query;
+
+    // Get NSFW mode from source settings (default to 0 = Auto)
+    const nsfwMode = (source.nsfw ?? 0) as NsfwMode;
+
+    // 4. Fetch and process in batches using async generator
+    const wallhavenClient = createWallhavenClient({
+      apiKey: params.apiKey || undefined,
+      fetch: createProxyFetch(config.proxyUrl),
+    });
+    const processorConfig = createProcessorConfig(sourceId, config, this.buildFilename.bind(this));
+
+    try {
+      for await (const batch of wallhavenClient.searchBatches({
+        query: params.query || undefined,
+        categories: params.categories,
+        purity: params.purity,
+        sorting: params.sorting ?? "latest",
+        topRange: params.topRange,
+        atleast: params.minResolution || undefined,
+        ratios: params.ratios,
+        limit: source.lookupLimit,
+      })) {
+        result.imagesFound += batch.images.length;
+
+        logger.info(
+          { sourceId, batchSize: batch.images.length, totalFound: result.imagesFound },
+          `Fetched batch: ${batch.images.length} images`
+        );
+
+        if (batch.images.length === 0) {
+          continue;
+        }
+
+        // Apply NSFW mode (1 = SFW Only skips NSFW images, 2 = NSFW Only marks all as NSFW)
+        const sourceImages = applyNsfwMode(batch.images.map(toSourceImage), nsfwMode);
+        result.imagesSkipped += batch.images.length - sourceImages.length;
+
+        // Filter out already downloaded images
+        const { newImages, skippedExisting } = await filterExistingImages(
+          sourceImages,
+          "WallhavenRunner.CheckExisting"
+        );
+
+        result.imagesSkipped += skippedExisting;
+
+        if (newImages.length === 0) {
+          logger.debug({ sourceId, skippedExisting }, `Batch skipped: no new images`);
+          continue;
+        }
+
+        logger.info(
+          { sourceId, newImages: newImages.length, skippedExisting },
+          `Processing ${newImages.length} new images (${skippedExisting} already exist)`
+        );
+
+        const processResult = await downloadAndProcessImages(newImages, eligibleDevices, processorConfig);
+        addBatchResult(result, processResult);
+      }
+    } catch (err: any) {
+      logger.error({ err, sourceId }, "Failed to fetch from Wallhaven");
+      result.success = false;
+      result.error = `Wallhaven fetch failed: ${err.message}`;
+    }
+
+    result.durationMs = Date.now() - startTime;
+
+    logger.info(
+      {
+        sourceId,
+        sourceName: source.name,
+        duration: result.durationMs,
+        found: result.imagesFound,
+        downloaded: result.imagesDownloaded,
+        skipped: result.imagesSkipped,
+        failed: result.imagesFailed,
+      },
+      `Wallhaven source completed in ${(result.durationMs / 1000).toFixed(1)}s`
+    );
+
+    return result;
+  }
+}
+
+export function createWallhavenRunner(): WallhavenRunner {
+  return new WallhavenRunner();
+}
+
+export async function runWallhavenSource(
+  sourceId: string,
+  config: WallhavenRunnerConfig
+): Promise<WallhavenRunResult> {
+  const runner = createWallhavenRunner();
+  return runner.run(sourceId, config);
+}
@@ -1,10 +1,11 @@
 import { Cron } from "croner";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { db } from "$lib/server/db";
 import { schedules, sources, withQueryName, type Schedule } from "@packages/database";
 import { getLogger } from "@packages/otel-server";
 import { getSchedulerConfig } from "$lib/server/config";
-import { createScheduledRun, processPendingRuns, recoverRunsOnStartup } from "./run-processor";
+import { LocalFolderWatcher, type LocalFolderSourceParams } from "$lib/server/runner";
+import { createScheduledRun, createWatchRun, processPendingRuns, recoverRunsOnStartup } from "./run-processor";
 
 const logger = getLogger();
 
@@ -15,6 +16,12 @@ class SchedulerService {
   private jobs: Map<string, Cron> = new Map();
   private runProcessorJob: Cron | null = null;
   private isRunning = false;
+  private folderWatcher = new LocalFolderWatcher(async (sourceId) => {
+    const run = await createWatchRun(sourceId);
+    if (run) {
+      await this.triggerProcessing();
+    }
+  });
 
   /**
    * Start the scheduler service
@@ -67,6 +74,9 @@ class SchedulerService {
     }
     this.jobs.clear();
 
+    // Stop folder watchers
+    this.folderWatcher.unwatchAll();
+
     // Stop run processor
     if (this.runProcessorJob) {
       this.runProcessorJob.stop();
@@ -97,6 +107,28 @@ class SchedulerService {
         await this.addSchedule(schedule);
       }
     }
+
+    await this.loadFolderWatches();
+  }
+
+  /**
+   * Watch folders of enabled local folder sources that have watching turned on
+   */
+  async loadFolderWatches(): Promise<void> {
+    const folderSources = await withQueryName("Scheduler.LoadFolderWatches", async () =>
+      await db.query.sources.findMany({
+        where: and(eq(sources.kind, "local_folder"), eq(sources.enabled, true)),
+      })
+    );
+
+    this.folderWatcher.unwatchAll();
+
+    for (const source of folderSources) {
+      const params = source.params as LocalFolderSourceParams;
+      if (params.watch && params.path) {
+        this.folderWatcher.watch(source.id, params);
+      }
+    }
   }
 
   /**
@@ -269,6 +301,7 @@ export function stopScheduler(): void {
 // Re-export run processor functions for external use
 export {
   createScheduledRun,
+  createWatchRun,
   processPendingRuns,
   executeRun,
   updateRunState,
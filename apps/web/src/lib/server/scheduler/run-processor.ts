@@ -2,8 +2,8 @@ import { eq, and, lte } from "drizzle-orm";
 import { db } from "$lib/server/db";
 import { runs, sources, withQueryName, type Run } from "@packages/database";
 import { getLogger } from "@packages/otel-server";
-import { createRedditRunner, type BaseRunnerConfig } from "../runner";
-import { getSchedulerConfig, getRunnerConfig } from "$lib/server/config";
+import { getSourceRunner, type BaseRunnerConfig } from "../runner";
+import { getSchedulerConfig, getRunnerConfig, parseBandwidthSchedule, parseHostLimits } from "$lib/server/config";
 
 const logger = getLogger();
 
@@ -68,16 +68,27 @@ export async function recoverRunsOnStartup(): Promise<number> {
 }
 
 /**
- * Get runner configuration from config
+ * Get runner configuration from config, with per-source overrides from the source params
  */
-function getRunnerBaseConfig(): BaseRunnerConfig {
+function getRunnerBaseConfig(sourceParams: unknown): BaseRunnerConfig {
   const config = getRunnerConfig();
+  // A source's own proxy (sources.params.proxyUrl) overrides the global one
+  const sourceProxyUrl = (sourceParams as { proxyUrl?: unknown } | null)?.proxyUrl;
   return {
     imageBaseDir: config.imageDir,
     tempDir: config.tempDir,
     maxConcurrentDownloads: config.maxConcurrentDownloads,
     minSpeedBytesPerSec: config.minSpeedBytesPerSec,
     slowSpeedTimeoutMs: config.slowSpeedTimeoutMs,
+    hostLimits: parseHostLimits(config.hostLimits),
+    downloadRetries: config.downloadRetries,
+    downloadRetryBaseDelayMs: config.downloadRetryBaseDelayMs,
+    bandwidthLimitBytesPerSec: config.bandwidthLimitBytesPerSec,
+    bandwidthSchedule: parseBandwidthSchedule(config.bandwidthSchedule),
+    nearDuplicateDistance: config.nearDuplicateDistance,
+    nearDuplicateAction: config.nearDuplicateAction,
+    linkFallback: config.linkFallback,
+    proxyUrl: typeof sourceProxyUrl === "string" && sourceProxyUrl ? sourceProxyUrl : config.proxyUrl,
   };
 }
 
@@ -104,6 +115,41 @@ export async function createScheduledRun(scheduleId: string, sourceId: string):
   return run;
 }
 
+/**
+ * Create a new run for a watched folder change.
+ * Returns null if the source already has a pending run, which will pick up the change.
+ */
+export async function createWatchRun(sourceId: string): Promise<Run | null> {
+  const pendingRun = await withQueryName("Scheduler.GetPendingRunForSource", async () =>
+    await db.query.runs.findFirst({
+      where: and(eq(runs.sourceId, sourceId), eq(runs.state, "pending")),
+    })
+  );
+
+  if (pendingRun) {
+    logger.debug({ runId: pendingRun.id, sourceId }, "Source already has a pending run, skipping watch run");
+    return null;
+  }
+
+  const [run] = await withQueryName("Scheduler.CreateWatchRun", async () =>
+    await db
+      .insert(runs)
+      .values({
+        sourceId,
+        scheduleId: null, // Triggered by folder watcher, no schedule
+        name: "fetch_source",
+        state: "pending",
+        input: { watch: true },
+        scheduledAt: new Date(),
+      })
+      .returning()
+  );
+
+  logger.info({ runId: run.id, sourceId }, "Created watch run");
+
+  return run;
+}
+
 /**
  * Update run state
  */
@@ -162,17 +208,8 @@ export async function executeRun(run: Run): Promise<void> {
     }
 
     // Get runner based on source kind
-    let result;
-    const runnerConfig = getRunnerBaseConfig();
-
-    switch (source.kind) {
-      case "reddit":
-        const redditRunner = createRedditRunner();
-        result = await redditRunner.run(sourceId, runnerConfig);
-        break;
-      default:
-        throw new Error(`Unknown source kind: ${source.kind}`);
-    }
+    const runner = getSourceRunner(source.kind);
+    const result = await runner.run(sourceId, getRunnerBaseConfig(source.params));
 
     // Mark as completed or failed based on result
     if (result.success) {
@@ -44,7 +44,7 @@ export const PUT: RequestHandler = async ({ request }) => {
     }
 
     // Validate config structure
-    if (!newConfig.database || !newConfig.scheduler || !newConfig.runner) {
+    if (!newConfig.database || !newConfig.scheduler || !newConfig.runner || !newConfig.reddit) {
       return json({ error: "Invalid config structure" }, { status: 400 });
     }
 
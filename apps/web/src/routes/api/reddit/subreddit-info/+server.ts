@@ -1,6 +1,8 @@
 import { json, error } from "@sveltejs/kit";
 import type { RequestHandler } from "./$types";
 import { createRedditClient } from "@packages/reddit";
+import { getRedditConfig, getRunnerConfig } from "$lib/server/config";
+import { createProxyFetch } from "$lib/server/runner/common";
 
 export const GET: RequestHandler = async ({ url }) => {
   const target = url.searchParams.get("target");
@@ -10,7 +12,8 @@ export const GET: RequestHandler = async ({ url }) => {
   }
 
   try {
-    const client = createRedditClient();
+    // Same proxy as the runner, so lookups work where Reddit is only reachable through it
+    const client = createRedditClient({ ...getRedditConfig(), fetch: createProxyFetch(getRunnerConfig().proxyUrl) });
     const info = await client.getSubredditInfo(target);
 
     return json(info);
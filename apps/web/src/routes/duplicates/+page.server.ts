@@ -0,0 +1,174 @@
+import { db } from "$lib/server/db";
+import { getRunnerConfig } from "$lib/server/config";
+import { computePerceptualHash, deleteImage, groupNearDuplicates } from "$lib/server/runner/common";
+import { deviceImages, images, withQueryName } from "@packages/database";
+import { and, asc, count, eq, gt, inArray, isNotNull, isNull } from "drizzle-orm";
+import { fail } from "@sveltejs/kit";
+import type { PageServerLoad, Actions } from "./$types";
+
+// Groups shown per page load; resolving some brings the next ones up
+const MAX_GROUPS = 50;
+// Older images hashed per click, so the request stays short
+const HASH_BATCH_SIZE = 200;
+
+export const load: PageServerLoad = async () => {
+  const { nearDuplicateDistance } = getRunnerConfig();
+
+  const [hashedImages, unhashedCount] = await Promise.all([
+    withQueryName("Duplicates.ListHashes", async () =>
+      await db
+        .select({
+          id: images.id,
+          perceptualHash: images.perceptualHash,
+          nearDuplicateReviewedAt: images.nearDuplicateReviewedAt,
+        })
+        .from(images)
+        .where(isNotNull(images.perceptualHash))
+    ),
+    withQueryName("Duplicates.CountUnhashed", async () =>
+      await db
+        .select({ count: count() })
+        .from(images)
+        .where(isNull(images.perceptualHash))
+        .then((r) => r[0]?.count ?? 0)
+    ),
+  ]);
+
+  // Groups whose images were all kept by hand stay resolved
+  const groups = groupNearDuplicates(hashedImages, nearDuplicateDistance).filter((group) =>
+    group.some((image) => image.nearDuplicateReviewedAt === null)
+  );
+  const shownGroups = groups.slice(0, MAX_GROUPS);
+
+  const shownIds = shownGroups.flat().map((image) => image.id);
+  const details = shownIds.length === 0
+    ? []
+    : await withQueryName("Duplicates.ListImages", async () =>
+        await db.query.images.findMany({
+          where: inArray(images.id, shownIds),
+          columns: {
+            id: true,
+            title: true,
+            width: true,
+            height: true,
+            filesize: true,
+            format: true,
+            websiteUrl: true,
+            createdAt: true,
+          },
+          with: {
+            source: {
+              columns: {
+                name: true,
+              },
+            },
+            deviceImages: {
+              columns: {
+                localPath: true,
+              },
+              with: {
+                device: {
+                  columns: {
+                    slug: true,
+                  },
+                },
+              },
+              limit: 1,
+            },
+          },
+        })
+      );
+  const detailsById = new Map(details.map((image) => [image.id, image]));
+
+  return {
+    // Largest first, as that is usually the one to keep
+    groups: shownGroups.map((group) =>
+      group
+        .map((image) => detailsById.get(image.id))
+        .filter((image) => image !== undefined)
+        .sort((a, b) => b.width * b.height - a.width * a.height || b.filesize - a.filesize)
+    ),
+    totalGroups: groups.length,
+    unhashedCount,
+    distance: nearDuplicateDistance,
+  };
+};
+
+export const actions: Actions = {
+  // Keep one image of a group and delete the others
+  keep: async ({ request }) => {
+    const formData = await request.formData();
+    const keepId = formData.get("keep");
+    const deleteIds = formData.getAll("delete").filter((id): id is string => typeof id === "string" && id !== keepId);
+
+    if (typeof keepId !== "string" || deleteIds.length === 0) {
+      return fail(400, { error: "Nothing to delete" });
+    }
+
+    const { imageDir } = getRunnerConfig();
+    for (const imageId of deleteIds) {
+      await deleteImage(imageId, imageDir);
+    }
+
+    return { deleted: deleteIds.length };
+  },
+
+  // Keep every image of a group: they are different pictures
+  dismiss: async ({ request }) => {
+    const formData = await request.formData();
+    const imageIds = formData.getAll("id").filter((id): id is string => typeof id === "string");
+
+    if (imageIds.length === 0) {
+      return fail(400, { error: "No images selected" });
+    }
+
+    await withQueryName("Duplicates.MarkReviewed", async () =>
+      await db
+        .update(images)
+        .set({ nearDuplicateReviewedAt: new Date() })
+        .where(inArray(images.id, imageIds))
+    );
+
+    return { dismissed: imageIds.length };
+  },
+
+  // Hash images saved before perceptual hashing existed.
+  // Continues after the last image of the previous batch, so unreadable files aren't retried.
+  hash: async ({ request }) => {
+    const formData = await request.formData();
+    const after = formData.get("after");
+
+    const unhashed = await withQueryName("Duplicates.ListUnhashed", async () =>
+      await db
+        .select({ id: images.id, localPath: deviceImages.localPath })
+        .from(images)
+        .innerJoin(deviceImages, eq(deviceImages.imageId, images.id))
+        .where(
+          and(
+            isNull(images.perceptualHash),
+            typeof after === "string" && after ? gt(images.id, after) : undefined
+          )
+        )
+        .groupBy(images.id)
+        .orderBy(asc(images.id))
+        .limit(HASH_BATCH_SIZE)
+    );
+
+    let hashed = 0;
+    for (const { id, localPath } of unhashed) {
+      const perceptualHash = await computePerceptualHash(localPath);
+      if (!perceptualHash) continue;
+
+      await withQueryName("Duplicates.SetHash", async () =>
+        await db.update(images).set({ perceptualHash }).where(eq(images.id, id))
+      );
+      hashed++;
+    }
+
+    return {
+      hashed,
+      unreadable: unhashed.length - hashed,
+      lastId: unhashed.at(-1)?.id ?? null,
+    };
+  },
+};
@@ -7,6 +7,7 @@ import {
   defaultConfig,
   appConfigSchema,
 } from "$lib/server/config";
+import { getPluginRunnerResults } from "$lib/server/runner";
 import { superValidate, fail, message } from "sveltekit-superforms";
 import { zod4 } from "sveltekit-superforms/adapters";
 import type { PageServerLoad, Actions } from "./$types";
@@ -24,6 +25,7 @@ export const load: PageServerLoad = async () => {
     configPath,
     fileExists,
     defaults: defaultConfig,
+    plugins: getPluginRunnerResults(),
   };
 };
 
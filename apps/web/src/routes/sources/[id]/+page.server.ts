@@ -1,11 +1,22 @@
 import { db } from "$lib/server/db";
 import { sources, schedules, subscriptions, devices, withQueryName } from "@packages/database";
-import { redditSourceSchema, formDataToDbSource, dbSourceToFormData } from "$lib/schemas/source";
-import { superValidate, fail, message } from "sveltekit-superforms";
+import {
+  formDataToDbSource,
+  dbSourceToFormData,
+  dbSourceToPluginFormData,
+  getSourceSchema,
+  isSourceKind,
+  pluginFormDataToDbSource,
+  pluginSourceSchema,
+  type PluginSourceFormData,
+  type SourceFormData,
+} from "$lib/schemas/source";
+import { superValidate, fail, message, type SuperValidated } from "sveltekit-superforms";
 import { zod4 } from "sveltekit-superforms/adapters";
 import { eq } from "drizzle-orm";
 import { error, redirect, isRedirect } from "@sveltejs/kit";
 import { getScheduler } from "$lib/server/scheduler";
+import { getPluginSourceKinds, getSourceRunner } from "$lib/server/runner";
 import type { PageServerLoad, Actions } from "./$types";
 
 export const load: PageServerLoad = async ({ params }) => {
@@ -43,10 +54,20 @@ export const load: PageServerLoad = async ({ params }) => {
   );
 
   // Convert DB format to form data
-  const formData = dbSourceToFormData(source, scheduleCrons, deviceIds);
-  const form = await superValidate(formData, zod4(redditSourceSchema));
+  if (isSourceKind(source.kind)) {
+    const formData = dbSourceToFormData(source, scheduleCrons, deviceIds);
+    const form = await superValidate(formData, zod4(getSourceSchema(source.kind)));
+    return { source, form, devices: allDevices };
+  }
+
+  // Plugin kinds have no form of their own, their params are edited as JSON
+  if (getPluginSourceKinds().includes(source.kind)) {
+    const formData = dbSourceToPluginFormData(source, scheduleCrons, deviceIds);
+    const form = await superValidate(formData, zod4(pluginSourceSchema));
+    return { source, form, devices: allDevices };
+  }
 
-  return { source, form, devices: allDevices };
+  throw error(400, `Unknown source kind: ${source.kind} (is its runner plugin loaded?)`);
 };
 
 export const actions: Actions = {
@@ -66,15 +87,42 @@ export const actions: Actions = {
       submitAction = formData.get('submitAction')?.toString();
     }
 
+    // The kind of an existing source cannot change, validate against the stored kind
+    const source = await withQueryName("Sources.GetKindById", async () =>
+      await db.query.sources.findFirst({
+        where: eq(sources.id, params.id),
+        columns: { kind: true },
+      })
+    );
+
+    if (!source) {
+      throw error(404, "Source not found");
+    }
+
+    const kind = source.kind;
+    if (!isSourceKind(kind) && !getPluginSourceKinds().includes(kind)) {
+      throw error(400, `Unknown source kind: ${kind} (is its runner plugin loaded?)`);
+    }
+
     // superValidate with cloned request handles both JSON and FormData
-    const form = await superValidate(clonedRequest, zod4(redditSourceSchema));
+    const form: SuperValidated<SourceFormData | PluginSourceFormData> = isSourceKind(kind)
+      ? await superValidate(clonedRequest, zod4(getSourceSchema(kind)))
+      : await superValidate(clonedRequest, zod4(pluginSourceSchema));
 
     if (!form.valid) {
       return fail(400, { form });
     }
 
     try {
-      const dbData = formDataToDbSource(form.data);
+      const dbData = isSourceKind(kind)
+        ? formDataToDbSource(form.data as SourceFormData)
+        : pluginFormDataToDbSource(form.data as PluginSourceFormData);
+
+      // The runner has the final say on what params it can run with
+      const paramsError = getSourceRunner(dbData.kind).validateParams(dbData.params);
+      if (paramsError) {
+        return message(form, paramsError, { status: 400 });
+      }
 
       // Update source
       await withQueryName("Sources.Update", async () =>
@@ -86,6 +134,7 @@ export const actions: Actions = {
             kind: dbData.kind,
             params: dbData.params,
             lookupLimit: dbData.lookupLimit,
+            nsfw: dbData.nsfw,
             updatedAt: new Date(),
           })
           .where(eq(sources.id, params.id))
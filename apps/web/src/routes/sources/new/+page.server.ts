@@ -1,10 +1,21 @@
 import { db } from "$lib/server/db";
 import { sources, schedules, subscriptions, devices, withQueryName } from "@packages/database";
-import { redditSourceSchema, formDataToDbSource } from "$lib/schemas/source";
-import { superValidate, fail, message } from "sveltekit-superforms";
+import {
+  formDataToDbSource,
+  getDefaultSourceFormData,
+  getDefaultPluginSourceFormData,
+  getSourceSchema,
+  isSourceKind,
+  pluginFormDataToDbSource,
+  pluginSourceSchema,
+  type PluginSourceFormData,
+  type SourceFormData,
+} from "$lib/schemas/source";
+import { superValidate, fail, message, type SuperValidated } from "sveltekit-superforms";
 import { zod4 } from "sveltekit-superforms/adapters";
 import { redirect, isRedirect } from "@sveltejs/kit";
 import { getScheduler } from "$lib/server/scheduler";
+import { getPluginSourceKinds, getSourceRunner } from "$lib/server/runner";
 import type { PageServerLoad, Actions } from "./$types";
 
 export const load: PageServerLoad = async ({ url }) => {
@@ -17,28 +28,23 @@ export const load: PageServerLoad = async ({ url }) => {
     })
   );
 
-  // If no kind selected, return null form
-  if (!kind || kind !== "reddit") {
-    return { kind: null, form: null, devices: allDevices };
+  // Kinds added by runner plugins, offered after the built-in ones
+  const pluginKinds = getPluginSourceKinds();
+
+  // Create form with defaults for the selected kind
+  if (isSourceKind(kind)) {
+    const form = await superValidate(getDefaultSourceFormData(kind), zod4(getSourceSchema(kind)));
+    return { kind, form, devices: allDevices, pluginKinds };
   }
 
-  // For Reddit, create form with defaults (lookupLimit: 300 for UI)
-  const form = await superValidate(
-    {
-      kind: "reddit",
-      enabled: true,
-      name: "",
-      subreddit: "",
-      sort: "new",
-      topPeriod: "day",
-      lookupLimit: 300,
-      schedules: [],
-      deviceIds: [],
-    },
-    zod4(redditSourceSchema)
-  );
+  // Plugin kinds have no form of their own, their params are edited as JSON
+  if (kind && pluginKinds.includes(kind)) {
+    const form = await superValidate(getDefaultPluginSourceFormData(kind), zod4(pluginSourceSchema));
+    return { kind, form, devices: allDevices, pluginKinds };
+  }
 
-  return { kind: "reddit" as const, form, devices: allDevices };
+  // If no (known) kind selected, return null form
+  return { kind: null, form: null, devices: allDevices, pluginKinds };
 };
 
 export const actions: Actions = {
@@ -46,27 +52,44 @@ export const actions: Actions = {
     // Clone request to read body twice if needed
     const clonedRequest = request.clone();
     
-    // Try to get submitAction from form data or JSON
+    // Try to get submitAction and kind from form data or JSON
     let submitAction: string | undefined;
+    let kind: string | undefined;
     const contentType = request.headers.get('content-type') || '';
     
     if (contentType.includes('application/json')) {
       const json = await request.json();
       submitAction = json.submitAction;
+      kind = json.kind;
     } else {
       const formData = await request.formData();
       submitAction = formData.get('submitAction')?.toString();
+      kind = formData.get('kind')?.toString();
+    }
+
+    if (!isSourceKind(kind) && !(kind && getPluginSourceKinds().includes(kind))) {
+      return fail(400, { error: `Unknown source kind: ${kind}` });
     }
 
     // superValidate with cloned request handles both JSON and FormData
-    const form = await superValidate(clonedRequest, zod4(redditSourceSchema));
+    const form: SuperValidated<SourceFormData | PluginSourceFormData> = isSourceKind(kind)
+      ? await superValidate(clonedRequest, zod4(getSourceSchema(kind)))
+      : await superValidate(clonedRequest, zod4(pluginSourceSchema));
 
     if (!form.valid) {
       return fail(400, { form });
     }
 
     try {
-      const dbData = formDataToDbSource(form.data);
+      const dbData = isSourceKind(kind)
+        ? formDataToDbSource(form.data as SourceFormData)
+        : pluginFormDataToDbSource(form.data as PluginSourceFormData);
+
+      // The runner has the final say on what params it can run with
+      const paramsError = getSourceRunner(dbData.kind).validateParams(dbData.params);
+      if (paramsError) {
+        return message(form, paramsError, { status: 400 });
+      }
 
       // Insert source
       const [newSource] = await withQueryName("Sources.Insert", async () =>
@@ -78,6 +101,7 @@ export const actions: Actions = {
             kind: dbData.kind,
             params: dbData.params,
             lookupLimit: dbData.lookupLimit,
+            nsfw: dbData.nsfw,
           })
           .returning({ id: sources.id })
       );
@@ -0,0 +1,318 @@
+import type {
+  FetchFunction,
+  BooruType,
+  BooruRating,
+  BooruPost,
+  DanbooruPost,
+  GelbooruPost,
+  GelbooruResponse,
+  MoebooruPost,
+  FetchPostsOptions,
+  FetchPostsResult,
+  FetchBatchesOptions,
+} from "./types";
+
+const USER_AGENT = "fallpaper/1.0";
+
+/** Default instance per booru type */
+export const DEFAULT_BOORU_URLS: Record<BooruType, string> = {
+  danbooru: "https://danbooru.donmai.us",
+  gelbooru: "https://gelbooru.com",
+  moebooru: "https://yande.re",
+};
+
+/** Maximum posts per page accepted by each API */
+const MAX_PAGE_SIZE: Record<BooruType, number> = {
+  danbooru: 200,
+  gelbooru: 100,
+  moebooru: 100,
+};
+
+/** Delay between page requests to be polite to the API */
+const REQUEST_INTERVAL_MS = 1000;
+
+/** Only still images are downloaded (no videos, flash or ugoira zips) */
+const IMAGE_EXTENSIONS = new Set(["jpg", "jpeg", "png", "webp", "gif"]);
+
+const DANBOORU_RATINGS: Record<DanbooruPost["rating"], BooruRating> = {
+  g: "general",
+  s: "sensitive",
+  q: "questionable",
+  e: "explicit",
+};
+
+const GELBOORU_RATINGS: Record<GelbooruPost["rating"], BooruRating> = {
+  general: "general",
+  safe: "general",
+  sensitive: "sensitive",
+  questionable: "questionable",
+  explicit: "explicit",
+};
+
+const MOEBOORU_RATINGS: Record<MoebooruPost["rating"], BooruRating> = {
+  s: "general",
+  q: "questionable",
+  e: "explicit",
+};
+
+/**
+ * Get lowercase file extension from a URL
+ */
+function getExtension(url: string): string {
+  const match = url.match(/\.([a-z0-9]+)(?:\?|#|$)/i);
+  return match ? match[1].toLowerCase() : "";
+}
+
+function splitTags(tags: string | undefined): string[] {
+  return tags ? tags.split(/\s+/).filter(Boolean) : [];
+}
+
+/**
+ * Parse a date string to unix seconds, falling back to now
+ */
+function toUnixSeconds(value: string): number {
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? Math.floor(Date.now() / 1000) : Math.floor(ms / 1000);
+}
+
+export interface BooruClientConfig {
+  /** Booru software the instance runs */
+  type: BooruType;
+  /** Instance URL. Defaults to the main instance for the type */
+  baseUrl?: string;
+  /** Account name (Danbooru login, Gelbooru user ID) */
+  login?: string;
+  /** API key for the account */
+  apiKey?: string;
+  /** Request timeout in milliseconds. Default: 30000 */
+  timeout?: number;
+  /** Custom user agent */
+  userAgent?: string;
+  /** Fetch implementation for API requests, e.g. one going through a proxy. Default: global fetch */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Booru API client for Danbooru, Gelbooru and Moebooru instances.
+ * Pure metadata fetcher - no database access, no downloading.
+ */
+export class BooruClient {
+  private type: BooruType;
+  private baseUrl: string;
+  private login?: string;
+  private apiKey?: string;
+  private timeout: number;
+  private userAgent: string;
+  private fetch: FetchFunction;
+
+  constructor(config: BooruClientConfig) {
+    this.type = config.type;
+    this.baseUrl = (config.baseUrl || DEFAULT_BOORU_URLS[config.type]).replace(/\/+$/, "");
+    this.login = config.login;
+    this.apiKey = config.apiKey;
+    this.timeout = config.timeout ?? 30000;
+    this.userAgent = config.userAgent ?? USER_AGENT;
+    this.fetch = config.fetch ?? fetch;
+  }
+
+  /**
+   * Build the post listing URL for the given page
+   */
+  private buildPostsUrl(tags: string, page: number, limit: number): string {
+    const params = new URLSearchParams();
+
+    switch (this.type) {
+      case "danbooru":
+        params.set("tags", tags);
+        params.set("page", String(page));
+        params.set("limit", String(limit));
+        if (this.login && this.apiKey) {
+          params.set("login", this.login);
+          params.set("api_key", this.apiKey);
+        }
+        return `${this.baseUrl}/posts.json?${params.toString()}`;
+
+      case "gelbooru":
+        params.set("page", "dapi");
+        params.set("s", "post");
+        params.set("q", "index");
+        params.set("json", "1");
+        params.set("tags", tags);
+        params.set("pid", String(page - 1)); // 0-based
+        params.set("limit", String(limit));
+        if (this.login && this.apiKey) {
+          params.set("user_id", this.login);
+          params.set("api_key", this.apiKey);
+        }
+        return `${this.baseUrl}/index.php?${params.toString()}`;
+
+      case "moebooru":
+        params.set("tags", tags);
+        params.set("page", String(page));
+        params.set("limit", String(limit));
+        if (this.login && this.apiKey) {
+          params.set("login", this.login);
+          params.set("password_hash", this.apiKey);
+        }
+        return `${this.baseUrl}/post.json?${params.toString()}`;
+    }
+  }
+
+  private parseDanbooruPost(post: DanbooruPost): BooruPost | null {
+    if (!post.file_url || !IMAGE_EXTENSIONS.has(post.file_ext)) return null;
+    return {
+      id: String(post.id),
+      postUrl: `${this.baseUrl}/posts/${post.id}`,
+      fileUrl: post.file_url,
+      width: post.image_width,
+      height: post.image_height,
+      fileSize: post.file_size,
+      md5: post.md5,
+      rating: DANBOORU_RATINGS[post.rating] ?? "explicit",
+      score: post.score,
+      tags: splitTags(post.tag_string),
+      author: splitTags(post.tag_string_artist)[0],
+      source: post.source || undefined,
+      createdAt: toUnixSeconds(post.created_at),
+    };
+  }
+
+  private parseGelbooruPost(post: GelbooruPost): BooruPost | null {
+    if (!post.file_url || !IMAGE_EXTENSIONS.has(getExtension(post.file_url))) return null;
+    return {
+      id: String(post.id),
+      postUrl: `${this.baseUrl}/index.php?page=post&s=view&id=${post.id}`,
+      fileUrl: post.file_url,
+      width: post.width,
+      height: post.height,
+      md5: post.md5,
+      rating: GELBOORU_RATINGS[post.rating] ?? "explicit",
+      score: post.score,
+      tags: splitTags(post.tags),
+      author: post.owner || undefined,
+      source: post.source || undefined,
+      createdAt: toUnixSeconds(post.created_at),
+    };
+  }
+
+  private parseMoebooruPost(post: MoebooruPost): BooruPost | null {
+    const ext = post.file_ext ?? getExtension(post.file_url ?? "");
+    if (!post.file_url || !IMAGE_EXTENSIONS.has(ext)) return null;
+    return {
+      id: String(post.id),
+      postUrl: `${this.baseUrl}/post/show/${post.id}`,
+      fileUrl: post.file_url,
+      width: post.width,
+      height: post.height,
+      fileSize: post.file_size,
+      md5: post.md5,
+      rating: MOEBOORU_RATINGS[post.rating] ?? "explicit",
+      score: post.score,
+      tags: splitTags(post.tags),
+      author: post.author || undefined,
+      source: post.source || undefined,
+      createdAt: post.created_at,
+    };
+  }
+
+  /**
+   * Fetch a single page of posts.
+   * Posts without an accessible still image (videos, restricted files) are dropped.
+   */
+  async fetchPosts(options: FetchPostsOptions = {}): Promise<FetchPostsResult> {
+    const page = options.page ?? 1;
+    const limit = Math.min(options.limit ?? 100, MAX_PAGE_SIZE[this.type]);
+    const url = this.buildPostsUrl(options.tags?.trim() ?? "", page, limit);
+
+    const response = await this.fetch(url, {
+      headers: {
+        "User-Agent": this.userAgent,
+      },
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`Booru API error: ${response.status} ${response.statusText} (check login and API key)`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Booru API error: ${response.status} ${response.statusText}`);
+    }
+
+    let rawPosts: unknown[];
+    switch (this.type) {
+      case "danbooru":
+      case "moebooru":
+        rawPosts = (await response.json()) as unknown[];
+        break;
+      case "gelbooru": {
+        // Gelbooru returns an empty body instead of an empty list past the last page
+        const text = await response.text();
+        rawPosts = text ? ((JSON.parse(text) as GelbooruResponse).post ?? []) : [];
+        break;
+      }
+    }
+
+    const posts = rawPosts
+      .map((post) => {
+        switch (this.type) {
+          case "danbooru":
+            return this.parseDanbooruPost(post as DanbooruPost);
+          case "gelbooru":
+            return this.parseGelbooruPost(post as GelbooruPost);
+          case "moebooru":
+            return this.parseMoebooruPost(post as MoebooruPost);
+        }
+      })
+      .filter((post): post is BooruPost => post !== null);
+
+    return { posts, rawCount: rawPosts.length, page };
+  }
+
+  /**
+   * Async generator that yields pages of posts until `limit` posts have been
+   * looked up or no more pages are available.
+   *
+   * @example
+   * ```ts
+   * const client = createBooruClient({ type: "danbooru" });
+   *
+   * for await (const batch of client.fetchPostBatches({ tags: "scenery", limit: 300 })) {
+   *   console.log(`Got ${batch.posts.length} posts, processing...`);
+   *   await processPosts(batch.posts);
+   * }
+   * ```
+   */
+  async *fetchPostBatches(
+    options: FetchBatchesOptions = {}
+  ): AsyncGenerator<FetchPostsResult, void, unknown> {
+    const { tags, limit = 100 } = options;
+    const pageSize = Math.min(limit, MAX_PAGE_SIZE[this.type]);
+    let remaining = limit;
+    let page = 1;
+
+    while (remaining > 0) {
+      const result = await this.fetchPosts({ tags, page, limit: pageSize });
+
+      // Only yield as many posts as we were asked to look up
+      yield { ...result, posts: result.posts.slice(0, remaining) };
+
+      remaining -= result.rawCount;
+
+      // No more pages available
+      if (result.rawCount < pageSize) break;
+      page++;
+
+      if (remaining > 0) {
+        await new Promise((resolve) => setTimeout(resolve, REQUEST_INTERVAL_MS));
+      }
+    }
+  }
+}
+
+/**
+ * Create a new booru client instance
+ */
+export function createBooruClient(config: BooruClientConfig): BooruClient {
+  return new BooruClient(config);
+}
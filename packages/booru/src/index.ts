@@ -0,0 +1,17 @@
+// Booru API client
+export { BooruClient, createBooruClient, DEFAULT_BOORU_URLS, type BooruClientConfig } from "./client";
+
+// Types
+export type {
+  FetchFunction,
+  BooruType,
+  BooruRating,
+  BooruPost,
+  DanbooruPost,
+  GelbooruPost,
+  GelbooruResponse,
+  MoebooruPost,
+  FetchPostsOptions,
+  FetchBatchesOptions,
+  FetchPostsResult,
+} from "./types";
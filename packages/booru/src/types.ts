@@ -0,0 +1,137 @@
+/**
+ * Booru API response types
+ */
+
+/**
+ * fetch() signature, so callers can pass a wrapped fetch (e.g. one going through a proxy)
+ */
+export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/** Supported booru software */
+export type BooruType = "danbooru" | "gelbooru" | "moebooru";
+
+/**
+ * Danbooru post (GET /posts.json)
+ */
+export interface DanbooruPost {
+  id: number;
+  created_at: string; // ISO 8601
+  score: number;
+  rating: "g" | "s" | "q" | "e";
+  md5?: string; // hidden for some restricted posts
+  file_url?: string; // hidden for some restricted posts
+  large_file_url?: string;
+  image_width: number;
+  image_height: number;
+  file_size: number;
+  file_ext: string;
+  tag_string: string;
+  tag_string_artist: string;
+  source: string;
+}
+
+/**
+ * Gelbooru post (GET /index.php?page=dapi&s=post&q=index&json=1)
+ */
+export interface GelbooruPost {
+  id: number;
+  created_at: string; // e.g. "Sat Feb 01 12:00:00 -0600 2026"
+  score: number;
+  width: number;
+  height: number;
+  md5: string;
+  rating: "general" | "sensitive" | "questionable" | "explicit" | "safe";
+  file_url: string;
+  source: string;
+  tags: string;
+  owner: string;
+}
+
+export interface GelbooruResponse {
+  "@attributes": { limit: number; offset: number; count: number };
+  post?: GelbooruPost[];
+}
+
+/**
+ * Moebooru post (GET /post.json), used by yande.re and konachan
+ */
+export interface MoebooruPost {
+  id: number;
+  created_at: number; // unix seconds
+  score: number;
+  md5: string;
+  file_url: string;
+  file_size: number;
+  file_ext?: string;
+  width: number;
+  height: number;
+  rating: "s" | "q" | "e";
+  source: string;
+  tags: string;
+  author: string;
+}
+
+/**
+ * Normalized rating across boorus
+ * - general: safe for work
+ * - sensitive: mildly suggestive (Danbooru/Gelbooru only)
+ * - questionable / explicit: not safe for work
+ */
+export type BooruRating = "general" | "sensitive" | "questionable" | "explicit";
+
+/**
+ * Parsed post with the fields we need
+ */
+export interface BooruPost {
+  id: string;
+  /** Post page URL */
+  postUrl: string;
+  /** Original file URL */
+  fileUrl: string;
+  width: number;
+  height: number;
+  /** File size in bytes (not reported by Gelbooru) */
+  fileSize?: number;
+  /** MD5 of the original file */
+  md5?: string;
+  rating: BooruRating;
+  score: number;
+  tags: string[];
+  /** Uploader or artist name */
+  author?: string;
+  /** Original source URL reported by the booru */
+  source?: string;
+  /** Unix timestamp (seconds) */
+  createdAt: number;
+}
+
+/**
+ * Options for a single page of posts
+ */
+export interface FetchPostsOptions {
+  /** Space separated tag query, e.g. "landscape scenery" */
+  tags?: string;
+  /** Page number (1-based) */
+  page?: number;
+  /** Posts per page. Default: 100 */
+  limit?: number;
+}
+
+/**
+ * Options for fetching posts in batches
+ */
+export interface FetchBatchesOptions {
+  tags?: string;
+  /** Total number of posts to look up. Default: 100 */
+  limit?: number;
+}
+
+/**
+ * Page of parsed posts
+ */
+export interface FetchPostsResult {
+  posts: BooruPost[];
+  /** Number of posts on the page, including ones without a usable image file */
+  rawCount: number;
+  page: number;
+}
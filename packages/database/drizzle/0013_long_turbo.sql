@@ -0,0 +1,2 @@
+ALTER TABLE `images` ADD `copyright` text;--> statement-breakpoint
+ALTER TABLE `images` ADD `license` text;
\ No newline at end of file
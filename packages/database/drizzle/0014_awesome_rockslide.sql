@@ -0,0 +1,12 @@
+CREATE TABLE `failed_downloads` (
+	`id` text PRIMARY KEY NOT NULL,
+	`source_id` text NOT NULL,
+	`download_url` text NOT NULL,
+	`status` integer,
+	`error` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`source_id`) REFERENCES `sources`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `failed_downloads_download_url_unique` ON `failed_downloads` (`download_url`);--> statement-breakpoint
+CREATE INDEX `failed_downloads_source_id_idx` ON `failed_downloads` (`source_id`);
\ No newline at end of file
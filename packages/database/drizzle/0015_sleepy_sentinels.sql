@@ -0,0 +1,2 @@
+ALTER TABLE `images` ADD `perceptual_hash` text;--> statement-breakpoint
+ALTER TABLE `images` ADD `near_duplicate_reviewed_at` integer;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `image_aliases` (
+	`id` text PRIMARY KEY NOT NULL,
+	`image_id` text NOT NULL,
+	`source_id` text NOT NULL,
+	`website_url` text NOT NULL,
+	`download_url` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`image_id`) REFERENCES `images`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`source_id`) REFERENCES `sources`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `image_aliases_download_url_unique` ON `image_aliases` (`download_url`);--> statement-breakpoint
+CREATE INDEX `image_aliases_image_id_idx` ON `image_aliases` (`image_id`);--> statement-breakpoint
+CREATE INDEX `image_aliases_source_id_idx` ON `image_aliases` (`source_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `images` ADD `content_hash` text;--> statement-breakpoint
+CREATE INDEX `images_content_hash_idx` ON `images` (`content_hash`);
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+import { relations } from "drizzle-orm";
+import { uuidv7 } from "uuidv7";
+import { sources } from "./source";
+
+// Downloads that failed permanently (404, 410, 403, not an image); runners skip these URLs
+export const failedDownloads = sqliteTable(
+  "failed_downloads",
+  {
+    id: text("id").primaryKey().$defaultFn(() => uuidv7()),
+
+    sourceId: text("source_id")
+      .notNull()
+      .references(() => sources.id, { onDelete: "cascade" }),
+
+    downloadUrl: text("download_url").notNull().unique(),
+
+    // HTTP status, if the server answered
+    status: integer("status"),
+    error: text("error").notNull(),
+
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+  },
+  (table) => [
+    index("failed_downloads_source_id_idx").on(table.sourceId),
+  ]
+);
+
+export const failedDownloadsRelations = relations(failedDownloads, ({ one }) => ({
+  source: one(sources, {
+    fields: [failedDownloads.sourceId],
+    references: [sources.id],
+  }),
+}));
+
+export type FailedDownload = typeof failedDownloads.$inferSelect;
+export type NewFailedDownload = typeof failedDownloads.$inferInsert;
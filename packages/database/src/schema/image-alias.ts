@@ -0,0 +1,44 @@
+import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+import { relations } from "drizzle-orm";
+import { uuidv7 } from "uuidv7";
+import { images } from "./image";
+import { sources } from "./source";
+
+// Other URLs an image was found at (same checksum), so the file is stored once
+export const imageAliases = sqliteTable(
+  "image_aliases",
+  {
+    id: text("id").primaryKey().$defaultFn(() => uuidv7()),
+
+    imageId: text("image_id")
+      .notNull()
+      .references(() => images.id, { onDelete: "cascade" }),
+
+    sourceId: text("source_id")
+      .notNull()
+      .references(() => sources.id, { onDelete: "cascade" }),
+
+    websiteUrl: text("website_url").notNull(),
+    downloadUrl: text("download_url").notNull().unique(),
+
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+  },
+  (table) => [
+    index("image_aliases_image_id_idx").on(table.imageId),
+    index("image_aliases_source_id_idx").on(table.sourceId),
+  ]
+);
+
+export const imageAliasesRelations = relations(imageAliases, ({ one }) => ({
+  image: one(images, {
+    fields: [imageAliases.imageId],
+    references: [images.id],
+  }),
+  source: one(sources, {
+    fields: [imageAliases.sourceId],
+    references: [sources.id],
+  }),
+}));
+
+export type ImageAlias = typeof imageAliases.$inferSelect;
+export type NewImageAlias = typeof imageAliases.$inferInsert;
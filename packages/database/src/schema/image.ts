@@ -3,6 +3,7 @@ import { relations } from "drizzle-orm";
 import { uuidv7 } from "uuidv7";
 import { sources } from "./source";
 import { deviceImages } from "./device-image";
+import { imageAliases } from "./image-alias";
 
 export const images = sqliteTable(
   "images",
@@ -26,6 +27,12 @@ export const images = sqliteTable(
     
     // Dedupe
     checksum: text("checksum"),
+    // SHA-256 of the file, its key in the content-addressed store (null until the library is converted)
+    contentHash: text("content_hash"),
+    // 64-bit difference hash (hex) for spotting resized or re-encoded copies
+    perceptualHash: text("perceptual_hash"),
+    // Set when kept by hand from the near-duplicates view, so its group is not shown again
+    nearDuplicateReviewedAt: integer("near_duplicate_reviewed_at", { mode: "timestamp" }),
 
     // Image metadata
     width: integer("width").notNull(),
@@ -39,6 +46,8 @@ export const images = sqliteTable(
     nsfw: integer("nsfw").notNull().default(0), // 0: sfw, 1: nsfw, 2: unknown
     author: text("author"),
     authorUrl: text("author_url"),
+    copyright: text("copyright"),
+    license: text("license"),
 
     // Storage
     thumbnailPath: text("thumbnail_path"),
@@ -52,6 +61,7 @@ export const images = sqliteTable(
     index("images_source_id_idx").on(table.sourceId),
     index("images_source_item_id_idx").on(table.sourceItemId),
     index("images_checksum_idx").on(table.checksum),
+    index("images_content_hash_idx").on(table.contentHash),
     index("images_aspect_ratio_idx").on(table.aspectRatio),
     index("images_nsfw_idx").on(table.nsfw),
   ]
@@ -63,6 +73,7 @@ export const imagesRelations = relations(images, ({ one, many }) => ({
     references: [sources.id],
   }),
   deviceImages: many(deviceImages),
+  aliases: many(imageAliases),
 }));
 
 export type Image = typeof images.$inferSelect;
@@ -5,3 +5,5 @@ export * from "./schedule";
 export * from "./image";
 export * from "./device-image";
 export * from "./run";
+export * from "./failed-download";
+export * from "./image-alias";
@@ -5,6 +5,8 @@ import { subscriptions } from "./subscription";
 import { schedules } from "./schedule";
 import { images } from "./image";
 import { runs } from "./run";
+import { failedDownloads } from "./failed-download";
+import { imageAliases } from "./image-alias";
 
 export const sources = sqliteTable(
   "sources",
@@ -48,6 +50,8 @@ export const sourcesRelations = relations(sources, ({ many }) => ({
   schedules: many(schedules),
   images: many(images),
   runs: many(runs),
+  failedDownloads: many(failedDownloads),
+  imageAliases: many(imageAliases),
 }));
 
 export type Source = typeof sources.$inferSelect;
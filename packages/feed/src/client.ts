@@ -0,0 +1,58 @@
+import { parseFeed } from "./parser";
+import type { Feed, FetchFunction } from "./types";
+
+const USER_AGENT = "fallpaper/1.0";
+
+export interface FeedClientConfig {
+  /** Request timeout in milliseconds. Default: 30000 */
+  timeout?: number;
+  /** Custom user agent */
+  userAgent?: string;
+  /** Fetch implementation for API requests, e.g. one going through a proxy. Default: global fetch */
+  fetch?: FetchFunction;
+}
+
+/**
+ * RSS / Atom feed client.
+ * Pure metadata fetcher - no database access, no downloading.
+ */
+export class FeedClient {
+  private timeout: number;
+  private userAgent: string;
+  private fetch: FetchFunction;
+
+  constructor(config: FeedClientConfig = {}) {
+    this.timeout = config.timeout ?? 30000;
+    this.userAgent = config.userAgent ?? USER_AGENT;
+    this.fetch = config.fetch ?? fetch;
+  }
+
+  /**
+   * Fetch and parse a feed
+   * @param url - RSS or Atom feed URL
+   */
+  async fetchFeed(url: string): Promise<Feed> {
+    const response = await this.fetch(url, {
+      headers: {
+        "User-Agent": this.userAgent,
+        Accept: "application/rss+xml, application/atom+xml, application/rdf+xml, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.5",
+      },
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Feed fetch error: ${response.status} ${response.statusText}`);
+    }
+
+    const xml = await response.text();
+    // Resolve relative links against the final URL after redirects
+    return parseFeed(xml, response.url || url);
+  }
+}
+
+/**
+ * Create a new feed client
+ */
+export function createFeedClient(config?: FeedClientConfig): FeedClient {
+  return new FeedClient(config);
+}
@@ -0,0 +1,8 @@
+// Feed client
+export { FeedClient, createFeedClient, type FeedClientConfig } from "./client";
+
+// Parser
+export { parseFeed } from "./parser";
+
+// Types
+export type { Feed, FeedItem, FeedImage, FeedImageOrigin, FetchFunction } from "./types";
@@ -0,0 +1,306 @@
+import { XMLParser } from "fast-xml-parser";
+import type { Feed, FeedImage, FeedItem } from "./types";
+
+// fast-xml-parser output: strings, attribute/text objects or arrays of those.
+// Elements are objects keyed by child name, "@_attribute" and "#text".
+type XmlElement = Record<string, unknown>;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  textNodeName: "#text",
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  htmlEntities: true,
+});
+
+const IMAGE_EXTENSION_PATTERN = /\.(jpe?g|png|webp|gif|avif|bmp)(\?|#|$)/i;
+
+// src attribute of <img> tags in item HTML
+const HTML_IMG_PATTERN = /<img\b[^>]*?\bsrc\s*=\s*(?:"([^"]+)"|'([^']+)'|([^\s>]+))/gi;
+
+function isElement(value: unknown): value is XmlElement {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Wrap a possibly repeated element in an array
+ */
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Child elements with attributes or children, skipping text-only ones
+ */
+function elements(value: unknown): XmlElement[] {
+  return asArray(value).filter(isElement);
+}
+
+/**
+ * Get the text content of an element (plain string or { "#text" } object)
+ */
+function textOf(value: unknown): string | undefined {
+  const node = Array.isArray(value) ? value[0] : value;
+  if (typeof node === "string" || typeof node === "number") {
+    const str = String(node).trim();
+    return str || undefined;
+  }
+  if (isElement(node) && node["#text"] !== undefined) {
+    const str = String(node["#text"]).trim();
+    return str || undefined;
+  }
+  return undefined;
+}
+
+function attr(node: unknown, name: string): string | undefined {
+  if (!isElement(node)) return undefined;
+  const value = node[`@_${name}`];
+  return value === undefined || value === "" ? undefined : String(value);
+}
+
+function numberAttr(node: unknown, name: string): number | undefined {
+  const value = Number(attr(node, name));
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Parse RFC 822 / ISO 8601 dates to unix seconds
+ */
+function parseDate(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? undefined : Math.floor(ms / 1000);
+}
+
+/**
+ * Resolve a possibly relative URL. Returns undefined for non-http(s) URLs (e.g. data: URIs).
+ */
+function resolveUrl(url: string, base: string | undefined): string | undefined {
+  try {
+    const resolved = new URL(url.trim(), base);
+    if (resolved.protocol !== "http:" && resolved.protocol !== "https:") return undefined;
+    return resolved.href;
+  } catch {
+    return undefined;
+  }
+}
+
+function isImageType(type: string | undefined): boolean {
+  return !!type && type.toLowerCase().startsWith("image/");
+}
+
+function looksLikeImageUrl(url: string): boolean {
+  return IMAGE_EXTENSION_PATTERN.test(url);
+}
+
+/**
+ * Collect <img> sources from an HTML fragment
+ */
+function extractHtmlImages(html: string | undefined): string[] {
+  if (!html) return [];
+  const urls: string[] = [];
+  for (const match of html.matchAll(HTML_IMG_PATTERN)) {
+    const src = match[1] ?? match[2] ?? match[3];
+    if (src) urls.push(src.replace(/&amp;/g, "&"));
+  }
+  return urls;
+}
+
+/**
+ * Collect media:content and media:thumbnail from an item, including those
+ * nested in media:group
+ */
+function mediaNodes(item: XmlElement, name: "media:content" | "media:thumbnail"): unknown[] {
+  const nodes = asArray(item[name]);
+  for (const group of elements(item["media:group"])) {
+    nodes.push(...asArray(group[name]));
+  }
+  return nodes;
+}
+
+/**
+ * Find all images in a feed item.
+ * Enclosures, media:content and inline <img> tags come first. media:thumbnail
+ * entries are only used when the item has no full size image, as they are
+ * usually small previews of the same picture.
+ */
+function extractImages(item: XmlElement, htmlFields: Array<string | undefined>, base: string | undefined): FeedImage[] {
+  const images: FeedImage[] = [];
+  const seen = new Set<string>();
+
+  const add = (rawUrl: string | undefined, image: Omit<FeedImage, "url">) => {
+    if (!rawUrl) return;
+    const url = resolveUrl(rawUrl, base);
+    if (!url || seen.has(url)) return;
+    seen.add(url);
+    images.push({ url, ...image });
+  };
+
+  // RSS <enclosure url type length> and Atom <link rel="enclosure" href type length>
+  for (const enclosure of asArray(item.enclosure)) {
+    const url = attr(enclosure, "url");
+    const type = attr(enclosure, "type");
+    if (url && (isImageType(type) || (!type && looksLikeImageUrl(url)))) {
+      add(url, { origin: "enclosure", fileSize: numberAttr(enclosure, "length") });
+    }
+  }
+  for (const link of asArray(item.link)) {
+    const href = attr(link, "href");
+    if (href && attr(link, "rel") === "enclosure" && isImageType(attr(link, "type"))) {
+      add(href, { origin: "enclosure", fileSize: numberAttr(link, "length") });
+    }
+  }
+
+  for (const media of mediaNodes(item, "media:content")) {
+    const url = attr(media, "url");
+    const medium = attr(media, "medium");
+    const type = attr(media, "type");
+    const isImage = medium ? medium === "image" : type ? isImageType(type) : !!url && looksLikeImageUrl(url);
+    if (url && isImage) {
+      add(url, {
+        origin: "media:content",
+        width: numberAttr(media, "width"),
+        height: numberAttr(media, "height"),
+        fileSize: numberAttr(media, "fileSize"),
+      });
+    }
+  }
+
+  for (const html of htmlFields) {
+    for (const src of extractHtmlImages(html)) {
+      add(src, { origin: "html" });
+    }
+  }
+
+  if (images.length === 0) {
+    for (const thumbnail of mediaNodes(item, "media:thumbnail")) {
+      add(attr(thumbnail, "url"), {
+        origin: "media:thumbnail",
+        width: numberAttr(thumbnail, "width"),
+        height: numberAttr(thumbnail, "height"),
+      });
+    }
+  }
+
+  return images;
+}
+
+function isAdult(item: XmlElement): boolean {
+  const ratings = asArray(item["media:rating"]);
+  for (const group of elements(item["media:group"])) {
+    ratings.push(...asArray(group["media:rating"]));
+  }
+  return ratings.some((rating) => textOf(rating)?.toLowerCase() === "adult");
+}
+
+function parseRssItem(item: XmlElement, feedLink: string | undefined): FeedItem | null {
+  // An empty link would resolve to the feed's own link, and give every such item the same ID
+  const rawLink = textOf(item.link);
+  const link = rawLink ? resolveUrl(rawLink, feedLink) : undefined;
+  const guid = textOf(item.guid);
+  const id = guid ?? link ?? textOf(item.title);
+  if (!id) return null;
+
+  const base = link ?? feedLink;
+  return {
+    id,
+    title: textOf(item.title),
+    link,
+    author: textOf(item["dc:creator"]) ?? textOf(item.author),
+    publishedAt: parseDate(textOf(item.pubDate) ?? textOf(item["dc:date"])),
+    nsfw: isAdult(item),
+    images: extractImages(item, [textOf(item["content:encoded"]), textOf(item.description)], base),
+  };
+}
+
+/**
+ * Get the page link of an Atom entry or feed (rel="alternate" or no rel)
+ */
+function atomLink(node: XmlElement, base: string | undefined): string | undefined {
+  const links = asArray(node.link);
+  const alternate =
+    links.find((l) => isElement(l) && (!attr(l, "rel") || attr(l, "rel") === "alternate")) ?? links[0];
+  const href = typeof alternate === "string" ? alternate : attr(alternate, "href");
+  return href ? resolveUrl(href, base) : undefined;
+}
+
+function parseAtomEntry(entry: XmlElement, feedLink: string | undefined): FeedItem | null {
+  const link = atomLink(entry, feedLink);
+  const id = textOf(entry.id) ?? link ?? textOf(entry.title);
+  if (!id) return null;
+
+  const author = elements(entry.author)[0];
+  const authorUri = author ? textOf(author.uri) : undefined;
+
+  return {
+    id,
+    title: textOf(entry.title),
+    link,
+    author: author ? textOf(author.name) : undefined,
+    authorUrl: authorUri ? resolveUrl(authorUri, feedLink) : undefined,
+    publishedAt: parseDate(textOf(entry.published) ?? textOf(entry.updated)),
+    nsfw: isAdult(entry),
+    images: extractImages(entry, [textOf(entry.content), textOf(entry.summary)], link ?? feedLink),
+  };
+}
+
+/**
+ * Parse an RSS 2.0, RSS 1.0 (RDF) or Atom document.
+ * @param xml - Raw feed XML
+ * @param feedUrl - URL the feed was fetched from, used to resolve relative links
+ * @throws Error if the document is not a recognized feed
+ */
+export function parseFeed(xml: string, feedUrl?: string): Feed {
+  let doc: unknown;
+  try {
+    doc = parser.parse(xml);
+  } catch (err) {
+    throw new Error(`Invalid feed XML: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const root = isElement(doc) ? doc : {};
+
+  if (isElement(root.rss)) {
+    const channel = elements(root.rss.channel)[0] ?? {};
+    const link = resolveUrl(textOf(channel.link) ?? "", feedUrl) ?? feedUrl;
+    return {
+      format: "rss",
+      title: textOf(channel.title),
+      link,
+      items: elements(channel.item)
+        .map((item) => parseRssItem(item, link))
+        .filter((item): item is FeedItem => item !== null),
+    };
+  }
+
+  if (isElement(root.feed)) {
+    const link = atomLink(root.feed, feedUrl) ?? feedUrl;
+    return {
+      format: "atom",
+      title: textOf(root.feed.title),
+      link,
+      items: elements(root.feed.entry)
+        .map((entry) => parseAtomEntry(entry, link))
+        .filter((item): item is FeedItem => item !== null),
+    };
+  }
+
+  const rdf = root["rdf:RDF"];
+  if (isElement(rdf)) {
+    const channel = elements(rdf.channel)[0] ?? {};
+    const link = resolveUrl(textOf(channel.link) ?? "", feedUrl) ?? feedUrl;
+    return {
+      format: "rdf",
+      title: textOf(channel.title),
+      link,
+      items: elements(rdf.item)
+        .map((item) => parseRssItem(item, link))
+        .filter((item): item is FeedItem => item !== null),
+    };
+  }
+
+  throw new Error("Unrecognized feed format: expected RSS or Atom document");
+}
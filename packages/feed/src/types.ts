@@ -0,0 +1,54 @@
+/**
+ * fetch() signature, so callers can pass a wrapped fetch (e.g. one going through a proxy)
+ */
+export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Where in a feed item an image URL was found
+ */
+export type FeedImageOrigin = "enclosure" | "media:content" | "media:thumbnail" | "html";
+
+/**
+ * Image referenced by a feed item
+ */
+export interface FeedImage {
+  url: string;
+  /** Width if the feed reports it (media:content / media:thumbnail) */
+  width?: number;
+  /** Height if the feed reports it (media:content / media:thumbnail) */
+  height?: number;
+  /** File size in bytes if the feed reports it (enclosure length / media:content fileSize) */
+  fileSize?: number;
+  origin: FeedImageOrigin;
+}
+
+/**
+ * Parsed RSS item or Atom entry
+ */
+export interface FeedItem {
+  /** Stable identifier: guid / atom id, falling back to link */
+  id: string;
+  title?: string;
+  /** Item page URL */
+  link?: string;
+  author?: string;
+  /** Author profile URL (Atom author uri) */
+  authorUrl?: string;
+  /** Publication time as unix timestamp (seconds) */
+  publishedAt?: number;
+  /** Whether the item is marked adult (media:rating "adult") */
+  nsfw: boolean;
+  /** Images found in the item, full size images first */
+  images: FeedImage[];
+}
+
+/**
+ * Parsed RSS or Atom feed
+ */
+export interface Feed {
+  format: "rss" | "atom" | "rdf";
+  title?: string;
+  /** Site URL */
+  link?: string;
+  items: FeedItem[];
+}
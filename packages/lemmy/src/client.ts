@@ -0,0 +1,216 @@
+import type {
+  FetchFunction,
+  LemmyPostView,
+  LemmyPostListResponse,
+  LemmyImage,
+  FetchCommunityOptions,
+  FetchCommunityResult,
+} from "./types";
+
+const USER_AGENT = "fallpaper/1.0";
+
+/** Maximum posts per page accepted by the API */
+const MAX_PAGE_SIZE = 50;
+
+/** Delay between page requests to be polite to the instance */
+const REQUEST_INTERVAL_MS = 1000;
+
+const IMAGE_EXTENSION_PATTERN = /\.(jpe?g|png|webp|gif)(\?|#|$)/i;
+
+/**
+ * Split name@instance into its parts
+ */
+export function parseCommunity(community: string): { name: string; instance: string } {
+  const [name, instance] = community.replace(/^!/, "").split("@");
+  if (!name || !instance) {
+    throw new Error(`Invalid community "${community}": must be name@instance`);
+  }
+  return { name, instance };
+}
+
+/**
+ * Get the full size image URL of a post, or null for non-image posts.
+ * pict-rs URLs (…/pictrs/image/{id}.jpeg) often have no useful extension
+ * and may carry thumbnail parameters, and proxied images wrap the original.
+ */
+function getPostImageUrl(post: LemmyPostView["post"]): string | null {
+  if (!post.url) return null;
+
+  let url: URL;
+  try {
+    url = new URL(post.url);
+  } catch {
+    return null;
+  }
+
+  // Image proxy (0.19+): /api/v3/image_proxy?url=<original>
+  if (url.pathname.endsWith("/api/v3/image_proxy")) {
+    const original = url.searchParams.get("url");
+    return original && IMAGE_EXTENSION_PATTERN.test(original) ? original : null;
+  }
+
+  if (url.pathname.includes("/pictrs/image/")) {
+    url.searchParams.delete("thumbnail");
+    return url.href;
+  }
+
+  if (post.url_content_type?.startsWith("image/") || IMAGE_EXTENSION_PATTERN.test(post.url)) {
+    return post.url;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a Lemmy timestamp. Older versions omit the timezone, which is UTC.
+ */
+function toUnixSeconds(value: string): number {
+  const iso = /[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value}Z`;
+  const ms = Date.parse(iso);
+  return Number.isNaN(ms) ? Math.floor(Date.now() / 1000) : Math.floor(ms / 1000);
+}
+
+export interface LemmyClientConfig {
+  /**
+   * Instance to query. Defaults to the community's own instance.
+   * Any instance federating with the community works.
+   */
+  instanceUrl?: string;
+  /** Request timeout in milliseconds. Default: 30000 */
+  timeout?: number;
+  /** Custom user agent */
+  userAgent?: string;
+  /** Fetch implementation for API requests, e.g. one going through a proxy. Default: global fetch */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Lemmy API client for fetching community posts and images.
+ * Pure metadata fetcher - no database access, no downloading.
+ */
+export class LemmyClient {
+  private instanceUrl?: string;
+  private timeout: number;
+  private userAgent: string;
+  private fetch: FetchFunction;
+
+  constructor(config: LemmyClientConfig = {}) {
+    this.instanceUrl = config.instanceUrl?.replace(/\/+$/, "");
+    this.timeout = config.timeout ?? 30000;
+    this.userAgent = config.userAgent ?? USER_AGENT;
+    this.fetch = config.fetch ?? fetch;
+  }
+
+  /**
+   * Fetch a single page of images from a community.
+   * Text posts, link posts and removed posts are skipped.
+   */
+  async fetchCommunity(options: FetchCommunityOptions): Promise<FetchCommunityResult> {
+    const { sort = "New", limit = 20, page = 1 } = options;
+    const { name, instance } = parseCommunity(options.community);
+
+    // The community's own instance knows it by its bare name
+    const baseUrl = this.instanceUrl ?? `https://${instance}`;
+    const params = new URLSearchParams({
+      community_name: this.instanceUrl ? `${name}@${instance}` : name,
+      sort,
+      limit: String(Math.min(limit, MAX_PAGE_SIZE)),
+      page: String(page),
+      type_: "All",
+    });
+
+    const response = await this.fetch(`${baseUrl}/api/v3/post/list?${params.toString()}`, {
+      headers: {
+        "User-Agent": this.userAgent,
+        Accept: "application/json",
+      },
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Lemmy API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as LemmyPostListResponse;
+    const images: LemmyImage[] = [];
+
+    for (const view of data.posts) {
+      if (view.post.removed || view.post.deleted) continue;
+
+      const imageUrl = getPostImageUrl(view.post);
+      if (!imageUrl) continue;
+
+      images.push({
+        postId: String(view.post.id),
+        postUrl: `${baseUrl}/post/${view.post.id}`,
+        imageUrl,
+        title: view.post.name,
+        author: view.creator.display_name || view.creator.name,
+        authorUrl: view.creator.actor_id,
+        community: view.community.name,
+        nsfw: view.post.nsfw || view.community.nsfw,
+        createdAt: toUnixSeconds(view.post.published),
+        score: view.counts.score,
+      });
+    }
+
+    return {
+      images,
+      page,
+      postsProcessed: data.posts.length,
+    };
+  }
+
+  /**
+   * Async generator that yields batches of images from a community.
+   * Each yield returns images from one API request (up to 50 posts).
+   * Allows processing to start while fetching continues.
+   *
+   * @example
+   * ```ts
+   * const client = createLemmyClient();
+   *
+   * for await (const batch of client.fetchCommunityBatches({ community: "wallpapers@lemmy.world", limit: 300 })) {
+   *   console.log(`Got ${batch.images.length} images, processing...`);
+   *   await processImages(batch.images);
+   * }
+   * ```
+   */
+  async *fetchCommunityBatches(
+    options: FetchCommunityOptions
+  ): AsyncGenerator<FetchCommunityResult, void, unknown> {
+    const { limit = 20, ...rest } = options;
+    let page = rest.page ?? 1;
+    let remaining = limit;
+
+    while (remaining > 0) {
+      const pageLimit = Math.min(remaining, MAX_PAGE_SIZE);
+
+      const result = await this.fetchCommunity({
+        ...rest,
+        limit: pageLimit,
+        page,
+      });
+
+      yield result;
+
+      remaining -= result.postsProcessed;
+
+      // No more pages available
+      if (result.postsProcessed < pageLimit) break;
+      page++;
+
+      // Rate limiting: wait 1 second between requests
+      if (remaining > 0) {
+        await new Promise((resolve) => setTimeout(resolve, REQUEST_INTERVAL_MS));
+      }
+    }
+  }
+}
+
+/**
+ * Create a new Lemmy client instance
+ */
+export function createLemmyClient(config?: LemmyClientConfig): LemmyClient {
+  return new LemmyClient(config);
+}
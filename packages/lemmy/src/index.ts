@@ -0,0 +1,13 @@
+// Lemmy API client
+export { LemmyClient, createLemmyClient, parseCommunity, type LemmyClientConfig } from "./client";
+
+// Types
+export type {
+  FetchFunction,
+  LemmySortType,
+  LemmyPostView,
+  LemmyPostListResponse,
+  LemmyImage,
+  FetchCommunityOptions,
+  FetchCommunityResult,
+} from "./types";
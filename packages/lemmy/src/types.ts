@@ -0,0 +1,101 @@
+/**
+ * Lemmy API response types (v3)
+ */
+
+/**
+ * fetch() signature, so callers can pass a wrapped fetch (e.g. one going through a proxy)
+ */
+export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/** Post sort modes supported by the post list endpoint */
+export type LemmySortType =
+  | "Active"
+  | "Hot"
+  | "New"
+  | "TopDay"
+  | "TopWeek"
+  | "TopMonth"
+  | "TopYear"
+  | "TopAll";
+
+/**
+ * Post view (GET /api/v3/post/list)
+ */
+export interface LemmyPostView {
+  post: {
+    id: number;
+    name: string; // title
+    url?: string;
+    url_content_type?: string;
+    thumbnail_url?: string;
+    nsfw: boolean;
+    published: string; // ISO 8601, may lack the timezone on older versions
+    ap_id: string;
+    removed: boolean;
+    deleted: boolean;
+  };
+  creator: {
+    name: string;
+    display_name?: string;
+    actor_id: string;
+  };
+  community: {
+    name: string;
+    nsfw: boolean;
+    actor_id: string;
+  };
+  counts: {
+    score: number;
+  };
+}
+
+export interface LemmyPostListResponse {
+  posts: LemmyPostView[];
+  next_page?: string;
+}
+
+/**
+ * Parsed image data ready for processing
+ */
+export interface LemmyImage {
+  /** Post ID on the instance that was queried */
+  postId: string;
+  /** URL to the post on the instance that was queried */
+  postUrl: string;
+  /** Direct URL to the image */
+  imageUrl: string;
+  /** Post title */
+  title: string;
+  /** Post author */
+  author: string;
+  /** Author profile URL */
+  authorUrl: string;
+  /** Community name (without instance) */
+  community: string;
+  /** Whether the post or its community is marked NSFW */
+  nsfw: boolean;
+  /** Unix timestamp when the post was published */
+  createdAt: number;
+  /** Post score (upvotes - downvotes) */
+  score: number;
+}
+
+export interface FetchCommunityOptions {
+  /** Community as name@instance, e.g. wallpapers@lemmy.world */
+  community: string;
+  /** Sort type. Default: New */
+  sort?: LemmySortType;
+  /** Maximum number of posts to fetch (capped at 50 per request) */
+  limit?: number;
+  /** Page number, starting at 1 */
+  page?: number;
+}
+
+export interface FetchCommunityResult {
+  /** Parsed images from the posts */
+  images: LemmyImage[];
+  /** Page that was fetched */
+  page: number;
+  /** Number of posts processed */
+  postsProcessed: number;
+}
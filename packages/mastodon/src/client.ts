@@ -0,0 +1,244 @@
+import type {
+  FetchFunction,
+  MastodonAccount,
+  MastodonStatus,
+  MastodonImage,
+  MastodonTarget,
+  FetchStatusesOptions,
+  FetchStatusesResult,
+} from "./types";
+
+const USER_AGENT = "fallpaper/1.0";
+
+/** Maximum statuses per page accepted by the API */
+const MAX_PAGE_SIZE = 40;
+
+/** Default delay between page requests to be polite to the instance */
+const REQUEST_INTERVAL_MS = 1000;
+
+/**
+ * Convert status HTML to plain text
+ */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/p>/gi, " ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Parse a single status and extract its image attachments.
+ * Videos, gifv and audio are skipped.
+ */
+function parseStatusImages(status: MastodonStatus): MastodonImage[] {
+  const images: MastodonImage[] = [];
+  const text = stripHtml(status.content);
+  const createdAt = Math.floor(Date.parse(status.created_at) / 1000);
+
+  for (let i = 0; i < status.media_attachments.length; i++) {
+    const media = status.media_attachments[i];
+    const imageUrl = media.url ?? media.remote_url;
+    if (media.type !== "image" || !imageUrl) {
+      continue;
+    }
+
+    images.push({
+      statusId: status.id,
+      statusUrl: status.url ?? status.uri,
+      mediaId: media.id,
+      imageUrl,
+      width: media.meta?.original?.width ?? 0,
+      height: media.meta?.original?.height ?? 0,
+      title: text || media.description?.trim() || "",
+      author: status.account.display_name || status.account.acct,
+      authorUrl: status.account.url,
+      nsfw: status.sensitive,
+      createdAt: Number.isNaN(createdAt) ? Math.floor(Date.now() / 1000) : createdAt,
+      galleryIndex: i,
+    });
+  }
+
+  return images;
+}
+
+export interface MastodonClientConfig {
+  /** Instance URL, e.g. https://mastodon.social */
+  instanceUrl: string;
+  /** Access token, for instances that require sign in to read timelines */
+  accessToken?: string;
+  /** Request timeout in milliseconds. Default: 30000 */
+  timeout?: number;
+  /** Custom user agent */
+  userAgent?: string;
+  /** Delay between page requests in milliseconds. Default: 1000 */
+  requestInterval?: number;
+  /** Fetch implementation for API requests, e.g. one going through a proxy. Default: global fetch */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Mastodon API client for reading media from hashtag and account timelines.
+ * Works with any instance implementing the Mastodon client API.
+ * Pure metadata fetcher - no database access, no downloading.
+ */
+export class MastodonClient {
+  private instanceUrl: string;
+  private accessToken?: string;
+  private timeout: number;
+  private userAgent: string;
+  private requestInterval: number;
+  private accountIds = new Map<string, string>();
+  private fetch: FetchFunction;
+
+  constructor(config: MastodonClientConfig) {
+    this.instanceUrl = config.instanceUrl.replace(/\/+$/, "");
+    this.accessToken = config.accessToken;
+    this.timeout = config.timeout ?? 30000;
+    this.userAgent = config.userAgent ?? USER_AGENT;
+    this.requestInterval = config.requestInterval ?? REQUEST_INTERVAL_MS;
+    this.fetch = config.fetch ?? fetch;
+  }
+
+  private async get<T>(path: string, params: URLSearchParams): Promise<T> {
+    const headers: Record<string, string> = {
+      "User-Agent": this.userAgent,
+      Accept: "application/json",
+    };
+    if (this.accessToken) {
+      headers.Authorization = `Bearer ${this.accessToken}`;
+    }
+
+    const response = await this.fetch(`${this.instanceUrl}${path}?${params.toString()}`, {
+      headers,
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`Mastodon API error: ${response.status} ${response.statusText} (check access token)`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Mastodon API error: ${response.status} ${response.statusText}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Look up an account by handle ("user" or "user@domain").
+   * Remote accounts are only found if the instance already knows them.
+   */
+  async lookupAccount(acct: string): Promise<MastodonAccount> {
+    return this.get<MastodonAccount>("/api/v1/accounts/lookup", new URLSearchParams({ acct }));
+  }
+
+  private async resolveAccountId(acct: string): Promise<string> {
+    const normalized = acct.replace(/^@/, "");
+    let id = this.accountIds.get(normalized);
+    if (!id) {
+      id = (await this.lookupAccount(normalized)).id;
+      this.accountIds.set(normalized, id);
+    }
+    return id;
+  }
+
+  private async buildStatusesPath(target: MastodonTarget): Promise<string> {
+    switch (target.type) {
+      case "hashtag":
+        return `/api/v1/timelines/tag/${encodeURIComponent(target.hashtag.replace(/^#/, ""))}`;
+      case "account":
+        return `/api/v1/accounts/${encodeURIComponent(await this.resolveAccountId(target.acct))}/statuses`;
+    }
+  }
+
+  /**
+   * Fetch a single page of statuses with media, newest first
+   */
+  async fetchStatuses(options: FetchStatusesOptions): Promise<FetchStatusesResult> {
+    const { target, limit = 20, maxId, includeReblogs = false } = options;
+
+    const params = new URLSearchParams({
+      only_media: "true",
+      limit: String(Math.min(limit, MAX_PAGE_SIZE)),
+    });
+    if (maxId) {
+      params.set("max_id", maxId);
+    }
+    if (target.type === "account" && !includeReblogs) {
+      params.set("exclude_reblogs", "true");
+    }
+
+    const statuses = await this.get<MastodonStatus[]>(await this.buildStatusesPath(target), params);
+    const images: MastodonImage[] = [];
+
+    for (const status of statuses) {
+      // Boosts carry the original status
+      images.push(...parseStatusImages(status.reblog ?? status));
+    }
+
+    return {
+      images,
+      maxId: statuses.length > 0 ? statuses[statuses.length - 1].id : null,
+      statusesProcessed: statuses.length,
+    };
+  }
+
+  /**
+   * Async generator that yields batches of images from a timeline.
+   * Each yield returns images from one API request (up to 40 statuses).
+   * Allows processing to start while fetching continues.
+   *
+   * @example
+   * ```ts
+   * const client = createMastodonClient({ instanceUrl: "https://mastodon.social" });
+   *
+   * for await (const batch of client.fetchStatusBatches({ target: { type: "hashtag", hashtag: "wallpaper" }, limit: 200 })) {
+   *   console.log(`Got ${batch.images.length} images, processing...`);
+   *   await processImages(batch.images);
+   * }
+   * ```
+   */
+  async *fetchStatusBatches(
+    options: FetchStatusesOptions
+  ): AsyncGenerator<FetchStatusesResult, void, unknown> {
+    const { limit = 20, ...rest } = options;
+    let maxId: string | undefined = rest.maxId;
+    let remaining = limit;
+
+    while (remaining > 0) {
+      const pageLimit = Math.min(remaining, MAX_PAGE_SIZE);
+
+      const result = await this.fetchStatuses({
+        ...rest,
+        limit: pageLimit,
+        maxId,
+      });
+
+      yield result;
+
+      remaining -= result.statusesProcessed;
+      maxId = result.maxId ?? undefined;
+
+      // No more pages available
+      if (!maxId) break;
+
+      // Rate limiting: wait between requests
+      if (remaining > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.requestInterval));
+      }
+    }
+  }
+}
+
+/**
+ * Create a new Mastodon client instance
+ */
+export function createMastodonClient(config: MastodonClientConfig): MastodonClient {
+  return new MastodonClient(config);
+}
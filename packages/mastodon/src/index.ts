@@ -0,0 +1,14 @@
+// Mastodon API client
+export { MastodonClient, createMastodonClient, type MastodonClientConfig } from "./client";
+
+// Types
+export type {
+  FetchFunction,
+  MastodonAccount,
+  MastodonMediaAttachment,
+  MastodonStatus,
+  MastodonImage,
+  MastodonTarget,
+  FetchStatusesOptions,
+  FetchStatusesResult,
+} from "./types";
@@ -0,0 +1,106 @@
+/**
+ * Mastodon API response types
+ */
+
+/**
+ * fetch() signature, so callers can pass a wrapped fetch (e.g. one going through a proxy)
+ */
+export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Account (GET /api/v1/accounts/lookup)
+ */
+export interface MastodonAccount {
+  id: string;
+  username: string;
+  acct: string; // "user" for local accounts, "user@domain" for remote ones
+  display_name: string;
+  url: string;
+}
+
+/**
+ * Media attachment of a status
+ */
+export interface MastodonMediaAttachment {
+  id: string;
+  type: "image" | "gifv" | "video" | "audio" | "unknown";
+  /** Null for remote media the instance has not cached */
+  url: string | null;
+  preview_url: string | null;
+  remote_url: string | null;
+  description: string | null;
+  meta?: {
+    original?: { width?: number; height?: number };
+    small?: { width?: number; height?: number };
+  } | null;
+}
+
+/**
+ * Status (GET /api/v1/timelines/tag/:hashtag, GET /api/v1/accounts/:id/statuses)
+ */
+export interface MastodonStatus {
+  id: string;
+  created_at: string; // ISO 8601
+  url: string | null;
+  uri: string;
+  content: string; // HTML
+  spoiler_text: string;
+  sensitive: boolean;
+  account: MastodonAccount;
+  media_attachments: MastodonMediaAttachment[];
+  reblog: MastodonStatus | null;
+}
+
+/**
+ * Parsed image data ready for processing
+ */
+export interface MastodonImage {
+  /** Status ID on the instance */
+  statusId: string;
+  /** Public URL of the status */
+  statusUrl: string;
+  /** Attachment ID */
+  mediaId: string;
+  /** Direct URL to the full size image */
+  imageUrl: string;
+  /** Image width in pixels (0 if unknown) */
+  width: number;
+  /** Image height in pixels (0 if unknown) */
+  height: number;
+  /** Status text without markup, or the attachment description */
+  title: string;
+  /** Account display name */
+  author: string;
+  /** Account profile URL */
+  authorUrl: string;
+  /** Whether the status is marked sensitive */
+  nsfw: boolean;
+  /** Unix timestamp when the status was created */
+  createdAt: number;
+  /** Index of the attachment within the status */
+  galleryIndex: number;
+}
+
+/** What to read statuses from */
+export type MastodonTarget =
+  | { type: "hashtag"; hashtag: string }
+  | { type: "account"; acct: string };
+
+export interface FetchStatusesOptions {
+  target: MastodonTarget;
+  /** Maximum number of statuses to fetch (capped at 40 per request) */
+  limit?: number;
+  /** Pagination cursor: only return statuses older than this ID */
+  maxId?: string;
+  /** Include boosts in account timelines. Default: false */
+  includeReblogs?: boolean;
+}
+
+export interface FetchStatusesResult {
+  /** Parsed images from the statuses */
+  images: MastodonImage[];
+  /** Cursor for next page */
+  maxId: string | null;
+  /** Number of statuses processed */
+  statusesProcessed: number;
+}
@@ -0,0 +1,108 @@
+import type { ApodEntry, DailyPicture, FetchDailyPicturesOptions, FetchFunction } from "./types";
+import { USER_AGENT, recentDates, today } from "./utils";
+
+const API_URL = "https://api.nasa.gov/planetary/apod";
+
+/** NASA's shared key, limited to 30 requests per hour per IP */
+export const APOD_DEMO_KEY = "DEMO_KEY";
+
+/** APOD publishes on US Eastern time */
+const APOD_TIME_ZONE = "America/New_York";
+
+export interface ApodClientConfig {
+  /** api.nasa.gov key. Default: DEMO_KEY */
+  apiKey?: string;
+  /** Request timeout in milliseconds. Default: 30000 */
+  timeout?: number;
+  /** Custom user agent */
+  userAgent?: string;
+  /** Fetch implementation for API requests, e.g. one going through a proxy. Default: global fetch */
+  fetch?: FetchFunction;
+}
+
+/**
+ * NASA Astronomy Picture of the Day client.
+ * Pure metadata fetcher - no database access, no downloading.
+ */
+export class ApodClient {
+  private apiKey: string;
+  private timeout: number;
+  private userAgent: string;
+  private fetch: FetchFunction;
+
+  constructor(config: ApodClientConfig = {}) {
+    this.apiKey = config.apiKey || APOD_DEMO_KEY;
+    this.timeout = config.timeout ?? 30000;
+    this.userAgent = config.userAgent ?? USER_AGENT;
+    this.fetch = config.fetch ?? fetch;
+  }
+
+  /**
+   * Convert an APOD entry. Videos and other media are dropped.
+   * Entries without a copyright field are NASA works in the public domain.
+   */
+  private parseEntry(entry: ApodEntry): DailyPicture | null {
+    const imageUrl = entry.hdurl || entry.url;
+    if (entry.media_type !== "image" || !imageUrl) return null;
+
+    // Copyright names come with stray newlines and spaces
+    const credit = entry.copyright?.replace(/\s+/g, " ").trim() || undefined;
+    const [year, month, day] = entry.date.split("-");
+
+    return {
+      date: entry.date,
+      id: entry.date,
+      imageUrl,
+      pageUrl: `https://apod.nasa.gov/apod/ap${year.slice(2)}${month}${day}.html`,
+      title: entry.title,
+      author: credit,
+      copyright: credit ? `© ${credit}` : undefined,
+      license: credit ? undefined : "Public domain",
+    };
+  }
+
+  /**
+   * Fetch today's picture and `backfillDays` previous ones, newest first
+   */
+  async fetchPictures(options: FetchDailyPicturesOptions = {}): Promise<DailyPicture[]> {
+    const dates = recentDates(today(APOD_TIME_ZONE), options.backfillDays ?? 0);
+    const params = new URLSearchParams({
+      api_key: this.apiKey,
+      start_date: dates[dates.length - 1],
+      end_date: dates[0],
+    });
+
+    const response = await this.fetch(`${API_URL}?${params.toString()}`, {
+      headers: {
+        "User-Agent": this.userAgent,
+      },
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (response.status === 429) {
+      throw new Error("APOD API error: rate limited (use your own api.nasa.gov key)");
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`APOD API error: ${response.status} ${response.statusText} (check API key)`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`APOD API error: ${response.status} ${response.statusText}`);
+    }
+
+    // A date range returns entries oldest first
+    const entries = (await response.json()) as ApodEntry[];
+    return entries
+      .map((entry) => this.parseEntry(entry))
+      .filter((picture): picture is DailyPicture => picture !== null)
+      .reverse();
+  }
+}
+
+/**
+ * Create a new APOD client instance
+ */
+export function createApodClient(config: ApodClientConfig = {}): ApodClient {
+  return new ApodClient(config);
+}
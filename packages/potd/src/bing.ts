@@ -0,0 +1,114 @@
+import type { BingArchiveResponse, BingImage, DailyPicture, FetchDailyPicturesOptions, FetchFunction } from "./types";
+import { USER_AGENT } from "./utils";
+
+const BASE_URL = "https://www.bing.com";
+
+/** The archive only goes back 7 days, with at most 8 images per request */
+const MAX_INDEX = 7;
+const MAX_PAGE_SIZE = 8;
+
+/** Bing keeps roughly the last two weeks of images */
+export const BING_MAX_BACKFILL_DAYS = MAX_INDEX + MAX_PAGE_SIZE - 1;
+
+export interface BingClientConfig {
+  /** Market, e.g. "en-US" or "ja-JP". Default: "en-US" */
+  market?: string;
+  /** Request timeout in milliseconds. Default: 30000 */
+  timeout?: number;
+  /** Custom user agent */
+  userAgent?: string;
+  /** Fetch implementation for API requests, e.g. one going through a proxy. Default: global fetch */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Bing homepage image client.
+ * Pure metadata fetcher - no database access, no downloading.
+ */
+export class BingClient {
+  private market: string;
+  private timeout: number;
+  private userAgent: string;
+  private fetch: FetchFunction;
+
+  constructor(config: BingClientConfig = {}) {
+    this.market = config.market ?? "en-US";
+    this.timeout = config.timeout ?? 30000;
+    this.userAgent = config.userAgent ?? USER_AGENT;
+    this.fetch = config.fetch ?? fetch;
+  }
+
+  private async fetchArchive(idx: number, n: number): Promise<BingImage[]> {
+    const params = new URLSearchParams({
+      format: "js",
+      idx: String(idx),
+      n: String(n),
+      mkt: this.market,
+    });
+
+    const response = await this.fetch(`${BASE_URL}/HPImageArchive.aspx?${params.toString()}`, {
+      headers: {
+        "User-Agent": this.userAgent,
+      },
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Bing API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as BingArchiveResponse;
+    return data.images ?? [];
+  }
+
+  /**
+   * Convert a Bing archive entry. The copyright field holds both the caption
+   * and the credit, e.g. "Snowy owl, Canada (© Jane Doe/Agency)".
+   */
+  private parseImage(image: BingImage): DailyPicture {
+    const match = image.copyright.match(/^(.*?)\s*\((©.*)\)\s*$/);
+    const caption = match ? match[1] : image.copyright;
+    const copyright = match ? match[2] : undefined;
+    const author = copyright?.replace(/^©\s*/, "").split("/")[0].trim() || undefined;
+    const id = new URL(image.urlbase, BASE_URL).searchParams.get("id") ?? image.hsh;
+    const date = `${image.startdate.slice(0, 4)}-${image.startdate.slice(4, 6)}-${image.startdate.slice(6, 8)}`;
+
+    return {
+      date,
+      id,
+      imageUrl: `${BASE_URL}${image.urlbase}_UHD.jpg`,
+      pageUrl: /^https?:\/\//.test(image.copyrightlink)
+        ? image.copyrightlink
+        : `${BASE_URL}/?mkt=${encodeURIComponent(this.market)}`,
+      title: caption || image.title || undefined,
+      author,
+      copyright,
+    };
+  }
+
+  /**
+   * Fetch today's image and up to BING_MAX_BACKFILL_DAYS previous ones, newest first
+   */
+  async fetchPictures(options: FetchDailyPicturesOptions = {}): Promise<DailyPicture[]> {
+    const total = Math.min((options.backfillDays ?? 0) + 1, BING_MAX_BACKFILL_DAYS + 1);
+
+    const images = await this.fetchArchive(0, Math.min(total, MAX_PAGE_SIZE));
+    if (total > MAX_PAGE_SIZE) {
+      images.push(...(await this.fetchArchive(MAX_INDEX, MAX_PAGE_SIZE)));
+    }
+
+    // The two archive windows overlap by a day
+    const seen = new Set<string>();
+    return images
+      .filter((image) => !seen.has(image.startdate) && seen.add(image.startdate))
+      .map((image) => this.parseImage(image))
+      .slice(0, total);
+  }
+}
+
+/**
+ * Create a new Bing client instance
+ */
+export function createBingClient(config: BingClientConfig = {}): BingClient {
+  return new BingClient(config);
+}
@@ -0,0 +1,15 @@
+// Picture of the day API clients
+export { BingClient, createBingClient, BING_MAX_BACKFILL_DAYS, type BingClientConfig } from "./bing";
+export { ApodClient, createApodClient, APOD_DEMO_KEY, type ApodClientConfig } from "./apod";
+export { WikimediaClient, createWikimediaClient, type WikimediaClientConfig } from "./wikimedia";
+
+// Types
+export type {
+  FetchFunction,
+  DailyPicture,
+  FetchDailyPicturesOptions,
+  BingImage,
+  BingArchiveResponse,
+  ApodEntry,
+  WikimediaFeaturedResponse,
+} from "./types";
@@ -0,0 +1,107 @@
+/**
+ * Picture of the day API response types
+ */
+
+/**
+ * fetch() signature, so callers can pass a wrapped fetch (e.g. one going through a proxy)
+ */
+export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/**
+ * A single daily picture, normalized across providers
+ */
+export interface DailyPicture {
+  /** Publication date (YYYY-MM-DD) */
+  date: string;
+  /** Stable provider-specific ID */
+  id: string;
+  /** Full resolution image URL */
+  imageUrl: string;
+  /** Page describing the picture */
+  pageUrl: string;
+  title?: string;
+  author?: string;
+  authorUrl?: string;
+  /** Copyright or credit line, as published by the provider */
+  copyright?: string;
+  /** License name, e.g. "CC BY-SA 4.0" or "Public domain" */
+  license?: string;
+  /** Known width (if the provider reports it) */
+  width?: number;
+  /** Known height (if the provider reports it) */
+  height?: number;
+}
+
+export interface FetchDailyPicturesOptions {
+  /** Number of past days to fetch in addition to today. Default: 0 */
+  backfillDays?: number;
+}
+
+// ============================================================================
+// Bing
+// ============================================================================
+
+/**
+ * Bing homepage image (GET /HPImageArchive.aspx?format=js)
+ */
+export interface BingImage {
+  startdate: string; // YYYYMMDD
+  fullstartdate: string; // YYYYMMDDHHmm
+  enddate: string;
+  url: string; // e.g. "/th?id=OHR.SnowyOwl_EN-US123_1920x1080.jpg&rf=..."
+  urlbase: string; // e.g. "/th?id=OHR.SnowyOwl_EN-US123"
+  copyright: string; // e.g. "Snowy owl in Canada (© Photographer/Agency)"
+  copyrightlink: string;
+  title: string;
+  hsh: string;
+}
+
+export interface BingArchiveResponse {
+  images?: BingImage[];
+}
+
+// ============================================================================
+// NASA APOD
+// ============================================================================
+
+/**
+ * Astronomy Picture of the Day entry (GET /planetary/apod)
+ */
+export interface ApodEntry {
+  date: string; // YYYY-MM-DD
+  title: string;
+  explanation: string;
+  media_type: "image" | "video" | "other";
+  url?: string;
+  hdurl?: string;
+  /** Absent for public domain images */
+  copyright?: string;
+  service_version: string;
+}
+
+// ============================================================================
+// Wikimedia
+// ============================================================================
+
+interface WikimediaImageSize {
+  source: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Featured content response (GET /feed/v1/wikipedia/{lang}/featured/{yyyy}/{mm}/{dd})
+ * Only the picture of the day is used.
+ */
+export interface WikimediaFeaturedResponse {
+  image?: {
+    title: string; // e.g. "File:Example.jpg"
+    thumbnail: WikimediaImageSize;
+    image: WikimediaImageSize;
+    file_page: string;
+    artist?: { html: string; text: string };
+    credit?: { html: string; text: string };
+    license?: { type: string; code: string; url?: string };
+    description?: { html: string; text: string; lang: string };
+  };
+}
@@ -0,0 +1,28 @@
+export const USER_AGENT = "fallpaper/1.0";
+
+/** Delay between requests to be polite to the API */
+export const REQUEST_INTERVAL_MS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in the given time zone
+ */
+export function today(timeZone = "UTC"): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone }).format(new Date());
+}
+
+/**
+ * Dates (YYYY-MM-DD) from `from` going back `backfillDays` days, newest first
+ */
+export function recentDates(from: string, backfillDays: number): string[] {
+  const start = Date.parse(`${from}T00:00:00Z`);
+  return Array.from({ length: backfillDays + 1 }, (_, i) =>
+    new Date(start - i * DAY_MS).toISOString().slice(0, 10)
+  );
+}
@@ -0,0 +1,97 @@
+import type { DailyPicture, FetchDailyPicturesOptions, FetchFunction, WikimediaFeaturedResponse } from "./types";
+import { REQUEST_INTERVAL_MS, USER_AGENT, recentDates, sleep, today } from "./utils";
+
+const API_URL = "https://api.wikimedia.org/feed/v1/wikipedia";
+
+export interface WikimediaClientConfig {
+  /** Wikipedia language code, used for descriptions. Default: "en" */
+  language?: string;
+  /** Request timeout in milliseconds. Default: 30000 */
+  timeout?: number;
+  /** Custom user agent */
+  userAgent?: string;
+  /** Fetch implementation for API requests, e.g. one going through a proxy. Default: global fetch */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Wikimedia Commons Picture of the Day client, via the Wikipedia featured feed.
+ * Pure metadata fetcher - no database access, no downloading.
+ */
+export class WikimediaClient {
+  private language: string;
+  private timeout: number;
+  private userAgent: string;
+  private fetch: FetchFunction;
+
+  constructor(config: WikimediaClientConfig = {}) {
+    this.language = config.language ?? "en";
+    this.timeout = config.timeout ?? 30000;
+    this.userAgent = config.userAgent ?? USER_AGENT;
+    this.fetch = config.fetch ?? fetch;
+  }
+
+  /**
+   * Fetch the picture of the day for a single date (YYYY-MM-DD)
+   */
+  async fetchPicture(date: string): Promise<DailyPicture | null> {
+    const url = `${API_URL}/${encodeURIComponent(this.language)}/featured/${date.replaceAll("-", "/")}`;
+
+    const response = await this.fetch(url, {
+      headers: {
+        "User-Agent": this.userAgent,
+      },
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Wikimedia API error: ${response.status} ${response.statusText}`);
+    }
+
+    const { image } = (await response.json()) as WikimediaFeaturedResponse;
+    if (!image) return null;
+
+    const fileName = image.title.replace(/^File:/, "").replace(/\.[a-z0-9]+$/i, "");
+
+    return {
+      date,
+      id: date,
+      imageUrl: image.image.source,
+      pageUrl: image.file_page,
+      title: image.description?.text.trim() || fileName,
+      author: image.artist?.text.trim() || undefined,
+      copyright: image.credit?.text.trim() || undefined,
+      license: image.license?.type || undefined,
+      width: image.image.width,
+      height: image.image.height,
+    };
+  }
+
+  /**
+   * Fetch today's picture and `backfillDays` previous ones, newest first
+   */
+  async fetchPictures(options: FetchDailyPicturesOptions = {}): Promise<DailyPicture[]> {
+    const pictures: DailyPicture[] = [];
+    const dates = recentDates(today(), options.backfillDays ?? 0);
+
+    for (const [i, date] of dates.entries()) {
+      if (i > 0) {
+        await sleep(REQUEST_INTERVAL_MS);
+      }
+
+      const picture = await this.fetchPicture(date);
+      if (picture) {
+        pictures.push(picture);
+      }
+    }
+
+    return pictures;
+  }
+}
+
+/**
+ * Create a new Wikimedia client instance
+ */
+export function createWikimediaClient(config: WikimediaClientConfig = {}): WikimediaClient {
+  return new WikimediaClient(config);
+}
@@ -5,11 +5,32 @@ import type {
   FetchSubredditOptions,
   FetchSubredditResult,
   SubredditInfo,
+  RedditAboutResponse,
+  RedditSubredditAbout,
+  RedditUserAbout,
+  RedditTarget,
+  RedditAccessTokenResponse,
 } from "./types";
+import { createDefaultLinkResolvers, type FetchFunction, type LinkResolverRegistry } from "./resolvers";
 
 const REDDIT_BASE_URL = "https://www.reddit.com";
+const REDDIT_OAUTH_URL = "https://oauth.reddit.com";
 const USER_AGENT = "fallpaper/1.0";
 
+/** Delay between requests when Reddit sends no rate-limit headers */
+const DEFAULT_REQUEST_INTERVAL_MS = 1000;
+
+/** Refresh OAuth tokens this long before they expire */
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+const NAME = "[a-zA-Z0-9_-]+";
+const SUBREDDIT_PATTERN = new RegExp(`^/r/${NAME}$`);
+const SUBREDDIT_MULTI_PATTERN = new RegExp(`^/r/${NAME}(\\+${NAME})+$`);
+const USER_PATTERN = new RegExp(`^/(user|u)/(${NAME})$`);
+const USER_MULTI_PATTERN = new RegExp(`^/(user|u)/(${NAME})/m/(${NAME})$`);
+const SEARCH_PATTERN = new RegExp(`^/r/${NAME}(\\+${NAME})*/search$`);
+const DOMAIN_PATTERN = /^\/domain\/[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)+$/;
+
 /**
  * Decode HTML entities in Reddit URLs
  */
@@ -31,12 +52,10 @@ function isImageUrl(url: string): boolean {
 }
 
 /**
- * Parse a single Reddit post and extract images
+ * Post fields shared by every image of the post
  */
-function parsePostImages(post: RedditPost): RedditImage[] {
-  const images: RedditImage[] = [];
-
-  const baseImage = {
+function toBaseImage(post: RedditPost): Omit<RedditImage, "imageUrl" | "width" | "height" | "galleryIndex"> {
+  return {
     postId: post.id,
     postUrl: `${REDDIT_BASE_URL}${post.permalink}`,
     title: post.title,
@@ -46,7 +65,18 @@ function parsePostImages(post: RedditPost): RedditImage[] {
     nsfw: post.over_18,
     createdAt: post.created_utc,
     score: post.score,
+    upvoteRatio: post.upvote_ratio,
+    domain: post.domain,
+    flair: post.link_flair_text || undefined,
   };
+}
+
+/**
+ * Parse a single Reddit post and extract images
+ */
+function parsePostImages(post: RedditPost): RedditImage[] {
+  const images: RedditImage[] = [];
+  const baseImage = toBaseImage(post);
 
   // Skip videos
   if (post.is_video) {
@@ -90,12 +120,17 @@ function parsePostImages(post: RedditPost): RedditImage[] {
     const imageUrl = decodeHtmlEntities(source.url);
 
     if (isImageUrl(imageUrl)) {
+      const previews = (post.preview.images[0].resolutions ?? [])
+        .map((res) => ({ ...res, url: decodeHtmlEntities(res.url) }))
+        .sort((a, b) => a.width - b.width);
+
       images.push({
         ...baseImage,
         imageUrl,
         width: source.width,
         height: source.height,
         galleryIndex: 0,
+        previews,
       });
       return images;
     }
@@ -118,47 +153,300 @@ function parsePostImages(post: RedditPost): RedditImage[] {
   return images;
 }
 
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a numeric header, returning null when missing or invalid
+ */
+function numberHeader(headers: Headers, name: string): number | null {
+  const value = headers.get(name);
+  if (value === null || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
 export interface RedditClientConfig {
   /** Request timeout in milliseconds. Default: 30000 */
   timeout?: number;
   /** Custom user agent */
   userAgent?: string;
+  /**
+   * App-only OAuth credentials (a "script" or "web" app from reddit.com/prefs/apps).
+   * When both are set, requests go to oauth.reddit.com with a client credentials token.
+   */
+  clientId?: string;
+  clientSecret?: string;
+  /** Delay between requests when Reddit sends no rate-limit headers. Default: 1000 */
+  requestInterval?: number;
+  /** How many times to wait and retry a 429 response. Default: 3 */
+  maxRetries?: number;
+  /** Override the anonymous API URL. Default: https://www.reddit.com */
+  baseUrl?: string;
+  /** Override the OAuth API URL. Default: https://oauth.reddit.com */
+  oauthUrl?: string;
+  /**
+   * Resolvers for links to image hosts (Imgur albums, Flickr, ArtStation).
+   * Default: the built-in resolvers, with Imgur albums enabled when imgurClientId is set.
+   */
+  linkResolvers?: LinkResolverRegistry;
+  /** Imgur API client ID for the default Imgur resolver */
+  imgurClientId?: string;
+  /** Fetch implementation for API and resolver requests, e.g. one going through a proxy. Default: global fetch */
+  fetch?: FetchFunction;
 }
 
 /**
  * Reddit API client for fetching subreddit posts and images.
  * Pure metadata fetcher - no database access, no downloading.
+ *
+ * Requests are paced by the x-ratelimit-remaining / x-ratelimit-reset headers:
+ * the remaining budget is spread evenly over the rest of the window, and a 429
+ * waits for the window to reset before retrying.
  */
 export class RedditClient {
   private timeout: number;
   private userAgent: string;
+  private clientId?: string;
+  private clientSecret?: string;
+  private requestInterval: number;
+  private maxRetries: number;
+  private baseUrl: string;
+  private oauthUrl: string;
+  private linkResolvers: LinkResolverRegistry;
+  private fetch: FetchFunction;
+
+  private token: { value: string; expiresAt: number } | null = null;
+  private rateLimit: { remaining: number; resetAt: number } | null = null;
+  private lastRequestAt = 0;
 
   constructor(config: RedditClientConfig = {}) {
     this.timeout = config.timeout ?? 30000;
     this.userAgent = config.userAgent ?? USER_AGENT;
+    this.clientId = config.clientId || undefined;
+    this.clientSecret = config.clientSecret || undefined;
+    this.requestInterval = config.requestInterval ?? DEFAULT_REQUEST_INTERVAL_MS;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.baseUrl = (config.baseUrl ?? REDDIT_BASE_URL).replace(/\/+$/, "");
+    this.oauthUrl = (config.oauthUrl ?? REDDIT_OAUTH_URL).replace(/\/+$/, "");
+    this.linkResolvers = config.linkResolvers ?? createDefaultLinkResolvers({ imgurClientId: config.imgurClientId });
+    this.fetch = config.fetch ?? fetch;
+  }
+
+  /** Whether requests use app-only OAuth */
+  get authenticated(): boolean {
+    return Boolean(this.clientId && this.clientSecret);
+  }
+
+  /**
+   * Get a client credentials token, reusing the cached one until it nearly expires
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+      return this.token.value;
+    }
+
+    const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64");
+    const response = await this.fetch(`${this.baseUrl}/api/v1/access_token`, {
+      method: "POST",
+      headers: {
+        "User-Agent": this.userAgent,
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: "grant_type=client_credentials",
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Reddit OAuth error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as RedditAccessTokenResponse;
+    this.token = { value: data.access_token, expiresAt: Date.now() + data.expires_in * 1000 };
+    return this.token.value;
+  }
+
+  /**
+   * Wait before the next request: until the window resets when the budget is
+   * used up, otherwise long enough to spread the remaining budget evenly
+   */
+  private async pace(): Promise<void> {
+    const now = Date.now();
+    let waitMs: number;
+
+    if (this.rateLimit) {
+      const untilReset = Math.max(0, this.rateLimit.resetAt - now);
+      waitMs = this.rateLimit.remaining < 1
+        ? untilReset
+        : this.lastRequestAt + untilReset / this.rateLimit.remaining - now;
+    } else {
+      waitMs = this.lastRequestAt + this.requestInterval - now;
+    }
+
+    if (waitMs > 0) {
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Remember the rate-limit budget from response headers
+   */
+  private updateRateLimit(response: Response): void {
+    const remaining = numberHeader(response.headers, "x-ratelimit-remaining");
+    const reset = numberHeader(response.headers, "x-ratelimit-reset");
+
+    if (response.status === 429) {
+      // Retry-After takes precedence, then the window reset
+      const retryAfter = numberHeader(response.headers, "retry-after") ?? reset ?? this.requestInterval / 1000;
+      this.rateLimit = { remaining: 0, resetAt: Date.now() + retryAfter * 1000 };
+      return;
+    }
+
+    if (remaining !== null && reset !== null) {
+      this.rateLimit = { remaining, resetAt: Date.now() + reset * 1000 };
+    }
+  }
+
+  /**
+   * GET a JSON endpoint, paced by rate-limit headers.
+   * 429 responses are retried after the window resets; an expired token is refreshed once.
+   * @param path - API path without the .json suffix, e.g. /r/wallpapers/new
+   */
+  private async request<T>(path: string, params?: URLSearchParams): Promise<T> {
+    const query = params && params.size > 0 ? `?${params.toString()}` : "";
+
+    for (let attempt = 0; ; attempt++) {
+      await this.pace();
+
+      const headers: Record<string, string> = { "User-Agent": this.userAgent };
+      let url: string;
+      if (this.authenticated) {
+        headers.Authorization = `Bearer ${await this.getAccessToken()}`;
+        url = `${this.oauthUrl}${path}${query}`;
+      } else {
+        url = `${this.baseUrl}${path}.json${query}`;
+      }
+
+      const response = await this.fetch(url, {
+        headers,
+        signal: AbortSignal.timeout(this.timeout),
+      });
+      this.lastRequestAt = Date.now();
+      this.updateRateLimit(response);
+
+      if (response.status === 429 && attempt < this.maxRetries) {
+        continue;
+      }
+
+      if (response.status === 401 && this.authenticated && attempt === 0) {
+        this.token = null;
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Reddit API error: ${response.status} ${response.statusText}`);
+      }
+
+      return (await response.json()) as T;
+    }
   }
 
   /**
-   * Parse subreddit/user path and return the base URL path
+   * Resolve a link post through the matching link resolver.
+   * Returns null when no resolver matches or resolving fails, so the
+   * post falls back to its preview.
+   */
+  private async resolveLinkedImages(post: RedditPost): Promise<RedditImage[] | null> {
+    if (post.is_gallery || post.is_video || !post.url) {
+      return null;
+    }
+
+    let resolved;
+    try {
+      resolved = await this.linkResolvers.resolve(post.url, {
+        userAgent: this.userAgent,
+        timeout: this.timeout,
+        fetch: this.fetch,
+      });
+    } catch {
+      return null;
+    }
+
+    if (!resolved || resolved.length === 0) {
+      return null;
+    }
+
+    // Some resolvers can't tell the size (e.g. direct i.imgur.com links). The
+    // preview of a single-image link shows that image, so its size is used instead.
+    const previewSource = resolved.length === 1 ? post.preview?.images?.[0]?.source : undefined;
+    const baseImage = toBaseImage(post);
+    return resolved.map((img) => {
+      const size = img.width > 0 && img.height > 0 ? img : (previewSource ?? img);
+      return {
+        ...baseImage,
+        imageUrl: img.url,
+        width: size.width,
+        height: size.height,
+        galleryIndex: img.galleryIndex,
+      };
+    });
+  }
+
+  /**
+   * Parse a source path into the listing to fetch
    * - /r/wallpapers -> /r/wallpapers
-   * - /user/username -> /user/username/submitted
-   * - /u/username -> /user/username/submitted
+   * - /r/a+b+c -> /r/a+b+c (multireddit)
+   * - /user/username, /u/username -> /user/username/submitted
+   * - /user/username/m/name, /u/username/m/name -> /user/username/m/name (multireddit)
+   * - /r/wallpapers/search?q=4k&restrict_sr=1 -> /r/wallpapers/search + query
+   * - /domain/i.redd.it -> /domain/i.redd.it
    * - wallpapers (no prefix) -> /r/wallpapers
+   *
+   * @throws Error if the path is not one of the above
    */
-  private parseTargetPath(target: string): string {
-    // Handle /user/ or /u/ prefix - these need /submitted suffix for posts
-    if (target.startsWith("/user/") || target.startsWith("/u/")) {
-      const username = target.replace(/^\/(user|u)\//, "");
-      return `/user/${username}/submitted`;
+  parseTargetPath(target: string): RedditTarget {
+    const trimmed = target.trim();
+    const [rawPath, rawQuery = ""] = trimmed.split("?", 2);
+    const path = rawPath.startsWith("/") ? rawPath.replace(/\/+$/, "") : `/r/${rawPath}`;
+
+    if (SEARCH_PATTERN.test(path)) {
+      const searchParams = Object.fromEntries(new URLSearchParams(rawQuery));
+      if (!searchParams.q?.trim()) {
+        throw new Error(`Reddit search "${target}" is missing a q= query`);
+      }
+      return { type: "search", path, searchParams };
     }
-    
-    // Handle /r/ prefix - use as-is
-    if (target.startsWith("/r/")) {
-      return target;
+
+    if (rawQuery) {
+      throw new Error(`Unsupported Reddit target "${target}": only search paths take a query`);
     }
-    
-    // No prefix - assume subreddit
-    return `/r/${target}`;
+
+    if (SUBREDDIT_PATTERN.test(path)) {
+      return { type: "subreddit", path, searchParams: {} };
+    }
+
+    if (SUBREDDIT_MULTI_PATTERN.test(path)) {
+      return { type: "multireddit", path, searchParams: {} };
+    }
+
+    // Users need the /submitted suffix for posts
+    const user = USER_PATTERN.exec(path);
+    if (user) {
+      return { type: "user", path: `/user/${user[2]}/submitted`, searchParams: {} };
+    }
+
+    const multi = USER_MULTI_PATTERN.exec(path);
+    if (multi) {
+      return { type: "multireddit", path: `/user/${multi[2]}/m/${multi[3]}`, searchParams: {} };
+    }
+
+    if (DOMAIN_PATTERN.test(path)) {
+      return { type: "domain", path, searchParams: {} };
+    }
+
+    throw new Error(`Unsupported Reddit target "${target}"`);
   }
 
   /**
@@ -168,46 +456,34 @@ export class RedditClient {
     // Determine if this is a user or subreddit
     const isUser = target.startsWith("/user/") || target.startsWith("/u/");
     
-    let aboutUrl: string;
+    let aboutPath: string;
     let name: string;
     
     if (isUser) {
-      // For users, use /user/{username}/about.json
+      // For users, use /user/{username}/about
       name = target.replace(/^\/(user|u)\//, "");
-      aboutUrl = `${REDDIT_BASE_URL}/user/${name}/about.json`;
+      aboutPath = `/user/${name}/about`;
     } else {
-      // For subreddits, use /r/{subreddit}/about.json
+      // For subreddits, use /r/{subreddit}/about
       name = target.replace(/^\/r\//, "");
-      aboutUrl = `${REDDIT_BASE_URL}/r/${name}/about.json`;
-    }
-
-    const response = await fetch(aboutUrl, {
-      headers: {
-        "User-Agent": this.userAgent,
-      },
-      signal: AbortSignal.timeout(this.timeout),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Reddit API error: ${response.status} ${response.statusText}`);
+      aboutPath = `/r/${name}/about`;
     }
 
-    const data = await response.json();
-    const info = data.data;
-
     if (isUser) {
       // User profile response
+      const { data: info } = await this.request<RedditAboutResponse<RedditUserAbout>>(aboutPath);
       return {
         name: info.name,
         title: info.subreddit?.title || info.name,
         description: info.subreddit?.public_description || "",
         over18: info.subreddit?.over_18 ?? false,
         subscribers: info.subreddit?.subscribers ?? 0,
-        iconUrl: info.icon_img || info.snoovatar_img,
+        iconUrl: info.icon_img || info.snoovatar_img || undefined,
         isUser: true,
       };
     } else {
       // Subreddit response
+      const { data: info } = await this.request<RedditAboutResponse<RedditSubredditAbout>>(aboutPath);
       return {
         name: info.display_name,
         title: info.title,
@@ -232,29 +508,34 @@ export class RedditClient {
       after,
     } = options;
 
-    const basePath = this.parseTargetPath(target);
+    const { type, path, searchParams } = this.parseTargetPath(target);
+    const params = new URLSearchParams({ limit: String(limit), raw_json: "1" });
+
+    // Search takes the sort as a parameter, listings take it as a path segment
+    let listingPath: string;
+    if (type === "search") {
+      if (sort === "rising") {
+        throw new Error('Sort "rising" is not available for Reddit search');
+      }
+      for (const [key, value] of Object.entries(searchParams)) {
+        params.set(key, value);
+      }
+      params.set("sort", sort);
+      // Unauthenticated search hides NSFW posts otherwise; the source NSFW mode filters them
+      params.set("include_over_18", "on");
+      listingPath = path;
+    } else {
+      listingPath = `${path}/${sort}`;
+    }
 
-    // Build URL
-    let url = `${REDDIT_BASE_URL}${basePath}/${sort}.json?limit=${limit}&raw_json=1`;
     if (sort === "top" && period) {
-      url += `&t=${period}`;
+      params.set("t", period);
     }
     if (after) {
-      url += `&after=${after}`;
-    }
-
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": this.userAgent,
-      },
-      signal: AbortSignal.timeout(this.timeout),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Reddit API error: ${response.status} ${response.statusText}`);
+      params.set("after", after);
     }
 
-    const listing = (await response.json()) as RedditListing<RedditPost>;
+    const listing = await this.request<RedditListing<RedditPost>>(listingPath, params);
     const images: RedditImage[] = [];
     let postsProcessed = 0;
 
@@ -269,7 +550,7 @@ export class RedditClient {
         continue;
       }
 
-      const postImages = parsePostImages(post);
+      const postImages = (await this.resolveLinkedImages(post)) ?? parsePostImages(post);
       images.push(...postImages);
     }
 
@@ -316,13 +597,8 @@ export class RedditClient {
       remaining -= result.postsProcessed;
       after = result.after ?? undefined;
 
-      // No more pages available
+      // No more pages available (requests are paced by the rate-limit headers)
       if (!after) break;
-
-      // Rate limiting: wait 1 second between requests
-      if (remaining > 0) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      }
     }
   }
 
@@ -1,6 +1,23 @@
 // Reddit API client
 export { RedditClient, createRedditClient, type RedditClientConfig } from "./client";
 
+// Link resolvers
+export {
+  LinkResolverRegistry,
+  createDefaultLinkResolvers,
+  createImgurResolver,
+  createFlickrResolver,
+  createArtStationResolver,
+  type DefaultLinkResolversConfig,
+  type ImgurResolverConfig,
+  type FlickrResolverConfig,
+  type ArtStationResolverConfig,
+  type FetchFunction,
+  type LinkResolver,
+  type LinkResolverContext,
+  type ResolvedImage,
+} from "./resolvers";
+
 // Types
 export type {
   RedditListing,
@@ -11,6 +28,12 @@ export type {
   FetchSubredditOptions,
   FetchSubredditResult,
   SubredditInfo,
+  RedditAboutResponse,
+  RedditSubredditAbout,
+  RedditUserAbout,
+  RedditAccessTokenResponse,
   SortType,
+  RedditTargetType,
+  RedditTarget,
   TopPeriod,
 } from "./types";
@@ -0,0 +1,64 @@
+import type { LinkResolver } from "./types";
+
+const ARTSTATION_URL = "https://www.artstation.com";
+
+/** Artwork page: artstation.com/artwork/{hash} */
+const ARTWORK_PATH_PATTERN = /^\/artwork\/([a-zA-Z0-9]+)/;
+
+/** ArtStation's "large" rendition is capped at this width */
+const LARGE_MAX_WIDTH = 1920;
+
+interface ArtStationProject {
+  assets: Array<{
+    asset_type: string;
+    has_image: boolean;
+    image_url: string;
+    width: number;
+    height: number;
+  }>;
+}
+
+export interface ArtStationResolverConfig {
+  /** Override the site URL. Default: https://www.artstation.com */
+  baseUrl?: string;
+}
+
+/**
+ * ArtStation artwork pages, via the public project JSON.
+ * Images wider than the "large" rendition are taken from the "4k" one.
+ */
+export function createArtStationResolver(config: ArtStationResolverConfig = {}): LinkResolver {
+  const baseUrl = (config.baseUrl ?? ARTSTATION_URL).replace(/\/+$/, "");
+
+  return {
+    name: "artstation",
+
+    matches(url) {
+      return url.hostname === "artstation.com" || url.hostname === "www.artstation.com";
+    },
+
+    async resolve(url, context) {
+      const artwork = ARTWORK_PATH_PATTERN.exec(url.pathname);
+      if (!artwork) return [];
+
+      const response = await context.fetch(`${baseUrl}/projects/${artwork[1]}.json`, {
+        headers: { "User-Agent": context.userAgent },
+        signal: AbortSignal.timeout(context.timeout),
+      });
+
+      if (!response.ok) {
+        throw new Error(`ArtStation API error: ${response.status} ${response.statusText}`);
+      }
+
+      const project = (await response.json()) as ArtStationProject;
+      return project.assets
+        .filter((asset) => asset.asset_type === "image" && asset.has_image)
+        .map((asset, index) => ({
+          url: asset.width > LARGE_MAX_WIDTH ? asset.image_url.replace("/large/", "/4k/") : asset.image_url,
+          width: asset.width,
+          height: asset.height,
+          galleryIndex: index,
+        }));
+    },
+  };
+}
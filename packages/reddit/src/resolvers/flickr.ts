@@ -0,0 +1,66 @@
+import type { LinkResolver } from "./types";
+
+const FLICKR_OEMBED_URL = "https://www.flickr.com/services/oembed/";
+
+/** Photo page: flickr.com/photos/{user}/{photoId} */
+const PHOTO_PATH_PATTERN = /^\/photos\/[^/]+\/\d+/;
+
+/** Largest size to ask oEmbed for; it answers with the biggest public size below this */
+const MAX_SIZE = 8192;
+
+interface FlickrOembed {
+  type: string;
+  url?: string;
+  width?: number | string;
+  height?: number | string;
+}
+
+export interface FlickrResolverConfig {
+  /** Override the oEmbed endpoint. Default: https://www.flickr.com/services/oembed/ */
+  oembedUrl?: string;
+}
+
+/**
+ * Flickr photo pages, via oEmbed (no API key).
+ * Returns the largest size the owner allows to be embedded.
+ */
+export function createFlickrResolver(config: FlickrResolverConfig = {}): LinkResolver {
+  const oembedUrl = config.oembedUrl ?? FLICKR_OEMBED_URL;
+
+  return {
+    name: "flickr",
+
+    matches(url) {
+      return url.hostname === "flickr.com" || url.hostname === "www.flickr.com" || url.hostname === "flic.kr";
+    },
+
+    async resolve(url, context) {
+      if (url.hostname !== "flic.kr" && !PHOTO_PATH_PATTERN.test(url.pathname)) {
+        return [];
+      }
+
+      const params = new URLSearchParams({
+        format: "json",
+        url: url.href,
+        maxwidth: String(MAX_SIZE),
+        maxheight: String(MAX_SIZE),
+      });
+
+      const response = await context.fetch(`${oembedUrl}?${params.toString()}`, {
+        headers: { "User-Agent": context.userAgent },
+        signal: AbortSignal.timeout(context.timeout),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Flickr oEmbed error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as FlickrOembed;
+      if (data.type !== "photo" || !data.url) {
+        return [];
+      }
+
+      return [{ url: data.url, width: Number(data.width) || 0, height: Number(data.height) || 0, galleryIndex: 0 }];
+    },
+  };
+}
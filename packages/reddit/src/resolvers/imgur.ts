@@ -0,0 +1,83 @@
+import type { LinkResolver, LinkResolverContext, ResolvedImage } from "./types";
+
+const IMGUR_API_URL = "https://api.imgur.com/3";
+
+const IMGUR_HOSTS = new Set(["imgur.com", "www.imgur.com", "m.imgur.com", "i.imgur.com"]);
+
+/** Single image page: imgur.com/{id}, also i.imgur.com/{id}.gifv */
+const IMAGE_PATH_PATTERN = /^\/([a-zA-Z0-9]{5,10})(\.[a-z0-9]+)?$/;
+
+/** Album or gallery post: imgur.com/a/{id}, imgur.com/gallery/{slug-}{id} */
+const ALBUM_PATH_PATTERN = /^\/(a|gallery)\/(?:[\w-]*-)?([a-zA-Z0-9]{5,10})$/;
+
+interface ImgurImage {
+  id: string;
+  link: string;
+  width: number;
+  height: number;
+  type: string;
+  animated: boolean;
+}
+
+interface ImgurResponse<T> {
+  data: T;
+  success: boolean;
+  status: number;
+}
+
+export interface ImgurResolverConfig {
+  /** Imgur API client ID (api.imgur.com/oauth2/addclient). Albums are skipped without one. */
+  clientId?: string;
+  /** Override the API URL. Default: https://api.imgur.com/3 */
+  apiUrl?: string;
+}
+
+/**
+ * Imgur single images and albums.
+ * Single images map straight to i.imgur.com; albums need an API client ID.
+ */
+export function createImgurResolver(config: ImgurResolverConfig = {}): LinkResolver {
+  const apiUrl = (config.apiUrl ?? IMGUR_API_URL).replace(/\/+$/, "");
+
+  async function fetchAlbum(id: string, context: LinkResolverContext): Promise<ResolvedImage[]> {
+    const response = await context.fetch(`${apiUrl}/album/${id}/images`, {
+      headers: {
+        "User-Agent": context.userAgent,
+        Authorization: `Client-ID ${config.clientId}`,
+      },
+      signal: AbortSignal.timeout(context.timeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Imgur API error: ${response.status} ${response.statusText}`);
+    }
+
+    const body = (await response.json()) as ImgurResponse<ImgurImage[]>;
+    return body.data
+      .filter((img) => img.type.startsWith("image/") && !img.animated)
+      .map((img, index) => ({ url: img.link, width: img.width, height: img.height, galleryIndex: index }));
+  }
+
+  return {
+    name: "imgur",
+
+    matches(url) {
+      return IMGUR_HOSTS.has(url.hostname);
+    },
+
+    async resolve(url, context) {
+      const album = ALBUM_PATH_PATTERN.exec(url.pathname);
+      if (album) {
+        return config.clientId ? fetchAlbum(album[2], context) : [];
+      }
+
+      // i.imgur.com serves the original for any extension; .gifv/.mp4 are videos
+      const image = IMAGE_PATH_PATTERN.exec(url.pathname);
+      if (image && image[2] !== ".gifv" && image[2] !== ".mp4") {
+        return [{ url: `https://i.imgur.com/${image[1]}${image[2] ?? ".jpg"}`, width: 0, height: 0, galleryIndex: 0 }];
+      }
+
+      return [];
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import { LinkResolverRegistry } from "./registry";
+import { createImgurResolver } from "./imgur";
+import { createFlickrResolver } from "./flickr";
+import { createArtStationResolver } from "./artstation";
+
+export { LinkResolverRegistry } from "./registry";
+export { createImgurResolver, type ImgurResolverConfig } from "./imgur";
+export { createFlickrResolver, type FlickrResolverConfig } from "./flickr";
+export { createArtStationResolver, type ArtStationResolverConfig } from "./artstation";
+export type { FetchFunction, LinkResolver, LinkResolverContext, ResolvedImage } from "./types";
+
+export interface DefaultLinkResolversConfig {
+  /** Imgur API client ID, needed for albums */
+  imgurClientId?: string;
+}
+
+/**
+ * Create a registry with the built-in resolvers (Imgur, Flickr, ArtStation)
+ */
+export function createDefaultLinkResolvers(config: DefaultLinkResolversConfig = {}): LinkResolverRegistry {
+  return new LinkResolverRegistry([
+    createImgurResolver({ clientId: config.imgurClientId }),
+    createFlickrResolver(),
+    createArtStationResolver(),
+  ]);
+}
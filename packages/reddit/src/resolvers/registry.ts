@@ -0,0 +1,61 @@
+import type { LinkResolver, LinkResolverContext, ResolvedImage } from "./types";
+
+/**
+ * Ordered list of link resolvers. The first resolver matching a URL handles it.
+ */
+export class LinkResolverRegistry {
+  private resolvers: LinkResolver[] = [];
+
+  constructor(resolvers: LinkResolver[] = []) {
+    for (const resolver of resolvers) {
+      this.register(resolver);
+    }
+  }
+
+  /**
+   * Add a resolver. Replaces a registered resolver with the same name.
+   */
+  register(resolver: LinkResolver): this {
+    this.resolvers = this.resolvers.filter((r) => r.name !== resolver.name);
+    this.resolvers.push(resolver);
+    return this;
+  }
+
+  /**
+   * Remove a resolver by name
+   */
+  unregister(name: string): this {
+    this.resolvers = this.resolvers.filter((r) => r.name !== name);
+    return this;
+  }
+
+  /** Names of the registered resolvers, in match order */
+  get names(): string[] {
+    return this.resolvers.map((r) => r.name);
+  }
+
+  /**
+   * Find the resolver for a URL, or null if none matches or the URL is invalid
+   */
+  find(url: string): { resolver: LinkResolver; url: URL } | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+
+    const resolver = this.resolvers.find((r) => r.matches(parsed));
+    return resolver ? { resolver, url: parsed } : null;
+  }
+
+  /**
+   * Resolve a URL with the matching resolver
+   * @returns Images, or null if no resolver handles the URL
+   */
+  async resolve(url: string, context: LinkResolverContext): Promise<ResolvedImage[] | null> {
+    const match = this.find(url);
+    if (!match) return null;
+    return match.resolver.resolve(match.url, context);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Link resolver types
+ */
+
+/**
+ * Full-resolution image found behind a post link
+ */
+export interface ResolvedImage {
+  /** Direct URL to the image */
+  url: string;
+  /** Image width in pixels (0 if unknown) */
+  width: number;
+  /** Image height in pixels (0 if unknown) */
+  height: number;
+  /** Position in the album or project, starting at 0 */
+  galleryIndex: number;
+}
+
+/**
+ * fetch() signature, so callers can pass a wrapped fetch (e.g. one going through a proxy)
+ */
+export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Request settings shared with resolvers by the client
+ */
+export interface LinkResolverContext {
+  /** User agent to send */
+  userAgent: string;
+  /** Request timeout in milliseconds */
+  timeout: number;
+  /** Fetch implementation to use (e.g. one that goes through a proxy) */
+  fetch: FetchFunction;
+}
+
+/**
+ * Turns links to an image host (album, photo page, artwork page) into image URLs
+ */
+export interface LinkResolver {
+  /** Short name used in logs, e.g. "imgur" */
+  readonly name: string;
+  /** Whether this resolver handles the URL */
+  matches(url: URL): boolean;
+  /**
+   * Resolve the URL to its full-resolution images.
+   * Returns an empty array when the page has no images.
+   */
+  resolve(url: URL, context: LinkResolverContext): Promise<ResolvedImage[]>;
+}
@@ -34,6 +34,7 @@ export interface RedditPost {
   is_gallery?: boolean;
   post_hint?: string;
   domain: string;
+  link_flair_text?: string | null;
 
   // Image data (when post_hint is "image")
   preview?: {
@@ -99,17 +100,43 @@ export interface RedditImage {
   createdAt: number;
   /** Post score (upvotes - downvotes) */
   score: number;
+  /** Share of upvotes, 0-1 */
+  upvoteRatio: number;
+  /** Domain the post links to, e.g. i.redd.it or self.wallpapers */
+  domain: string;
+  /** Post flair text, if any */
+  flair?: string;
+  /** Smaller renditions from preview.images[0].resolutions, smallest first (single image posts only) */
+  previews?: RedditImageSource[];
   /** Gallery item index (0 for non-gallery posts) */
   galleryIndex: number;
 }
 
 export type SortType = "hot" | "new" | "top" | "rising";
+
+/**
+ * Listing a source path resolves to
+ * - subreddit: /r/wallpapers
+ * - multireddit: /r/a+b+c or /user/name/m/multi
+ * - user: /user/name or /u/name (submitted posts)
+ * - search: /r/wallpapers/search?q=4k&restrict_sr=1
+ * - domain: /domain/i.redd.it
+ */
+export type RedditTargetType = "subreddit" | "multireddit" | "user" | "search" | "domain";
+
+export interface RedditTarget {
+  type: RedditTargetType;
+  /** Listing path without sort or .json suffix, e.g. /user/name/submitted */
+  path: string;
+  /** Extra query parameters (search only) */
+  searchParams: Record<string, string>;
+}
 export type TopPeriod = "hour" | "day" | "week" | "month" | "year" | "all";
 
 export interface FetchSubredditOptions {
-  /** Subreddit name (without r/) */
+  /** Subreddit name (without r/) or any path accepted by RedditClient.parseTargetPath */
   subreddit: string;
-  /** Sort type */
+  /** Sort type ("rising" is not available for search) */
   sort?: SortType;
   /** Time period for 'top' sort */
   period?: TopPeriod;
@@ -128,6 +155,48 @@ export interface FetchSubredditResult {
   postsProcessed: number;
 }
 
+/**
+ * App-only OAuth token (POST /api/v1/access_token, grant_type=client_credentials)
+ */
+export interface RedditAccessTokenResponse {
+  access_token: string;
+  token_type: string;
+  /** Lifetime in seconds */
+  expires_in: number;
+  scope: string;
+}
+
+/**
+ * Response of /r/{subreddit}/about and /user/{username}/about
+ */
+export interface RedditAboutResponse<T extends RedditSubredditAbout | RedditUserAbout> {
+  kind: string; // "t5" for subreddits, "t2" for users
+  data: T;
+}
+
+export interface RedditSubredditAbout {
+  display_name: string;
+  title: string;
+  public_description?: string;
+  over18?: boolean;
+  subscribers?: number | null;
+  icon_img?: string | null;
+  community_icon?: string | null; // with a ?width=...&s=... query
+}
+
+export interface RedditUserAbout {
+  name: string;
+  icon_img?: string;
+  snoovatar_img?: string | null;
+  // The user's profile, a subreddit of its own
+  subreddit?: {
+    title?: string;
+    public_description?: string;
+    over_18?: boolean;
+    subscribers?: number | null;
+  } | null;
+}
+
 /**
  * Subreddit info from /about.json
  */
@@ -0,0 +1,213 @@
+import type {
+  FetchFunction,
+  WallhavenSearchResponse,
+  WallhavenWallpaper,
+  WallhavenImage,
+  WallhavenCategory,
+  WallhavenPurity,
+  WallhavenSorting,
+  SearchOptions,
+  SearchResult,
+  FetchBatchesOptions,
+} from "./types";
+
+const WALLHAVEN_API_URL = "https://wallhaven.cc/api/v1";
+const USER_AGENT = "fallpaper/1.0";
+
+/** Wallhaven returns 24 wallpapers per search page */
+const PAGE_SIZE = 24;
+
+/** Wallhaven allows 45 requests per minute */
+const REQUEST_INTERVAL_MS = 1500;
+
+const CATEGORY_ORDER: WallhavenCategory[] = ["general", "anime", "people"];
+const PURITY_ORDER: WallhavenPurity[] = ["sfw", "sketchy", "nsfw"];
+
+const SORTING_MAP: Record<WallhavenSorting, string> = {
+  toplist: "toplist",
+  latest: "date_added",
+  random: "random",
+};
+
+/**
+ * Encode a list of flags as Wallhaven's bitmask string
+ * e.g. ["general", "people"] -> "101"
+ */
+function toBitmask<T extends string>(order: T[], selected: T[]): string {
+  return order.map((value) => (selected.includes(value) ? "1" : "0")).join("");
+}
+
+/**
+ * Parse Wallhaven's "YYYY-MM-DD HH:MM:SS" (UTC) timestamp to unix seconds
+ */
+function parseCreatedAt(value: string): number {
+  const ms = Date.parse(`${value.replace(" ", "T")}Z`);
+  return Number.isNaN(ms) ? Math.floor(Date.now() / 1000) : Math.floor(ms / 1000);
+}
+
+/**
+ * Convert a raw wallpaper entry to a parsed image
+ */
+function parseWallpaper(wallpaper: WallhavenWallpaper): WallhavenImage {
+  return {
+    id: wallpaper.id,
+    pageUrl: wallpaper.url,
+    imageUrl: wallpaper.path,
+    width: wallpaper.dimension_x,
+    height: wallpaper.dimension_y,
+    fileSize: wallpaper.file_size,
+    fileType: wallpaper.file_type,
+    purity: wallpaper.purity,
+    category: wallpaper.category,
+    source: wallpaper.source,
+    createdAt: parseCreatedAt(wallpaper.created_at),
+  };
+}
+
+export interface WallhavenClientConfig {
+  /** Request timeout in milliseconds. Default: 30000 */
+  timeout?: number;
+  /** Custom user agent */
+  userAgent?: string;
+  /** API key, required for NSFW purity and account-specific settings */
+  apiKey?: string;
+  /** Fetch implementation for API requests, e.g. one going through a proxy. Default: global fetch */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Wallhaven API client for searching wallpapers.
+ * Pure metadata fetcher - no database access, no downloading.
+ */
+export class WallhavenClient {
+  private timeout: number;
+  private userAgent: string;
+  private apiKey?: string;
+  private fetch: FetchFunction;
+
+  constructor(config: WallhavenClientConfig = {}) {
+    this.timeout = config.timeout ?? 30000;
+    this.userAgent = config.userAgent ?? USER_AGENT;
+    this.apiKey = config.apiKey;
+    this.fetch = config.fetch ?? fetch;
+  }
+
+  /**
+   * Build the search URL for the given options
+   */
+  private buildSearchUrl(options: SearchOptions): string {
+    const {
+      query,
+      categories = CATEGORY_ORDER,
+      purity = ["sfw"],
+      sorting = "latest",
+      topRange = "1M",
+      atleast,
+      ratios,
+      page = 1,
+      seed,
+    } = options;
+
+    const params = new URLSearchParams({
+      categories: toBitmask(CATEGORY_ORDER, categories),
+      purity: toBitmask(PURITY_ORDER, purity),
+      sorting: SORTING_MAP[sorting],
+      order: "desc",
+      page: String(page),
+    });
+
+    if (query) params.set("q", query);
+    if (sorting === "toplist") params.set("topRange", topRange);
+    if (atleast) params.set("atleast", atleast);
+    if (ratios && ratios.length > 0) params.set("ratios", ratios.join(","));
+    if (sorting === "random" && seed) params.set("seed", seed);
+
+    return `${WALLHAVEN_API_URL}/search?${params.toString()}`;
+  }
+
+  /**
+   * Fetch a single page of search results
+   */
+  async search(options: SearchOptions = {}): Promise<SearchResult> {
+    const url = this.buildSearchUrl(options);
+
+    const headers: Record<string, string> = {
+      "User-Agent": this.userAgent,
+    };
+    if (this.apiKey) {
+      headers["X-API-Key"] = this.apiKey;
+    }
+
+    const response = await this.fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (response.status === 401) {
+      throw new Error("Wallhaven API error: 401 Unauthorized (invalid or missing API key)");
+    }
+
+    if (!response.ok) {
+      throw new Error(`Wallhaven API error: ${response.status} ${response.statusText}`);
+    }
+
+    const body = (await response.json()) as WallhavenSearchResponse;
+
+    return {
+      images: body.data.map(parseWallpaper),
+      page: body.meta.current_page,
+      lastPage: body.meta.last_page,
+      seed: body.meta.seed,
+    };
+  }
+
+  /**
+   * Async generator that yields pages of search results until `limit`
+   * wallpapers have been looked up or no more pages are available.
+   *
+   * @example
+   * ```ts
+   * const client = createWallhavenClient();
+   *
+   * for await (const batch of client.searchBatches({ query: "landscape", limit: 96 })) {
+   *   console.log(`Got ${batch.images.length} images, processing...`);
+   *   await processImages(batch.images);
+   * }
+   * ```
+   */
+  async *searchBatches(
+    options: FetchBatchesOptions = {}
+  ): AsyncGenerator<SearchResult, void, unknown> {
+    const { limit = PAGE_SIZE, ...rest } = options;
+    let page = 1;
+    let seed: string | undefined = undefined;
+    let remaining = limit;
+
+    while (remaining > 0) {
+      const result = await this.search({ ...rest, page, seed });
+
+      // Only yield as many images as we were asked to look up
+      const images = result.images.slice(0, remaining);
+      yield { ...result, images };
+
+      remaining -= result.images.length;
+      seed = result.seed ?? undefined;
+
+      // No more pages available
+      if (result.images.length === 0 || result.page >= result.lastPage) break;
+      page = result.page + 1;
+
+      // Rate limiting: stay under 45 requests per minute
+      if (remaining > 0) {
+        await new Promise((resolve) => setTimeout(resolve, REQUEST_INTERVAL_MS));
+      }
+    }
+  }
+}
+
+/**
+ * Create a new Wallhaven client instance
+ */
+export function createWallhavenClient(config?: WallhavenClientConfig): WallhavenClient {
+  return new WallhavenClient(config);
+}
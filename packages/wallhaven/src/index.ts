@@ -0,0 +1,17 @@
+// Wallhaven API client
+export { WallhavenClient, createWallhavenClient, type WallhavenClientConfig } from "./client";
+
+// Types
+export type {
+  FetchFunction,
+  WallhavenWallpaper,
+  WallhavenSearchResponse,
+  WallhavenImage,
+  WallhavenCategory,
+  WallhavenPurity,
+  WallhavenSorting,
+  WallhavenTopRange,
+  SearchOptions,
+  FetchBatchesOptions,
+  SearchResult,
+} from "./types";
@@ -0,0 +1,120 @@
+/**
+ * Wallhaven API response types
+ */
+
+/**
+ * fetch() signature, so callers can pass a wrapped fetch (e.g. one going through a proxy)
+ */
+export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+export type WallhavenCategory = "general" | "anime" | "people";
+export type WallhavenPurity = "sfw" | "sketchy" | "nsfw";
+
+/**
+ * Sorting exposed by fallpaper.
+ * "latest" maps to Wallhaven's "date_added" sorting.
+ */
+export type WallhavenSorting = "toplist" | "latest" | "random";
+export type WallhavenTopRange = "1d" | "3d" | "1w" | "1M" | "3M" | "6M" | "1y";
+
+export interface WallhavenWallpaper {
+  id: string;
+  url: string; // e.g. "https://wallhaven.cc/w/94x38z"
+  short_url: string;
+  views: number;
+  favorites: number;
+  source: string;
+  purity: WallhavenPurity;
+  category: WallhavenCategory;
+  dimension_x: number;
+  dimension_y: number;
+  resolution: string; // e.g. "1920x1080"
+  ratio: string; // e.g. "1.78"
+  file_size: number;
+  file_type: string; // e.g. "image/jpeg"
+  created_at: string; // e.g. "2018-10-31 01:23:10"
+  colors: string[];
+  path: string; // full resolution image URL
+  thumbs: {
+    large: string;
+    original: string;
+    small: string;
+  };
+}
+
+export interface WallhavenSearchResponse {
+  data: WallhavenWallpaper[];
+  meta: {
+    current_page: number;
+    last_page: number;
+    per_page: number | string;
+    total: number;
+    query: string | { id: number; tag: string } | null;
+    seed: string | null;
+  };
+}
+
+/**
+ * Parsed image data ready for processing
+ */
+export interface WallhavenImage {
+  /** Wallhaven wallpaper ID */
+  id: string;
+  /** URL to the wallpaper page */
+  pageUrl: string;
+  /** Direct URL to the full resolution image */
+  imageUrl: string;
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** File size in bytes */
+  fileSize: number;
+  /** Mime type e.g. "image/jpeg" */
+  fileType: string;
+  /** Wallhaven purity rating */
+  purity: WallhavenPurity;
+  /** Wallhaven category */
+  category: WallhavenCategory;
+  /** Original source URL given by the uploader (may be empty) */
+  source: string;
+  /** Unix timestamp when the wallpaper was uploaded */
+  createdAt: number;
+}
+
+export interface SearchOptions {
+  /** Search query (tags, keywords, @username, id:123) */
+  query?: string;
+  /** Categories to include. Default: all */
+  categories?: WallhavenCategory[];
+  /** Purity levels to include. Default: sfw only. "nsfw" requires an API key */
+  purity?: WallhavenPurity[];
+  /** Sorting. Default: "latest" */
+  sorting?: WallhavenSorting;
+  /** Time range for "toplist" sorting. Default: "1M" */
+  topRange?: WallhavenTopRange;
+  /** Minimum resolution e.g. "1920x1080" */
+  atleast?: string;
+  /** Required aspect ratios e.g. ["16x9", "21x9"] */
+  ratios?: string[];
+  /** Page number (1-based) */
+  page?: number;
+  /** Seed for "random" sorting, returned by the first page */
+  seed?: string;
+}
+
+export interface FetchBatchesOptions extends Omit<SearchOptions, "page" | "seed"> {
+  /** Maximum number of wallpapers to look up */
+  limit?: number;
+}
+
+export interface SearchResult {
+  /** Parsed images from the page */
+  images: WallhavenImage[];
+  /** Current page number */
+  page: number;
+  /** Last available page number */
+  lastPage: number;
+  /** Seed for "random" sorting (pass back for the next page) */
+  seed: string | null;
+}